@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
 import Header from './components/Header';
 import Footer from './components/Footer';
@@ -9,73 +9,297 @@ import ResumesPage from './pages/ResumesPage';
 import JobSearchPage from './pages/JobSearchPage';
 import JobsCafePage from './pages/JobsCafePage';
 import AgenciesPage from './pages/AgenciesPage';
+import SavedSearchesPage from './pages/SavedSearchesPage';
+import JobBoardPage from './pages/JobBoardPage';
 import SuggestionModal from './components/SuggestionModal';
 import DistanceCheckerModal from './components/DistanceCheckerModal';
-import { JobAnalysis, Job, ImprovementSuggestion, JobListing, HiringCafeJob } from './types';
-import { analyzeJobFit, fetchJobDescriptionFromUrl } from './services/geminiService';
-import { templateResumeContent } from './data/defaultData';
+import LoginModal from './components/LoginModal';
+import DuplicateJobModal from './components/DuplicateJobModal';
+import { JobAnalysis, Job, StoredJob, FetchedJobPosting, ApplicationStatus, ImprovementSuggestion, JobListing, HiringCafeJob, BatchAnalysis, User, SearchHit } from './types';
+import { streamJobAnalysis, fetchJobDescriptionFromUrl, extractPostingFacts, startBatchAnalysis, getBatchAnalysis, cancelBatchAnalysis } from './services/geminiService';
+import { getJobs, saveJob, updateJob, updateJobStatus, deleteJob, recordLocalAnalysis } from './services/apiService';
+import { getCurrentUser, logout } from './services/authService';
+import { getSearchHits } from './services/savedSearchService';
+import { ResumeEdit, undoEdit, redoEdit } from './services/suggestionMatcher';
+import { DuplicateMatch, findDuplicateJob, mergeDuplicateJob } from './services/jobDuplicates';
+import { templateResumeContent, NEW_JOB_TITLE, NEW_JOB_COMPANY } from './data/defaultData';
+import { initialStatusHistory } from './data/pipeline';
 
+// Edits (e.g. typing a description) are batched before being written back
+const PERSIST_DEBOUNCE_MS = 500;
+// Facts are re-extracted once typing in a description pauses for this long
+const FACTS_DEBOUNCE_MS = 800;
+// How often a running "Analyze all" batch is polled for progress
+const BATCH_POLL_MS = 1500;
+// How often the header's count of new saved-search hits is refreshed
+const ALERTS_POLL_MS = 5 * 60 * 1000;
+const TRANSIENT_JOB_KEYS: (keyof Job)[] = ['isFetching', 'isLoading', 'error', 'partialAnalysis'];
+const duplicatePairKey = (a: string, b: string) => [a, b].sort().join('|');
+
+// Title and company from the page only replace placeholders, never a name the job already has
+const fetchedPostingUpdates = (job: Job, posting: FetchedJobPosting): Partial<Job> => ({
+    description: posting.text,
+    facts: posting.facts,
+    ...(posting.title && (!job.title || job.title === NEW_JOB_TITLE) ? { title: posting.title } : {}),
+    ...(posting.company && (!job.company || job.company === NEW_JOB_COMPANY) ? { company: posting.company } : {}),
+});
+
+const toStoredJob = ({ isFetching, isLoading, error, partialAnalysis, ...stored }: Job): StoredJob => stored;
+const fromStoredJob = (stored: StoredJob): Job => ({
+    ...stored,
+    // Jobs saved before the pipeline existed start out as "saved"
+    status: stored.status || 'saved',
+    statusHistory: stored.statusHistory || [],
+    isFetching: false,
+    isLoading: false,
+    error: null,
+});
 
 const App: React.FC = () => {
-    const [view, setView] = useState<'listings' | 'search' | 'resumes' | 'agencies' | 'hiringCafe'>('listings');
+    const [view, setView] = useState<'listings' | 'board' | 'search' | 'resumes' | 'agencies' | 'hiringCafe' | 'alerts'>('listings');
     const [resume, setResume] = useState<string>(templateResumeContent);
     const [jobs, setJobs] = useState<Job[]>([]);
     const [isAboutModalOpen, setIsAboutModalOpen] = useState(false);
     const [isPrivacyModalOpen, setIsPrivacyModalOpen] = useState(false);
     const [isDistanceModalOpen, setIsDistanceModalOpen] = useState(false);
+    const [isLoginModalOpen, setIsLoginModalOpen] = useState(false);
+    const [user, setUser] = useState<User | null>(null);
+    const [newHitCount, setNewHitCount] = useState(0);
     const [activeSuggestion, setActiveSuggestion] = useState<ImprovementSuggestion | null>(null);
+    // Resume edits made by accepting suggestions, most recent last
+    const [suggestionEdits, setSuggestionEdits] = useState<{ undo: ResumeEdit[]; redo: ResumeEdit[] }>({ undo: [], redo: [] });
+    const [suggestionEditError, setSuggestionEditError] = useState<string | null>(null);
+    const [pendingDuplicate, setPendingDuplicate] = useState<{ incoming: Job; match: DuplicateMatch; isAdded: boolean } | null>(null);
+    // Pairs the user chose to keep as separate jobs, so they aren't asked about again
+    const keptDuplicates = useRef(new Set<string>());
+    const [batch, setBatch] = useState<BatchAnalysis | null>(null);
+    const jobsRef = useRef<Job[]>(jobs);
+    const pendingSaves = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+    const pendingFactExtractions = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+    // What the running batch was started with, and which of its jobs have been applied
+    const activeBatch = useRef<{ resume: string; descriptions: Map<string, string>; settled: Set<string> } | null>(null);
+    const batchPollTimer = useRef<ReturnType<typeof setTimeout>>();
+
+    useEffect(() => () => clearTimeout(batchPollTimer.current), []);
+
+    useEffect(() => {
+        jobsRef.current = jobs;
+    }, [jobs]);
+
+    useEffect(() => {
+        let cancelled = false;
+        getJobs()
+            .then(stored => {
+                if (cancelled) return;
+                // Keep anything added while the list was loading
+                setJobs(prev => {
+                    const known = new Set(prev.map(j => j.id));
+                    return [...prev, ...stored.filter(j => !known.has(j.id)).map(fromStoredJob)];
+                });
+                extractMissingFacts(stored);
+            })
+            .catch(err => console.warn('Failed to load saved jobs', err));
+        getCurrentUser().then(current => {
+            if (!cancelled) setUser(current);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, []);
+
+    // Saved searches are polled on the server; only signed-in users have them
+    useEffect(() => {
+        if (!user) {
+            setNewHitCount(0);
+            return;
+        }
+        const refresh = () =>
+            getSearchHits({ unread: true })
+                .then(hits => setNewHitCount(hits.length))
+                .catch(err => console.warn('Failed to check for new saved-search hits', err));
+        refresh();
+        const timer = setInterval(refresh, ALERTS_POLL_MS);
+        return () => clearInterval(timer);
+    }, [user]);
+
+    // Signing in or out switches whose jobs are shown, so the list is replaced rather than merged
+    const reloadJobs = () => {
+        getJobs()
+            .then(stored => {
+                setJobs(stored.map(fromStoredJob));
+                extractMissingFacts(stored);
+            })
+            .catch(err => console.warn('Failed to load saved jobs', err));
+    };
+
+    const handleSignedIn = (signedIn: User) => {
+        setUser(signedIn);
+        setIsLoginModalOpen(false);
+        reloadJobs();
+    };
+
+    const handleLogout = async () => {
+        await logout();
+        setUser(null);
+        reloadJobs();
+    };
+
+    const persistNewJob = (job: Job) => {
+        saveJob(toStoredJob(job)).catch(err => console.warn(`Failed to save job ${job.id}`, err));
+    };
+
+    const schedulePersist = (id: string) => {
+        const timers = pendingSaves.current;
+        clearTimeout(timers.get(id));
+        timers.set(id, setTimeout(() => {
+            timers.delete(id);
+            const job = jobsRef.current.find(j => j.id === id);
+            if (!job) return;
+            const { id: _id, createdAt, updatedAt, ...patch } = toStoredJob(job);
+            updateJob(id, patch).catch(err => console.warn(`Failed to save job ${id}`, err));
+        }, PERSIST_DEBOUNCE_MS));
+    };
 
     const handleAddJob = () => {
         const newJob: Job = {
             id: uuidv4(),
             url: '',
-            title: 'New Job Listing',
-            company: 'Company Name',
+            title: NEW_JOB_TITLE,
+            company: NEW_JOB_COMPANY,
             description: '',
             isFetching: false,
             isLoading: false,
             error: null,
             analysis: null,
+            status: 'saved',
+            statusHistory: initialStatusHistory(),
         };
         setJobs(prev => [newJob, ...prev]);
+        persistNewJob(newJob);
     };
 
     const handleUpdateJob = (id: string, updates: Partial<Job>) => {
         setJobs(jobs => jobs.map(j => (j.id === id ? { ...j, ...updates } : j)));
+        if (Object.keys(updates).some(key => !TRANSIENT_JOB_KEYS.includes(key as keyof Job))) {
+            schedulePersist(id);
+        }
+        // Fetched descriptions come with their facts
+        if ('description' in updates && !('facts' in updates)) scheduleFactsExtraction(id);
     };
 
-    const handleAddJobFromSearch = (listing: JobListing) => {
+    const scheduleFactsExtraction = (id: string) => {
+        const timers = pendingFactExtractions.current;
+        clearTimeout(timers.get(id));
+        timers.set(id, setTimeout(() => {
+            timers.delete(id);
+            const job = jobsRef.current.find(j => j.id === id);
+            if (!job) return;
+            if (!job.description.trim()) {
+                if (job.facts) handleUpdateJob(id, { facts: null });
+                return;
+            }
+            extractPostingFacts(job.title, job.description)
+                .then(facts => {
+                    // Skip facts for a description that has been edited since
+                    const current = jobsRef.current.find(j => j.id === id);
+                    if (current?.description === job.description) handleUpdateJob(id, { facts });
+                })
+                .catch(err => console.warn(`Failed to extract facts for job ${id}`, err));
+        }, FACTS_DEBOUNCE_MS));
+    };
+
+    // Jobs saved before facts were extracted get them on load
+    const extractMissingFacts = (loaded: StoredJob[]) => {
+        loaded.filter(job => !job.facts && job.description.trim()).forEach(job => scheduleFactsExtraction(job.id));
+    };
+
+    // Fetches the job's posting into it, then checks it against the rest of the dashboard
+    const loadPosting = async (job: Job) => {
+        try {
+            const posting = await fetchJobDescriptionFromUrl(job.url);
+            const updates = fetchedPostingUpdates(job, posting);
+            handleUpdateJob(job.id, { ...updates, isFetching: false });
+            offerDuplicate({ ...job, ...updates }, true);
+        } catch (err: any) {
+            handleUpdateJob(job.id, {
+                error: `${err.message}. Please paste the description manually.`,
+                isFetching: false,
+            });
+        }
+    };
+
+    const addJob = (newJob: Job) => {
+        setJobs(prev => [newJob, ...prev]);
+        persistNewJob(newJob);
+        if (newJob.isFetching) loadPosting(newJob);
+        else if (newJob.description.trim()) scheduleFactsExtraction(newJob.id);
+    };
+
+    // Returns whether a duplicate was found and the choice offered
+    const offerDuplicate = (job: Job, isAdded: boolean): boolean => {
+        const match = findDuplicateJob(job, jobsRef.current);
+        if (!match || keptDuplicates.current.has(duplicatePairKey(job.id, match.job.id))) return false;
+        // A fetch finishing while another duplicate is being decided leaves its card as is
+        setPendingDuplicate(prev => prev ?? { incoming: job, match, isAdded });
+        return true;
+    };
+
+    // Jobs from search or hiring.cafe that are already on the dashboard aren't added without asking
+    const addJobUnlessDuplicate = (newJob: Job) => {
         setView('listings');
-        const newJob: Job = {
+        if (!offerDuplicate(newJob, false)) addJob(newJob);
+    };
+
+    const handleMergeDuplicate = () => {
+        if (!pendingDuplicate) return;
+        const { incoming, match, isAdded } = pendingDuplicate;
+        setPendingDuplicate(null);
+        const existing = jobsRef.current.find(j => j.id === match.job.id);
+        const duplicate = (isAdded && jobsRef.current.find(j => j.id === incoming.id)) || incoming;
+        if (isAdded) handleRemoveJob(incoming.id);
+        if (!existing) return;
+        const updates = mergeDuplicateJob(existing, duplicate);
+        const merged = { ...existing, ...updates };
+        // A job from search arrives without its description; fetch it into the saved job instead
+        if (!merged.description.trim() && merged.url && !merged.isFetching) {
+            handleUpdateJob(existing.id, { ...updates, isFetching: true, error: null });
+            loadPosting(merged);
+        } else if (Object.keys(updates).length) {
+            handleUpdateJob(existing.id, updates);
+        }
+    };
+
+    const handleSkipDuplicate = () => {
+        if (pendingDuplicate?.isAdded) handleRemoveJob(pendingDuplicate.incoming.id);
+        setPendingDuplicate(null);
+    };
+
+    const handleKeepBothDuplicates = () => {
+        if (!pendingDuplicate) return;
+        const { incoming, match, isAdded } = pendingDuplicate;
+        keptDuplicates.current.add(duplicatePairKey(incoming.id, match.job.id));
+        if (!isAdded) addJob(incoming);
+        setPendingDuplicate(null);
+    };
+
+    const handleAddJobFromSearch = (listing: JobListing) => {
+        addJobUnlessDuplicate({
             id: uuidv4(),
             url: listing.url,
             title: listing.title,
             company: listing.company,
-            description: 'Fetching description...',
+            description: '',
             isFetching: true,
             isLoading: false,
             error: null,
             analysis: null,
-        };
-        setJobs(prev => [newJob, ...prev]);
-
-        (async () => {
-            try {
-                const description = await fetchJobDescriptionFromUrl(listing.url);
-                handleUpdateJob(newJob.id, { description, isFetching: false });
-            } catch (err: any) {
-                handleUpdateJob(newJob.id, { 
-                    error: err.message, 
-                    isFetching: false, 
-                    description: 'Failed to fetch job description. Please paste it manually.' 
-                });
-            }
-        })();
+            status: 'saved',
+            statusHistory: initialStatusHistory(),
+        });
     };
 
     const handleAddJobFromCafe = (listing: HiringCafeJob) => {
-        setView('listings');
-        const newJob: Job = {
+        addJobUnlessDuplicate({
             id: uuidv4(),
             url: listing.url,
             title: listing.title,
@@ -85,67 +309,241 @@ const App: React.FC = () => {
             isLoading: false,
             error: null,
             analysis: null,
-        };
-        setJobs(prev => [newJob, ...prev]);
+            status: 'saved',
+            statusHistory: initialStatusHistory(),
+        });
+    };
+
+    const handleAddJobFromAlert = (hit: SearchHit) => {
+        addJobUnlessDuplicate({
+            id: uuidv4(),
+            url: hit.url,
+            title: hit.title,
+            company: hit.company,
+            description: hit.description,
+            // Hits that only came with a snippet get their posting fetched
+            isFetching: !hit.description,
+            isLoading: false,
+            error: null,
+            // Auto-analyzed hits were analyzed against the default resume
+            analysis: hit.analysis,
+            ...(hit.analysis ? { analyzedAt: hit.foundAt } : {}),
+            status: 'saved',
+            statusHistory: initialStatusHistory(),
+        });
     };
 
+    const handleChangeJobStatus = (id: string, status: ApplicationStatus) => {
+        const job = jobsRef.current.find(j => j.id === id);
+        if (!job || job.status === status) return;
+        // Status lives on its own endpoint, so apply it locally without the debounced save
+        const setStatus = (updates: Partial<Job>) =>
+            setJobs(jobs => jobs.map(j => (j.id === id ? { ...j, ...updates } : j)));
+        const previous = { status: job.status, statusHistory: job.statusHistory };
+        setStatus({
+            status,
+            statusHistory: [...job.statusHistory, { status, from: job.status, changedAt: new Date().toISOString() }],
+        });
+        updateJobStatus(id, status)
+            .then(saved => setStatus({ status: saved.status, statusHistory: saved.statusHistory }))
+            .catch(err => {
+                console.warn(`Failed to update status of job ${id}`, err);
+                setStatus({ ...previous, error: 'Could not save the status change. Please try again.' });
+            });
+    };
 
     const handleRemoveJob = (id: string) => {
         setJobs(jobs => jobs.filter(j => j.id !== id));
+        clearTimeout(pendingSaves.current.get(id));
+        pendingSaves.current.delete(id);
+        deleteJob(id).catch(err => console.warn(`Failed to delete job ${id}`, err));
     };
 
-    const handleFetchDescription = async (id: string) => {
+    const handleFetchDescription = (id: string) => {
         const job = jobs.find(j => j.id === id);
         if (!job || !job.url) return;
-        
+
         handleUpdateJob(id, { isFetching: true, error: null });
-        try {
-            const description = await fetchJobDescriptionFromUrl(job.url);
-            handleUpdateJob(id, { description, isFetching: false });
-        } catch (err: any) {
-            handleUpdateJob(id, { error: err.message, isFetching: false });
-        }
+        loadPosting(job);
     };
     
-    const handleAnalyzeJob = async (id: string) => {
+    const handleAnalyzeJob = async (id: string, refresh = false) => {
         const job = jobs.find(j => j.id === id);
         if (!job || !resume.trim() || !job.description.trim()) return;
         
-        handleUpdateJob(id, { isLoading: true, error: null });
+        handleUpdateJob(id, { isLoading: true, error: null, partialAnalysis: {} });
         try {
-            const result = await analyzeJobFit(resume, job.description);
+            // Sections fill in on the card as they arrive; the final result replaces them
+            const result = await streamJobAnalysis(resume, job.description, id, (_section, data) => {
+                setJobs(jobs => jobs.map(j => (j.id === id ? { ...j, partialAnalysis: { ...j.partialAnalysis, ...data } } : j)));
+            }, refresh);
+            recordLocalAnalysis({ jobId: id, resume, jobDescription: job.description, analysis: result });
             handleUpdateJob(id, { 
                 analysis: result, 
+                partialAnalysis: null,
                 isLoading: false, 
                 analyzedAt: new Date().toISOString() 
             });
         } catch (err: any) {
-            handleUpdateJob(id, { error: err.message, isLoading: false });
+            handleUpdateJob(id, { error: err.message, isLoading: false, partialAnalysis: null });
         }
     };
 
+    // Copies finished batch items onto their jobs, each exactly once
+    const applyBatchProgress = (snapshot: BatchAnalysis) => {
+        setBatch(snapshot);
+        const active = activeBatch.current;
+        if (!active) return;
+        snapshot.items.forEach(item => {
+            if (active.settled.has(item.key) || item.status === 'queued' || item.status === 'running') return;
+            active.settled.add(item.key);
+            if (item.status === 'done' && item.result) {
+                recordLocalAnalysis({
+                    jobId: item.key,
+                    resume: active.resume,
+                    jobDescription: active.descriptions.get(item.key) || '',
+                    analysis: item.result,
+                });
+                handleUpdateJob(item.key, { analysis: item.result, isLoading: false, analyzedAt: new Date().toISOString() });
+            } else {
+                handleUpdateJob(item.key, { isLoading: false, error: item.status === 'failed' ? item.error || 'Analysis failed' : null });
+            }
+        });
+        if (snapshot.status !== 'running') activeBatch.current = null;
+    };
+
+    // Releases every job the batch hasn't reported on yet
+    const abandonBatch = (message: string) => {
+        const active = activeBatch.current;
+        activeBatch.current = null;
+        if (!active) return;
+        active.descriptions.forEach((_description, id) => {
+            if (!active.settled.has(id)) handleUpdateJob(id, { isLoading: false, error: message });
+        });
+    };
+
+    const pollBatch = (id: string) => {
+        batchPollTimer.current = setTimeout(async () => {
+            try {
+                const snapshot = await getBatchAnalysis(id);
+                applyBatchProgress(snapshot);
+                if (snapshot.status === 'running') pollBatch(id);
+            } catch (err: any) {
+                abandonBatch(err.message);
+                setBatch(null);
+            }
+        }, BATCH_POLL_MS);
+    };
+
+    const handleAnalyzeAll = async () => {
+        if (activeBatch.current || !resume.trim()) return;
+        const targets = jobs.filter(j => j.description.trim() && !j.isLoading);
+        if (targets.length === 0) return;
+
+        activeBatch.current = {
+            resume,
+            descriptions: new Map(targets.map(j => [j.id, j.description])),
+            settled: new Set(),
+        };
+        targets.forEach(j => handleUpdateJob(j.id, { isLoading: true, error: null }));
+        try {
+            const snapshot = await startBatchAnalysis(
+                resume,
+                targets.map(j => ({ jobId: j.id, jobDescription: j.description }))
+            );
+            applyBatchProgress(snapshot);
+            if (snapshot.status === 'running') pollBatch(snapshot.id);
+        } catch (err: any) {
+            abandonBatch(err.message);
+        }
+    };
+
+    const handleCancelBatch = async () => {
+        if (!batch || batch.status !== 'running') return;
+        try {
+            applyBatchProgress(await cancelBatchAnalysis(batch.id));
+        } catch (err: any) {
+            console.warn(`Failed to cancel batch ${batch.id}`, err);
+        }
+    };
+
+    // Undo/redo steps belong to the resume they were made on
     const handleLoadResume = (content: string) => {
         setResume(content);
+        setSuggestionEdits({ undo: [], redo: [] });
+        setSuggestionEditError(null);
         setView('listings');
     };
 
-    const handleApplySuggestion = (suggestion: ImprovementSuggestion) => {
-        setResume(current => current.replace(suggestion.originalText, suggestion.suggestedRewrite));
+    const handleSelectSuggestion = (suggestion: ImprovementSuggestion) => {
+        setSuggestionEditError(null);
+        setActiveSuggestion(suggestion);
+    };
+
+    const handleCloseSuggestion = () => {
+        setSuggestionEditError(null);
         setActiveSuggestion(null);
     };
 
+    // The modal stays open when the edit no longer applies, so the rewrite can still be copied
+    const handleApplySuggestion = (edit: ResumeEdit) => {
+        const updated = redoEdit(resume, edit);
+        if (updated === null) {
+            setSuggestionEditError(`Couldn't apply "${edit.label}": the passage has changed since the preview.`);
+            return;
+        }
+        setResume(updated);
+        setSuggestionEdits(prev => ({ undo: [...prev.undo, edit], redo: [] }));
+        handleCloseSuggestion();
+    };
+
+    // An edit whose text has since been changed by hand can't be swapped back, so it's dropped
+    const handleUndoSuggestion = () => {
+        const edit = suggestionEdits.undo[suggestionEdits.undo.length - 1];
+        if (!edit) return;
+        const updated = undoEdit(resume, edit);
+        if (updated !== null) setResume(updated);
+        setSuggestionEdits(prev => ({ undo: prev.undo.slice(0, -1), redo: updated === null ? prev.redo : [...prev.redo, edit] }));
+        setSuggestionEditError(updated === null ? `Couldn't undo "${edit.label}": the rewritten text has been edited since.` : null);
+    };
 
+    const handleRedoSuggestion = () => {
+        const edit = suggestionEdits.redo[suggestionEdits.redo.length - 1];
+        if (!edit) return;
+        const updated = redoEdit(resume, edit);
+        if (updated !== null) setResume(updated);
+        setSuggestionEdits(prev => ({ undo: updated === null ? prev.undo : [...prev.undo, edit], redo: prev.redo.slice(0, -1) }));
+        setSuggestionEditError(updated === null ? `Couldn't redo "${edit.label}": the original text has been edited since.` : null);
+    };
 
     const renderContent = () => {
         switch (view) {
             case 'resumes':
-                return <ResumesPage onNavigateHome={() => setView('listings')} onLoadResume={handleLoadResume} />;
+                return <ResumesPage currentResume={resume} onNavigateHome={() => setView('listings')} onLoadResume={handleLoadResume} />;
             case 'search':
                 return <JobSearchPage onNavigateHome={() => setView('listings')} onLoadJob={handleAddJobFromSearch} />;
             case 'hiringCafe':
                 return <JobsCafePage onNavigateHome={() => setView('listings')} onLoadJob={handleAddJobFromCafe} />;
+            case 'alerts':
+                return (
+                    <SavedSearchesPage
+                        user={user}
+                        onNavigateHome={() => setView('listings')}
+                        onLoginClick={() => setIsLoginModalOpen(true)}
+                        onAddHit={handleAddJobFromAlert}
+                        onUnreadCountChange={setNewHitCount}
+                    />
+                );
              case 'agencies':
-                return <AgenciesPage onNavigateHome={() => setView('listings')} />;
+                return <AgenciesPage jobs={jobs} onNavigateHome={() => setView('listings')} />;
+            case 'board':
+                return (
+                    <JobBoardPage
+                        jobs={jobs}
+                        onChangeStatus={handleChangeJobStatus}
+                        onNavigateToList={() => setView('listings')}
+                    />
+                );
             case 'listings':
             default:
                 return (
@@ -158,7 +556,17 @@ const App: React.FC = () => {
                         onUpdateJob={handleUpdateJob}
                         onFetchDescription={handleFetchDescription}
                         onAnalyzeJob={handleAnalyzeJob}
-                        onSelectSuggestion={setActiveSuggestion}
+                        batch={batch}
+                        onAnalyzeAll={handleAnalyzeAll}
+                        onCancelBatch={handleCancelBatch}
+                        onDismissBatch={() => setBatch(null)}
+                        onChangeJobStatus={handleChangeJobStatus}
+                        onSelectSuggestion={handleSelectSuggestion}
+                        suggestionEdits={suggestionEdits}
+                        suggestionEditError={suggestionEditError}
+                        onUndoSuggestion={handleUndoSuggestion}
+                        onRedoSuggestion={handleRedoSuggestion}
+                        onNavigateToBoard={() => setView('board')}
                     />
                 );
         }
@@ -169,10 +577,16 @@ const App: React.FC = () => {
             <Header
                 onAboutClick={() => setIsAboutModalOpen(true)}
                 onNavigateToListings={() => setView('listings')}
+                onNavigateToBoard={() => setView('board')}
                 onNavigateToResumes={() => setView('resumes')}
                 onNavigateToJobSearch={() => setView('search')}
                 onNavigateToAgencies={() => setView('agencies')}
                 onNavigateToHiringCafe={() => setView('hiringCafe')}
+                onNavigateToAlerts={() => setView('alerts')}
+                newHitCount={newHitCount}
+                user={user}
+                onLoginClick={() => setIsLoginModalOpen(true)}
+                onLogout={handleLogout}
             />
             <main className="container mx-auto p-4 md:p-6 flex-grow flex flex-col">
                 {renderContent()}
@@ -181,10 +595,23 @@ const App: React.FC = () => {
             {isAboutModalOpen && <AboutModal onClose={() => setIsAboutModalOpen(false)} />}
             {isPrivacyModalOpen && <PrivacyPolicyModal onClose={() => setIsPrivacyModalOpen(false)} />}
             {isDistanceModalOpen && <DistanceCheckerModal onClose={() => setIsDistanceModalOpen(false)} />}
+            {isLoginModalOpen && <LoginModal onClose={() => setIsLoginModalOpen(false)} onSignedIn={handleSignedIn} />}
+            {pendingDuplicate && (
+                <DuplicateJobModal
+                    incoming={pendingDuplicate.incoming}
+                    match={pendingDuplicate.match}
+                    isAdded={pendingDuplicate.isAdded}
+                    onMerge={handleMergeDuplicate}
+                    onSkip={handleSkipDuplicate}
+                    onKeepBoth={handleKeepBothDuplicates}
+                />
+            )}
             {activeSuggestion && (
                 <SuggestionModal
                     suggestion={activeSuggestion}
-                    onClose={() => setActiveSuggestion(null)}
+                    resume={resume}
+                    error={suggestionEditError}
+                    onClose={handleCloseSuggestion}
                     onAccept={handleApplySuggestion}
                 />
             )}
@@ -0,0 +1,318 @@
+import React, { useMemo, useState } from "react";
+import { v4 as uuidv4 } from "uuid";
+import {
+	CoverLetterLength,
+	CoverLetterSettings,
+	CoverLetterTone,
+	CoverLetterVersion,
+	CoverLetterWorkspace,
+	Job,
+	JobAnalysis,
+} from "../types";
+import { generateCoverLetter } from "../services/geminiService";
+import { mapParagraphsToStrengths } from "../services/coverLetter";
+import { ExportFormat, downloadCoverLetter } from "../services/exportService";
+import { NEW_JOB_COMPANY } from "../data/defaultData";
+
+interface CoverLetterWorkshopProps {
+	job: Job;
+	analysis: JobAnalysis;
+	resume: string;
+	onChange: (coverLetter: CoverLetterWorkspace) => void;
+}
+
+const TONES: { value: CoverLetterTone; label: string }[] = [
+	{ value: "formal", label: "Formal" },
+	{ value: "enthusiastic", label: "Enthusiastic" },
+	{ value: "concise", label: "Concise" },
+];
+
+const LENGTHS: { value: CoverLetterLength; label: string }[] = [
+	{ value: "short", label: "Short" },
+	{ value: "medium", label: "Medium" },
+	{ value: "long", label: "Long" },
+];
+
+// Oldest versions are dropped past this many
+const MAX_VERSIONS = 20;
+
+// Jobs analyzed before the workshop existed start from the analysis' draft
+const initialWorkspace = (job: Job, analysis: JobAnalysis): CoverLetterWorkspace => ({
+	draft: analysis.coverLetterDraft || "",
+	tone: "formal",
+	length: "medium",
+	// The placeholder company shouldn't end up in a letter
+	companyName: job.company === NEW_JOB_COMPANY ? "" : job.company,
+	hiringManager: "",
+	versions: [],
+});
+
+const wordCount = (text: string) => (text.match(/\S+/g) || []).length;
+
+const CoverLetterWorkshop: React.FC<CoverLetterWorkshopProps> = ({ job, analysis, resume, onChange }) => {
+	const workspace = job.coverLetter || initialWorkspace(job, analysis);
+	const [isGenerating, setIsGenerating] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [copied, setCopied] = useState(false);
+	const [showStrengthMap, setShowStrengthMap] = useState(false);
+
+	const strengths = analysis.strengths || [];
+	const mapped = useMemo(
+		() => mapParagraphsToStrengths(workspace.draft, strengths, workspace.paragraphs),
+		[workspace.draft, workspace.paragraphs, strengths]
+	);
+	const unusedStrengths = strengths.filter((s) => !mapped.some((p) => p.strengths.includes(s)));
+	const isSaved = workspace.versions.some((v) => v.content === workspace.draft);
+
+	const update = (changes: Partial<CoverLetterWorkspace>) => onChange({ ...workspace, ...changes });
+
+	const addVersion = (version: Omit<CoverLetterVersion, "id" | "savedAt">): CoverLetterVersion[] =>
+		[{ ...version, id: uuidv4(), savedAt: new Date().toISOString() }, ...workspace.versions].slice(0, MAX_VERSIONS);
+
+	const settings = (): CoverLetterSettings => ({
+		tone: workspace.tone,
+		length: workspace.length,
+		companyName: workspace.companyName,
+		hiringManager: workspace.hiringManager,
+	});
+
+	// Every generated letter is kept as a version so regenerating never loses one
+	const handleGenerate = async () => {
+		setIsGenerating(true);
+		setError(null);
+		try {
+			const { coverLetter, paragraphs } = await generateCoverLetter({
+				resume,
+				jobDescription: job.description,
+				strengths,
+				...settings(),
+			});
+			update({
+				draft: coverLetter,
+				paragraphs,
+				versions: addVersion({ ...settings(), content: coverLetter, paragraphs, origin: "generated" }),
+			});
+		} catch (err: any) {
+			setError(err.message || "Failed to write the cover letter.");
+		} finally {
+			setIsGenerating(false);
+		}
+	};
+
+	const handleSaveVersion = () => {
+		update({ versions: addVersion({ ...settings(), content: workspace.draft, origin: "edited" }) });
+	};
+
+	const handleLoadVersion = (version: CoverLetterVersion) => {
+		update({
+			draft: version.content,
+			paragraphs: version.paragraphs,
+			tone: version.tone,
+			length: version.length,
+			companyName: version.companyName,
+			hiringManager: version.hiringManager,
+		});
+	};
+
+	const handleDeleteVersion = (id: string) => {
+		update({ versions: workspace.versions.filter((v) => v.id !== id) });
+	};
+
+	const handleDownload = async (format: ExportFormat) => {
+		setError(null);
+		try {
+			const title = [workspace.companyName, job.title].filter(Boolean).join(" - ");
+			await downloadCoverLetter(workspace.draft, resume, title, format);
+		} catch (err: any) {
+			setError(err.message || "Failed to export the cover letter.");
+		}
+	};
+
+	const handleCopy = () => {
+		navigator.clipboard.writeText(workspace.draft);
+		setCopied(true);
+		setTimeout(() => setCopied(false), 2000);
+	};
+
+	const inputClasses =
+		"w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-sm text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500";
+
+	return (
+		<div className='space-y-4'>
+			<div className='grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3'>
+				<label className='text-xs font-medium text-slate-400'>
+					Company
+					<input
+						value={workspace.companyName}
+						onChange={(e) => update({ companyName: e.target.value })}
+						placeholder='Company name'
+						className={`mt-1 ${inputClasses}`}
+					/>
+				</label>
+				<label className='text-xs font-medium text-slate-400'>
+					Hiring manager
+					<input
+						value={workspace.hiringManager}
+						onChange={(e) => update({ hiringManager: e.target.value })}
+						placeholder='e.g. Jane Smith'
+						className={`mt-1 ${inputClasses}`}
+					/>
+				</label>
+				<label className='text-xs font-medium text-slate-400'>
+					Tone
+					<select
+						value={workspace.tone}
+						onChange={(e) => update({ tone: e.target.value as CoverLetterTone })}
+						className={`mt-1 ${inputClasses}`}
+					>
+						{TONES.map((t) => (
+							<option key={t.value} value={t.value}>
+								{t.label}
+							</option>
+						))}
+					</select>
+				</label>
+				<label className='text-xs font-medium text-slate-400'>
+					Length
+					<select
+						value={workspace.length}
+						onChange={(e) => update({ length: e.target.value as CoverLetterLength })}
+						className={`mt-1 ${inputClasses}`}
+					>
+						{LENGTHS.map((l) => (
+							<option key={l.value} value={l.value}>
+								{l.label}
+							</option>
+						))}
+					</select>
+				</label>
+			</div>
+
+			<div className='flex flex-wrap items-center gap-2'>
+				<button
+					onClick={handleGenerate}
+					disabled={isGenerating || !job.description.trim() || !resume.trim()}
+					className='px-4 py-1.5 text-sm font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors'
+				>
+					{isGenerating ? "Writing..." : "Regenerate"}
+				</button>
+				<button
+					onClick={handleSaveVersion}
+					disabled={isGenerating || !workspace.draft.trim() || isSaved}
+					className='px-4 py-1.5 text-sm font-semibold text-slate-200 bg-slate-700 rounded-md hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors'
+				>
+					{isSaved ? "Saved" : "Save version"}
+				</button>
+				<button
+					onClick={() => setShowStrengthMap(!showStrengthMap)}
+					disabled={!workspace.draft.trim()}
+					className='text-sm font-semibold text-cyan-400 hover:text-cyan-300 disabled:opacity-50'
+					aria-expanded={showStrengthMap}
+				>
+					{showStrengthMap ? "Hide strengths map" : "Show strengths per paragraph"}
+				</button>
+				<span className='ml-auto flex items-center gap-3 text-xs'>
+					<span className='text-slate-500'>{wordCount(workspace.draft)} words</span>
+					<button
+						onClick={() => handleDownload("docx")}
+						disabled={!workspace.draft.trim()}
+						className='font-semibold text-cyan-400 hover:text-cyan-300 disabled:opacity-50'
+					>
+						DOCX
+					</button>
+					<button
+						onClick={() => handleDownload("pdf")}
+						disabled={!workspace.draft.trim()}
+						className='font-semibold text-cyan-400 hover:text-cyan-300 disabled:opacity-50'
+					>
+						PDF
+					</button>
+				</span>
+			</div>
+			{error && <p className='text-sm text-red-400'>{error}</p>}
+
+			<div className='relative'>
+				<textarea
+					value={workspace.draft}
+					onChange={(e) => update({ draft: e.target.value })}
+					readOnly={isGenerating}
+					rows={15}
+					className='w-full bg-slate-900 p-4 rounded-md text-slate-300 text-sm font-mono border border-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-150 ease-in-out'
+					aria-label='Cover Letter'
+				/>
+				<button
+					onClick={handleCopy}
+					className='absolute top-3 right-3 px-3 py-1 text-xs font-bold text-white bg-slate-700 rounded-md hover:bg-slate-600 transition-colors'
+				>
+					{copied ? "Copied!" : "Copy"}
+				</button>
+			</div>
+
+			{showStrengthMap && (
+				<div className='space-y-2'>
+					{mapped.map((paragraph, index) => (
+						<div key={index} className='grid grid-cols-1 md:grid-cols-3 gap-3 bg-slate-900/70 p-3 rounded-md border border-slate-700'>
+							<p className='md:col-span-2 text-sm text-slate-300 whitespace-pre-wrap'>{paragraph.text}</p>
+							<div className='text-xs space-y-1'>
+								{paragraph.strengths.length ? (
+									paragraph.strengths.map((s) => (
+										<p key={s} className='px-2 py-1 rounded bg-green-900/40 text-green-300'>
+											{s}
+										</p>
+									))
+								) : (
+									<p className='text-slate-500'>No resume strengths used</p>
+								)}
+								{paragraph.isEstimated && paragraph.strengths.length > 0 && (
+									<p className='text-slate-500 italic'>Estimated from the wording</p>
+								)}
+							</div>
+						</div>
+					))}
+					{unusedStrengths.length > 0 && (
+						<p className='text-xs text-amber-300'>Not mentioned yet: {unusedStrengths.join("; ")}</p>
+					)}
+				</div>
+			)}
+
+			{workspace.versions.length > 0 && (
+				<div>
+					<h4 className='text-sm font-semibold text-slate-300 mb-2'>Saved versions</h4>
+					<ul className='divide-y divide-slate-700 text-sm'>
+						{workspace.versions.map((version) => (
+							<li key={version.id} className='py-2 flex items-center justify-between gap-3'>
+								<div className='min-w-0'>
+									<p className='text-slate-300'>
+										{new Date(version.savedAt).toLocaleString()}
+										<span className='ml-2 text-xs text-slate-500'>
+											{version.origin === "generated" ? "Generated" : "Edited"} · {version.tone} · {version.length}
+										</span>
+									</p>
+									<p className='text-xs text-slate-500 truncate'>{version.content.slice(0, 120)}</p>
+								</div>
+								<div className='flex-shrink-0 space-x-3'>
+									<button
+										onClick={() => handleLoadVersion(version)}
+										disabled={isGenerating || version.content === workspace.draft}
+										className='text-xs font-semibold text-cyan-400 hover:text-cyan-300 disabled:opacity-50'
+									>
+										Load
+									</button>
+									<button
+										onClick={() => handleDeleteVersion(version.id)}
+										disabled={isGenerating}
+										className='text-xs font-semibold text-red-400 hover:text-red-300 disabled:opacity-50'
+									>
+										Delete
+									</button>
+								</div>
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default CoverLetterWorkshop;
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef } from "react";
+import { Job } from "../types";
+import { DuplicateMatch } from "../services/jobDuplicates";
+
+interface DuplicateJobModalProps {
+	incoming: Job;
+	match: DuplicateMatch;
+	// Whether `incoming` is already a card on the dashboard (found after fetching its posting)
+	isAdded: boolean;
+	onMerge: () => void;
+	onSkip: () => void;
+	onKeepBoth: () => void;
+}
+
+const JobSummary: React.FC<{ heading: string; job: Job }> = ({ heading, job }) => (
+	<div className='bg-slate-900/50 p-4 rounded-md border border-slate-700 min-w-0'>
+		<h3 className='text-xs font-semibold uppercase tracking-wide text-slate-500 mb-2'>{heading}</h3>
+		<p className='font-semibold text-white'>{job.title}</p>
+		<p className='text-sm text-slate-400'>{job.company}</p>
+		{job.url && <p className='mt-1 text-xs text-slate-500 truncate' title={job.url}>{job.url}</p>}
+		{job.analysis && <p className='mt-2 text-xs text-green-400'>Analyzed · {job.analysis.matchScore}% match</p>}
+	</div>
+);
+
+const DuplicateJobModal: React.FC<DuplicateJobModalProps> = ({ incoming, match, isAdded, onMerge, onSkip, onKeepBoth }) => {
+	const modalRef = useRef<HTMLDivElement>(null);
+
+	// Dismissing the dialog keeps the dashboard as it is
+	const onDismiss = isAdded ? onKeepBoth : onSkip;
+
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (event.key === "Escape") {
+				onDismiss();
+			}
+		};
+		const handleClickOutside = (event: MouseEvent) => {
+			if (modalRef.current && !modalRef.current.contains(event.target as Node)) {
+				onDismiss();
+			}
+		};
+		document.addEventListener("keydown", handleKeyDown);
+		document.addEventListener("mousedown", handleClickOutside);
+		return () => {
+			document.removeEventListener("keydown", handleKeyDown);
+			document.removeEventListener("mousedown", handleClickOutside);
+		};
+	}, [onDismiss]);
+
+	return (
+		<div
+			className='fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4'
+			role='dialog'
+			aria-modal='true'
+			aria-labelledby='duplicate-modal-title'
+		>
+			<div ref={modalRef} className='bg-slate-800 rounded-lg shadow-xl max-w-2xl w-full border border-slate-700'>
+				<div className='p-5 border-b border-slate-700'>
+					<h2 id='duplicate-modal-title' className='text-xl font-bold text-white'>
+						Already on your dashboard?
+					</h2>
+					<p className='mt-1 text-sm text-slate-400'>
+						{match.reason === "url"
+							? "This links to the same posting as a job you already have."
+							: `This looks like a job you already have (${Math.round(match.similarity * 100)}% similar title, company and description).`}
+					</p>
+				</div>
+				<div className='p-5 grid grid-cols-1 md:grid-cols-2 gap-4'>
+					<JobSummary heading={isAdded ? "Just fetched" : "Adding"} job={incoming} />
+					<JobSummary heading='Already saved' job={match.job} />
+				</div>
+				<p className='px-5 text-xs text-slate-500'>
+					Merging keeps the saved job, with its analysis and status, and fills in anything it is missing from this one.
+				</p>
+				<div className='px-5 py-4 mt-4 bg-slate-900/50 rounded-b-lg flex flex-wrap justify-end items-center gap-3'>
+					<button
+						onClick={onKeepBoth}
+						className='px-4 py-2 text-sm font-semibold text-slate-400 hover:text-slate-200 transition-colors duration-150'
+					>
+						{isAdded ? "Keep both" : "Add anyway"}
+					</button>
+					{!isAdded && (
+						<button
+							onClick={onSkip}
+							className='px-5 py-2 text-sm font-bold text-slate-300 bg-slate-600 rounded-md hover:bg-slate-500 transition-colors duration-150'
+						>
+							Skip
+						</button>
+					)}
+					<button
+						onClick={onMerge}
+						className='px-5 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 transition-colors duration-150'
+					>
+						Merge
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+};
+
+export default DuplicateJobModal;
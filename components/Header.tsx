@@ -1,4 +1,5 @@
 import React, { useState } from "react";
+import { User } from "../types";
 
 const NavLink: React.FC<{
 	href?: string;
@@ -24,25 +25,39 @@ const NavLink: React.FC<{
 interface HeaderProps {
 	onAboutClick: () => void;
 	onNavigateToListings: () => void;
+	onNavigateToBoard: () => void;
 	onNavigateToResumes: () => void;
 	onNavigateToJobSearch: () => void;
 	onNavigateToAgencies: () => void;
 	onNavigateToHiringCafe: () => void;
+	onNavigateToAlerts: () => void;
+	// Unread hits from saved searches
+	newHitCount: number;
+	user: User | null;
+	onLoginClick: () => void;
+	onLogout: () => void;
 }
 
 const Header: React.FC<HeaderProps> = ({
 	onAboutClick,
 	onNavigateToListings,
+	onNavigateToBoard,
 	onNavigateToResumes,
 	onNavigateToJobSearch,
 	onNavigateToAgencies,
 	onNavigateToHiringCafe,
+	onNavigateToAlerts,
+	newHitCount,
+	user,
+	onLoginClick,
+	onLogout,
 }) => {
 	const [isMenuOpen, setIsMenuOpen] = useState(false);
 
 	const navItems = [
 		{ name: "Cover Letters", action: () => {}, isExternal: true },
 		{ name: "Agencies", action: onNavigateToAgencies },
+		{ name: "Pipeline", action: onNavigateToBoard },
 		{ name: "Dashboard", action: onNavigateToListings },
 	];
 
@@ -86,6 +101,14 @@ const Header: React.FC<HeaderProps> = ({
 						>
 							Hiring.cafe
 						</button>
+						<button
+							onClick={onNavigateToAlerts}
+							className='flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-300 rounded-md hover:bg-slate-700 hover:text-white transition-colors'
+							aria-label={newHitCount > 0 ? `Alerts, ${newHitCount} new matching jobs` : "Alerts"}
+						>
+							Alerts
+							{newHitCount > 0 && <NewHitBadge count={newHitCount} />}
+						</button>
 
 						{navItems.map((item) => (
 							<button
@@ -96,6 +119,25 @@ const Header: React.FC<HeaderProps> = ({
 								{item.name}
 							</button>
 						))}
+
+						{user ? (
+							<div className='flex items-center pl-2 ml-2 border-l border-slate-700'>
+								<span className='px-2 text-sm text-slate-400'>{user.username}</span>
+								<button
+									onClick={onLogout}
+									className='px-3 py-2 text-sm font-medium text-slate-300 rounded-md hover:bg-slate-700 hover:text-white transition-colors'
+								>
+									Sign out
+								</button>
+							</div>
+						) : (
+							<button
+								onClick={onLoginClick}
+								className='ml-2 px-3 py-2 text-sm font-medium text-white bg-cyan-600 rounded-md hover:bg-cyan-500 transition-colors'
+							>
+								Sign in
+							</button>
+						)}
 					</nav>
 
 					{/* Mobile Menu Button */}
@@ -148,6 +190,14 @@ const Header: React.FC<HeaderProps> = ({
 						>
 							Hiring cafe
 						</NavLink>
+						<NavLink
+							onClick={() => {
+								onNavigateToAlerts();
+								setIsMenuOpen(false);
+							}}
+						>
+							Alerts{newHitCount > 0 && ` (${newHitCount} new)`}
+						</NavLink>
 						{navItems.map((item) => (
 							<NavLink
 								key={item.name}
@@ -159,6 +209,14 @@ const Header: React.FC<HeaderProps> = ({
 								{item.name}
 							</NavLink>
 						))}
+						<NavLink
+							onClick={() => {
+								(user ? onLogout : onLoginClick)();
+								setIsMenuOpen(false);
+							}}
+						>
+							{user ? `Sign out (${user.username})` : "Sign in"}
+						</NavLink>
 					</div>
 				</div>
 			)}
@@ -166,6 +224,12 @@ const Header: React.FC<HeaderProps> = ({
 	);
 };
 
+const NewHitBadge: React.FC<{ count: number }> = ({ count }) => (
+	<span className='min-w-[1.25rem] px-1.5 py-0.5 text-xs font-bold leading-none text-white bg-cyan-600 rounded-full text-center'>
+		{count > 99 ? "99+" : count}
+	</span>
+);
+
 const MenuIcon = () => (
 	<svg
 		className='block h-6 w-6'
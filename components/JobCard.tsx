@@ -1,21 +1,28 @@
 import React from "react";
-import { Job, ImprovementSuggestion } from "../types";
+import { Job, ApplicationStatus, ImprovementSuggestion } from "../types";
+import { APPLICATION_STATUSES } from "../data/pipeline";
 import Loader from "./Loader";
 import MatchResult from "./MatchResult";
+import CoverLetterWorkshop from "./CoverLetterWorkshop";
+import ResumeComparison from "./ResumeComparison";
+import ScoreHistory from "./ScoreHistory";
 import TextAreaInput from "./TextAreaInput";
+import PostingFactChips from "./PostingFactChips";
 
 interface JobCardProps {
 	job: Job;
 	resume: string;
 	onJobChange: (
 		id: string,
-		updates: Partial<Pick<Job, "url" | "description">>
+		updates: Partial<Pick<Job, "url" | "description" | "coverLetter">>
 	) => void;
 	onFetch: (id: string) => void;
-	onAnalyze: (id: string) => void;
+	onAnalyze: (id: string, refresh?: boolean) => void;
 	onRemove: (id: string) => void;
+	onChangeStatus: (id: string, status: ApplicationStatus) => void;
 	isAnalyzeDisabled: boolean;
 	onSelectSuggestion: (suggestion: ImprovementSuggestion) => void;
+	onUseResume: (content: string) => void;
 }
 
 const JobCard: React.FC<JobCardProps> = ({
@@ -25,8 +32,10 @@ const JobCard: React.FC<JobCardProps> = ({
 	onFetch,
 	onAnalyze,
 	onRemove,
+	onChangeStatus,
 	isAnalyzeDisabled,
 	onSelectSuggestion,
+	onUseResume,
 }) => {
 	// A simple URL validation. It allows for URLs with or without a protocol.
 	const isValidUrl = (url: string): boolean => {
@@ -57,7 +66,25 @@ const JobCard: React.FC<JobCardProps> = ({
 						<p className='text-sm text-slate-400'>
 							{job.company || "Enter company name and job URL"}
 						</p>
+						{job.facts && <PostingFactChips facts={job.facts} />}
 					</div>
+					<label htmlFor={`job-status-${job.id}`} className='sr-only'>
+						Application status
+					</label>
+					<select
+						id={`job-status-${job.id}`}
+						value={job.status}
+						onChange={(e) =>
+							onChangeStatus(job.id, e.target.value as ApplicationStatus)
+						}
+						className='mr-2 bg-slate-800 border border-slate-600 rounded-md px-2 py-1.5 text-xs font-semibold text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500'
+					>
+						{APPLICATION_STATUSES.map((option) => (
+							<option key={option.value} value={option.value}>
+								{option.label}
+							</option>
+						))}
+					</select>
 					<button
 						onClick={() => onRemove(job.id)}
 						className='p-2 text-sm font-medium text-slate-400 bg-slate-800/50 rounded-full hover:bg-red-800/50 hover:text-red-300 transition-colors duration-150'
@@ -132,7 +159,11 @@ const JobCard: React.FC<JobCardProps> = ({
 					label='Paste Job Description'
 					value={job.description}
 					onChange={(e) => onJobChange(job.id, { description: e.target.value })}
-					placeholder='Paste the full job description here...'
+					placeholder={
+						job.isFetching
+							? "Fetching description..."
+							: "Paste the full job description here..."
+					}
 					rows={8}
 				/>
 				<div className='pt-2 flex items-center justify-end'>
@@ -144,20 +175,48 @@ const JobCard: React.FC<JobCardProps> = ({
 						{job.isLoading ? <Loader /> : "Analyze Match"}
 					</button>
 				</div>
+				{job.description.trim() && (
+					<ResumeComparison
+						jobId={job.id}
+						jobDescription={job.description}
+						onUseResume={onUseResume}
+					/>
+				)}
 			</div>
 			{job.error && (
 				<div className='bg-red-900/50 text-red-300 p-4 text-sm border-t border-red-700'>
 					<strong>Error:</strong> {job.error}
 				</div>
 			)}
-			{job.analysis && (
+			{job.isLoading && job.partialAnalysis ? (
 				<div className='p-4 border-t border-slate-700'>
 					<MatchResult
-						analysis={job.analysis}
+						analysis={job.partialAnalysis}
+						isStreaming
 						resume={resume}
 						onSelectSuggestion={onSelectSuggestion}
 					/>
 				</div>
+			) : (
+				job.analysis && (
+					<div className='p-4 border-t border-slate-700'>
+						<MatchResult
+							analysis={job.analysis}
+							resume={resume}
+							onSelectSuggestion={onSelectSuggestion}
+							onRefresh={isAnalyzeDisabled ? undefined : () => onAnalyze(job.id, true)}
+							coverLetterEditor={
+								<CoverLetterWorkshop
+									job={job}
+									analysis={job.analysis}
+									resume={resume}
+									onChange={(coverLetter) => onJobChange(job.id, { coverLetter })}
+								/>
+							}
+						/>
+						<ScoreHistory jobId={job.id} refreshKey={job.analyzedAt} />
+					</div>
+				)
 			)}
 		</div>
 	);
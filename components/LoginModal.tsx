@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from "react";
+import { User } from "../types";
+import { login, register } from "../services/authService";
+
+interface LoginModalProps {
+	onClose: () => void;
+	onSignedIn: (user: User) => void;
+}
+
+const LoginModal: React.FC<LoginModalProps> = ({ onClose, onSignedIn }) => {
+	const modalRef = useRef<HTMLDivElement>(null);
+	const [mode, setMode] = useState<"login" | "register">("login");
+	const [username, setUsername] = useState("");
+	const [password, setPassword] = useState("");
+	const [error, setError] = useState<string | null>(null);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	useEffect(() => {
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (event.key === "Escape") {
+				onClose();
+			}
+		};
+
+		const handleClickOutside = (event: MouseEvent) => {
+			if (
+				modalRef.current &&
+				!modalRef.current.contains(event.target as Node)
+			) {
+				onClose();
+			}
+		};
+
+		document.addEventListener("keydown", handleKeyDown);
+		document.addEventListener("mousedown", handleClickOutside);
+
+		return () => {
+			document.removeEventListener("keydown", handleKeyDown);
+			document.removeEventListener("mousedown", handleClickOutside);
+		};
+	}, [onClose]);
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault();
+		setIsSubmitting(true);
+		setError(null);
+		try {
+			const user = await (mode === "login" ? login : register)(username.trim(), password);
+			onSignedIn(user);
+		} catch (err: any) {
+			setError(err.message || "Something went wrong. Please try again.");
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const isLogin = mode === "login";
+
+	return (
+		<div
+			className='fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4'
+			role='dialog'
+			aria-modal='true'
+			aria-labelledby='login-modal-title'
+		>
+			<div
+				ref={modalRef}
+				className='bg-slate-800 rounded-lg shadow-xl max-w-sm w-full border border-slate-700'
+			>
+				<div className='p-6 border-b border-slate-700 flex justify-between items-center'>
+					<h2 id='login-modal-title' className='text-xl font-bold text-white'>
+						{isLogin ? "Sign In" : "Create Account"}
+					</h2>
+					<button
+						onClick={onClose}
+						className='text-slate-400 hover:text-white transition-colors'
+						aria-label='Close'
+					>
+						<svg className='h-6 w-6' fill='none' viewBox='0 0 24 24' stroke='currentColor'>
+							<path strokeLinecap='round' strokeLinejoin='round' strokeWidth={2} d='M6 18L18 6M6 6l12 12' />
+						</svg>
+					</button>
+				</div>
+				<form onSubmit={handleSubmit} className='p-6 space-y-4'>
+					<p className='text-sm text-slate-400'>
+						Signed in, your resumes, jobs and analysis history are saved to your account. Signed out, they stay in this browser.
+					</p>
+					<div>
+						<label htmlFor='login-username' className='block text-sm font-medium text-slate-300 mb-1'>
+							Username
+						</label>
+						<input
+							id='login-username'
+							value={username}
+							onChange={(e) => setUsername(e.target.value)}
+							autoComplete='username'
+							autoFocus
+							required
+							className='w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500'
+						/>
+					</div>
+					<div>
+						<label htmlFor='login-password' className='block text-sm font-medium text-slate-300 mb-1'>
+							Password
+						</label>
+						<input
+							id='login-password'
+							type='password'
+							value={password}
+							onChange={(e) => setPassword(e.target.value)}
+							autoComplete={isLogin ? "current-password" : "new-password"}
+							minLength={isLogin ? undefined : 8}
+							required
+							className='w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500'
+						/>
+					</div>
+					{error && <p className='text-sm text-red-400'>{error}</p>}
+					<button
+						type='submit'
+						disabled={isSubmitting || !username.trim() || !password}
+						className='w-full px-4 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors'
+					>
+						{isSubmitting ? "Please wait..." : isLogin ? "Sign In" : "Create Account"}
+					</button>
+					<button
+						type='button'
+						onClick={() => {
+							setMode(isLogin ? "register" : "login");
+							setError(null);
+						}}
+						className='w-full text-xs text-cyan-400 hover:text-cyan-300'
+					>
+						{isLogin ? "No account yet? Create one" : "Already have an account? Sign in"}
+					</button>
+				</form>
+			</div>
+		</div>
+	);
+};
+
+export default LoginModal;
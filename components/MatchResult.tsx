@@ -1,10 +1,16 @@
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect } from "react";
 import { JobAnalysis, ImprovementSuggestion, Keyword } from "../types";
 
 interface MatchResultProps {
-	analysis: JobAnalysis;
+	// Partial while an analysis is still streaming in
+	analysis: Partial<JobAnalysis>;
+	isStreaming?: boolean;
 	resume: string;
+	// Re-runs the analysis past the server cache; offered on cached results
+	onRefresh?: () => void;
 	onSelectSuggestion: (suggestion: ImprovementSuggestion) => void;
+	// Replaces the plain draft textarea, e.g. with the job's cover letter workshop
+	coverLetterEditor?: React.ReactNode;
 }
 
 const AnalysisSection: React.FC<{
@@ -12,7 +18,9 @@ const AnalysisSection: React.FC<{
 	children: React.ReactNode;
 	icon: React.ReactNode;
 	defaultOpen?: boolean;
-}> = ({ title, children, icon, defaultOpen = false }) => {
+	// Its data hasn't arrived yet
+	isPending?: boolean;
+}> = ({ title, children, icon, defaultOpen = false, isPending = false }) => {
 	const [isOpen, setIsOpen] = useState(defaultOpen);
 	return (
 		<div className='bg-slate-800/50 rounded-lg border border-slate-700'>
@@ -23,6 +31,11 @@ const AnalysisSection: React.FC<{
 				<h3 className='text-lg font-semibold text-cyan-400 flex items-center'>
 					{icon}
 					<span className='ml-2'>{title}</span>
+					{isPending && (
+						<span className='ml-3 text-xs font-normal text-slate-400 animate-pulse'>
+							Generating...
+						</span>
+					)}
 				</h3>
 				<span
 					className={`transform transition-transform duration-200 ${
@@ -32,7 +45,11 @@ const AnalysisSection: React.FC<{
 					<ChevronDownIcon />
 				</span>
 			</button>
-			{isOpen && <div className='p-4 pt-0'>{children}</div>}
+			{isOpen && (
+				<div className='p-4 pt-0'>
+					{isPending ? <div className='h-12 bg-slate-700/40 rounded-md animate-pulse' /> : children}
+				</div>
+			)}
 		</div>
 	);
 };
@@ -97,12 +114,27 @@ const HighlightedResume: React.FC<{ resume: string; keywords: string[] }> = ({
 
 const MatchResult: React.FC<MatchResultProps> = ({
 	analysis,
+	isStreaming = false,
 	resume,
 	onSelectSuggestion,
+	onRefresh,
+	coverLetterEditor,
 }) => {
-	const [coverLetter, setCoverLetter] = useState(analysis.coverLetterDraft);
+	const [coverLetter, setCoverLetter] = useState(analysis.coverLetterDraft ?? "");
 	const [copied, setCopied] = useState(false);
 
+	// The draft arrives last when streaming, and changes on re-analysis
+	useEffect(() => {
+		setCoverLetter(analysis.coverLetterDraft ?? "");
+	}, [analysis.coverLetterDraft]);
+
+	const matchScore = analysis.matchScore ?? 0;
+	const matchedKeywords = analysis.matchedKeywords ?? [];
+	const missingKeywords = analysis.missingKeywords ?? [];
+	const improvementSuggestions = analysis.improvementSuggestions ?? [];
+	const strengths = analysis.strengths ?? [];
+	const gaps = analysis.gaps ?? [];
+
 	const handleCopy = () => {
 		navigator.clipboard.writeText(coverLetter);
 		setCopied(true);
@@ -110,9 +142,9 @@ const MatchResult: React.FC<MatchResultProps> = ({
 	};
 
 	const scoreColor =
-		analysis.matchScore >= 75
+		matchScore >= 75
 			? "text-green-400"
-			: analysis.matchScore >= 50
+			: matchScore >= 50
 			? "text-yellow-400"
 			: "text-red-400";
 
@@ -163,10 +195,42 @@ const MatchResult: React.FC<MatchResultProps> = ({
 	return (
 		<div className='space-y-6'>
 			<div className='flex flex-col md:flex-row items-center gap-6 bg-slate-800 p-4 rounded-lg'>
-				<ProgressRing score={analysis.matchScore} />
+				<ProgressRing score={matchScore} />
 				<div className='flex-1 text-center md:text-left'>
-					<h2 className='text-2xl font-bold text-white'>Analysis Complete</h2>
-					<p className='text-slate-400 mt-1'>{analysis.summary}</p>
+					<h2 className='text-2xl font-bold text-white'>
+						{isStreaming ? "Analyzing..." : "Analysis Complete"}
+					</h2>
+					{analysis.source === "offline" && (
+						<span
+							title='The AI model was unavailable, so this result comes from local keyword matching.'
+							className='inline-block mt-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-amber-900/50 text-amber-300'
+						>
+							Offline analysis
+						</span>
+					)}
+					{analysis.cached && (
+						<span className='inline-flex items-center gap-2 mt-1 ml-1'>
+							<span
+								title={`Reused from an identical analysis${
+									analysis.cachedAt ? ` on ${new Date(analysis.cachedAt).toLocaleString()}` : ""
+								}; the AI model was not called again.`}
+								className='text-xs font-semibold px-2 py-0.5 rounded-full bg-slate-700 text-slate-300'
+							>
+								Cached
+							</span>
+							{onRefresh && (
+								<button
+									onClick={onRefresh}
+									className='text-xs font-semibold text-cyan-400 hover:text-cyan-300'
+								>
+									Refresh
+								</button>
+							)}
+						</span>
+					)}
+					<p className='text-slate-400 mt-1'>
+						{analysis.summary ?? (isStreaming ? "Reading your resume against the job description..." : "")}
+					</p>
 				</div>
 			</div>
 
@@ -174,19 +238,20 @@ const MatchResult: React.FC<MatchResultProps> = ({
 				title='Keyword Analysis'
 				icon={<KeyIcon />}
 				defaultOpen={true}
+				isPending={isStreaming && !analysis.matchedKeywords}
 			>
 				<div className='space-y-4'>
 					<div>
 						<h4 className='font-semibold text-green-400 mb-2'>
 							Matched Keywords
 						</h4>
-						<KeywordCloud keywords={analysis.matchedKeywords} color='green' />
+						<KeywordCloud keywords={matchedKeywords} color='green' />
 					</div>
 					<div>
 						<h4 className='font-semibold text-red-400 mb-2'>
 							Missing Keywords (Gaps)
 						</h4>
-						<KeywordCloud keywords={analysis.missingKeywords} color='red' />
+						<KeywordCloud keywords={missingKeywords} color='red' />
 					</div>
 				</div>
 			</AnalysisSection>
@@ -195,9 +260,10 @@ const MatchResult: React.FC<MatchResultProps> = ({
 				title='Actionable Suggestions'
 				icon={<MagicWandIcon />}
 				defaultOpen={true}
+				isPending={isStreaming && !analysis.improvementSuggestions}
 			>
 				<div className='space-y-3'>
-					{analysis.improvementSuggestions.map((suggestion, index) => (
+					{improvementSuggestions.map((suggestion, index) => (
 						<div
 							key={index}
 							className='bg-slate-900/70 p-3 rounded-md border border-slate-700 flex flex-col sm:flex-row justify-between sm:items-center gap-3'
@@ -221,47 +287,65 @@ const MatchResult: React.FC<MatchResultProps> = ({
 				</div>
 			</AnalysisSection>
 
-			<AnalysisSection title='Highlighted Resume' icon={<DocumentTextIcon />}>
+			<AnalysisSection
+				title='Highlighted Resume'
+				icon={<DocumentTextIcon />}
+				isPending={isStreaming && !analysis.matchedKeywords}
+			>
 				<HighlightedResume
 					resume={resume}
-					keywords={analysis.matchedKeywords.map((k) => k.keyword)}
+					keywords={matchedKeywords.map((k) => k.keyword)}
 				/>
 			</AnalysisSection>
 
 			<div className='grid grid-cols-1 md:grid-cols-2 gap-6'>
-				<AnalysisSection title='Strengths' icon={<CheckIcon />}>
+				<AnalysisSection
+					title='Strengths'
+					icon={<CheckIcon />}
+					isPending={isStreaming && !analysis.strengths}
+				>
 					<ul className='list-disc list-inside space-y-2 text-slate-300'>
-						{analysis.strengths.map((item, index) => (
+						{strengths.map((item, index) => (
 							<li key={index}>{item}</li>
 						))}
 					</ul>
 				</AnalysisSection>
 
-				<AnalysisSection title='Potential Gaps' icon={<AlertIcon />}>
+				<AnalysisSection
+					title='Potential Gaps'
+					icon={<AlertIcon />}
+					isPending={isStreaming && !analysis.gaps}
+				>
 					<ul className='list-disc list-inside space-y-2 text-slate-300'>
-						{analysis.gaps.map((item, index) => (
+						{gaps.map((item, index) => (
 							<li key={index}>{item}</li>
 						))}
 					</ul>
 				</AnalysisSection>
 			</div>
 
-			<AnalysisSection title='Tailor Your Cover Letter' icon={<DocumentIcon />}>
-				<div className='relative'>
-					<textarea
-						value={coverLetter}
-						onChange={(e) => setCoverLetter(e.target.value)}
-						rows={15}
-						className='w-full bg-slate-900 p-4 rounded-md text-slate-300 text-sm font-mono border border-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-150 ease-in-out'
-						aria-label='Generated Cover Letter'
-					/>
-					<button
-						onClick={handleCopy}
-						className='absolute top-3 right-3 px-3 py-1 text-xs font-bold text-white bg-slate-700 rounded-md hover:bg-slate-600 transition-colors'
-					>
-						{copied ? "Copied!" : "Copy"}
-					</button>
-				</div>
+			<AnalysisSection
+				title='Tailor Your Cover Letter'
+				icon={<DocumentIcon />}
+				isPending={isStreaming && analysis.coverLetterDraft === undefined}
+			>
+				{coverLetterEditor ?? (
+					<div className='relative'>
+						<textarea
+							value={coverLetter}
+							onChange={(e) => setCoverLetter(e.target.value)}
+							rows={15}
+							className='w-full bg-slate-900 p-4 rounded-md text-slate-300 text-sm font-mono border border-slate-700 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 transition duration-150 ease-in-out'
+							aria-label='Generated Cover Letter'
+						/>
+						<button
+							onClick={handleCopy}
+							className='absolute top-3 right-3 px-3 py-1 text-xs font-bold text-white bg-slate-700 rounded-md hover:bg-slate-600 transition-colors'
+						>
+							{copied ? "Copied!" : "Copy"}
+						</button>
+					</div>
+				)}
 			</AnalysisSection>
 		</div>
 	);
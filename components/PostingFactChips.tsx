@@ -0,0 +1,53 @@
+import React from "react";
+import { PostingFacts } from "../types";
+import {
+	EMPLOYMENT_TYPES,
+	SENIORITY_LEVELS,
+	WORK_ARRANGEMENTS,
+	factLabel,
+	formatSalary,
+} from "../data/postingFacts";
+
+interface PostingFactChipsProps {
+	facts: PostingFacts;
+}
+
+// Deadlines this close are highlighted
+const DEADLINE_WARNING_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const deadlineChip = (deadline: string) => {
+	const date = new Date(`${deadline}T23:59:59`);
+	const label = date.toLocaleDateString(undefined, { month: "short", day: "numeric", year: "numeric" });
+	const daysLeft = (date.getTime() - Date.now()) / DAY_MS;
+	if (daysLeft < 0) return { text: `Closed ${label}`, className: "bg-red-900/40 text-red-300" };
+	if (daysLeft <= DEADLINE_WARNING_DAYS)
+		return { text: `Apply by ${label}`, className: "bg-amber-900/40 text-amber-300" };
+	return { text: `Apply by ${label}`, className: "bg-slate-700 text-slate-300" };
+};
+
+const PostingFactChips: React.FC<PostingFactChipsProps> = ({ facts }) => {
+	const chips: { text: string; className: string; title?: string }[] = [];
+	const plain = "bg-slate-700 text-slate-300";
+	if (facts.salary)
+		chips.push({ text: formatSalary(facts.salary), className: "bg-green-900/40 text-green-300", title: "Salary, annualized" });
+	if (facts.workArrangement)
+		chips.push({ text: factLabel(WORK_ARRANGEMENTS, facts.workArrangement), className: "bg-indigo-900/40 text-indigo-300" });
+	facts.locations.forEach((location) => chips.push({ text: location, className: plain }));
+	if (facts.employmentType) chips.push({ text: factLabel(EMPLOYMENT_TYPES, facts.employmentType), className: plain });
+	if (facts.seniority) chips.push({ text: factLabel(SENIORITY_LEVELS, facts.seniority), className: plain });
+	if (facts.deadline) chips.push(deadlineChip(facts.deadline));
+	if (!chips.length) return null;
+
+	return (
+		<ul className='flex flex-wrap gap-1.5 mt-2' aria-label='Posting details'>
+			{chips.map((chip, index) => (
+				<li key={index} title={chip.title} className={`px-2 py-0.5 rounded-full text-xs font-medium ${chip.className}`}>
+					{chip.text}
+				</li>
+			))}
+		</ul>
+	);
+};
+
+export default PostingFactChips;
@@ -0,0 +1,199 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { SavedResume, JobAnalysis } from "../types";
+import { getResumes, recordLocalAnalysis } from "../services/apiService";
+import { analyzeJobFit } from "../services/geminiService";
+import { rankResumes, recommendResume } from "../services/resumeComparison";
+
+interface ResumeComparisonProps {
+	jobId: string;
+	jobDescription: string;
+	onUseResume: (content: string) => void;
+}
+
+type RunState = { status: "pending" | "running" } | { status: "done"; analysis: JobAnalysis } | { status: "failed"; error: string };
+
+const scoreColor = (score: number) =>
+	score >= 75 ? "text-green-400" : score >= 50 ? "text-yellow-400" : "text-red-400";
+
+const ResumeComparison: React.FC<ResumeComparisonProps> = ({ jobId, jobDescription, onUseResume }) => {
+	const [isOpen, setIsOpen] = useState(false);
+	const [resumes, setResumes] = useState<SavedResume[]>([]);
+	const [selected, setSelected] = useState<Set<string>>(new Set());
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [runs, setRuns] = useState<Record<string, RunState>>({});
+	const [isComparing, setIsComparing] = useState(false);
+
+	useEffect(() => {
+		if (!isOpen) return;
+		let cancelled = false;
+		setIsLoading(true);
+		setError(null);
+		getResumes()
+			.then((result) => {
+				if (cancelled) return;
+				setResumes(result);
+				setSelected(new Set(result.map((r) => r._id)));
+			})
+			.catch((err: any) => {
+				if (!cancelled) setError(err.message || "Failed to load saved resumes.");
+			})
+			.finally(() => {
+				if (!cancelled) setIsLoading(false);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [isOpen]);
+
+	const toggleSelected = (id: string) => {
+		setSelected((prev) => {
+			const next = new Set(prev);
+			if (next.has(id)) next.delete(id);
+			else next.add(id);
+			return next;
+		});
+	};
+
+	// One resume at a time so a long list doesn't trip the provider's rate limit
+	const handleCompare = async () => {
+		const chosen = resumes.filter((r) => selected.has(r._id));
+		setIsComparing(true);
+		setRuns(Object.fromEntries(chosen.map((r) => [r._id, { status: "pending" } as RunState])));
+		for (const saved of chosen) {
+			setRuns((prev) => ({ ...prev, [saved._id]: { status: "running" } }));
+			try {
+				// The text goes along with the id so resumes saved only in this browser still work
+				const analysis = await analyzeJobFit(saved.content, jobDescription, jobId, saved._id);
+				recordLocalAnalysis({ jobId, resumeId: saved._id, resume: saved.content, jobDescription, analysis });
+				setRuns((prev) => ({ ...prev, [saved._id]: { status: "done", analysis } }));
+			} catch (err: any) {
+				setRuns((prev) => ({ ...prev, [saved._id]: { status: "failed", error: err.message } }));
+			}
+		}
+		setIsComparing(false);
+	};
+
+	const ranked = useMemo(
+		() =>
+			rankResumes(
+				resumes.flatMap((resume) => {
+					const run = runs[resume._id];
+					return run?.status === "done" ? [{ resume, analysis: run.analysis }] : [];
+				})
+			),
+		[resumes, runs]
+	);
+	const recommendation = isComparing ? null : recommendResume(ranked);
+	const unfinished = resumes.filter((r) => runs[r._id] && runs[r._id].status !== "done");
+
+	return (
+		<div className='mt-4'>
+			<button
+				onClick={() => setIsOpen(!isOpen)}
+				className='text-sm font-semibold text-cyan-400 hover:text-cyan-300'
+				aria-expanded={isOpen}
+			>
+				{isOpen ? "Hide resume comparison" : "Compare saved resumes"}
+			</button>
+			{isOpen && (
+				<div className='mt-3 space-y-3'>
+					{isLoading && <p className='text-sm text-slate-400'>Loading saved resumes...</p>}
+					{error && <p className='text-sm text-red-400'>{error}</p>}
+					{!isLoading && !error && resumes.length === 0 && (
+						<p className='text-sm text-slate-400'>
+							No saved resumes yet. Save your resume variants on the Resumes page to compare them here.
+						</p>
+					)}
+					{resumes.length > 0 && (
+						<>
+							<fieldset className='flex flex-wrap gap-x-4 gap-y-1 text-sm text-slate-300'>
+								<legend className='sr-only'>Resumes to compare</legend>
+								{resumes.map((r) => (
+									<label key={r._id} className='flex items-center gap-1.5'>
+										<input
+											type='checkbox'
+											checked={selected.has(r._id)}
+											onChange={() => toggleSelected(r._id)}
+											disabled={isComparing}
+											className='accent-cyan-500'
+										/>
+										{r.name}
+									</label>
+								))}
+							</fieldset>
+							<button
+								onClick={handleCompare}
+								disabled={isComparing || selected.size === 0 || !jobDescription.trim()}
+								className='px-4 py-1.5 text-sm font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:bg-slate-600 disabled:cursor-not-allowed'
+							>
+								{isComparing ? "Comparing..." : `Compare ${selected.size} resume${selected.size === 1 ? "" : "s"}`}
+							</button>
+						</>
+					)}
+
+					{recommendation && ranked.length > 1 && (
+						<div className='p-3 bg-cyan-900/30 border border-cyan-700 rounded-md text-sm'>
+							<p className='text-cyan-200'>
+								<strong>Send "{recommendation.resume.name}".</strong> {recommendation.reason}
+							</p>
+							<button
+								onClick={() => onUseResume(recommendation.resume.content)}
+								className='mt-2 text-xs font-semibold text-cyan-400 hover:text-cyan-300'
+							>
+								Load it as the current resume
+							</button>
+						</div>
+					)}
+
+					{ranked.length > 0 && (
+						<ol className='divide-y divide-slate-700 text-sm'>
+							{ranked.map(({ resume, analysis, rank, scoreGap, extraMatched, lackingMatched }) => (
+								<li key={resume._id} className='py-2 space-y-1'>
+									<div className='flex justify-between items-center gap-2'>
+										<span className='text-slate-200 font-medium'>
+											{rank}. {resume.name}
+											{analysis.source === "offline" && (
+												<span className='ml-2 text-xs text-amber-300'>Offline</span>
+											)}
+										</span>
+										<span className='flex items-center gap-2'>
+											{scoreGap > 0 && <span className='text-xs text-slate-500'>-{scoreGap}</span>}
+											<span className={`font-bold ${scoreColor(analysis.matchScore)}`}>
+												{analysis.matchScore}%
+											</span>
+										</span>
+									</div>
+									<p className='text-xs text-slate-400'>
+										{analysis.matchedKeywords.length} matched · {analysis.missingKeywords.length} missing keywords
+									</p>
+									{extraMatched.length > 0 && (
+										<p className='text-xs text-green-300'>Also matches: {extraMatched.join(", ")}</p>
+									)}
+									{lackingMatched.length > 0 && (
+										<p className='text-xs text-red-300'>Misses vs. #1: {lackingMatched.join(", ")}</p>
+									)}
+								</li>
+							))}
+						</ol>
+					)}
+
+					{unfinished.length > 0 && (
+						<ul className='text-xs space-y-0.5'>
+							{unfinished.map((r) => {
+								const run = runs[r._id];
+								return (
+									<li key={r._id} className={run.status === "failed" ? "text-red-400" : "text-slate-400"}>
+										{r.name}: {run.status === "failed" ? run.error : run.status === "running" ? "analyzing..." : "waiting"}
+									</li>
+								);
+							})}
+						</ul>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default ResumeComparison;
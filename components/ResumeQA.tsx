@@ -1,5 +1,6 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { answerQuestionAboutResume } from "../services/geminiService";
+import { ResumeQATurn } from "../types";
 import TextAreaInput from "./TextAreaInput";
 import Loader from "./Loader";
 
@@ -9,18 +10,28 @@ interface ResumeQAProps {
 
 const ResumeQA: React.FC<ResumeQAProps> = ({ resume }) => {
 	const [question, setQuestion] = useState("");
-	const [answer, setAnswer] = useState("");
+	const [thread, setThread] = useState<ResumeQATurn[]>([]);
 	const [isLoading, setIsLoading] = useState(false);
 	const [error, setError] = useState<string | null>(null);
+	const threadEndRef = useRef<HTMLDivElement>(null);
+
+	useEffect(() => {
+		threadEndRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+	}, [thread]);
 
 	const handleGetAnswer = async () => {
 		if (!question.trim()) return;
+		const asked = question.trim();
 		setIsLoading(true);
 		setError(null);
-		setAnswer("");
 		try {
-			const result = await answerQuestionAboutResume(resume, question);
-			setAnswer(result);
+			const result = await answerQuestionAboutResume(resume, asked, thread);
+			setThread((prev) => [
+				...prev,
+				{ role: "user", content: asked },
+				{ role: "assistant", content: result.answer, citations: result.citations },
+			]);
+			setQuestion("");
 		} catch (err: any) {
 			setError(err.message || "Failed to get an answer.");
 		} finally {
@@ -28,18 +39,78 @@ const ResumeQA: React.FC<ResumeQAProps> = ({ resume }) => {
 		}
 	};
 
+	const handleClearThread = () => {
+		setThread([]);
+		setError(null);
+	};
+
 	return (
 		<div className='mt-6 pt-6 border-t border-slate-700'>
-			<h3 className='text-lg font-semibold text-white mb-3'>
-				Answer Screening Questions
-			</h3>
+			<div className='flex justify-between items-center mb-3'>
+				<h3 className='text-lg font-semibold text-white'>
+					Answer Screening Questions
+				</h3>
+				{thread.length > 0 && (
+					<button
+						onClick={handleClearThread}
+						className='text-xs text-slate-400 hover:text-white transition-colors'
+					>
+						Clear conversation
+					</button>
+				)}
+			</div>
 			<p className='text-sm text-slate-400 mb-4'>
 				Paste a screening question from a job application and get a draft answer
-				based on your resume.
+				based on your resume. Ask follow-ups to refine it.
 			</p>
+			{thread.length > 0 && (
+				<div
+					className='mb-4 space-y-3 max-h-96 overflow-y-auto pr-1'
+					aria-live='polite'
+				>
+					{thread.map((turn, index) =>
+						turn.role === "user" ? (
+							<div key={index} className='flex justify-end'>
+								<div className='max-w-[85%] bg-indigo-600/30 border border-indigo-500/40 p-3 rounded-lg text-sm text-slate-200 whitespace-pre-wrap'>
+									{turn.content}
+								</div>
+							</div>
+						) : (
+							<div key={index} className='flex justify-start'>
+								<div className='max-w-[85%] bg-slate-900 p-3 rounded-lg border border-slate-700'>
+									<p className='whitespace-pre-wrap text-slate-300 text-sm font-mono'>
+										{turn.content}
+									</p>
+									{turn.citations && turn.citations.length > 0 && (
+										<div className='mt-3 pt-2 border-t border-slate-700/70'>
+											<h4 className='text-xs font-semibold uppercase text-slate-500 mb-1'>
+												Based on your resume
+											</h4>
+											<ul className='space-y-1'>
+												{turn.citations.map((citation) => (
+													<li
+														key={citation.line}
+														className='text-xs text-slate-400'
+													>
+														<span className='text-cyan-400 font-mono mr-2'>
+															L{citation.line}
+														</span>
+														{citation.text}
+													</li>
+												))}
+											</ul>
+										</div>
+									)}
+								</div>
+							</div>
+						)
+					)}
+					<div ref={threadEndRef} />
+				</div>
+			)}
 			<TextAreaInput
 				id='qa-question'
-				label='Screening Question'
+				label={thread.length > 0 ? "Follow-up Question" : "Screening Question"}
 				value={question}
 				onChange={(e) => setQuestion(e.target.value)}
 				placeholder='e.g., In 2-3 sentences, tell us about your experience managing both inbound and outbound leads...'
@@ -52,7 +123,7 @@ const ResumeQA: React.FC<ResumeQAProps> = ({ resume }) => {
 					disabled={!resume.trim() || !question.trim() || isLoading}
 					className='flex items-center justify-center px-6 py-2 text-sm font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors duration-150'
 				>
-					{isLoading ? <Loader /> : "Get Answer"}
+					{isLoading ? <Loader /> : thread.length > 0 ? "Ask" : "Get Answer"}
 				</button>
 			</div>
 			{error && (
@@ -60,16 +131,6 @@ const ResumeQA: React.FC<ResumeQAProps> = ({ resume }) => {
 					<strong>Error:</strong> {error}
 				</div>
 			)}
-			{answer && (
-				<div className='mt-4'>
-					<h4 className='text-md font-semibold text-slate-300 mb-2'>
-						Suggested Answer:
-					</h4>
-					<div className='bg-slate-900 p-4 rounded-md whitespace-pre-wrap text-slate-300 text-sm font-mono border border-slate-700'>
-						{answer}
-					</div>
-				</div>
-			)}
 		</div>
 	);
 };
@@ -0,0 +1,159 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { SavedResume, ResumeRevision } from "../types";
+import { getResumeRevisions, restoreResumeRevision } from "../services/apiService";
+import { diffLines } from "../services/lineDiff";
+import Loader from "./Loader";
+
+interface ResumeRevisionsProps {
+	resume: SavedResume;
+	onRestored: (updated: SavedResume) => void;
+}
+
+const DIFF_LINE_CLASSES = {
+	same: "text-slate-400",
+	added: "bg-green-900/40 text-green-200",
+	removed: "bg-red-900/40 text-red-200",
+};
+const DIFF_LINE_PREFIX = { same: " ", added: "+", removed: "-" };
+
+const ResumeRevisions: React.FC<ResumeRevisionsProps> = ({ resume, onRestored }) => {
+	const [revisions, setRevisions] = useState<ResumeRevision[]>([]);
+	const [isLoading, setIsLoading] = useState(true);
+	const [error, setError] = useState<string | null>(null);
+	const [baseRevision, setBaseRevision] = useState<number | null>(null);
+	const [compareRevision, setCompareRevision] = useState<number | null>(null);
+	const [restoring, setRestoring] = useState<number | null>(null);
+
+	useEffect(() => {
+		let cancelled = false;
+		setIsLoading(true);
+		setError(null);
+		getResumeRevisions(resume._id)
+			.then((result) => {
+				if (cancelled) return;
+				setRevisions(result);
+				// Default to comparing the latest revision with the one before it
+				setCompareRevision(result[0]?.revision ?? null);
+				setBaseRevision(result[1]?.revision ?? result[0]?.revision ?? null);
+			})
+			.catch((err: any) => {
+				if (!cancelled) setError(err.message || "Failed to load revisions.");
+			})
+			.finally(() => {
+				if (!cancelled) setIsLoading(false);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [resume._id, resume.revision]);
+
+	const diff = useMemo(() => {
+		const base = revisions.find((r) => r.revision === baseRevision);
+		const compare = revisions.find((r) => r.revision === compareRevision);
+		return base && compare ? diffLines(base.content, compare.content) : [];
+	}, [revisions, baseRevision, compareRevision]);
+
+	const handleRestore = async (revision: number) => {
+		setRestoring(revision);
+		setError(null);
+		try {
+			onRestored(await restoreResumeRevision(resume._id, revision));
+		} catch (err: any) {
+			setError(err.message || "Failed to restore revision.");
+		} finally {
+			setRestoring(null);
+		}
+	};
+
+	if (isLoading) {
+		return (
+			<div className='flex justify-center py-4'>
+				<Loader />
+			</div>
+		);
+	}
+
+	const revisionOptions = revisions.map((r) => (
+		<option key={r.revision} value={r.revision}>
+			Rev. {r.revision} ({new Date(r.savedAt).toLocaleDateString()})
+		</option>
+	));
+	const changedLines = diff.filter((line) => line.type !== "same").length;
+
+	return (
+		<div className='space-y-4'>
+			{error && <p className='text-sm text-red-400'>{error}</p>}
+
+			<ol className='space-y-1'>
+				{revisions.map((r) => {
+					const isCurrent = r.content === resume.content;
+					return (
+						<li
+							key={r.revision}
+							className='flex justify-between items-center gap-2 text-sm bg-slate-900/60 rounded px-3 py-1.5'
+						>
+							<span className='text-slate-300'>
+								Rev. {r.revision}
+								<span className='text-slate-500'> · {new Date(r.savedAt).toLocaleString()}</span>
+								{r.restoredFrom && (
+									<span className='text-slate-500'> · restored from Rev. {r.restoredFrom}</span>
+								)}
+							</span>
+							{isCurrent ? (
+								<span className='text-xs font-semibold text-cyan-400'>Current</span>
+							) : (
+								<button
+									onClick={() => handleRestore(r.revision)}
+									disabled={restoring !== null}
+									className='px-2 py-0.5 text-xs font-bold text-white bg-indigo-600 rounded hover:bg-indigo-500 disabled:bg-slate-600'
+								>
+									{restoring === r.revision ? "Restoring..." : "Restore"}
+								</button>
+							)}
+						</li>
+					);
+				})}
+			</ol>
+
+			{revisions.length > 1 && (
+				<div>
+					<div className='flex flex-wrap items-center gap-2 text-sm text-slate-300 mb-2'>
+						<label htmlFor={`diff-base-${resume._id}`}>Compare</label>
+						<select
+							id={`diff-base-${resume._id}`}
+							value={baseRevision ?? ""}
+							onChange={(e) => setBaseRevision(Number(e.target.value))}
+							className='bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs'
+						>
+							{revisionOptions}
+						</select>
+						<label htmlFor={`diff-compare-${resume._id}`}>with</label>
+						<select
+							id={`diff-compare-${resume._id}`}
+							value={compareRevision ?? ""}
+							onChange={(e) => setCompareRevision(Number(e.target.value))}
+							className='bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs'
+						>
+							{revisionOptions}
+						</select>
+						<span className='text-xs text-slate-500'>
+							{changedLines === 0 ? "No differences" : `${changedLines} changed line${changedLines === 1 ? "" : "s"}`}
+						</span>
+					</div>
+					<pre
+						className='max-h-96 overflow-auto bg-slate-900 border border-slate-700 rounded-md p-3 text-xs font-mono'
+						aria-label='Revision diff'
+					>
+						{diff.map((line, index) => (
+							<div key={index} className={DIFF_LINE_CLASSES[line.type]}>
+								{DIFF_LINE_PREFIX[line.type]} {line.text}
+							</div>
+						))}
+					</pre>
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default ResumeRevisions;
@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { AnalysisRecord } from "../types";
+import { getAnalyses } from "../services/apiService";
+
+interface ScoreHistoryProps {
+	jobId: string;
+	// Changes whenever the job is re-analyzed, so the history reloads
+	refreshKey?: string;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 100;
+const CHART_PADDING = 10;
+
+const scoreColor = (score: number) =>
+	score >= 75 ? "#4ade80" : score >= 50 ? "#facc15" : "#f87171";
+
+const ScoreTrendChart: React.FC<{
+	points: { score: number; label: string }[];
+}> = ({ points }) => {
+	const innerWidth = CHART_WIDTH - CHART_PADDING * 2;
+	const innerHeight = CHART_HEIGHT - CHART_PADDING * 2;
+	const coords = points.map((point, index) => ({
+		...point,
+		x:
+			CHART_PADDING +
+			(points.length === 1 ? innerWidth / 2 : (index / (points.length - 1)) * innerWidth),
+		y: CHART_PADDING + (1 - point.score / 100) * innerHeight,
+	}));
+
+	return (
+		<svg
+			viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+			className='w-full h-28 bg-slate-900 rounded-md border border-slate-700'
+			role='img'
+			aria-label='Match score trend'
+		>
+			{[25, 50, 75].map((gridScore) => (
+				<line
+					key={gridScore}
+					x1={CHART_PADDING}
+					x2={CHART_WIDTH - CHART_PADDING}
+					y1={CHART_PADDING + (1 - gridScore / 100) * innerHeight}
+					y2={CHART_PADDING + (1 - gridScore / 100) * innerHeight}
+					stroke='#334155'
+					strokeDasharray='2 3'
+					strokeWidth={0.5}
+				/>
+			))}
+			<polyline
+				points={coords.map(({ x, y }) => `${x},${y}`).join(" ")}
+				fill='none'
+				stroke='#22d3ee'
+				strokeWidth={1.5}
+			/>
+			{coords.map(({ x, y, score, label }, index) => (
+				<circle key={index} cx={x} cy={y} r={3} fill={scoreColor(score)}>
+					<title>{`${label}: ${score}%`}</title>
+				</circle>
+			))}
+		</svg>
+	);
+};
+
+const ScoreHistory: React.FC<ScoreHistoryProps> = ({ jobId, refreshKey }) => {
+	const [isOpen, setIsOpen] = useState(false);
+	const [records, setRecords] = useState<AnalysisRecord[]>([]);
+	const [isLoading, setIsLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!isOpen) return;
+		let cancelled = false;
+		setIsLoading(true);
+		setError(null);
+		getAnalyses({ jobId })
+			.then((result) => {
+				if (!cancelled) setRecords(result);
+			})
+			.catch((err: any) => {
+				if (!cancelled) setError(err.message || "Failed to load history");
+			})
+			.finally(() => {
+				if (!cancelled) setIsLoading(false);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [isOpen, jobId, refreshKey]);
+
+	// Oldest first, numbering each distinct resume text as a revision; a text
+	// analyzed again later keeps its number, so the count is the map's size
+	const { entries, revisionCount } = useMemo(() => {
+		const revisions = new Map<string, number>();
+		const numbered = [...records].reverse().map((record) => {
+			const key = record.resumeHash || record.id;
+			if (!revisions.has(key)) revisions.set(key, revisions.size + 1);
+			return { record, revision: revisions.get(key)! };
+		});
+		return { entries: numbered, revisionCount: revisions.size };
+	}, [records]);
+
+	const first = entries[0];
+	const last = entries[entries.length - 1];
+	const change =
+		first && last ? last.record.analysis.matchScore - first.record.analysis.matchScore : 0;
+
+	return (
+		<div className='mt-4'>
+			<button
+				onClick={() => setIsOpen(!isOpen)}
+				className='text-sm font-semibold text-cyan-400 hover:text-cyan-300'
+				aria-expanded={isOpen}
+			>
+				{isOpen ? "Hide score history" : "Show score history"}
+			</button>
+			{isOpen && (
+				<div className='mt-3 space-y-3'>
+					{isLoading && <p className='text-sm text-slate-400'>Loading history...</p>}
+					{error && <p className='text-sm text-red-400'>{error}</p>}
+					{!isLoading && !error && entries.length === 0 && (
+						<p className='text-sm text-slate-400'>No saved analyses for this job yet.</p>
+					)}
+					{entries.length > 0 && (
+						<>
+							<ScoreTrendChart
+								points={entries.map(({ record, revision }) => ({
+									score: record.analysis.matchScore,
+									label: `Resume rev. ${revision}, ${new Date(record.createdAt).toLocaleDateString()}`,
+								}))}
+							/>
+							{entries.length === 1 ? (
+								<p className='text-xs text-slate-400'>
+									Only one analysis so far. Re-analyze after editing your resume to see how the score changes.
+								</p>
+							) : (
+								<p className='text-xs text-slate-400'>
+									{change === 0
+										? "No change"
+										: `${change > 0 ? "+" : ""}${change} points`}{" "}
+									since the first analysis across {revisionCount} resume revision
+									{revisionCount === 1 ? "" : "s"}.
+								</p>
+							)}
+							<ol className='divide-y divide-slate-700 text-sm'>
+								{[...entries].reverse().map(({ record, revision }) => (
+									<li key={record.id} className='py-1.5 flex justify-between items-center gap-2'>
+										<span className='text-slate-400'>
+											{new Date(record.createdAt).toLocaleString()}
+										</span>
+										<span className='text-slate-500 text-xs'>Resume rev. {revision}</span>
+										{record.analysis.source === "offline" && (
+											<span className='text-xs text-amber-300'>Offline</span>
+										)}
+										<span
+											className='font-bold'
+											style={{ color: scoreColor(record.analysis.matchScore) }}
+										>
+											{record.analysis.matchScore}%
+										</span>
+									</li>
+								))}
+							</ol>
+						</>
+					)}
+				</div>
+			)}
+		</div>
+	);
+};
+
+export default ScoreHistory;
@@ -1,18 +1,46 @@
-import React, { useEffect, useRef } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { ImprovementSuggestion } from "../types";
+import { ResumeEdit, planSuggestion } from "../services/suggestionMatcher";
+import { diffWords } from "../services/lineDiff";
 
 interface SuggestionModalProps {
 	suggestion: ImprovementSuggestion;
+	resume: string;
+	// Set when accepting failed
+	error?: string | null;
 	onClose: () => void;
-	onAccept: (suggestion: ImprovementSuggestion) => void;
+	onAccept: (edit: ResumeEdit) => void;
 }
 
 const SuggestionModal: React.FC<SuggestionModalProps> = ({
 	suggestion,
+	resume,
+	error,
 	onClose,
 	onAccept,
 }) => {
 	const modalRef = useRef<HTMLDivElement>(null);
+	const [copied, setCopied] = useState(false);
+	const plan = useMemo(() => planSuggestion(resume, suggestion), [resume, suggestion]);
+
+	// The whole lines around the passage, so the change is seen in place
+	const preview = useMemo(() => {
+		if (plan.status !== "found") return null;
+		const { start, end } = plan.match;
+		const lineStart = resume.lastIndexOf("\n", start - 1) + 1;
+		const lineEnd = resume.indexOf("\n", end);
+		return {
+			before: resume.slice(lineStart, start),
+			parts: diffWords(plan.edit.removed, plan.edit.inserted),
+			after: resume.slice(end, lineEnd === -1 ? resume.length : lineEnd),
+		};
+	}, [plan, resume]);
+
+	const handleCopy = () => {
+		navigator.clipboard.writeText(suggestion.suggestedRewrite);
+		setCopied(true);
+		setTimeout(() => setCopied(false), 2000);
+	};
 
 	useEffect(() => {
 		const handleKeyDown = (event: KeyboardEvent) => {
@@ -97,17 +125,67 @@ const SuggestionModal: React.FC<SuggestionModalProps> = ({
 							</p>
 						</div>
 					</div>
+					{preview && plan.status === "found" ? (
+						<div>
+							<h3 className='font-semibold text-slate-300 mb-2'>Change to your resume</h3>
+							{plan.match.similarity < 1 && (
+								<p className='text-xs text-amber-300 mb-2'>
+									The quoted text isn't in your resume word for word; this is the closest
+									passage ({Math.round(plan.match.similarity * 100)}% similar).
+								</p>
+							)}
+							<p className='text-sm font-mono whitespace-pre-wrap bg-slate-900 p-4 rounded-md border border-slate-700'>
+								<span className='text-slate-500'>{preview.before}</span>
+								{preview.parts.map((part, index) =>
+									part.type === "same" ? (
+										<span key={index}>{part.text}</span>
+									) : part.type === "removed" ? (
+										<del key={index} className='bg-red-900/50 text-red-300'>
+											{part.text}
+										</del>
+									) : (
+										<ins key={index} className='no-underline bg-green-900/50 text-green-300'>
+											{part.text}
+										</ins>
+									)
+								)}
+								<span className='text-slate-500'>{preview.after}</span>
+							</p>
+						</div>
+					) : (
+						<div className='p-4 rounded-md border border-red-800 bg-red-900/30 text-sm' role='alert'>
+							<p className='font-semibold text-red-300'>This passage couldn't be found in your resume.</p>
+							<p className='mt-1 text-slate-400'>
+								It may have been edited since the analysis. Copy the rewrite and apply it by hand, or
+								re-analyze the job.
+							</p>
+						</div>
+					)}
 				</div>
 				<div className='px-6 py-4 bg-slate-900/50 rounded-b-lg flex justify-end items-center gap-3 flex-shrink-0'>
+					{error && (
+						<p className='mr-auto text-sm text-red-400' role='alert'>
+							{error}
+						</p>
+					)}
 					<button
 						onClick={onClose}
 						className='px-5 py-2 text-sm font-bold text-slate-300 bg-slate-600 rounded-md hover:bg-slate-500 transition-colors duration-150'
 					>
 						Reject
 					</button>
+					{(plan.status === "notFound" || error) && (
+						<button
+							onClick={handleCopy}
+							className='px-5 py-2 text-sm font-bold text-slate-300 bg-slate-700 rounded-md hover:bg-slate-600 transition-colors duration-150'
+						>
+							{copied ? "Copied!" : "Copy Rewrite"}
+						</button>
+					)}
 					<button
-						onClick={() => onAccept(suggestion)}
-						className='px-5 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 transition-colors duration-150'
+						onClick={() => plan.status === "found" && onAccept(plan.edit)}
+						disabled={plan.status !== "found"}
+						className='px-5 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors duration-150'
 					>
 						Accept Change
 					</button>
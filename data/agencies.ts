@@ -0,0 +1,13 @@
+import { AgencyInteractionType } from '../types';
+
+// Options for the interaction log, in the order they're listed
+export const AGENCY_INTERACTION_TYPES: { value: AgencyInteractionType; label: string }[] = [
+    { value: 'call', label: 'Call' },
+    { value: 'email', label: 'Email' },
+    { value: 'meeting', label: 'Meeting' },
+    { value: 'submission', label: 'Submission' },
+    { value: 'note', label: 'Note' },
+];
+
+export const interactionLabel = (type: AgencyInteractionType): string =>
+    AGENCY_INTERACTION_TYPES.find(o => o.value === type)?.label || type;
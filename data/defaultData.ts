@@ -1,3 +1,7 @@
+// Placeholders for a job added by hand, until its page says otherwise
+export const NEW_JOB_TITLE = 'New Job Listing';
+export const NEW_JOB_COMPANY = 'Company Name';
+
 export const templateResumeContent = `EDUCATION
 Bachelor of Arts in Management (Logistics and Operations)
 Southern New Hampshire University
@@ -0,0 +1,19 @@
+import { ApplicationStatus, StatusChange } from '../types';
+
+// Board columns, in pipeline order. Rejected and withdrawn are terminal.
+export const APPLICATION_STATUSES: { value: ApplicationStatus; label: string; accent: string }[] = [
+    { value: 'saved', label: 'Saved', accent: 'border-slate-500' },
+    { value: 'applied', label: 'Applied', accent: 'border-cyan-500' },
+    { value: 'screening', label: 'Screening', accent: 'border-indigo-500' },
+    { value: 'interviewing', label: 'Interviewing', accent: 'border-purple-500' },
+    { value: 'offer', label: 'Offer', accent: 'border-green-500' },
+    { value: 'rejected', label: 'Rejected', accent: 'border-red-500' },
+    { value: 'withdrawn', label: 'Withdrawn', accent: 'border-yellow-600' },
+];
+
+export const statusLabel = (status: ApplicationStatus): string =>
+    APPLICATION_STATUSES.find(s => s.value === status)?.label || status;
+
+export const initialStatusHistory = (): StatusChange[] => [
+    { status: 'saved', changedAt: new Date().toISOString() },
+];
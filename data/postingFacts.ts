@@ -0,0 +1,49 @@
+import { EmploymentType, SalaryPeriod, SalaryRange, Seniority, WorkArrangement } from '../types';
+
+// Options for the dashboard filters, in the order they're listed
+export const WORK_ARRANGEMENTS: { value: WorkArrangement; label: string }[] = [
+    { value: 'remote', label: 'Remote' },
+    { value: 'hybrid', label: 'Hybrid' },
+    { value: 'onsite', label: 'On-site' },
+];
+
+export const EMPLOYMENT_TYPES: { value: EmploymentType; label: string }[] = [
+    { value: 'full-time', label: 'Full-time' },
+    { value: 'part-time', label: 'Part-time' },
+    { value: 'contract', label: 'Contract' },
+    { value: 'temporary', label: 'Temporary' },
+    { value: 'internship', label: 'Internship' },
+];
+
+export const SENIORITY_LEVELS: { value: Seniority; label: string }[] = [
+    { value: 'intern', label: 'Intern' },
+    { value: 'entry', label: 'Entry level' },
+    { value: 'mid', label: 'Mid level' },
+    { value: 'senior', label: 'Senior' },
+    { value: 'lead', label: 'Lead' },
+    { value: 'manager', label: 'Manager' },
+    { value: 'director', label: 'Director' },
+    { value: 'executive', label: 'Executive' },
+];
+
+export const factLabel = <T extends string>(options: { value: T; label: string }[], value: T): string =>
+    options.find(o => o.value === value)?.label || value;
+
+const CURRENCY_SYMBOLS: Record<string, string> = { USD: '$', GBP: '£', EUR: '€', CAD: 'CA$', AUD: 'A$' };
+
+const PERIODS_PER_YEAR: Record<SalaryPeriod, number> = { hour: 2080, day: 260, week: 52, month: 12, year: 1 };
+const PERIOD_SUFFIXES: Record<SalaryPeriod, string> = { hour: '/hr', day: '/day', week: '/wk', month: '/mo', year: '/yr' };
+
+const formatAmount = (amount: number, symbol: string) =>
+    amount >= 1000 ? `${symbol}${Math.round(amount / 1000)}k` : `${symbol}${Number(amount.toFixed(2))}`;
+
+// Annual figures, plus the posting's own rate when it wasn't quoted per year: "$94k/yr ($45/hr)"
+export const formatSalary = (salary: SalaryRange): string => {
+    const symbol = CURRENCY_SYMBOLS[salary.currency] ?? `${salary.currency} `;
+    const range = (min: number, max: number) =>
+        min === max ? formatAmount(min, symbol) : `${formatAmount(min, symbol)}–${formatAmount(max, symbol)}`;
+    const annual = `${range(salary.min, salary.max)}/yr`;
+    if (salary.period === 'year') return annual;
+    const perPeriod = PERIODS_PER_YEAR[salary.period];
+    return `${annual} (${range(salary.min / perPeriod, salary.max / perPeriod)}${PERIOD_SUFFIXES[salary.period]})`;
+};
@@ -1,27 +1,538 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Agency, AgencyContact, AgencyInput, AgencyInteractionType, Job, NewAgencyInteraction } from '../types';
+import {
+    getAgencies,
+    saveAgency,
+    updateAgency,
+    deleteAgency,
+    addAgencyInteraction,
+    deleteAgencyInteraction,
+} from '../services/apiService';
+import { AGENCY_INTERACTION_TYPES, interactionLabel } from '../data/agencies';
+import { statusLabel } from '../data/pipeline';
+import Loader from '../components/Loader';
 
 interface AgenciesPageProps {
+    // The dashboard's jobs, to pick submissions from
+    jobs: Job[];
     onNavigateHome: () => void;
 }
 
-const AgenciesPage: React.FC<AgenciesPageProps> = ({ onNavigateHome }) => {
+const EMPTY_AGENCY: AgencyInput = {
+    name: '',
+    website: '',
+    email: '',
+    phone: '',
+    specialties: [],
+    notes: '',
+    contacts: [],
+    followUpAt: null,
+    followUpNote: '',
+};
+
+// Date inputs work in local calendar days; noon keeps the day the same in every time zone nearby
+const toDateInput = (iso: string | null): string => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+const fromDateInput = (value: string): string | null => (value ? new Date(`${value}T12:00:00`).toISOString() : null);
+const formatDay = (iso: string) => new Date(iso).toLocaleDateString();
+
+const isDue = (iso: string | null): boolean => {
+    if (!iso) return false;
+    const endOfToday = new Date();
+    endOfToday.setHours(23, 59, 59, 999);
+    return new Date(iso) <= endOfToday;
+};
+
+// Due follow-ups first (soonest first), then the rest by name
+const byFollowUp = (a: Agency, b: Agency) => {
+    if (a.followUpAt && b.followUpAt) return a.followUpAt.localeCompare(b.followUpAt) || a.name.localeCompare(b.name);
+    if (a.followUpAt || b.followUpAt) return a.followUpAt ? -1 : 1;
+    return a.name.localeCompare(b.name);
+};
+
+const inputClasses = 'w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-sm text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500';
+
+const AgencyForm: React.FC<{
+    initial: AgencyInput;
+    isNew: boolean;
+    onSave: (agency: AgencyInput) => Promise<void>;
+    onCancel: () => void;
+}> = ({ initial, isNew, onSave, onCancel }) => {
+    const [form, setForm] = useState<AgencyInput>(initial);
+    // Typed comma-separated and split on save
+    const [specialtiesText, setSpecialtiesText] = useState(initial.specialties.join(', '));
+    const [isSaving, setIsSaving] = useState(false);
+
+    const update = (changes: Partial<AgencyInput>) => setForm(prev => ({ ...prev, ...changes }));
+    const updateContact = (id: string, changes: Partial<AgencyContact>) =>
+        update({ contacts: form.contacts.map(c => (c.id === id ? { ...c, ...changes } : c)) });
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            await onSave({
+                ...form,
+                specialties: specialtiesText.split(',').map(s => s.trim()).filter(Boolean),
+                // Rows left without a name are dropped
+                contacts: form.contacts.filter(c => c.name.trim()),
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
     return (
-        <div className="animate-fade-in w-full max-w-4xl mx-auto text-center">
-             <div className="flex justify-between items-center mb-6">
-                <h1 className="text-3xl font-bold text-white">Recruiting Agencies</h1>
+        <form onSubmit={handleSubmit} className="space-y-4">
+            <h2 className="text-xl font-semibold text-white">{isNew ? "New Agency" : `Edit ${initial.name}`}</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="block text-sm text-slate-300">
+                    Name
+                    <input value={form.name} onChange={e => update({ name: e.target.value })} className={`${inputClasses} mt-1`} required />
+                </label>
+                <label className="block text-sm text-slate-300">
+                    Website
+                    <input value={form.website} onChange={e => update({ website: e.target.value })} placeholder="https://" className={`${inputClasses} mt-1`} />
+                </label>
+                <label className="block text-sm text-slate-300">
+                    Email
+                    <input type="email" value={form.email} onChange={e => update({ email: e.target.value })} className={`${inputClasses} mt-1`} />
+                </label>
+                <label className="block text-sm text-slate-300">
+                    Phone
+                    <input value={form.phone} onChange={e => update({ phone: e.target.value })} className={`${inputClasses} mt-1`} />
+                </label>
+            </div>
+            <label className="block text-sm text-slate-300">
+                Specialties <span className="text-slate-500">(comma-separated)</span>
+                <input value={specialtiesText} onChange={e => setSpecialtiesText(e.target.value)} placeholder="e.g. IT support, Healthcare" className={`${inputClasses} mt-1`} />
+            </label>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="block text-sm text-slate-300">
+                    Follow up on
+                    <input type="date" value={toDateInput(form.followUpAt)} onChange={e => update({ followUpAt: fromDateInput(e.target.value) })} className={`${inputClasses} mt-1`} />
+                </label>
+                <label className="block text-sm text-slate-300 sm:col-span-2">
+                    Follow-up note
+                    <input value={form.followUpNote} onChange={e => update({ followUpNote: e.target.value })} placeholder="e.g. Ask about the Acme role" className={`${inputClasses} mt-1`} />
+                </label>
+            </div>
+            <fieldset className="space-y-2">
+                <legend className="text-sm text-slate-300 mb-1">Recruiters</legend>
+                {form.contacts.map(contact => (
+                    <div key={contact.id} className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+                        <input value={contact.name} onChange={e => updateContact(contact.id, { name: e.target.value })} placeholder="Name" aria-label="Recruiter name" className={inputClasses} />
+                        <input value={contact.title} onChange={e => updateContact(contact.id, { title: e.target.value })} placeholder="Title" aria-label="Recruiter title" className={inputClasses} />
+                        <input value={contact.email} onChange={e => updateContact(contact.id, { email: e.target.value })} placeholder="Email" aria-label="Recruiter email" className={inputClasses} />
+                        <input value={contact.phone} onChange={e => updateContact(contact.id, { phone: e.target.value })} placeholder="Phone" aria-label="Recruiter phone" className={inputClasses} />
+                        <button
+                            type="button"
+                            onClick={() => update({ contacts: form.contacts.filter(c => c.id !== contact.id) })}
+                            className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 rounded-md hover:bg-red-800/50"
+                            aria-label={`Remove ${contact.name || "recruiter"}`}
+                        >
+                            Remove
+                        </button>
+                    </div>
+                ))}
+                <button
+                    type="button"
+                    onClick={() => update({ contacts: [...form.contacts, { id: uuidv4(), name: '', title: '', email: '', phone: '' }] })}
+                    className="text-sm text-cyan-400 hover:underline"
+                >
+                    + Add recruiter
+                </button>
+            </fieldset>
+            <label className="block text-sm text-slate-300">
+                Notes
+                <textarea value={form.notes} onChange={e => update({ notes: e.target.value })} rows={3} className={`${inputClasses} mt-1`} />
+            </label>
+            <div className="flex justify-end gap-3">
+                <button type="button" onClick={onCancel} className="px-4 py-2 text-sm font-semibold text-slate-400 hover:text-slate-200">
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={isSaving || !form.name.trim()}
+                    className="px-5 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                >
+                    {isSaving ? "Saving..." : isNew ? "Add Agency" : "Save Changes"}
+                </button>
+            </div>
+        </form>
+    );
+};
+
+const InteractionForm: React.FC<{
+    agency: Agency;
+    jobs: Job[];
+    // Which agency submitted each job already, across all agencies
+    submittedBy: Map<string, Agency>;
+    onLog: (interaction: NewAgencyInteraction) => Promise<void>;
+}> = ({ agency, jobs, submittedBy, onLog }) => {
+    const [type, setType] = useState<AgencyInteractionType>('call');
+    const [date, setDate] = useState(toDateInput(new Date().toISOString()));
+    const [contactId, setContactId] = useState('');
+    const [summary, setSummary] = useState('');
+    const [jobId, setJobId] = useState('');
+    const [followUpDate, setFollowUpDate] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const job = type === 'submission' ? jobs.find(j => j.id === jobId) : undefined;
+        setIsSaving(true);
+        try {
+            await onLog({
+                type,
+                date: fromDateInput(date) || new Date().toISOString(),
+                contactId: contactId || null,
+                summary: summary.trim(),
+                jobId: job ? job.id : null,
+                jobTitle: job?.title || '',
+                company: job?.company || '',
+                ...(followUpDate ? { followUpAt: fromDateInput(followUpDate), followUpNote: summary.trim() } : {}),
+            });
+            setSummary('');
+            setJobId('');
+            setFollowUpDate('');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="bg-slate-900/40 p-3 rounded-md border border-slate-700 space-y-2">
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                <select value={type} onChange={e => setType(e.target.value as AgencyInteractionType)} className={inputClasses} aria-label="Interaction type">
+                    {AGENCY_INTERACTION_TYPES.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+                <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClasses} aria-label="Date" required />
+                <select value={contactId} onChange={e => setContactId(e.target.value)} className={inputClasses} aria-label="Recruiter">
+                    <option value="">No recruiter</option>
+                    {agency.contacts.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+            </div>
+            {type === 'submission' && (
+                <select value={jobId} onChange={e => setJobId(e.target.value)} className={inputClasses} aria-label="Job submitted to" required>
+                    <option value="" disabled>Job they submitted you to...</option>
+                    {jobs.map(job => {
+                        const by = submittedBy.get(job.id);
+                        return (
+                            <option key={job.id} value={job.id} disabled={!!by}>
+                                {job.title} — {job.company}{by ? ` (already submitted by ${by.name})` : ''}
+                            </option>
+                        );
+                    })}
+                </select>
+            )}
+            <textarea value={summary} onChange={e => setSummary(e.target.value)} rows={2} placeholder="What happened?" className={inputClasses} aria-label="Summary" />
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <label className="flex items-center gap-2 text-xs text-slate-400">
+                    Follow up on
+                    <input type="date" value={followUpDate} onChange={e => setFollowUpDate(e.target.value)} className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-xs text-slate-200" />
+                </label>
                 <button
-                    onClick={onNavigateHome}
-                    className="px-5 py-2 text-sm font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors duration-150"
+                    type="submit"
+                    disabled={isSaving || (type === 'submission' && !jobId) || (type !== 'submission' && !summary.trim())}
+                    className="px-4 py-1.5 text-sm font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:bg-slate-600 disabled:cursor-not-allowed"
                 >
-                    &larr; Back to App
+                    {isSaving ? "Logging..." : "Log It"}
                 </button>
             </div>
-            <div className="bg-slate-800/50 p-8 rounded-lg border border-slate-700 mt-6">
-                <h2 className="text-2xl font-semibold text-cyan-400">Coming Soon!</h2>
-                <p className="mt-4 text-slate-400">
-                    This section will feature tools to help you find and track interactions with recruiting agencies. Check back for future updates.
-                </p>
+        </form>
+    );
+};
+
+const AgenciesPage: React.FC<AgenciesPageProps> = ({ jobs, onNavigateHome }) => {
+    const [agencies, setAgencies] = useState<Agency[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    // 'new' while adding an agency; otherwise the id of the one being edited
+    const [editing, setEditing] = useState<string | null>(null);
+
+    useEffect(() => {
+        getAgencies()
+            .then(loaded => {
+                setAgencies(loaded);
+                if (loaded.length > 0) setSelectedId([...loaded].sort(byFollowUp)[0].id);
+            })
+            .catch((err: any) => setError(err.message || "Failed to load agencies."))
+            .finally(() => setIsLoading(false));
+    }, []);
+
+    const sortedAgencies = [...agencies].sort(byFollowUp);
+    const dueAgencies = sortedAgencies.filter(a => isDue(a.followUpAt));
+    const selected = agencies.find(a => a.id === selectedId) || null;
+
+    const submittedBy = new Map<string, Agency>();
+    agencies.forEach(agency =>
+        agency.interactions.forEach(i => {
+            if (i.type === 'submission' && i.jobId && !submittedBy.has(i.jobId)) submittedBy.set(i.jobId, agency);
+        })
+    );
+
+    const replaceAgency = (updated: Agency) => setAgencies(current => current.map(a => (a.id === updated.id ? updated : a)));
+
+    // Runs a change, showing its error; returns whether it worked
+    const run = async (change: () => Promise<void>, fallbackMessage: string): Promise<boolean> => {
+        try {
+            setError(null);
+            await change();
+            return true;
+        } catch (err: any) {
+            setError(err.message || fallbackMessage);
+            return false;
+        }
+    };
+
+    const handleSave = async (input: AgencyInput) => {
+        await run(async () => {
+            if (editing === 'new') {
+                const created = await saveAgency(input);
+                setAgencies(current => [...current, created]);
+                setSelectedId(created.id);
+            } else if (editing) {
+                replaceAgency(await updateAgency(editing, input));
+            }
+            setEditing(null);
+        }, "Failed to save the agency.");
+    };
+
+    const handleDelete = async (agency: Agency) => {
+        if (!window.confirm(`Delete ${agency.name} and its interaction log?`)) return;
+        await run(async () => {
+            await deleteAgency(agency.id);
+            setAgencies(current => current.filter(a => a.id !== agency.id));
+            setSelectedId(null);
+        }, "Failed to delete the agency.");
+    };
+
+    const handleLog = async (agency: Agency, interaction: NewAgencyInteraction) => {
+        await run(async () => replaceAgency(await addAgencyInteraction(agency.id, interaction)), "Failed to log the interaction.");
+    };
+
+    const handleDeleteInteraction = async (agency: Agency, interactionId: string) => {
+        await run(async () => replaceAgency(await deleteAgencyInteraction(agency.id, interactionId)), "Failed to delete the interaction.");
+    };
+
+    const handleFollowUpDone = async (agency: Agency) => {
+        await run(async () => replaceAgency(await updateAgency(agency.id, { followUpAt: null, followUpNote: '' })), "Failed to update the follow-up.");
+    };
+
+    const renderList = () => (
+        <div className="space-y-2">
+            {sortedAgencies.map(agency => {
+                const submissions = agency.interactions.filter(i => i.type === 'submission').length;
+                return (
+                    <button
+                        key={agency.id}
+                        onClick={() => {
+                            setSelectedId(agency.id);
+                            setEditing(null);
+                        }}
+                        className={`w-full text-left p-3 rounded-lg border transition-colors ${agency.id === selectedId ? 'bg-slate-700/60 border-cyan-600' : 'bg-slate-800/50 border-slate-700 hover:border-slate-500'}`}
+                    >
+                        <p className="font-semibold text-white">{agency.name}</p>
+                        {agency.specialties.length > 0 && <p className="text-xs text-slate-400 truncate">{agency.specialties.join(', ')}</p>}
+                        <p className="text-xs text-slate-500 mt-1">
+                            {submissions} submission{submissions === 1 ? '' : 's'}
+                            {agency.followUpAt && (
+                                <span className={isDue(agency.followUpAt) ? 'text-amber-400' : ''}> · follow up {formatDay(agency.followUpAt)}</span>
+                            )}
+                        </p>
+                    </button>
+                );
+            })}
+        </div>
+    );
+
+    const renderDetails = (agency: Agency) => {
+        const contactName = (id: string | null) => agency.contacts.find(c => c.id === id)?.name;
+        const submissions = agency.interactions.filter(i => i.type === 'submission');
+        return (
+            <div className="space-y-6">
+                <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-3">
+                    <div>
+                        <h2 className="text-2xl font-semibold text-white">{agency.name}</h2>
+                        <p className="text-sm text-slate-400 space-x-3">
+                            {agency.website && (
+                                <a href={/^https?:\/\//i.test(agency.website) ? agency.website : `https://${agency.website}`} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">
+                                    {agency.website.replace(/^https?:\/\//i, '')}
+                                </a>
+                            )}
+                            {agency.email && <a href={`mailto:${agency.email}`} className="hover:underline">{agency.email}</a>}
+                            {agency.phone && <span>{agency.phone}</span>}
+                        </p>
+                        {agency.specialties.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5 mt-2">
+                                {agency.specialties.map(s => (
+                                    <span key={s} className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">{s}</span>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                        <button onClick={() => setEditing(agency.id)} className="px-3 py-1 text-xs font-bold text-white bg-slate-600 rounded-md hover:bg-slate-500">Edit</button>
+                        <button onClick={() => handleDelete(agency)} className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 rounded-md hover:bg-red-800/50">Delete</button>
+                    </div>
+                </div>
+
+                {agency.followUpAt && (
+                    <div className={`flex justify-between items-center gap-3 p-3 rounded-md text-sm ${isDue(agency.followUpAt) ? 'bg-amber-900/40 text-amber-200' : 'bg-slate-800/60 text-slate-300'}`}>
+                        <span>
+                            Follow up {formatDay(agency.followUpAt)}
+                            {agency.followUpNote && `: ${agency.followUpNote}`}
+                        </span>
+                        <button onClick={() => handleFollowUpDone(agency)} className="px-3 py-1 text-xs font-bold text-white bg-slate-600 rounded-md hover:bg-slate-500 flex-shrink-0">
+                            Done
+                        </button>
+                    </div>
+                )}
+
+                {agency.notes && <p className="text-sm text-slate-300 whitespace-pre-wrap">{agency.notes}</p>}
+
+                <section>
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-500 mb-2">Recruiters</h3>
+                    {agency.contacts.length > 0 ? (
+                        <ul className="space-y-1 text-sm">
+                            {agency.contacts.map(c => (
+                                <li key={c.id} className="text-slate-300">
+                                    <span className="font-medium text-white">{c.name}</span>
+                                    {c.title && <span className="text-slate-400">, {c.title}</span>}
+                                    {c.email && <a href={`mailto:${c.email}`} className="ml-3 text-cyan-400 hover:underline">{c.email}</a>}
+                                    {c.phone && <span className="ml-3 text-slate-400">{c.phone}</span>}
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-slate-500">No recruiters yet. Add them with Edit.</p>
+                    )}
+                </section>
+
+                <section>
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-500 mb-2">Submitted To</h3>
+                    {submissions.length > 0 ? (
+                        <ul className="space-y-1 text-sm">
+                            {submissions.map(s => {
+                                const job = jobs.find(j => j.id === s.jobId);
+                                return (
+                                    <li key={s.id} className="text-slate-300">
+                                        <span className="font-medium text-white">{job?.title || s.jobTitle}</span>
+                                        {(job?.company || s.company) && <span className="text-slate-400"> at {job?.company || s.company}</span>}
+                                        <span className="text-slate-500"> · {formatDay(s.date)}</span>
+                                        {job ? <span className="text-slate-500"> · {statusLabel(job.status)}</span> : <span className="text-slate-600"> · no longer on the dashboard</span>}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    ) : (
+                        <p className="text-sm text-slate-500">No submissions logged.</p>
+                    )}
+                </section>
+
+                <section>
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-slate-500 mb-2">Interactions</h3>
+                    <InteractionForm agency={agency} jobs={jobs} submittedBy={submittedBy} onLog={interaction => handleLog(agency, interaction)} />
+                    <ul className="mt-3 space-y-2">
+                        {[...agency.interactions].reverse().map(i => (
+                            <li key={i.id} className="p-3 rounded-md bg-slate-800/50 border border-slate-700 text-sm">
+                                <div className="flex justify-between gap-3">
+                                    <p className="text-slate-400">
+                                        <span className="font-semibold text-slate-200">{interactionLabel(i.type)}</span>
+                                        {' · '}
+                                        {formatDay(i.date)}
+                                        {contactName(i.contactId) && ` · with ${contactName(i.contactId)}`}
+                                        {i.type === 'submission' && i.jobTitle && ` · ${i.jobTitle}${i.company ? ` at ${i.company}` : ''}`}
+                                    </p>
+                                    <button
+                                        onClick={() => handleDeleteInteraction(agency, i.id)}
+                                        className="text-xs text-slate-500 hover:text-red-400"
+                                        aria-label={`Delete ${interactionLabel(i.type).toLowerCase()} from ${formatDay(i.date)}`}
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                                {i.summary && <p className="mt-1 text-slate-300 whitespace-pre-wrap">{i.summary}</p>}
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            </div>
+        );
+    };
+
+    const renderContent = () => {
+        if (isLoading) {
+            return (
+                <div className="flex flex-col items-center justify-center py-16">
+                    <Loader />
+                    <p className="mt-4 text-slate-400">Loading agencies...</p>
+                </div>
+            );
+        }
+        return (
+            <>
+                {dueAgencies.length > 0 && (
+                    <div className="mb-4 bg-amber-900/30 border border-amber-700/50 text-amber-200 p-3 rounded-md text-sm">
+                        <strong>{dueAgencies.length} follow-up{dueAgencies.length === 1 ? '' : 's'} due:</strong> {dueAgencies.map(a => a.name).join(', ')}
+                    </div>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <div>
+                        {agencies.length > 0 ? renderList() : <p className="text-slate-400 text-sm">No agencies yet. Add the staffing agencies you work with to track them here.</p>}
+                    </div>
+                    <div className="md:col-span-2 bg-slate-800/30 p-5 rounded-lg border border-slate-700">
+                        {editing ? (
+                            <AgencyForm
+                                key={editing}
+                                initial={editing === 'new' || !selected ? EMPTY_AGENCY : selected}
+                                isNew={editing === 'new'}
+                                onSave={handleSave}
+                                onCancel={() => setEditing(null)}
+                            />
+                        ) : selected ? (
+                            renderDetails(selected)
+                        ) : (
+                            <p className="text-slate-400 text-sm text-center py-8">Select an agency to see its recruiters, submissions and interactions.</p>
+                        )}
+                    </div>
+                </div>
+            </>
+        );
+    };
+
+    return (
+        <div className="animate-fade-in w-full max-w-6xl mx-auto">
+            <div className="flex justify-between items-center mb-6 gap-4">
+                <h1 className="text-3xl font-bold text-white">Recruiting Agencies</h1>
+                <div className="flex gap-2">
+                    <button
+                        onClick={() => setEditing('new')}
+                        className="px-5 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 transition-colors duration-150"
+                    >
+                        Add Agency
+                    </button>
+                    <button
+                        onClick={onNavigateHome}
+                        className="px-5 py-2 text-sm font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors duration-150"
+                    >
+                        &larr; Back to App
+                    </button>
+                </div>
             </div>
+            {error && (
+                <div className="mb-4 bg-red-900/50 text-red-300 p-3 rounded-md text-sm">
+                    <strong>Error:</strong> {error}
+                </div>
+            )}
+            {renderContent()}
         </div>
     );
 };
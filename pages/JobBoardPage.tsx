@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Job, ApplicationStatus } from '../types';
+import { APPLICATION_STATUSES, statusLabel } from '../data/pipeline';
+
+interface JobBoardPageProps {
+    jobs: Job[];
+    onChangeStatus: (id: string, status: ApplicationStatus) => void;
+    onNavigateToList: () => void;
+}
+
+const DRAG_MIME_TYPE = 'application/x-job-id';
+
+const daysSince = (iso?: string): number | null => {
+    if (!iso) return null;
+    return Math.max(0, Math.floor((Date.now() - new Date(iso).getTime()) / 86_400_000));
+};
+
+const BoardCard: React.FC<{
+    job: Job;
+    onChangeStatus: (id: string, status: ApplicationStatus) => void;
+}> = ({ job, onChangeStatus }) => {
+    const [showHistory, setShowHistory] = useState(false);
+    const lastChange = job.statusHistory[job.statusHistory.length - 1];
+    const daysInStage = daysSince(lastChange?.changedAt);
+
+    return (
+        <div
+            draggable
+            onDragStart={(e) => {
+                e.dataTransfer.setData(DRAG_MIME_TYPE, job.id);
+                e.dataTransfer.effectAllowed = 'move';
+            }}
+            className="bg-slate-800 border border-slate-700 rounded-md p-3 shadow cursor-grab active:cursor-grabbing hover:border-cyan-500/50 transition-colors"
+        >
+            <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0">
+                    <p className="font-semibold text-white text-sm leading-tight truncate" title={job.title}>{job.title || 'New Job Listing'}</p>
+                    <p className="text-xs text-slate-400 truncate">{job.company}</p>
+                </div>
+                {job.analysis && (
+                    <span className={`flex-shrink-0 text-xs font-bold px-2 py-0.5 rounded-full ${job.analysis.matchScore >= 75 ? 'bg-green-900/50 text-green-300' : job.analysis.matchScore >= 50 ? 'bg-yellow-900/50 text-yellow-300' : 'bg-red-900/50 text-red-300'}`}>
+                        {job.analysis.matchScore}%
+                    </span>
+                )}
+            </div>
+            <div className="mt-2 flex items-center justify-between gap-2">
+                {daysInStage !== null && (
+                    <span className="text-xs text-slate-500">{daysInStage === 0 ? 'Today' : `${daysInStage}d in stage`}</span>
+                )}
+                {/* Keyboard-accessible alternative to dragging */}
+                <select
+                    aria-label={`Status for ${job.title}`}
+                    value={job.status}
+                    onChange={(e) => onChangeStatus(job.id, e.target.value as ApplicationStatus)}
+                    className="bg-slate-900 border border-slate-600 rounded px-1.5 py-0.5 text-xs text-slate-300"
+                >
+                    {APPLICATION_STATUSES.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                </select>
+            </div>
+            {job.statusHistory.length > 0 && (
+                <button
+                    onClick={() => setShowHistory(!showHistory)}
+                    className="mt-2 text-xs text-cyan-400 hover:text-cyan-300"
+                >
+                    {showHistory ? 'Hide history' : `History (${job.statusHistory.length})`}
+                </button>
+            )}
+            {showHistory && (
+                <ol className="mt-2 space-y-1 border-t border-slate-700 pt-2">
+                    {job.statusHistory.map((change, index) => (
+                        <li key={index} className="text-xs text-slate-400 flex justify-between gap-2">
+                            <span>{change.from ? `${statusLabel(change.from)} → ` : ''}{statusLabel(change.status)}</span>
+                            <span className="text-slate-500">{new Date(change.changedAt).toLocaleDateString()}</span>
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+const JobBoardPage: React.FC<JobBoardPageProps> = ({ jobs, onChangeStatus, onNavigateToList }) => {
+    const [dropTarget, setDropTarget] = useState<ApplicationStatus | null>(null);
+
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>, status: ApplicationStatus) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const id = e.dataTransfer.getData(DRAG_MIME_TYPE);
+        if (id) onChangeStatus(id, status);
+    };
+
+    return (
+        <div className="animate-fade-in w-full">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-3xl md:text-4xl font-bold text-white">Application Pipeline</h1>
+                    <p className="text-slate-400 mt-1">Drag jobs between columns as your applications progress.</p>
+                </div>
+                <button
+                    onClick={onNavigateToList}
+                    className="px-5 py-2 text-sm font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors duration-150"
+                >
+                    &larr; List View
+                </button>
+            </div>
+
+            {jobs.length === 0 ? (
+                <div className="text-center py-16 bg-slate-800/30 rounded-lg border border-dashed border-slate-700">
+                    <h2 className="text-xl font-semibold text-slate-300">No jobs in your pipeline yet.</h2>
+                    <p className="mt-2 text-slate-400">Add jobs from the dashboard to track them here.</p>
+                </div>
+            ) : (
+                <div className="flex gap-4 overflow-x-auto pb-4">
+                    {APPLICATION_STATUSES.map(column => {
+                        const columnJobs = jobs.filter(job => job.status === column.value);
+                        return (
+                            <div
+                                key={column.value}
+                                onDragOver={(e) => {
+                                    e.preventDefault();
+                                    e.dataTransfer.dropEffect = 'move';
+                                    setDropTarget(column.value);
+                                }}
+                                onDragLeave={() => setDropTarget(current => (current === column.value ? null : current))}
+                                onDrop={(e) => handleDrop(e, column.value)}
+                                className={`flex-shrink-0 w-64 bg-slate-800/40 rounded-lg border-t-4 ${column.accent} border-x border-b border-slate-700 p-3 flex flex-col transition-colors ${dropTarget === column.value ? 'bg-slate-700/60' : ''}`}
+                                aria-label={`${column.label} column`}
+                            >
+                                <div className="flex justify-between items-center mb-3">
+                                    <h2 className="text-sm font-bold uppercase text-slate-300">{column.label}</h2>
+                                    <span className="text-xs font-semibold text-slate-400 bg-slate-700 rounded-full px-2 py-0.5">{columnJobs.length}</span>
+                                </div>
+                                <div className="space-y-3 min-h-[6rem] flex-grow">
+                                    {columnJobs.map(job => (
+                                        <BoardCard key={job.id} job={job} onChangeStatus={onChangeStatus} />
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default JobBoardPage;
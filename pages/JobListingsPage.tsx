@@ -1,7 +1,9 @@
 import React, { useState, useMemo } from 'react';
-import { Job, ImprovementSuggestion } from '../types';
+import { Job, ApplicationStatus, ImprovementSuggestion, BatchAnalysis, WorkArrangement, EmploymentType, Seniority } from '../types';
 import ResumeInput from '../components/ResumeInput';
 import JobCard from '../components/JobCard';
+import { ResumeEdit } from '../services/suggestionMatcher';
+import { EMPLOYMENT_TYPES, SENIORITY_LEVELS, WORK_ARRANGEMENTS } from '../data/postingFacts';
 
 interface JobListingsPageProps {
     resume: string;
@@ -9,37 +11,85 @@ interface JobListingsPageProps {
     jobs: Job[];
     onAddJob: () => void;
     onRemoveJob: (id: string) => void;
-    onUpdateJob: (id: string, updates: Partial<Pick<Job, 'url' | 'description'>>) => void;
+    onUpdateJob: (id: string, updates: Partial<Pick<Job, 'url' | 'description' | 'coverLetter'>>) => void;
     onFetchDescription: (id: string) => void;
-    onAnalyzeJob: (id: string) => void;
+    onAnalyzeJob: (id: string, refresh?: boolean) => void;
+    batch: BatchAnalysis | null;
+    onAnalyzeAll: () => void;
+    onCancelBatch: () => void;
+    onDismissBatch: () => void;
+    onChangeJobStatus: (id: string, status: ApplicationStatus) => void;
     onSelectSuggestion: (suggestion: ImprovementSuggestion) => void;
+    suggestionEdits: { undo: ResumeEdit[]; redo: ResumeEdit[] };
+    suggestionEditError: string | null;
+    onUndoSuggestion: () => void;
+    onRedoSuggestion: () => void;
+    onNavigateToBoard: () => void;
 }
 
-type SortKey = 'title' | 'company' | 'analyzedAt';
+type SortKey = 'title' | 'company' | 'analyzedAt' | 'salary' | 'deadline';
 type SortDirection = 'asc' | 'desc';
 
+// An empty value doesn't filter; a set one hides jobs whose facts don't say
+interface JobFilters {
+    workArrangement: WorkArrangement | '';
+    employmentType: EmploymentType | '';
+    seniority: Seniority | '';
+    // Annual, in thousands
+    minSalary: string;
+    location: string;
+}
+
+const NO_FILTERS: JobFilters = { workArrangement: '', employmentType: '', seniority: '', minSalary: '', location: '' };
+
+const matchesFilters = (job: Job, filters: JobFilters): boolean => {
+    const facts = job.facts;
+    if (filters.workArrangement && facts?.workArrangement !== filters.workArrangement) return false;
+    if (filters.employmentType && facts?.employmentType !== filters.employmentType) return false;
+    if (filters.seniority && facts?.seniority !== filters.seniority) return false;
+    const minSalary = Number(filters.minSalary) * 1000;
+    if (minSalary > 0 && !(facts?.salary && facts.salary.max >= minSalary)) return false;
+    const location = filters.location.trim().toLowerCase();
+    if (location && !facts?.locations.some(l => l.toLowerCase().includes(location))) return false;
+    return true;
+};
+
+// Jobs whose facts don't give the value go to the bottom in either direction
+const factSortValue = (job: Job, key: 'salary' | 'deadline'): number | string | null =>
+    key === 'salary' ? job.facts?.salary?.max ?? null : job.facts?.deadline ?? null;
+
 const JobListingsPage: React.FC<JobListingsPageProps> = ({
-    resume, setResume, jobs, onAddJob, onRemoveJob, onUpdateJob, onFetchDescription, onAnalyzeJob, onSelectSuggestion
+    resume, setResume, jobs, onAddJob, onRemoveJob, onUpdateJob, onFetchDescription, onAnalyzeJob, batch, onAnalyzeAll, onCancelBatch, onDismissBatch, onChangeJobStatus, onSelectSuggestion,
+    suggestionEdits, suggestionEditError, onUndoSuggestion, onRedoSuggestion, onNavigateToBoard
 }) => {
     const [sortKey, setSortKey] = useState<SortKey>('analyzedAt');
     const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+    const [filters, setFilters] = useState<JobFilters>(NO_FILTERS);
+    const nextUndo = suggestionEdits.undo[suggestionEdits.undo.length - 1];
+    const nextRedo = suggestionEdits.redo[suggestionEdits.redo.length - 1];
 
     const handleSort = (key: SortKey) => {
         if (key === sortKey) {
             setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'));
         } else {
             setSortKey(key);
-            // Default to descending for dates, ascending for text
-            setSortDirection(key === 'analyzedAt' ? 'desc' : 'asc');
+            // Default to newest analyses and highest salaries first, soonest deadlines and text A-Z
+            setSortDirection(key === 'analyzedAt' || key === 'salary' ? 'desc' : 'asc');
         }
     };
 
-    const sortedJobs = useMemo(() => {
+    const visibleJobs = useMemo(() => {
         const sortable = [...jobs];
         sortable.sort((a, b) => {
             let valA: string | number, valB: string | number;
 
-            if (sortKey === 'analyzedAt') {
+            if (sortKey === 'salary' || sortKey === 'deadline') {
+                const factA = factSortValue(a, sortKey);
+                const factB = factSortValue(b, sortKey);
+                if (factA === null || factB === null) return factA === factB ? 0 : factA === null ? 1 : -1;
+                valA = factA;
+                valB = factB;
+            } else if (sortKey === 'analyzedAt') {
                 // Unanalyzed jobs go to the bottom regardless of direction
                 valA = a.analyzedAt ? new Date(a.analyzedAt).getTime() : 0;
                 valB = b.analyzedAt ? new Date(b.analyzedAt).getTime() : 0;
@@ -56,8 +106,17 @@ const JobListingsPage: React.FC<JobListingsPageProps> = ({
             }
             return 0;
         });
-        return sortable;
-    }, [jobs, sortKey, sortDirection]);
+        return sortable.filter(job => matchesFilters(job, filters));
+    }, [jobs, sortKey, sortDirection, filters]);
+
+    const isFiltered = (Object.values(filters) as string[]).some(value => value.trim());
+    const updateFilter = (changes: Partial<JobFilters>) => setFilters(prev => ({ ...prev, ...changes }));
+
+    const analyzableCount = jobs.filter(job => job.description.trim() && !job.isLoading).length;
+    const isBatchRunning = batch?.status === 'running';
+    const batchFinished = batch ? batch.counts.done + batch.counts.failed + batch.counts.cancelled : 0;
+
+    const filterClasses = 'bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-xs text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500';
 
     const SortButton = ({ label, sortValue }: { label: string; sortValue: SortKey }) => {
         const isActive = sortKey === sortValue;
@@ -76,26 +135,149 @@ const JobListingsPage: React.FC<JobListingsPageProps> = ({
         <div className="flex-grow flex flex-col animate-fade-in">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 flex-grow items-start">
                 <aside className="lg:col-span-1 lg:sticky lg:top-20">
+                    {(suggestionEdits.undo.length > 0 || suggestionEdits.redo.length > 0 || suggestionEditError) && (
+                        <div className="mb-3 p-3 bg-slate-800/50 rounded-md border border-slate-700 space-y-2 text-sm">
+                            <div className="flex items-center gap-2">
+                                <span className="text-slate-400 mr-auto">Suggestion edits</span>
+                                <button
+                                    onClick={onUndoSuggestion}
+                                    disabled={!suggestionEdits.undo.length}
+                                    className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title={nextUndo ? `Undo "${nextUndo.label}"` : undefined}
+                                >
+                                    Undo
+                                </button>
+                                <button
+                                    onClick={onRedoSuggestion}
+                                    disabled={!suggestionEdits.redo.length}
+                                    className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 rounded hover:bg-slate-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                                    title={nextRedo ? `Redo "${nextRedo.label}"` : undefined}
+                                >
+                                    Redo
+                                </button>
+                            </div>
+                            {suggestionEditError && <p className="text-xs text-red-400" role="alert">{suggestionEditError}</p>}
+                        </div>
+                    )}
                     <ResumeInput resume={resume} setResume={setResume} />
                 </aside>
                 
                 <main className="lg:col-span-2 space-y-6">
                     <div className="flex justify-between items-center">
                         <h1 className="text-3xl md:text-4xl font-bold text-white">Job Dashboard</h1>
-                        <button 
-                            onClick={onAddJob} 
-                            className="px-4 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 transition-colors duration-150 transform hover:scale-105"
-                        >
-                            + Add New Job
-                        </button>
+                        <div className="flex items-center gap-2">
+                            <button
+                                onClick={onAnalyzeAll}
+                                disabled={isBatchRunning || !resume.trim() || analyzableCount === 0}
+                                className="px-4 py-2 text-sm font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:bg-slate-600 disabled:cursor-not-allowed transition-colors duration-150"
+                                title="Analyze every job that has a description"
+                            >
+                                Analyze All
+                            </button>
+                            <button
+                                onClick={onNavigateToBoard}
+                                className="px-4 py-2 text-sm font-bold text-slate-300 bg-slate-700 rounded-md hover:bg-slate-600 transition-colors duration-150"
+                            >
+                                Board View
+                            </button>
+                            <button 
+                                onClick={onAddJob} 
+                                className="px-4 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 transition-colors duration-150 transform hover:scale-105"
+                            >
+                                + Add New Job
+                            </button>
+                        </div>
                     </div>
 
+                    {batch && (
+                        <div className="p-3 bg-slate-800/50 rounded-md border border-slate-700 space-y-2" aria-live="polite">
+                            <div className="flex justify-between items-center text-sm">
+                                <span className="text-slate-300">
+                                    {isBatchRunning ? 'Analyzing' : batch.status === 'cancelled' ? 'Cancelled' : 'Analyzed'}{' '}
+                                    {batch.counts.done} of {batch.counts.total} jobs
+                                    {batch.counts.failed > 0 && <span className="text-red-400"> · {batch.counts.failed} failed</span>}
+                                    {batch.counts.cancelled > 0 && <span className="text-slate-500"> · {batch.counts.cancelled} skipped</span>}
+                                </span>
+                                {isBatchRunning ? (
+                                    <button onClick={onCancelBatch} className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 rounded hover:bg-slate-600">
+                                        Cancel
+                                    </button>
+                                ) : (
+                                    <button onClick={onDismissBatch} className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 rounded hover:bg-slate-600">
+                                        Dismiss
+                                    </button>
+                                )}
+                            </div>
+                            <div className="h-2 bg-slate-700 rounded-full overflow-hidden">
+                                <div
+                                    className="h-full bg-indigo-500 transition-all duration-300"
+                                    style={{ width: `${batch.counts.total ? (batchFinished / batch.counts.total) * 100 : 0}%` }}
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     {jobs.length > 0 && (
-                         <div className="flex items-center justify-end gap-2 text-sm p-2 bg-slate-800/30 rounded-md border border-slate-700/50">
-                            <span className="text-slate-400 font-medium">Sort by:</span>
-                            <SortButton label="Last Analyzed" sortValue="analyzedAt" />
-                            <SortButton label="Title" sortValue="title" />
-                            <SortButton label="Company" sortValue="company" />
+                        <div className="p-2 bg-slate-800/30 rounded-md border border-slate-700/50 space-y-2 text-sm">
+                            <div className="flex flex-wrap items-center justify-end gap-2">
+                                <span className="text-slate-400 font-medium">Sort by:</span>
+                                <SortButton label="Last Analyzed" sortValue="analyzedAt" />
+                                <SortButton label="Title" sortValue="title" />
+                                <SortButton label="Company" sortValue="company" />
+                                <SortButton label="Salary" sortValue="salary" />
+                                <SortButton label="Deadline" sortValue="deadline" />
+                            </div>
+                            <div className="flex flex-wrap items-center justify-end gap-2">
+                                <span className="text-slate-400 font-medium">Filter:</span>
+                                <select
+                                    value={filters.workArrangement}
+                                    onChange={e => updateFilter({ workArrangement: e.target.value as JobFilters['workArrangement'] })}
+                                    className={filterClasses}
+                                    aria-label="Work arrangement"
+                                >
+                                    <option value="">Any arrangement</option>
+                                    {WORK_ARRANGEMENTS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                </select>
+                                <select
+                                    value={filters.employmentType}
+                                    onChange={e => updateFilter({ employmentType: e.target.value as JobFilters['employmentType'] })}
+                                    className={filterClasses}
+                                    aria-label="Employment type"
+                                >
+                                    <option value="">Any type</option>
+                                    {EMPLOYMENT_TYPES.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                </select>
+                                <select
+                                    value={filters.seniority}
+                                    onChange={e => updateFilter({ seniority: e.target.value as JobFilters['seniority'] })}
+                                    className={filterClasses}
+                                    aria-label="Seniority"
+                                >
+                                    <option value="">Any seniority</option>
+                                    {SENIORITY_LEVELS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                </select>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={filters.minSalary}
+                                    onChange={e => updateFilter({ minSalary: e.target.value })}
+                                    placeholder="Min salary (k/yr)"
+                                    className={`${filterClasses} w-36`}
+                                    aria-label="Minimum annual salary in thousands"
+                                />
+                                <input
+                                    value={filters.location}
+                                    onChange={e => updateFilter({ location: e.target.value })}
+                                    placeholder="Location"
+                                    className={`${filterClasses} w-32`}
+                                    aria-label="Location"
+                                />
+                                {isFiltered && (
+                                    <button onClick={() => setFilters(NO_FILTERS)} className="text-xs font-semibold text-cyan-400 hover:text-cyan-300">
+                                        Clear
+                                    </button>
+                                )}
+                            </div>
                         </div>
                     )}
 
@@ -104,8 +286,15 @@ const JobListingsPage: React.FC<JobListingsPageProps> = ({
                             <h2 className="text-xl font-semibold text-slate-300">Your dashboard is empty.</h2>
                             <p className="mt-2 text-slate-400">Click "Add New Job" to manually enter a job, or find one via "Job Listings" in the header.</p>
                         </div>
+                    ) : visibleJobs.length === 0 ? (
+                        <div className="text-center py-10 bg-slate-800/30 rounded-lg border border-dashed border-slate-700">
+                            <p className="text-slate-400">No jobs match these filters.</p>
+                            <button onClick={() => setFilters(NO_FILTERS)} className="mt-2 text-sm font-semibold text-cyan-400 hover:text-cyan-300">
+                                Clear filters
+                            </button>
+                        </div>
                     ) : (
-                        sortedJobs.map(job => (
+                        visibleJobs.map(job => (
                             <JobCard
                                 key={job.id}
                                 job={job}
@@ -114,8 +303,10 @@ const JobListingsPage: React.FC<JobListingsPageProps> = ({
                                 onFetch={onFetchDescription}
                                 onAnalyze={onAnalyzeJob}
                                 onRemove={onRemoveJob}
+                                onChangeStatus={onChangeJobStatus}
                                 isAnalyzeDisabled={!resume.trim() || !job.description.trim()}
                                 onSelectSuggestion={onSelectSuggestion}
+                                onUseResume={setResume}
                             />
                         ))
                     )}
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { JobListing } from '../types';
+import { JobListing, JobSite } from '../types';
 import { searchForJobs } from '../services/geminiService';
 import Loader from '../components/Loader';
 
@@ -8,14 +8,15 @@ interface JobSearchPageProps {
     onLoadJob: (jobData: JobListing) => void;
 }
 
-type JobSite = 'linkedin.com/jobs' | 'indeed.com' | 'myworkdayjobs.com';
-
 const JobSearchPage: React.FC<JobSearchPageProps> = ({ onNavigateHome, onLoadJob }) => {
     const [query, setQuery] = useState('');
     const [site, setSite] = useState<JobSite>('linkedin.com/jobs');
     const [results, setResults] = useState<JobListing[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    // The query and site of the results on screen, so "Load more" pages the same search
+    const [activeSearch, setActiveSearch] = useState<{ query: string; site: JobSite; page: number; hasMore: boolean } | null>(null);
 
     const handleSearch = async (e: React.FormEvent) => {
         e.preventDefault();
@@ -23,10 +24,12 @@ const JobSearchPage: React.FC<JobSearchPageProps> = ({ onNavigateHome, onLoadJob
         setIsLoading(true);
         setError(null);
         setResults([]);
+        setActiveSearch(null);
         try {
-            const jobListings = await searchForJobs(query, site);
-            setResults(jobListings);
-             if (jobListings.length === 0) {
+            const result = await searchForJobs(query, site);
+            setResults(result.jobs);
+            setActiveSearch({ query, site, page: result.page, hasMore: result.hasMore });
+             if (result.jobs.length === 0) {
                 setError("No job listings found for your search criteria. Try different keywords.");
             }
         } catch (err: any) {
@@ -35,6 +38,24 @@ const JobSearchPage: React.FC<JobSearchPageProps> = ({ onNavigateHome, onLoadJob
             setIsLoading(false);
         }
     };
+
+    const handleLoadMore = async () => {
+        if (!activeSearch) return;
+        setIsLoadingMore(true);
+        setError(null);
+        try {
+            const result = await searchForJobs(activeSearch.query, activeSearch.site, activeSearch.page + 1);
+            setResults(prev => {
+                const seen = new Set(prev.map(job => job.url));
+                return [...prev, ...result.jobs.filter(job => !seen.has(job.url))];
+            });
+            setActiveSearch({ ...activeSearch, page: result.page, hasMore: result.hasMore && result.jobs.length > 0 });
+        } catch (err: any) {
+            setError(err.message || "An unexpected error occurred while loading more results.");
+        } finally {
+            setIsLoadingMore(false);
+        }
+    };
     
     const handleFetchAndLoad = (job: JobListing) => {
         onLoadJob(job);
@@ -111,7 +132,12 @@ const JobSearchPage: React.FC<JobSearchPageProps> = ({ onNavigateHome, onLoadJob
                             <div className="flex-1">
                                 <a href={job.url} target="_blank" rel="noopener noreferrer" className="text-lg font-semibold text-cyan-400 hover:underline">{job.title}</a>
                                 <p className="text-md text-slate-300">{job.company}</p>
-                                <p className="text-sm text-slate-400 mt-2 italic">"{job.snippet}"</p>
+                                {(job.location || job.postedAt) && (
+                                    <p className="text-xs text-slate-500 mt-1">
+                                        {[job.location, job.postedAt && `Posted ${new Date(job.postedAt).toLocaleDateString()}`].filter(Boolean).join(' · ')}
+                                    </p>
+                                )}
+                                {job.snippet && <p className="text-sm text-slate-400 mt-2 italic">"{job.snippet}"</p>}
                             </div>
                             <button
                                 onClick={() => handleFetchAndLoad(job)}
@@ -122,6 +148,17 @@ const JobSearchPage: React.FC<JobSearchPageProps> = ({ onNavigateHome, onLoadJob
                         </div>
                     </div>
                 ))}
+                {activeSearch?.hasMore && results.length > 0 && (
+                    <div className="flex justify-center pt-2">
+                        <button
+                            onClick={handleLoadMore}
+                            disabled={isLoadingMore}
+                            className="flex items-center justify-center w-40 px-4 py-2 text-sm font-bold text-white bg-slate-600 rounded-md hover:bg-slate-500 disabled:bg-slate-700 disabled:cursor-not-allowed transition-colors duration-150"
+                        >
+                            {isLoadingMore ? <Loader /> : 'Load more'}
+                        </button>
+                    </div>
+                )}
             </div>
         </div>
     );
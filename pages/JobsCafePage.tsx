@@ -1,6 +1,6 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { HiringCafeJob } from '../types';
-import { fetchHiringCafeJobs } from '../services/hiringCafeService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { HiringCafeJob, HiringCafePostedWithin, HiringCafeSearchResult } from '../types';
+import { searchHiringCafeJobs } from '../services/hiringCafeService';
 import Loader from '../components/Loader';
 
 interface JobsCafePageProps {
@@ -8,30 +8,163 @@ interface JobsCafePageProps {
     onLoadJob: (jobData: HiringCafeJob) => void;
 }
 
+interface CafeFilters {
+    q: string;
+    location: string;
+    tags: string[];
+    postedWithin?: HiringCafePostedWithin;
+}
+
+const PAGE_SIZE = 24;
+// Typing in the keyword and location boxes searches once it pauses
+const SEARCH_DEBOUNCE_MS = 400;
+
+const POSTED_WITHIN_OPTIONS: { value: HiringCafePostedWithin; label: string }[] = [
+    { value: 1, label: 'Past 24 hours' },
+    { value: 7, label: 'Past week' },
+    { value: 30, label: 'Past month' },
+];
+
+const NO_FILTERS: CafeFilters = { q: '', location: '', tags: [] };
+
 const JobsCafePage: React.FC<JobsCafePageProps> = ({ onNavigateHome, onLoadJob }) => {
-    const [jobs, setJobs] = useState<HiringCafeJob[]>([]);
+    const [result, setResult] = useState<HiringCafeSearchResult | null>(null);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [filters, setFilters] = useState<CafeFilters>(NO_FILTERS);
+    const [keyword, setKeyword] = useState('');
+    const [place, setPlace] = useState('');
+    const [page, setPage] = useState(1);
+    // Only the latest search may update the page
+    const latestRequest = useRef(0);
+
+    const updateFilters = (changes: Partial<CafeFilters>) => {
+        setFilters(prev => ({ ...prev, ...changes }));
+        setPage(1);
+    };
+
+    useEffect(() => {
+        if (keyword === filters.q && place === filters.location) return;
+        const timer = setTimeout(() => updateFilters({ q: keyword, location: place }), SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timer);
+    }, [keyword, place, filters.q, filters.location]);
 
-    const loadJobs = useCallback(async () => {
+    const loadJobs = useCallback(async (refresh = false) => {
+        const request = ++latestRequest.current;
         setIsLoading(true);
         setError(null);
         try {
-            const jobListings = await fetchHiringCafeJobs();
-            setJobs(jobListings);
+            const found = await searchHiringCafeJobs({ ...filters, page, pageSize: PAGE_SIZE, refresh });
+            if (request === latestRequest.current) setResult(found);
         } catch (err: any) {
-            setError(err.message || "An unexpected error occurred.");
+            if (request === latestRequest.current) setError(err.message || "An unexpected error occurred.");
         } finally {
-            setIsLoading(false);
+            if (request === latestRequest.current) setIsLoading(false);
         }
-    }, []);
+    }, [filters, page]);
 
     useEffect(() => {
         loadJobs();
     }, [loadJobs]);
 
+    const toggleTag = (tag: string) =>
+        updateFilters({ tags: filters.tags.includes(tag) ? filters.tags.filter(t => t !== tag) : [...filters.tags, tag] });
+
+    const clearFilters = () => {
+        setKeyword('');
+        setPlace('');
+        updateFilters(NO_FILTERS);
+    };
+
+    const hasFilters = !!(keyword || place || filters.tags.length || filters.postedWithin);
+    const jobs = result?.jobs ?? [];
+    // Selected tags stay listed (so they can be unselected) even when nothing matches
+    const tagFacets = [
+        ...(result?.facets.tags ?? []),
+        ...filters.tags.filter(tag => !result?.facets.tags.some(f => f.tag === tag)).map(tag => ({ tag, count: 0 })),
+    ];
+    const filterClasses = 'bg-slate-800 border border-slate-600 rounded-md px-3 py-2 text-sm text-slate-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500';
+
+    const renderFilters = () => (
+        <div className="mb-6 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="search"
+                    value={keyword}
+                    onChange={e => setKeyword(e.target.value)}
+                    placeholder="Keywords"
+                    className={`${filterClasses} flex-grow min-w-[12rem]`}
+                    aria-label="Keywords"
+                />
+                <input
+                    value={place}
+                    onChange={e => setPlace(e.target.value)}
+                    placeholder="Location"
+                    className={`${filterClasses} w-44`}
+                    aria-label="Location"
+                />
+                <select
+                    value={filters.postedWithin ?? ''}
+                    onChange={e => updateFilters({ postedWithin: e.target.value ? (Number(e.target.value) as HiringCafePostedWithin) : undefined })}
+                    className={filterClasses}
+                    aria-label="Posted within"
+                >
+                    <option value="">Any time</option>
+                    {POSTED_WITHIN_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                </select>
+                {hasFilters && (
+                    <button onClick={clearFilters} className="text-sm text-slate-400 hover:text-slate-200 px-2">
+                        Clear
+                    </button>
+                )}
+            </div>
+            {tagFacets.length > 0 && (
+                <div className="flex flex-wrap gap-1.5" aria-label="Filter by tag">
+                    {tagFacets.map(({ tag, count }) => {
+                        const selected = filters.tags.includes(tag);
+                        return (
+                            <button
+                                key={tag}
+                                onClick={() => toggleTag(tag)}
+                                aria-pressed={selected}
+                                className={`text-xs font-medium px-2.5 py-1 rounded-full border transition-colors ${selected ? 'bg-cyan-600 border-cyan-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-300 hover:border-cyan-500/50'}`}
+                            >
+                                {tag} <span className={selected ? 'text-cyan-100' : 'text-slate-500'}>{count}</span>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+
+    const renderPagination = () => {
+        if (!result || result.total <= result.pageSize) return null;
+        const first = (result.page - 1) * result.pageSize + 1;
+        const last = first + result.jobs.length - 1;
+        return (
+            <div className="mt-8 flex justify-center items-center gap-4 text-sm">
+                <button
+                    onClick={() => setPage(p => p - 1)}
+                    disabled={result.page <= 1 || isLoading}
+                    className="px-4 py-2 font-bold text-white bg-slate-600 rounded-md hover:bg-slate-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    &larr; Prev
+                </button>
+                <span className="text-slate-400">{first}&ndash;{last} of {result.total}</span>
+                <button
+                    onClick={() => setPage(p => p + 1)}
+                    disabled={!result.hasMore || isLoading}
+                    className="px-4 py-2 font-bold text-white bg-slate-600 rounded-md hover:bg-slate-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    Next &rarr;
+                </button>
+            </div>
+        );
+    };
+
     const renderContent = () => {
-        if (isLoading && jobs.length === 0) {
+        if (isLoading && !result) {
             return (
                 <div className="text-center py-16">
                     <div className="flex justify-center"><Loader /></div>
@@ -41,22 +174,35 @@ const JobsCafePage: React.FC<JobsCafePageProps> = ({ onNavigateHome, onLoadJob }
         }
 
         if (jobs.length === 0 && !error) {
-            return <p className="text-center text-slate-400 py-16">No job listings found at the moment.</p>;
+            return (
+                <p className="text-center text-slate-400 py-16">
+                    {hasFilters ? "No listings match these filters." : "No job listings found at the moment."}
+                </p>
+            );
         }
 
         return (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 transition-opacity ${isLoading ? 'opacity-60' : ''}`}>
                 {jobs.map(job => (
                     <div key={job.id} className="bg-slate-800/50 border border-slate-700 rounded-lg shadow-lg flex flex-col p-5 transition-transform duration-300 hover:scale-105 hover:border-cyan-500/50">
                         <div className="flex items-center mb-4">
-                            <img src={job.company_logo_url} alt={`${job.company_name} logo`} className="w-12 h-12 rounded-md mr-4 bg-white p-1" />
+                            {job.company_logo_url ? (
+                                <img src={job.company_logo_url} alt={`${job.company_name} logo`} className="w-12 h-12 rounded-md mr-4 bg-white p-1" />
+                            ) : (
+                                <div className="w-12 h-12 rounded-md mr-4 bg-slate-700 flex-shrink-0 flex items-center justify-center text-lg font-bold text-slate-300" aria-hidden="true">
+                                    {job.company_name.charAt(0).toUpperCase() || '?'}
+                                </div>
+                            )}
                             <div>
                                 <h3 className="font-bold text-white leading-tight">{job.title}</h3>
                                 <p className="text-sm text-slate-400">{job.company_name}</p>
                             </div>
                         </div>
                         <div className="flex-grow space-y-3">
-                             <p className="text-xs text-slate-400 flex items-center gap-1.5"><LocationIcon /> {job.location}</p>
+                            <p className="text-xs text-slate-400 flex items-center gap-1.5">
+                                <LocationIcon /> {job.location || "Location not listed"}
+                                {job.posted_at && <span className="ml-auto text-slate-500">{new Date(job.posted_at).toLocaleDateString()}</span>}
+                            </p>
                             <div className="flex flex-wrap gap-1.5">
                                 {job.tags.slice(0, 4).map(tag => (
                                     <span key={tag} className="text-xs font-medium px-2 py-0.5 rounded-full bg-slate-700 text-slate-300">{tag}</span>
@@ -87,7 +233,7 @@ const JobsCafePage: React.FC<JobsCafePageProps> = ({ onNavigateHome, onLoadJob }
                 </div>
                  <div className="flex items-center gap-2 self-start sm:self-center">
                     <button
-                        onClick={loadJobs}
+                        onClick={() => loadJobs(true)}
                         disabled={isLoading}
                         className="flex items-center justify-center flex-shrink-0 px-4 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 transition-colors duration-150 disabled:bg-slate-600 disabled:cursor-not-allowed w-24"
                         aria-label="Refresh job listings"
@@ -103,6 +249,14 @@ const JobsCafePage: React.FC<JobsCafePageProps> = ({ onNavigateHome, onLoadJob }
                 </div>
             </div>
 
+            {renderFilters()}
+
+            {result?.stale && (
+                <div className="mb-4 bg-amber-900/40 text-amber-300 p-3 rounded-md text-sm text-center">
+                    hiring.cafe couldn't be reached, so these listings are from {new Date(result.fetchedAt).toLocaleString()}.
+                </div>
+            )}
+
             {error && (
                 <div className="my-4 bg-red-900/50 text-red-300 p-4 rounded-md text-sm text-center">
                     <strong>Error:</strong> {error}
@@ -110,6 +264,8 @@ const JobsCafePage: React.FC<JobsCafePageProps> = ({ onNavigateHome, onLoadJob }
             )}
 
             {renderContent()}
+
+            {renderPagination()}
         </div>
     );
 };
@@ -1,17 +1,22 @@
 import React, { useState, useEffect } from 'react';
 import { SavedResume } from '../types';
-import { getResumes, deleteResume } from '../services/apiService';
+import { getResumes, deleteResume, saveResume, setDefaultResume, updateResume } from '../services/apiService';
 import Loader from '../components/Loader';
+import ResumeRevisions from '../components/ResumeRevisions';
+import { ExportFormat, downloadResume, downloadResumeText } from '../services/exportService';
 
 interface ResumesPageProps {
+    currentResume: string;
     onNavigateHome: () => void;
     onLoadResume: (content: string) => void;
 }
 
-const ResumesPage: React.FC<ResumesPageProps> = ({ onNavigateHome, onLoadResume }) => {
+const ResumesPage: React.FC<ResumesPageProps> = ({ currentResume, onNavigateHome, onLoadResume }) => {
     const [resumes, setResumes] = useState<SavedResume[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
+    const [newName, setNewName] = useState('');
+    const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
 
     const fetchResumes = async () => {
         try {
@@ -43,17 +48,51 @@ const ResumesPage: React.FC<ResumesPageProps> = ({ onNavigateHome, onLoadResume
         }
     };
     
-    const handleDownload = (resume: SavedResume) => {
-        const blob = new Blob([resume.content], { type: 'text/plain' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        const safeName = resume.name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-        a.download = `resume_${safeName}.txt`;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
+    const replaceResume = (updated: SavedResume) => {
+        setResumes(current => current.map(r => (r._id === updated._id ? updated : r)));
+    };
+
+    const handleSaveNew = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!newName.trim() || !currentResume.trim()) return;
+        try {
+            setError(null);
+            const created = await saveResume({ name: newName.trim(), content: currentResume, jobDescription: '' });
+            setResumes(current => [created, ...current]);
+            setNewName('');
+        } catch (err: any) {
+            setError(err.message || "Failed to save resume.");
+        }
+    };
+
+    // Saving over an existing resume keeps its previous wording as an older revision
+    const handleSaveRevision = async (id: string) => {
+        try {
+            setError(null);
+            replaceResume(await updateResume(id, { content: currentResume }));
+        } catch (err: any) {
+            setError(err.message || "Failed to save revision.");
+        }
+    };
+
+    const handleSetDefault = async (id: string) => {
+        try {
+            setError(null);
+            const updated = await setDefaultResume(id);
+            setResumes(current => current.map(r => (r._id === id ? updated : { ...r, isDefault: false })));
+        } catch (err: any) {
+            setError(err.message || "Failed to set the default resume.");
+        }
+    };
+
+    const handleDownload = async (resume: SavedResume, format: ExportFormat | 'txt') => {
+        if (format === 'txt') return downloadResumeText(resume);
+        try {
+            setError(null);
+            await downloadResume(resume, format);
+        } catch (err: any) {
+            setError(err.message || "Failed to export resume.");
+        }
     };
 
     const renderContent = () => {
@@ -67,20 +106,69 @@ const ResumesPage: React.FC<ResumesPageProps> = ({ onNavigateHome, onLoadResume
         }
         if (resumes.length > 0) {
             return resumes.map(resume => (
-                <div key={resume._id} className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 flex flex-col sm:flex-row justify-between sm:items-center gap-4">
-                    <div>
-                        <p className="font-semibold text-white">{resume.name}</p>
-                        <p className="text-sm text-slate-400">Saved: {new Date(resume.savedAt).toLocaleString()}</p>
-                    </div>
-                    <div className="flex gap-2 flex-shrink-0">
-                        <button onClick={() => onLoadResume(resume.content)} className="px-3 py-1 text-xs font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500">Load</button>
-                        <button onClick={() => handleDownload(resume)} className="px-3 py-1 text-xs font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500">Download</button>
-                        <button onClick={() => handleDelete(resume._id)} className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 hover:bg-red-800/50">Delete</button>
+                <div key={resume._id} className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+                    <div className="flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+                        <div>
+                            <p className="font-semibold text-white">
+                                {resume.name}
+                                {resume.isDefault && (
+                                    <span className="ml-2 text-xs font-medium px-2 py-0.5 rounded-full bg-cyan-900/60 text-cyan-300" title="Saved searches analyze new jobs against this resume">Default</span>
+                                )}
+                            </p>
+                            <p className="text-sm text-slate-400">
+                                Saved: {new Date(resume.savedAt).toLocaleString()}
+                                {resume.revision && resume.revision > 1 && <span className="text-slate-500"> · Rev. {resume.revision}</span>}
+                            </p>
+                        </div>
+                        <div className="flex flex-wrap gap-2 flex-shrink-0">
+                            <button onClick={() => onLoadResume(resume.content)} className="px-3 py-1 text-xs font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500">Load</button>
+                            <button
+                                onClick={() => handleSaveRevision(resume._id)}
+                                disabled={!currentResume.trim() || currentResume === resume.content}
+                                title="Save the resume currently in the editor as a new revision of this one"
+                                className="px-3 py-1 text-xs font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                            >
+                                Save Current as Revision
+                            </button>
+                            <button
+                                onClick={() => setHistoryOpenId(historyOpenId === resume._id ? null : resume._id)}
+                                aria-expanded={historyOpenId === resume._id}
+                                className="px-3 py-1 text-xs font-bold text-white bg-slate-600 rounded-md hover:bg-slate-500"
+                            >
+                                {historyOpenId === resume._id ? 'Hide History' : 'History'}
+                            </button>
+                            <select
+                                value=""
+                                onChange={e => handleDownload(resume, e.target.value as ExportFormat | 'txt')}
+                                aria-label={`Download ${resume.name}`}
+                                className="px-2 py-1 text-xs font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 cursor-pointer"
+                            >
+                                <option value="" disabled>Download</option>
+                                <option value="docx">Word (.docx)</option>
+                                <option value="pdf">PDF</option>
+                                <option value="txt">Plain text (.txt)</option>
+                            </select>
+                            {!resume.isDefault && (
+                                <button
+                                    onClick={() => handleSetDefault(resume._id)}
+                                    title="Analyze saved searches' new jobs against this resume"
+                                    className="px-3 py-1 text-xs font-bold text-white bg-slate-600 rounded-md hover:bg-slate-500"
+                                >
+                                    Make Default
+                                </button>
+                            )}
+                            <button onClick={() => handleDelete(resume._id)} className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 hover:bg-red-800/50">Delete</button>
+                        </div>
                     </div>
+                    {historyOpenId === resume._id && (
+                        <div className="mt-4 pt-4 border-t border-slate-700">
+                            <ResumeRevisions resume={resume} onRestored={replaceResume} />
+                        </div>
+                    )}
                 </div>
             ));
         }
-        return <p className="text-center text-slate-400 py-8">You have no saved resumes. Save a version from the results page after an analysis.</p>;
+        return <p className="text-center text-slate-400 py-8">You have no saved resumes. Save the resume you are working on above.</p>;
     };
 
     return (
@@ -99,6 +187,24 @@ const ResumesPage: React.FC<ResumesPageProps> = ({ onNavigateHome, onLoadResume
                     <strong>Error:</strong> {error}
                 </div>
             )}
+            <form onSubmit={handleSaveNew} className="mb-6 flex flex-col sm:flex-row gap-2">
+                <label htmlFor="new-resume-name" className="sr-only">Name for the current resume</label>
+                <input
+                    id="new-resume-name"
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    placeholder="Name this version, e.g. IT Support - Acme"
+                    className="flex-grow bg-slate-800 border border-slate-600 rounded-md p-2 text-sm text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                />
+                <button
+                    type="submit"
+                    disabled={!newName.trim() || !currentResume.trim()}
+                    className="px-4 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                >
+                    Save Current Resume
+                </button>
+            </form>
             <div className="space-y-4">
                 {renderContent()}
             </div>
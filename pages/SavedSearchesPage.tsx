@@ -0,0 +1,484 @@
+import React, { useState, useEffect } from 'react';
+import { SavedSearch, SavedSearchInput, SavedSearchInterval, SavedSearchSource, SearchHit, User } from '../types';
+import {
+    getSavedSearches,
+    createSavedSearch,
+    updateSavedSearch,
+    deleteSavedSearch,
+    pollSavedSearch,
+    getSearchHits,
+    markSearchHitsRead,
+    dismissSearchHit,
+} from '../services/savedSearchService';
+import Loader from '../components/Loader';
+
+interface SavedSearchesPageProps {
+    user: User | null;
+    onNavigateHome: () => void;
+    onLoginClick: () => void;
+    onAddHit: (hit: SearchHit) => void;
+    // Keeps the header's "new jobs" badge in step with the inbox
+    onUnreadCountChange: (count: number) => void;
+}
+
+const SOURCE_OPTIONS: { name: string; value: SavedSearchSource }[] = [
+    { name: 'Hiring.cafe', value: 'hiring.cafe' },
+    { name: 'LinkedIn', value: 'linkedin.com/jobs' },
+    { name: 'Indeed', value: 'indeed.com' },
+    { name: 'Workday', value: 'myworkdayjobs.com' },
+];
+
+const INTERVAL_OPTIONS: { name: string; value: SavedSearchInterval }[] = [
+    { name: 'Every hour', value: 60 },
+    { name: 'Every 6 hours', value: 360 },
+    { name: 'Daily', value: 1440 },
+];
+
+const EMPTY_FORM: SavedSearchInput = {
+    name: '',
+    keywords: '',
+    tags: [],
+    location: '',
+    sources: ['hiring.cafe'],
+    minMatchScore: 0,
+    autoAnalyze: false,
+    intervalMinutes: 360,
+};
+
+const sourceName = (source: SavedSearchSource) => SOURCE_OPTIONS.find(o => o.value === source)?.name || source;
+
+const scoreClasses = (score: number) =>
+    score >= 75 ? 'bg-green-900/60 text-green-300' : score >= 50 ? 'bg-yellow-900/60 text-yellow-300' : 'bg-red-900/60 text-red-300';
+
+const Switch: React.FC<{ checked: boolean; onChange: (checked: boolean) => void; label: string; disabled?: boolean }> = ({ checked, onChange, label, disabled }) => (
+    <button
+        type="button"
+        role="switch"
+        aria-checked={checked}
+        aria-label={label}
+        disabled={disabled}
+        onClick={() => onChange(!checked)}
+        className={`relative inline-flex h-5 w-9 flex-shrink-0 rounded-full transition-colors disabled:opacity-50 ${checked ? 'bg-cyan-600' : 'bg-slate-600'}`}
+    >
+        <span className={`inline-block h-4 w-4 mt-0.5 rounded-full bg-white transition-transform ${checked ? 'translate-x-4' : 'translate-x-0.5'}`} />
+    </button>
+);
+
+const SavedSearchesPage: React.FC<SavedSearchesPageProps> = ({ user, onNavigateHome, onLoginClick, onAddHit, onUnreadCountChange }) => {
+    const [searches, setSearches] = useState<SavedSearch[]>([]);
+    const [hits, setHits] = useState<SearchHit[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [form, setForm] = useState<SavedSearchInput>(EMPTY_FORM);
+    // Tags are typed comma-separated and split on save
+    const [tagsText, setTagsText] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [pollingIds, setPollingIds] = useState<Set<string>>(new Set());
+    const [searchFilter, setSearchFilter] = useState('');
+
+    const loadAll = async () => {
+        if (!user) return setIsLoading(false);
+        try {
+            setIsLoading(true);
+            setError(null);
+            const [loadedSearches, loadedHits] = await Promise.all([getSavedSearches(), getSearchHits()]);
+            setSearches(loadedSearches);
+            setHits(loadedHits);
+        } catch (err: any) {
+            setError(err.message || "Failed to load saved searches.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadAll();
+    }, [user]);
+
+    const unreadCount = hits.filter(h => !h.readAt).length;
+
+    useEffect(() => {
+        if (!isLoading) onUnreadCountChange(unreadCount);
+    }, [unreadCount, isLoading]);
+
+    const updateForm = (changes: Partial<SavedSearchInput>) => setForm(prev => ({ ...prev, ...changes }));
+
+    const openForm = (search?: SavedSearch) => {
+        const fields: SavedSearchInput = search
+            ? {
+                  name: search.name,
+                  keywords: search.keywords,
+                  tags: search.tags,
+                  location: search.location,
+                  sources: search.sources,
+                  minMatchScore: search.minMatchScore,
+                  autoAnalyze: search.autoAnalyze,
+                  intervalMinutes: search.intervalMinutes,
+              }
+            : EMPTY_FORM;
+        setForm(fields);
+        setTagsText(fields.tags.join(', '));
+        setEditingId(search ? search.id : null);
+        setIsFormOpen(true);
+    };
+
+    const closeForm = () => {
+        setIsFormOpen(false);
+        setEditingId(null);
+    };
+
+    const toggleSource = (source: SavedSearchSource) =>
+        updateForm({ sources: form.sources.includes(source) ? form.sources.filter(s => s !== source) : [...form.sources, source] });
+
+    const replaceSearch = (updated: SavedSearch) => setSearches(current => current.map(s => (s.id === updated.id ? updated : s)));
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const input: SavedSearchInput = { ...form, tags: tagsText.split(',').map(t => t.trim()).filter(Boolean) };
+        try {
+            setIsSaving(true);
+            setError(null);
+            if (editingId) {
+                replaceSearch(await updateSavedSearch(editingId, input));
+            } else {
+                const created = await createSavedSearch(input);
+                setSearches(current => [created, ...current]);
+            }
+            closeForm();
+        } catch (err: any) {
+            setError(err.message || "Failed to save the search.");
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleToggleAutoAnalyze = async (search: SavedSearch, autoAnalyze: boolean) => {
+        replaceSearch({ ...search, autoAnalyze });
+        try {
+            replaceSearch(await updateSavedSearch(search.id, { autoAnalyze }));
+        } catch (err: any) {
+            replaceSearch(search);
+            setError(err.message || "Failed to update the search.");
+        }
+    };
+
+    const handleDelete = async (search: SavedSearch) => {
+        if (!window.confirm(`Delete "${search.name}" and the jobs it found?`)) return;
+        try {
+            setError(null);
+            await deleteSavedSearch(search.id);
+            setSearches(current => current.filter(s => s.id !== search.id));
+            setHits(current => current.filter(h => h.searchId !== search.id));
+            if (searchFilter === search.id) setSearchFilter('');
+        } catch (err: any) {
+            setError(err.message || "Failed to delete the search.");
+        }
+    };
+
+    const handlePollNow = async (search: SavedSearch) => {
+        setPollingIds(current => new Set(current).add(search.id));
+        try {
+            setError(null);
+            const { search: updated, newHits } = await pollSavedSearch(search.id);
+            replaceSearch(updated);
+            if (newHits > 0) setHits(await getSearchHits());
+        } catch (err: any) {
+            setError(err.message || "Failed to run the search.");
+        } finally {
+            setPollingIds(current => {
+                const next = new Set(current);
+                next.delete(search.id);
+                return next;
+            });
+        }
+    };
+
+    const markRead = (ids?: string[]) => {
+        const now = new Date().toISOString();
+        setHits(current => current.map(h => (!h.readAt && (!ids || ids.includes(h.id)) ? { ...h, readAt: now } : h)));
+        markSearchHitsRead(ids).catch(err => console.warn('Failed to mark search hits read', err));
+    };
+
+    const handleDismiss = async (hit: SearchHit) => {
+        setHits(current => current.filter(h => h.id !== hit.id));
+        try {
+            await dismissSearchHit(hit.id);
+        } catch (err: any) {
+            setHits(current => [hit, ...current].sort((a, b) => b.foundAt.localeCompare(a.foundAt)));
+            setError(err.message || "Failed to dismiss the job.");
+        }
+    };
+
+    // The hit leaves the inbox once its job is on the dashboard
+    const handleAdd = (hit: SearchHit) => {
+        dismissSearchHit(hit.id).catch(err => console.warn(`Failed to dismiss search hit ${hit.id}`, err));
+        onUnreadCountChange(unreadCount - (hit.readAt ? 0 : 1));
+        onAddHit(hit);
+    };
+
+    const inputClasses = 'w-full bg-slate-800 border border-slate-600 rounded-md p-2 text-sm text-slate-200 placeholder-slate-500 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500';
+    const visibleHits = searchFilter ? hits.filter(h => h.searchId === searchFilter) : hits;
+    const searchName = (id: string) => searches.find(s => s.id === id)?.name || "Deleted search";
+
+    const renderForm = () => (
+        <form onSubmit={handleSave} className="bg-slate-800/50 p-5 rounded-lg border border-slate-700 mb-6 space-y-4">
+            <h2 className="text-lg font-semibold text-white">{editingId ? "Edit Saved Search" : "New Saved Search"}</h2>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <label className="block text-sm text-slate-300">
+                    Name
+                    <input value={form.name} onChange={e => updateForm({ name: e.target.value })} placeholder="e.g. Remote IT support" className={`${inputClasses} mt-1`} required />
+                </label>
+                <label className="block text-sm text-slate-300">
+                    Keywords
+                    <input value={form.keywords} onChange={e => updateForm({ keywords: e.target.value })} placeholder="e.g. help desk" className={`${inputClasses} mt-1`} />
+                </label>
+                <label className="block text-sm text-slate-300">
+                    Tags <span className="text-slate-500">(comma-separated; a job must have all of them)</span>
+                    <input value={tagsText} onChange={e => setTagsText(e.target.value)} placeholder="e.g. Remote, Full-time" className={`${inputClasses} mt-1`} />
+                </label>
+                <label className="block text-sm text-slate-300">
+                    Location
+                    <input value={form.location} onChange={e => updateForm({ location: e.target.value })} placeholder="e.g. Omaha" className={`${inputClasses} mt-1`} />
+                </label>
+                <label className="block text-sm text-slate-300">
+                    Minimum match score <span className="text-slate-500">(against your default resume; 0 keeps every job)</span>
+                    <input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={form.minMatchScore}
+                        onChange={e => updateForm({ minMatchScore: Math.min(100, Math.max(0, Math.round(Number(e.target.value) || 0))) })}
+                        className={`${inputClasses} mt-1`}
+                    />
+                </label>
+                <label className="block text-sm text-slate-300">
+                    Check
+                    <select
+                        value={form.intervalMinutes}
+                        onChange={e => updateForm({ intervalMinutes: Number(e.target.value) as SavedSearchInterval })}
+                        className={`${inputClasses} mt-1`}
+                    >
+                        {INTERVAL_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.name}</option>)}
+                    </select>
+                </label>
+            </div>
+            <fieldset className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-slate-300">
+                <legend className="mb-1">Sources</legend>
+                {SOURCE_OPTIONS.map(o => (
+                    <label key={o.value} className="flex items-center gap-1.5">
+                        <input type="checkbox" checked={form.sources.includes(o.value)} onChange={() => toggleSource(o.value)} className="accent-cyan-500" />
+                        {o.name}
+                    </label>
+                ))}
+            </fieldset>
+            <div className="flex items-center gap-3 text-sm text-slate-300">
+                <Switch checked={form.autoAnalyze} onChange={autoAnalyze => updateForm({ autoAnalyze })} label="Auto-analyze new jobs" />
+                <span>Auto-analyze new jobs against my default resume</span>
+            </div>
+            <div className="flex justify-end gap-3">
+                <button type="button" onClick={closeForm} className="px-4 py-2 text-sm font-semibold text-slate-400 hover:text-slate-200">
+                    Cancel
+                </button>
+                <button
+                    type="submit"
+                    disabled={isSaving || !form.name.trim() || form.sources.length === 0 || !(form.keywords.trim() || tagsText.trim() || form.location.trim())}
+                    className="px-5 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                >
+                    {isSaving ? "Saving..." : editingId ? "Save Changes" : "Save Search"}
+                </button>
+            </div>
+        </form>
+    );
+
+    const renderSearches = () => (
+        <div className="space-y-3">
+            {searches.map(search => (
+                <div key={search.id} className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+                    <div className="flex flex-col sm:flex-row justify-between sm:items-start gap-3">
+                        <div className="min-w-0">
+                            <p className="font-semibold text-white">{search.name}</p>
+                            <p className="text-sm text-slate-400">
+                                {[search.keywords && `"${search.keywords}"`, search.location && `in ${search.location}`, search.tags.length > 0 && `tagged ${search.tags.join(', ')}`]
+                                    .filter(Boolean)
+                                    .join(' · ')}
+                            </p>
+                            <p className="text-xs text-slate-500 mt-1">
+                                {search.sources.map(sourceName).join(', ')} · {INTERVAL_OPTIONS.find(o => o.value === search.intervalMinutes)?.name.toLowerCase()}
+                                {search.minMatchScore > 0 && ` · ${search.minMatchScore}%+ match`}
+                                {' · '}
+                                {search.lastPolledAt ? `last checked ${new Date(search.lastPolledAt).toLocaleString()}` : "not checked yet"}
+                            </p>
+                            {search.lastError && <p className="text-xs text-amber-400 mt-1">{search.lastError}</p>}
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 flex-shrink-0">
+                            <label className="flex items-center gap-2 text-xs text-slate-400 mr-2">
+                                <Switch
+                                    checked={search.autoAnalyze}
+                                    onChange={autoAnalyze => handleToggleAutoAnalyze(search, autoAnalyze)}
+                                    label={`Auto-analyze new jobs from ${search.name}`}
+                                />
+                                Auto-analyze
+                            </label>
+                            <button
+                                onClick={() => handlePollNow(search)}
+                                disabled={pollingIds.has(search.id)}
+                                className="px-3 py-1 text-xs font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500 disabled:bg-slate-600 disabled:cursor-not-allowed"
+                            >
+                                {pollingIds.has(search.id) ? "Checking..." : "Check Now"}
+                            </button>
+                            <button onClick={() => openForm(search)} className="px-3 py-1 text-xs font-bold text-white bg-slate-600 rounded-md hover:bg-slate-500">
+                                Edit
+                            </button>
+                            <button onClick={() => handleDelete(search)} className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 rounded-md hover:bg-red-800/50">
+                                Delete
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+
+    const renderHit = (hit: SearchHit) => (
+        <div key={hit.id} className={`p-4 rounded-lg border ${hit.readAt ? 'bg-slate-800/30 border-slate-700/60' : 'bg-slate-800/60 border-cyan-700/50'}`}>
+            <div className="flex flex-col sm:flex-row justify-between gap-3">
+                <div className="min-w-0">
+                    <p className="font-semibold text-white">
+                        {!hit.readAt && <span className="mr-2 text-xs font-bold px-1.5 py-0.5 rounded bg-cyan-600 text-white align-middle">NEW</span>}
+                        {hit.title}
+                    </p>
+                    <p className="text-sm text-slate-400">
+                        {[hit.company, hit.location].filter(Boolean).join(' · ')}
+                    </p>
+                    <p className="text-xs text-slate-500 mt-1">
+                        {sourceName(hit.source)} · {searchName(hit.searchId)} · found {new Date(hit.foundAt).toLocaleString()}
+                    </p>
+                    {hit.snippet && <p className="text-sm text-slate-300 mt-2 line-clamp-2">{hit.snippet}</p>}
+                </div>
+                <div className="flex sm:flex-col items-end gap-2 flex-shrink-0">
+                    {hit.matchScore !== null && (
+                        <span
+                            className={`text-xs font-bold px-2 py-0.5 rounded-full ${scoreClasses(hit.matchScore)}`}
+                            title={hit.analysis ? "Analyzed against your default resume" : "Quick score against your default resume"}
+                        >
+                            {hit.matchScore}% match
+                        </span>
+                    )}
+                    <div className="flex gap-2">
+                        <a
+                            href={hit.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={() => !hit.readAt && markRead([hit.id])}
+                            className="px-3 py-1 text-xs text-cyan-400 hover:underline"
+                        >
+                            View Posting
+                        </a>
+                        <button onClick={() => handleDismiss(hit)} className="px-3 py-1 text-xs font-bold text-slate-300 bg-slate-700 rounded-md hover:bg-slate-600">
+                            Dismiss
+                        </button>
+                        <button onClick={() => handleAdd(hit)} className="px-3 py-1 text-xs font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500">
+                            Add to Dashboard
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+
+    const renderContent = () => {
+        if (!user) {
+            return (
+                <div className="text-center py-16">
+                    <p className="text-slate-400">Saved searches run on the server, so they need an account.</p>
+                    <button onClick={onLoginClick} className="mt-4 px-5 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500">
+                        Sign in
+                    </button>
+                </div>
+            );
+        }
+        if (isLoading) {
+            return (
+                <div className="flex flex-col items-center justify-center py-16">
+                    <Loader />
+                    <p className="mt-4 text-slate-400">Loading saved searches...</p>
+                </div>
+            );
+        }
+        return (
+            <>
+                <section className="mb-10">
+                    <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                        <h2 className="text-xl font-semibold text-white">
+                            {unreadCount > 0 ? `${unreadCount} new matching job${unreadCount === 1 ? '' : 's'}` : "No new jobs"}
+                        </h2>
+                        <div className="flex items-center gap-2">
+                            {searches.length > 1 && (
+                                <select
+                                    value={searchFilter}
+                                    onChange={e => setSearchFilter(e.target.value)}
+                                    className="bg-slate-800 border border-slate-600 rounded-md px-2 py-1 text-xs text-slate-200"
+                                    aria-label="Show jobs from"
+                                >
+                                    <option value="">All searches</option>
+                                    {searches.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                </select>
+                            )}
+                            {unreadCount > 0 && (
+                                <button onClick={() => markRead()} className="px-3 py-1 text-xs font-bold text-white bg-slate-600 rounded-md hover:bg-slate-500">
+                                    Mark All Read
+                                </button>
+                            )}
+                        </div>
+                    </div>
+                    {visibleHits.length > 0 ? (
+                        <div className="space-y-3">{visibleHits.map(renderHit)}</div>
+                    ) : (
+                        <p className="text-center text-slate-400 py-8">
+                            {searches.length > 0 ? "Your saved searches haven't found anything new yet." : "Save a search below and new jobs it finds will show up here."}
+                        </p>
+                    )}
+                </section>
+                <section>
+                    <div className="flex justify-between items-center mb-4">
+                        <h2 className="text-xl font-semibold text-white">Saved Searches</h2>
+                        {!isFormOpen && (
+                            <button onClick={() => openForm()} className="px-4 py-2 text-sm font-bold text-white bg-cyan-600 rounded-md hover:bg-cyan-500">
+                                New Search
+                            </button>
+                        )}
+                    </div>
+                    {isFormOpen && renderForm()}
+                    {renderSearches()}
+                </section>
+            </>
+        );
+    };
+
+    return (
+        <div className="animate-fade-in w-full max-w-4xl mx-auto">
+            <div className="flex justify-between items-center mb-6">
+                <div>
+                    <h1 className="text-3xl font-bold text-white">Job Alerts</h1>
+                    <p className="text-slate-400 mt-1">Saved searches are checked on a schedule; jobs you haven't seen before land here.</p>
+                </div>
+                <button
+                    onClick={onNavigateHome}
+                    className="px-5 py-2 text-sm font-bold text-white bg-indigo-600 rounded-md hover:bg-indigo-500 transition-colors duration-150"
+                >
+                    &larr; Back to Dashboard
+                </button>
+            </div>
+            {error && (
+                <div className="mb-4 bg-red-900/50 text-red-300 p-3 rounded-md text-sm">
+                    <strong>Error:</strong> {error}
+                </div>
+            )}
+            {renderContent()}
+        </div>
+    );
+};
+
+export default SavedSearchesPage;
@@ -5,15 +5,75 @@ import bodyParser from "body-parser";
 import dotenv from "dotenv";
 import mongoose from "mongoose";
 import { z } from "zod";
-import { GoogleGenAI, Type } from "@google/genai";
+import { v4 as uuidv4 } from "uuid";
+import { createHash } from "crypto";
+import {
+	extractDocumentTextLocally,
+	DocumentTooLargeError,
+	DOCX_MIME_TYPE,
+	PDF_MIME_TYPE,
+} from "./server/documentText.js";
+import { createJobSearch, JOB_SITES } from "./server/jobSources/index.js";
+import { createLlmProvider } from "./server/llm/index.js";
+import { createAnalyzer, InvalidModelOutputError, isTransientError } from "./server/analyzer.js";
+import { createBatchQueue } from "./server/batchQueue.js";
+import { createAnalysisCache } from "./server/analysisCache.js";
+import {
+	COVER_LETTER_LENGTHS,
+	COVER_LETTER_TONES,
+	InvalidCoverLetterError,
+	writeCoverLetter,
+} from "./server/coverLetter.js";
+import {
+	EXPORT_FORMATS,
+	coverLetterToBlocks,
+	renderDocument,
+	resumeToBlocks,
+} from "./server/documentExport.js";
+import { RESUME_MODEL_VERSION, parseResume } from "./server/resumeParser.js";
+import { BlockedUrlError, JobPageError, MIN_DESCRIPTION_LENGTH, fetchJobPage, readJobPosting } from "./server/jobPage.js";
+import { extractPostingFacts } from "./server/postingFacts.js";
+import { POSTED_WITHIN_DAYS, createHiringCafeFeed } from "./server/hiringCafe.js";
+import {
+	HIRING_CAFE_SOURCE,
+	MAX_SEEN_KEYS,
+	POLL_INTERVALS_MINUTES,
+	createSearchPoller,
+	nextPollDelayMinutes,
+} from "./server/savedSearches.js";
+import { canonicalJobUrl } from "./services/jobUrl.js";
+import { createRateLimiter } from "./server/rateLimit.js";
+import {
+	SESSION_TTL_MS,
+	createSessionToken,
+	hashPassword,
+	hashSessionToken,
+	readBearerToken,
+	verifyPassword,
+} from "./server/auth.js";
 
 dotenv.config();
 
 const app = express();
 app.use(cors());
+// Document uploads arrive base64-encoded, so they need a larger body limit
+app.use("/api/extract-text", bodyParser.json({ limit: "15mb" }));
 app.use(bodyParser.json({ limit: "1mb" }));
 
 // Zod schemas for request validation
+const registerSchema = z.object({
+	username: z
+		.string()
+		.trim()
+		.min(3)
+		.max(40)
+		.regex(/^[a-zA-Z0-9_.-]+$/, "Use letters, numbers, dots, dashes or underscores"),
+	password: z.string().min(8).max(200),
+});
+const loginSchema = z.object({
+	username: z.string().trim().min(1),
+	password: z.string().min(1),
+});
 const resumeCreateSchema = z.object({
 	name: z.string().min(1),
 	content: z.string().min(1),
@@ -25,10 +85,246 @@ const resumeUpdateSchema = z.object({
 	jobDescription: z.string().optional(),
 	metadata: z.record(z.any()).optional(),
 });
+const APPLICATION_STATUSES = [
+	"saved",
+	"applied",
+	"screening",
+	"interviewing",
+	"offer",
+	"rejected",
+	"withdrawn",
+];
+const jobCreateSchema = z.object({
+	id: z.string().min(1).optional(),
+	url: z.string().optional().default(""),
+	title: z.string().optional().default(""),
+	company: z.string().optional().default(""),
+	description: z.string().optional().default(""),
+	analysis: z.record(z.string(), z.any()).nullable().optional().default(null),
+	analyzedAt: z.string().optional(),
+	status: z.enum(APPLICATION_STATUSES).optional().default("saved"),
+	coverLetter: z.record(z.string(), z.any()).nullable().optional().default(null),
+	facts: z.record(z.string(), z.any()).nullable().optional().default(null),
+});
+const jobUpdateSchema = z.object({
+	url: z.string().optional(),
+	title: z.string().optional(),
+	company: z.string().optional(),
+	description: z.string().optional(),
+	analysis: z.record(z.string(), z.any()).nullable().optional(),
+	analyzedAt: z.string().optional(),
+	coverLetter: z.record(z.string(), z.any()).nullable().optional(),
+	facts: z.record(z.string(), z.any()).nullable().optional(),
+});
+const AGENCY_INTERACTION_TYPES = ["call", "email", "meeting", "submission", "note"];
+const agencyContactSchema = z.object({
+	id: z.string().min(1),
+	name: z.string().trim().min(1).max(200),
+	title: z.string().trim().max(200).optional().default(""),
+	email: z.string().trim().max(200).optional().default(""),
+	phone: z.string().trim().max(50).optional().default(""),
+});
+const agencyCreateSchema = z.object({
+	name: z.string().trim().min(1).max(200),
+	website: z.string().trim().max(500).optional().default(""),
+	email: z.string().trim().max(200).optional().default(""),
+	phone: z.string().trim().max(50).optional().default(""),
+	specialties: z.array(z.string().trim().min(1).max(100)).max(30).optional().default([]),
+	notes: z.string().max(10000).optional().default(""),
+	contacts: z.array(agencyContactSchema).max(50).optional().default([]),
+	followUpAt: z.coerce.date().nullable().optional().default(null),
+	followUpNote: z.string().trim().max(500).optional().default(""),
+});
+const agencyUpdateSchema = z.object({
+	name: z.string().trim().min(1).max(200).optional(),
+	website: z.string().trim().max(500).optional(),
+	email: z.string().trim().max(200).optional(),
+	phone: z.string().trim().max(50).optional(),
+	specialties: z.array(z.string().trim().min(1).max(100)).max(30).optional(),
+	notes: z.string().max(10000).optional(),
+	contacts: z.array(agencyContactSchema).max(50).optional(),
+	followUpAt: z.coerce.date().nullable().optional(),
+	followUpNote: z.string().trim().max(500).optional(),
+});
+const agencyInteractionSchema = z
+	.object({
+		type: z.enum(AGENCY_INTERACTION_TYPES),
+		date: z.coerce.date(),
+		contactId: z.string().min(1).nullable().optional().default(null),
+		summary: z.string().trim().max(5000).optional().default(""),
+		// Submissions name the job; its title and company are kept in case it is deleted
+		jobId: z.string().min(1).nullable().optional().default(null),
+		jobTitle: z.string().trim().max(300).optional().default(""),
+		company: z.string().trim().max(300).optional().default(""),
+		// Replaces the agency's next follow-up when given (null clears it)
+		followUpAt: z.coerce.date().nullable().optional(),
+		followUpNote: z.string().trim().max(500).optional(),
+	})
+	.refine((interaction) => interaction.type !== "submission" || interaction.jobId, {
+		message: "A submission needs the job it was for",
+		path: ["jobId"],
+	});
+const SAVED_SEARCH_SOURCES = [HIRING_CAFE_SOURCE, ...JOB_SITES];
+const savedSearchCreateSchema = z
+	.object({
+		name: z.string().trim().min(1).max(100),
+		keywords: z.string().trim().max(200).optional().default(""),
+		tags: z.array(z.string().trim().min(1).max(50)).max(20).optional().default([]),
+		location: z.string().trim().max(200).optional().default(""),
+		sources: z.array(z.enum(SAVED_SEARCH_SOURCES)).min(1).optional().default([HIRING_CAFE_SOURCE]),
+		// Hits scoring lower against the default resume are left out of the inbox
+		minMatchScore: z.number().int().min(0).max(100).optional().default(0),
+		// Run the full analysis on each new hit instead of only scoring it
+		autoAnalyze: z.boolean().optional().default(false),
+		intervalMinutes: z
+			.number()
+			.refine((minutes) => POLL_INTERVALS_MINUTES.includes(minutes), `Must be one of ${POLL_INTERVALS_MINUTES.join(", ")}`)
+			.optional()
+			.default(360),
+	})
+	.refine((search) => search.keywords || search.tags.length || search.location, {
+		message: "Give keywords, tags or a location",
+		path: ["keywords"],
+	});
+const savedSearchUpdateSchema = z.object({
+	name: z.string().trim().min(1).max(100).optional(),
+	keywords: z.string().trim().max(200).optional(),
+	tags: z.array(z.string().trim().min(1).max(50)).max(20).optional(),
+	location: z.string().trim().max(200).optional(),
+	sources: z.array(z.enum(SAVED_SEARCH_SOURCES)).min(1).optional(),
+	minMatchScore: z.number().int().min(0).max(100).optional(),
+	autoAnalyze: z.boolean().optional(),
+	intervalMinutes: z
+		.number()
+		.refine((minutes) => POLL_INTERVALS_MINUTES.includes(minutes), `Must be one of ${POLL_INTERVALS_MINUTES.join(", ")}`)
+		.optional(),
+});
+const searchHitsQuerySchema = z.object({
+	searchId: z.string().min(1).optional(),
+	// Only hits that haven't been marked read
+	unread: z.enum(["1", "true"]).optional(),
+	limit: z.coerce.number().int().min(1).max(500).optional().default(200),
+});
+const searchHitsReadSchema = z.object({
+	// Every unread hit when left out
+	ids: z.array(z.string().min(1)).max(500).optional(),
+});
+const jobStatusSchema = z.object({
+	status: z.enum(APPLICATION_STATUSES),
+});
 const analyzeRequestSchema = z.object({
+	jobId: z.string().optional(),
 	resumeId: z.string().optional(),
 	resume: z.string().min(1).optional(),
 	jobDescription: z.string().min(1),
+	// Skip the analysis cache and ask the model again
+	refresh: z.boolean().optional(),
+});
+const analysesQuerySchema = z.object({
+	jobId: z.string().min(1).optional(),
+	resumeId: z.string().min(1).optional(),
+	resumeHash: z.string().min(1).optional(),
+	from: z.coerce.date().optional(),
+	to: z.coerce.date().optional(),
+	limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+});
+// `tags` may repeat (?tags=a&tags=b) or be comma-separated
+const queryList = z
+	.union([z.string(), z.array(z.string())])
+	.optional()
+	.transform((value) =>
+		[value || []]
+			.flat()
+			.flatMap((item) => item.split(","))
+			.map((item) => item.trim())
+			.filter(Boolean),
+	);
+const hiringCafeQuerySchema = z.object({
+	q: z.string().trim().max(200).optional().default(""),
+	location: z.string().trim().max(200).optional().default(""),
+	tags: queryList,
+	postedWithin: z.coerce
+		.number()
+		.refine((days) => POSTED_WITHIN_DAYS.includes(days), `Must be one of ${POSTED_WITHIN_DAYS.join(", ")}`)
+		.optional(),
+	page: z.coerce.number().int().min(1).optional().default(1),
+	pageSize: z.coerce.number().int().min(1).max(100).optional().default(24),
+	// Fetch the feed again instead of using the cached copy
+	refresh: z.enum(["1", "true"]).optional(),
+});
+// Upper bound on jobs per "Analyze all" batch
+const MAX_BATCH_JOBS = 100;
+const analyzeBatchRequestSchema = z.object({
+	resume: z.string().min(1),
+	jobs: z
+		.array(
+			z.object({
+				jobId: z.string().min(1),
+				jobDescription: z.string().min(1),
+			})
+		)
+		.min(1)
+		.max(MAX_BATCH_JOBS),
+});
+const resumeQaRequestSchema = z.object({
+	resumeId: z.string().optional(),
+	resume: z.string().min(1).optional(),
+	question: z.string().min(1),
+	history: z
+		.array(
+			z.object({
+				role: z.enum(["user", "assistant"]),
+				content: z.string(),
+			})
+		)
+		.optional()
+		.default([]),
+});
+const coverLetterRequestSchema = z.object({
+	resume: z.string().min(1),
+	jobDescription: z.string().min(1),
+	strengths: z.array(z.string().min(1)).max(30).optional().default([]),
+	companyName: z.string().trim().max(200).optional().default(""),
+	hiringManager: z.string().trim().max(200).optional().default(""),
+	tone: z.enum(COVER_LETTER_TONES).optional().default("formal"),
+	length: z.enum(COVER_LETTER_LENGTHS).optional().default("medium"),
+});
+const parseResumeRequestSchema = z.object({
+	content: z.string(),
+});
+const exportResumeRequestSchema = z.object({
+	name: z.string().trim().optional().default(""),
+	content: z.string().min(1),
+	format: z.enum(EXPORT_FORMATS),
+});
+const exportCoverLetterRequestSchema = z.object({
+	coverLetter: z.string().min(1),
+	// Supplies the letterhead (name and contact lines), to match the exported resume
+	resume: z.string().optional().default(""),
+	// e.g. "Acme - Support Engineer"; used for the file name and document title
+	title: z.string().trim().optional().default(""),
+	format: z.enum(EXPORT_FORMATS),
+});
+const fetchDescriptionRequestSchema = z.object({
+	url: z
+		.string()
+		.trim()
+		.url()
+		.refine((url) => /^https?:$/.test(new URL(url).protocol), "Only http and https URLs can be fetched"),
+});
+const postingFactsRequestSchema = z.object({
+	title: z.string().optional().default(""),
+	description: z.string().min(1),
+});
+const searchJobsRequestSchema = z.object({
+	query: z.string().trim().min(1),
+	site: z.enum(JOB_SITES),
+	page: z.number().int().min(1).optional().default(1),
+	pageSize: z.number().int().min(1).max(25).optional().default(10),
+});
+const extractTextRequestSchema = z.object({
+	mimeType: z.enum([PDF_MIME_TYPE, DOCX_MIME_TYPE]),
+	data: z.string().min(1),
 });
 
 // Connect to MongoDB if MONGODB_URI provided
@@ -50,24 +346,99 @@ if (MONGODB_URI) {
 
 // Define Resume schema/model if mongoose is available
 let Resume = null;
+let Job = null;
 let JobAnalysis = null;
+let User = null;
+let Session = null;
+let SavedSearch = null;
+let Agency = null;
+let SearchHit = null;
 if (mongoose && mongoose.model) {
+	// Resumes, jobs and analyses belong to the account that created them
+	const ownerField = {
+		type: mongoose.Schema.Types.ObjectId,
+		ref: "User",
+		default: null,
+		index: true,
+	};
 	try {
 		const resumeSchema = new mongoose.Schema({
+			owner: ownerField,
 			name: { type: String, required: true },
 			content: { type: String, required: true },
 			jobDescription: { type: String, default: "" },
 			savedAt: { type: Date, default: () => new Date() },
+			// Saved searches score and analyze their new hits against this one
+			isDefault: { type: Boolean, default: false },
 			metadata: { type: mongoose.Schema.Types.Mixed, default: {} },
+			// `content` parsed into sections and entries (see server/resumeParser.js)
+			structured: { type: mongoose.Schema.Types.Mixed, default: null },
+			// Every saved version of `content`, oldest first; `revision` is the current one
+			revision: { type: Number, default: 1 },
+			revisions: {
+				type: [
+					new mongoose.Schema(
+						{
+							revision: { type: Number, required: true },
+							content: { type: String, required: true },
+							savedAt: { type: Date, default: () => new Date() },
+							restoredFrom: { type: Number, default: undefined },
+						},
+						{ _id: false }
+					),
+				],
+				default: [],
+			},
 		});
 		Resume = mongoose.models.Resume || mongoose.model("Resume", resumeSchema);
 
+		// Jobs keep the client-generated uuid as their id so optimistic UI state
+		// and the stored document always agree
+		const jobSchema = new mongoose.Schema(
+			{
+				_id: { type: String, default: () => uuidv4() },
+				owner: ownerField,
+				url: { type: String, default: "" },
+				title: { type: String, default: "" },
+				company: { type: String, default: "" },
+				description: { type: String, default: "" },
+				analysis: { type: mongoose.Schema.Types.Mixed, default: null },
+				analyzedAt: { type: Date, default: null },
+				status: { type: String, enum: APPLICATION_STATUSES, default: "saved" },
+				// The cover letter workshop: current draft, its settings and saved versions
+				coverLetter: { type: mongoose.Schema.Types.Mixed, default: null },
+				// Salary, location etc. extracted from the description (server/postingFacts.js)
+				facts: { type: mongoose.Schema.Types.Mixed, default: null },
+				// Every transition, oldest first; the last entry matches `status`
+				statusHistory: {
+					type: [
+						{
+							_id: false,
+							status: { type: String, enum: APPLICATION_STATUSES, required: true },
+							from: { type: String, enum: APPLICATION_STATUSES },
+							changedAt: { type: Date, default: () => new Date() },
+						},
+					],
+					default: [],
+				},
+			},
+			{ timestamps: true }
+		);
+		Job = mongoose.models.Job || mongoose.model("Job", jobSchema);
+
 		const analysisSchema = new mongoose.Schema({
+			owner: ownerField,
 			resumeId: {
 				type: mongoose.Schema.Types.ObjectId,
 				ref: "Resume",
 				default: null,
 			},
+			jobId: { type: String, default: null, index: true },
+			// Identifies the resume text that was analyzed, so scores can be
+			// compared across revisions even when no saved resume was used
+			resumeHash: { type: String, default: null },
+			// analysisCacheKey() of a model result, so the cache survives restarts
+			cacheKey: { type: String, default: null, index: true },
 			jobDescription: { type: String, default: "" },
 			result: { type: mongoose.Schema.Types.Mixed },
 			rawResponse: { type: mongoose.Schema.Types.Mixed },
@@ -76,76 +447,402 @@ if (mongoose && mongoose.model) {
 		JobAnalysis =
 			mongoose.models.JobAnalysis ||
 			mongoose.model("JobAnalysis", analysisSchema);
+
+		const userSchema = new mongoose.Schema({
+			username: { type: String, required: true, unique: true, lowercase: true, trim: true },
+			passwordHash: { type: String, required: true },
+			createdAt: { type: Date, default: () => new Date() },
+		});
+		User = mongoose.models.User || mongoose.model("User", userSchema);
+
+		const sessionSchema = new mongoose.Schema({
+			// SHA-256 of the bearer token; the token itself is never stored
+			tokenHash: { type: String, required: true, unique: true },
+			user: { type: mongoose.Schema.Types.ObjectId, ref: "User", required: true },
+			// MongoDB deletes sessions once they expire
+			expiresAt: { type: Date, required: true, expires: 0 },
+		});
+		Session = mongoose.models.Session || mongoose.model("Session", sessionSchema);
+
+		const savedSearchSchema = new mongoose.Schema({
+			owner: ownerField,
+			name: { type: String, required: true },
+			keywords: { type: String, default: "" },
+			tags: { type: [String], default: [] },
+			location: { type: String, default: "" },
+			sources: { type: [String], default: [] },
+			minMatchScore: { type: Number, default: 0 },
+			autoAnalyze: { type: Boolean, default: false },
+			intervalMinutes: { type: Number, default: 360 },
+			// canonicalJobUrl() of every listing already turned into a hit (or passed over), newest last
+			seenKeys: { type: [String], default: [] },
+			lastPolledAt: { type: Date, default: null },
+			nextPollAt: { type: Date, default: () => new Date(), index: true },
+			// Sources that failed on the last poll, or why its hits couldn't be scored
+			lastError: { type: String, default: null },
+			// Polls in a row that threw; each one pushes the next poll further out
+			failedPolls: { type: Number, default: 0 },
+			createdAt: { type: Date, default: () => new Date() },
+		});
+		SavedSearch = mongoose.models.SavedSearch || mongoose.model("SavedSearch", savedSearchSchema);
+
+		// A listing a saved search found; the inbox shows the ones not yet read
+		const searchHitSchema = new mongoose.Schema({
+			owner: ownerField,
+			search: { type: mongoose.Schema.Types.ObjectId, ref: "SavedSearch", required: true, index: true },
+			key: { type: String, required: true },
+			source: { type: String, required: true },
+			title: { type: String, default: "" },
+			company: { type: String, default: "" },
+			url: { type: String, default: "" },
+			location: { type: String, default: "" },
+			snippet: { type: String, default: "" },
+			description: { type: String, default: "" },
+			postedAt: { type: String, default: "" },
+			matchScore: { type: Number, default: null },
+			analysis: { type: mongoose.Schema.Types.Mixed, default: null },
+			foundAt: { type: Date, default: () => new Date() },
+			readAt: { type: Date, default: null },
+		});
+		SearchHit = mongoose.models.SearchHit || mongoose.model("SearchHit", searchHitSchema);
+
+		// Recruiting agencies, with their recruiters and a log of every call,
+		// email and job submission
+		const agencySchema = new mongoose.Schema(
+			{
+				owner: ownerField,
+				name: { type: String, required: true },
+				website: { type: String, default: "" },
+				email: { type: String, default: "" },
+				phone: { type: String, default: "" },
+				specialties: { type: [String], default: [] },
+				notes: { type: String, default: "" },
+				contacts: {
+					type: [
+						{
+							_id: false,
+							id: { type: String, required: true },
+							name: { type: String, required: true },
+							title: { type: String, default: "" },
+							email: { type: String, default: "" },
+							phone: { type: String, default: "" },
+						},
+					],
+					default: [],
+				},
+				// Oldest first
+				interactions: {
+					type: [
+						{
+							_id: false,
+							id: { type: String, required: true },
+							type: { type: String, enum: AGENCY_INTERACTION_TYPES, required: true },
+							date: { type: Date, required: true },
+							contactId: { type: String, default: null },
+							summary: { type: String, default: "" },
+							jobId: { type: String, default: null, index: true },
+							jobTitle: { type: String, default: "" },
+							company: { type: String, default: "" },
+							createdAt: { type: Date, default: () => new Date() },
+						},
+					],
+					default: [],
+				},
+				followUpAt: { type: Date, default: null },
+				followUpNote: { type: String, default: "" },
+			},
+			{ timestamps: true }
+		);
+		Agency = mongoose.models.Agency || mongoose.model("Agency", agencySchema);
 	} catch (e) {
-		console.error("Error creating Resume/JobAnalysis model:", e);
+		console.error("Error creating Resume/Job/JobAnalysis/User/SavedSearch/Agency models:", e);
 	}
 }
 
-const API_KEY = process.env.GEMINI_API_KEY || process.env.API_KEY;
-if (!API_KEY) {
-	console.error("GEMINI_API_KEY (or API_KEY) environment variable not set.");
-	process.exit(1);
+const llm = createLlmProvider(process.env);
+if (llm) {
+	console.log(`Using LLM provider "${llm.name}" with model "${llm.model}".`);
+} else {
+	console.warn(
+		"No LLM provider configured (set LLM_PROVIDER or GEMINI_API_KEY). Job analysis uses the offline engine and other model-backed endpoints return 503; local document extraction still works."
+	);
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+// ANALYSIS_CACHE_SIZE=0 turns the analysis cache off
+const analysisCache = createAnalysisCache({
+	maxEntries: process.env.ANALYSIS_CACHE_SIZE !== undefined ? Number(process.env.ANALYSIS_CACHE_SIZE) : undefined,
+	loadPersisted: async (cacheKey) => {
+		if (!JobAnalysis || mongoose.connection.readyState !== 1) return null;
+		// Offline fallbacks are recorded with the key too, but were never cached
+		const doc = await JobAnalysis.findOne({ cacheKey, "result.source": "model" }).sort({ createdAt: -1 }).lean();
+		return doc ? { result: doc.result, cachedAt: new Date(doc.createdAt).toISOString() } : null;
+	},
+});
+const analyzer = createAnalyzer({ llm, cache: analysisCache });
+
+const jobSearch = createJobSearch({
+	llm,
+	useFixtures: process.env.JOB_SEARCH_FIXTURES === "1",
+});
+const hiringCafe = createHiringCafeFeed({ useFixtures: process.env.JOB_SEARCH_FIXTURES === "1" });
+
+// Guards routes that cannot work without the model, or without one of its
+// grounding tools ("webSearch" / "maps")
+const requireModel = (capability) => (req, res, next) => {
+	if (!llm)
+		return res.status(503).json({
+			error: "AI model not configured. Set LLM_PROVIDER (or GEMINI_API_KEY) on the server.",
+		});
+	if (capability && !llm.capabilities[capability])
+		return res.status(503).json({
+			error: `The configured model provider (${llm.name}) does not support ${capability}.`,
+		});
+	next();
+};
+
+// Resolves a bearer session token, when one is sent, to req.user ({ _id, username }).
+// A token is only treated as invalid once the lookup finds no session: while
+// MongoDB is still connecting (or briefly gone) the request gets a 503, so a
+// restart doesn't sign everyone out.
+const SESSIONS_UNAVAILABLE = { error: "Accounts are temporarily unavailable; try again shortly" };
+const authenticate = async (req, res, next) => {
+	const token = readBearerToken(req);
+	if (!token || !MONGODB_URI || !Session) return next();
+	if (mongoose.connection.readyState !== 1) return res.status(503).json(SESSIONS_UNAVAILABLE);
+	let session;
+	try {
+		session = await Session.findOne({
+			tokenHash: hashSessionToken(token),
+			expiresAt: { $gt: new Date() },
+		})
+			.populate("user", "username")
+			.lean();
+	} catch (e) {
+		console.error("Error resolving session:", e);
+		return res.status(503).json(SESSIONS_UNAVAILABLE);
+	}
+	if (session?.user) {
+		req.user = session.user;
+		req.sessionTokenHash = session.tokenHash;
+	}
+	next();
+};
+app.use("/api", authenticate);
+
+// Guards routes that read or change a user's own data
+const requireUser = (req, res, next) => {
+	if (!req.user) return res.status(401).json({ error: "Sign in required" });
+	next();
+};
+
+// Account endpoints (use MongoDB). Register and login both answer with a new
+// session: { token, user }.
+const toUserResponse = (user) => ({ id: user._id.toString(), username: user.username });
+
+const startSession = async (user) => {
+  const token = createSessionToken();
+  await Session.create({
+    tokenHash: hashSessionToken(token),
+    user: user._id,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS),
+  });
+  return { token, user: toUserResponse(user) };
+};
+
+// Everything saved before accounts existed has no owner; the first account
+// registered takes it over, so upgrading doesn't strand existing data
+const claimUnownedRecords = async (user) => {
+  const models = [Resume, Job, JobAnalysis, SavedSearch, SearchHit, Agency].filter(Boolean);
+  const results = await Promise.all(models.map(model => model.updateMany({ owner: null }, { $set: { owner: user._id } })));
+  const claimed = results.reduce((sum, result) => sum + (result.modifiedCount || 0), 0);
+  if (claimed) console.log(`Assigned ${claimed} records saved before accounts existed to ${user.username}`);
+};
+
+app.post('/api/auth/register', async (req, res) => {
+  if (!User || !Session) return res.status(500).json({ error: 'User model not initialized or MONGODB_URI missing' });
+  const parsed = registerSchema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+  const { username, password } = parsed.data;
+  try {
+    if (await User.exists({ username: username.toLowerCase() })) return res.status(409).json({ error: 'Username is already taken' });
+    const isFirstAccount = !(await User.exists({}));
+    const user = await User.create({ username, passwordHash: await hashPassword(password) });
+    if (isFirstAccount) await claimUnownedRecords(user);
+    res.status(201).json(await startSession(user));
+  } catch (err) {
+    if (err?.code === 11000) return res.status(409).json({ error: 'Username is already taken' });
+    console.error('Error creating account:', err);
+    res.status(500).json({ error: 'Failed to create account' });
+  }
+});
+
+app.post('/api/auth/login', async (req, res) => {
+  if (!User || !Session) return res.status(500).json({ error: 'User model not initialized or MONGODB_URI missing' });
+  const parsed = loginSchema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+  const { username, password } = parsed.data;
+  try {
+    const user = await User.findOne({ username: username.toLowerCase() });
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    res.json(await startSession(user));
+  } catch (err) {
+    console.error('Error logging in:', err);
+    res.status(500).json({ error: 'Failed to log in' });
+  }
+});
+
+app.post('/api/auth/logout', requireUser, async (req, res) => {
+  try {
+    await Session.deleteOne({ tokenHash: req.sessionTokenHash });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error logging out:', err);
+    res.status(500).json({ error: 'Failed to log out' });
+  }
+});
+
+app.get('/api/auth/me', requireUser, (req, res) => {
+  res.json(toUserResponse(req.user));
+});
 
 // Resume CRUD endpoints (use MongoDB)
-app.get('/api/resumes', async (req, res) => {
+// Revisions are only returned by the /revisions endpoint to keep listings small
+// Resumes saved before the structured model existed (or by an older parser) are parsed on the way out
+const toResumeResponse = ({ __v, revisions, owner, ...rest }) => ({
+  ...rest,
+  _id: rest._id.toString(),
+  structured: rest.structured?.version === RESUME_MODEL_VERSION ? rest.structured : parseResume(rest.content),
+});
+
+// Resumes saved before revisions existed get their current content as revision 1
+const ensureRevisionHistory = (doc) => {
+  if (doc.revisions.length === 0) {
+    doc.revisions.push({ revision: doc.revision || 1, content: doc.content, savedAt: doc.savedAt });
+    doc.revision = doc.revision || 1;
+  }
+};
+
+const addRevision = (doc, content, restoredFrom) => {
+  ensureRevisionHistory(doc);
+  const revision = Math.max(...doc.revisions.map(r => r.revision)) + 1;
+  const savedAt = new Date();
+  doc.revisions.push({ revision, content, savedAt, restoredFrom });
+  doc.revision = revision;
+  doc.content = content;
+  doc.structured = parseResume(content);
+  doc.savedAt = savedAt;
+};
+
+app.get('/api/resumes', requireUser, async (req, res) => {
   if (!Resume) return res.status(500).json({ error: 'Resume model not initialized or MONGODB_URI missing' });
   try {
-    const docs = await Resume.find().sort({ savedAt: -1 }).lean();
-    res.json(docs.map(d => ({ ...d, _id: d._id.toString(), savedAt: d.savedAt })));
+    const docs = await Resume.find({ owner: req.user._id }).select('-revisions').sort({ savedAt: -1 }).lean();
+    res.json(docs.map(toResumeResponse));
   } catch (err) {
     console.error('Error fetching resumes:', err);
     res.status(500).json({ error: 'Failed to fetch resumes' });
   }
 });
 
-app.get('/api/resumes/:id', async (req, res) => {
+app.get('/api/resumes/:id', requireUser, async (req, res) => {
   if (!Resume) return res.status(500).json({ error: 'Resume model not initialized or MONGODB_URI missing' });
   try {
-    const doc = await Resume.findById(req.params.id).lean();
+    const doc = await Resume.findOne({ _id: req.params.id, owner: req.user._id }).select('-revisions').lean();
     if (!doc) return res.status(404).json({ error: 'Not found' });
-    res.json({ ...doc, _id: doc._id.toString(), savedAt: doc.savedAt });
+    res.json(toResumeResponse(doc));
   } catch (err) {
     console.error('Error fetching resume:', err);
     res.status(500).json({ error: 'Failed to fetch resume' });
   }
 });
 
-app.post('/api/resumes', async (req, res) => {
+app.post('/api/resumes', requireUser, async (req, res) => {
   if (!Resume) return res.status(500).json({ error: 'Resume model not initialized or MONGODB_URI missing' });
   try {
     const parsed = resumeCreateSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
     const { name, content, jobDescription } = parsed.data;
-    const created = await Resume.create({ name, content, jobDescription });
-    res.status(201).json({ ...created.toObject(), _id: created._id.toString(), savedAt: created.savedAt });
+    const savedAt = new Date();
+    const created = await Resume.create({ owner: req.user._id, name, content, jobDescription, structured: parseResume(content), savedAt, revision: 1, revisions: [{ revision: 1, content, savedAt }] });
+    res.status(201).json(toResumeResponse(created.toObject()));
   } catch (err) {
     console.error('Error creating resume:', err);
     res.status(400).json({ error: 'Failed to create resume' });
   }
 });
 
-app.put('/api/resumes/:id', async (req, res) => {
+// Changing the content records a new revision instead of overwriting the old wording
+app.put('/api/resumes/:id', requireUser, async (req, res) => {
   if (!Resume) return res.status(500).json({ error: 'Resume model not initialized or MONGODB_URI missing' });
   try {
     const parsed = resumeUpdateSchema.safeParse(req.body);
     if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
-    const update = parsed.data;
-    const updated = await Resume.findByIdAndUpdate(req.params.id, update, { new: true }).lean();
-    if (!updated) return res.status(404).json({ error: 'Not found' });
-    res.json({ ...updated, _id: updated._id.toString(), savedAt: updated.savedAt });
+    const { content, ...fields } = parsed.data;
+    const doc = await Resume.findOne({ _id: req.params.id, owner: req.user._id });
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    doc.set(fields);
+    if (content !== undefined && content !== doc.content) addRevision(doc, content);
+    await doc.save();
+    res.json(toResumeResponse(doc.toObject()));
   } catch (err) {
     console.error('Error updating resume:', err);
     res.status(400).json({ error: 'Failed to update resume' });
   }
 });
 
-app.delete('/api/resumes/:id', async (req, res) => {
+app.get('/api/resumes/:id/revisions', requireUser, async (req, res) => {
   if (!Resume) return res.status(500).json({ error: 'Resume model not initialized or MONGODB_URI missing' });
   try {
-    const deleted = await Resume.findByIdAndDelete(req.params.id);
+    const doc = await Resume.findOne({ _id: req.params.id, owner: req.user._id }).lean();
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    const revisions = doc.revisions?.length
+      ? doc.revisions
+      : [{ revision: doc.revision || 1, content: doc.content, savedAt: doc.savedAt }];
+    res.json([...revisions].sort((a, b) => b.revision - a.revision));
+  } catch (err) {
+    console.error('Error fetching resume revisions:', err);
+    res.status(500).json({ error: 'Failed to fetch resume revisions' });
+  }
+});
+
+// Restoring copies an old revision forward as the newest one, so nothing is lost
+app.post('/api/resumes/:id/revisions/:revision/restore', requireUser, async (req, res) => {
+  if (!Resume) return res.status(500).json({ error: 'Resume model not initialized or MONGODB_URI missing' });
+  try {
+    const doc = await Resume.findOne({ _id: req.params.id, owner: req.user._id });
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    ensureRevisionHistory(doc);
+    const target = doc.revisions.find(r => r.revision === Number(req.params.revision));
+    if (!target) return res.status(404).json({ error: 'Revision not found' });
+    if (target.content !== doc.content) addRevision(doc, target.content, target.revision);
+    await doc.save();
+    res.json(toResumeResponse(doc.toObject()));
+  } catch (err) {
+    console.error('Error restoring resume revision:', err);
+    res.status(400).json({ error: 'Failed to restore resume revision' });
+  }
+});
+
+// Makes this the resume saved searches analyze their hits against; there is at most one
+app.post('/api/resumes/:id/default', requireUser, async (req, res) => {
+  if (!Resume) return res.status(500).json({ error: 'Resume model not initialized or MONGODB_URI missing' });
+  try {
+    const doc = await Resume.findOneAndUpdate({ _id: req.params.id, owner: req.user._id }, { isDefault: true }, { new: true }).select('-revisions').lean();
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    await Resume.updateMany({ owner: req.user._id, _id: { $ne: doc._id }, isDefault: true }, { isDefault: false });
+    res.json(toResumeResponse(doc));
+  } catch (err) {
+    console.error('Error setting default resume:', err);
+    res.status(400).json({ error: 'Failed to set default resume' });
+  }
+});
+
+app.delete('/api/resumes/:id', requireUser, async (req, res) => {
+  if (!Resume) return res.status(500).json({ error: 'Resume model not initialized or MONGODB_URI missing' });
+  try {
+    const deleted = await Resume.findOneAndDelete({ _id: req.params.id, owner: req.user._id });
     if (!deleted) return res.status(404).json({ error: 'Not found' });
     res.json({ success: true });
   } catch (err) {
@@ -154,62 +851,468 @@ app.delete('/api/resumes/:id', async (req, res) => {
   }
 });
 
-// Schemas mirrored from client to validate structured responses
-const responseSchema = {
-	type: Type.OBJECT,
-	properties: {
-		matchScore: { type: Type.INTEGER },
-		summary: { type: Type.STRING },
-		strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
-		gaps: { type: Type.ARRAY, items: { type: Type.STRING } },
-		matchedKeywords: { type: Type.ARRAY, items: { type: Type.OBJECT } },
-		missingKeywords: { type: Type.ARRAY, items: { type: Type.OBJECT } },
-		improvementSuggestions: { type: Type.ARRAY, items: { type: Type.OBJECT } },
-		coverLetterDraft: { type: Type.STRING },
-	},
-	required: [
-		"matchScore",
-		"summary",
-		"strengths",
-		"gaps",
-		"matchedKeywords",
-		"missingKeywords",
-		"improvementSuggestions",
-		"coverLetterDraft",
-	],
+// Job CRUD endpoints (use MongoDB)
+const toJobResponse = ({ _id, __v, owner, ...rest }) => ({ ...rest, id: _id });
+
+app.get('/api/jobs', requireUser, async (req, res) => {
+  if (!Job) return res.status(500).json({ error: 'Job model not initialized or MONGODB_URI missing' });
+  try {
+    const docs = await Job.find({ owner: req.user._id }).sort({ createdAt: -1 }).lean();
+    res.json(docs.map(toJobResponse));
+  } catch (err) {
+    console.error('Error fetching jobs:', err);
+    res.status(500).json({ error: 'Failed to fetch jobs' });
+  }
+});
+
+app.get('/api/jobs/:id', requireUser, async (req, res) => {
+  if (!Job) return res.status(500).json({ error: 'Job model not initialized or MONGODB_URI missing' });
+  try {
+    const doc = await Job.findOne({ _id: req.params.id, owner: req.user._id }).lean();
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    res.json(toJobResponse(doc));
+  } catch (err) {
+    console.error('Error fetching job:', err);
+    res.status(500).json({ error: 'Failed to fetch job' });
+  }
+});
+
+app.post('/api/jobs', requireUser, async (req, res) => {
+  if (!Job) return res.status(500).json({ error: 'Job model not initialized or MONGODB_URI missing' });
+  try {
+    const parsed = jobCreateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+    const { id, ...fields } = parsed.data;
+    const statusHistory = [{ status: fields.status, changedAt: new Date() }];
+    const owned = { ...fields, owner: req.user._id, statusHistory };
+    const created = await Job.create(id ? { _id: id, ...owned } : owned);
+    res.status(201).json(toJobResponse(created.toObject()));
+  } catch (err) {
+    console.error('Error creating job:', err);
+    res.status(400).json({ error: 'Failed to create job' });
+  }
+});
+
+app.put('/api/jobs/:id', requireUser, async (req, res) => {
+  if (!Job) return res.status(500).json({ error: 'Job model not initialized or MONGODB_URI missing' });
+  try {
+    const parsed = jobUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+    const updated = await Job.findOneAndUpdate({ _id: req.params.id, owner: req.user._id }, parsed.data, { new: true }).lean();
+    if (!updated) return res.status(404).json({ error: 'Not found' });
+    res.json(toJobResponse(updated));
+  } catch (err) {
+    console.error('Error updating job:', err);
+    res.status(400).json({ error: 'Failed to update job' });
+  }
+});
+
+// Moves a job to another pipeline stage and records the transition
+app.post('/api/jobs/:id/status', requireUser, async (req, res) => {
+  if (!Job) return res.status(500).json({ error: 'Job model not initialized or MONGODB_URI missing' });
+  try {
+    const parsed = jobStatusSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+    const { status } = parsed.data;
+    const job = await Job.findOne({ _id: req.params.id, owner: req.user._id });
+    if (!job) return res.status(404).json({ error: 'Not found' });
+    if (job.status !== status) {
+      job.statusHistory.push({ status, from: job.status, changedAt: new Date() });
+      job.status = status;
+      await job.save();
+    }
+    res.json(toJobResponse(job.toObject()));
+  } catch (err) {
+    console.error('Error updating job status:', err);
+    res.status(400).json({ error: 'Failed to update job status' });
+  }
+});
+
+app.delete('/api/jobs/:id', requireUser, async (req, res) => {
+  if (!Job) return res.status(500).json({ error: 'Job model not initialized or MONGODB_URI missing' });
+  try {
+    const deleted = await Job.findOneAndDelete({ _id: req.params.id, owner: req.user._id });
+    if (!deleted) return res.status(404).json({ error: 'Not found' });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting job:', err);
+    res.status(500).json({ error: 'Failed to delete job' });
+  }
+});
+
+// Recruiting agency CRM endpoints (use MongoDB)
+const toAgencyResponse = ({ _id, __v, owner, ...rest }) => ({ ...rest, id: _id.toString() });
+
+app.get('/api/agencies', requireUser, async (req, res) => {
+  if (!Agency) return res.status(500).json({ error: 'Agency model not initialized or MONGODB_URI missing' });
+  try {
+    const docs = await Agency.find({ owner: req.user._id }).sort({ name: 1 }).lean();
+    res.json(docs.map(toAgencyResponse));
+  } catch (err) {
+    console.error('Error fetching agencies:', err);
+    res.status(500).json({ error: 'Failed to fetch agencies' });
+  }
+});
+
+app.get('/api/agencies/:id', requireUser, async (req, res) => {
+  if (!Agency) return res.status(500).json({ error: 'Agency model not initialized or MONGODB_URI missing' });
+  try {
+    const doc = await Agency.findOne({ _id: req.params.id, owner: req.user._id }).lean();
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    res.json(toAgencyResponse(doc));
+  } catch (err) {
+    console.error('Error fetching agency:', err);
+    res.status(500).json({ error: 'Failed to fetch agency' });
+  }
+});
+
+app.post('/api/agencies', requireUser, async (req, res) => {
+  if (!Agency) return res.status(500).json({ error: 'Agency model not initialized or MONGODB_URI missing' });
+  try {
+    const parsed = agencyCreateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+    const created = await Agency.create({ ...parsed.data, owner: req.user._id });
+    res.status(201).json(toAgencyResponse(created.toObject()));
+  } catch (err) {
+    console.error('Error creating agency:', err);
+    res.status(400).json({ error: 'Failed to create agency' });
+  }
+});
+
+// Interactions have their own endpoints; `contacts` is replaced as a whole
+app.put('/api/agencies/:id', requireUser, async (req, res) => {
+  if (!Agency) return res.status(500).json({ error: 'Agency model not initialized or MONGODB_URI missing' });
+  try {
+    const parsed = agencyUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+    const updated = await Agency.findOneAndUpdate({ _id: req.params.id, owner: req.user._id }, parsed.data, { new: true }).lean();
+    if (!updated) return res.status(404).json({ error: 'Not found' });
+    res.json(toAgencyResponse(updated));
+  } catch (err) {
+    console.error('Error updating agency:', err);
+    res.status(400).json({ error: 'Failed to update agency' });
+  }
+});
+
+app.delete('/api/agencies/:id', requireUser, async (req, res) => {
+  if (!Agency) return res.status(500).json({ error: 'Agency model not initialized or MONGODB_URI missing' });
+  try {
+    const deleted = await Agency.findOneAndDelete({ _id: req.params.id, owner: req.user._id });
+    if (!deleted) return res.status(404).json({ error: 'Not found' });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting agency:', err);
+    res.status(500).json({ error: 'Failed to delete agency' });
+  }
+});
+
+// Logs a call, email, meeting, note or job submission and answers with the
+// updated agency. A job can only be submitted once, by one agency: a second
+// submission is refused with 409 and the agency that already submitted it.
+app.post('/api/agencies/:id/interactions', requireUser, async (req, res) => {
+  if (!Agency) return res.status(500).json({ error: 'Agency model not initialized or MONGODB_URI missing' });
+  try {
+    const parsed = agencyInteractionSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+    const { followUpAt, followUpNote, ...fields } = parsed.data;
+    const agency = await Agency.findOne({ _id: req.params.id, owner: req.user._id });
+    if (!agency) return res.status(404).json({ error: 'Not found' });
+    if (fields.contactId && !agency.contacts.some(c => c.id === fields.contactId)) return res.status(400).json({ error: 'Unknown contact' });
+
+    if (fields.type === 'submission') {
+      const submitted = await Agency.findOne(
+        { owner: req.user._id, interactions: { $elemMatch: { type: 'submission', jobId: fields.jobId } } },
+        'name'
+      ).lean();
+      if (submitted)
+        return res.status(409).json({
+          error: `Already submitted to this job by ${submitted.name}`,
+          agencyId: submitted._id.toString(),
+        });
+    }
+
+    agency.interactions.push({ ...fields, id: uuidv4(), createdAt: new Date() });
+    if (followUpAt !== undefined) {
+      agency.followUpAt = followUpAt;
+      agency.followUpNote = followUpNote ?? '';
+    }
+    await agency.save();
+    res.status(201).json(toAgencyResponse(agency.toObject()));
+  } catch (err) {
+    console.error('Error logging agency interaction:', err);
+    res.status(400).json({ error: 'Failed to log interaction' });
+  }
+});
+
+app.delete('/api/agencies/:id/interactions/:interactionId', requireUser, async (req, res) => {
+  if (!Agency) return res.status(500).json({ error: 'Agency model not initialized or MONGODB_URI missing' });
+  try {
+    const updated = await Agency.findOneAndUpdate(
+      { _id: req.params.id, owner: req.user._id, 'interactions.id': req.params.interactionId },
+      { $pull: { interactions: { id: req.params.interactionId } } },
+      { new: true }
+    ).lean();
+    if (!updated) return res.status(404).json({ error: 'Not found' });
+    res.json(toAgencyResponse(updated));
+  } catch (err) {
+    console.error('Error deleting agency interaction:', err);
+    res.status(500).json({ error: 'Failed to delete interaction' });
+  }
+});
+
+// Analysis history (uses MongoDB). Each record wraps the JobAnalysis returned
+// by /api/analyze with what it was computed from.
+const hashResume = (text) =>
+  createHash('sha256').update(text.replace(/[ \t]+$/gm, '').trim()).digest('hex').slice(0, 16);
+
+// Fire-and-forget: callers respond with the bare JobAnalysis without waiting
+// on (or depending on) the write succeeding. Only signed-in users have a
+// history. Cache hits are recorded too, since the cached result may have been
+// produced for another job, another user or a signed-out run.
+const recordAnalysis = ({ owner, jobId, resumeId, resumeText, jobDescription, result, rawResponse, cacheKey }) => {
+  if (!JobAnalysis || !owner) return;
+  // Hits carry the cache's markers; the record keeps the analysis itself
+  const { cached: _cached, cachedAt: _cachedAt, ...analysis } = result;
+  JobAnalysis.create({
+    owner,
+    jobId: jobId || null,
+    resumeId: resumeId || null,
+    resumeHash: hashResume(resumeText),
+    cacheKey: cacheKey || null,
+    jobDescription,
+    result: analysis,
+    rawResponse: rawResponse ?? analysis,
+  }).catch((e) => console.error('Failed to persist analysis:', e));
 };
 
+const toAnalysisResponse = (doc) => ({
+  id: doc._id.toString(),
+  jobId: doc.jobId ?? null,
+  resumeId: doc.resumeId ? doc.resumeId.toString() : null,
+  resumeHash: doc.resumeHash ?? null,
+  jobDescription: doc.jobDescription || '',
+  analysis: doc.result,
+  createdAt: doc.createdAt,
+});
+
+// Newest first; filter by job, resume, resume text hash and/or date range
+app.get('/api/analyses', requireUser, async (req, res) => {
+  if (!JobAnalysis) return res.status(500).json({ error: 'JobAnalysis model not initialized or MONGODB_URI missing' });
+  const parsed = analysesQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+  const { jobId, resumeId, resumeHash, from, to, limit } = parsed.data;
+  if (resumeId && !mongoose.isValidObjectId(resumeId)) return res.status(400).json({ error: 'Invalid resumeId' });
+
+  const filter = { owner: req.user._id };
+  if (jobId) filter.jobId = jobId;
+  if (resumeId) filter.resumeId = resumeId;
+  if (resumeHash) filter.resumeHash = resumeHash;
+  if (from || to) {
+    filter.createdAt = {};
+    if (from) filter.createdAt.$gte = from;
+    if (to) filter.createdAt.$lte = to;
+  }
+  try {
+    const docs = await JobAnalysis.find(filter).sort({ createdAt: -1 }).limit(limit).lean();
+    res.json(docs.map(toAnalysisResponse));
+  } catch (err) {
+    console.error('Error fetching analyses:', err);
+    res.status(500).json({ error: 'Failed to fetch analyses' });
+  }
+});
+
+app.get('/api/analyses/:id', requireUser, async (req, res) => {
+  if (!JobAnalysis) return res.status(500).json({ error: 'JobAnalysis model not initialized or MONGODB_URI missing' });
+  if (!mongoose.isValidObjectId(req.params.id)) return res.status(404).json({ error: 'Not found' });
+  try {
+    const doc = await JobAnalysis.findOne({ _id: req.params.id, owner: req.user._id }).lean();
+    if (!doc) return res.status(404).json({ error: 'Not found' });
+    res.json(toAnalysisResponse(doc));
+  } catch (err) {
+    console.error('Error fetching analysis:', err);
+    res.status(500).json({ error: 'Failed to fetch analysis' });
+  }
+});
+
+// JSON Schemas sent to the model for structured output. The job analysis
+// schema is generated from its zod definition in server/analysisSchema.js.
 const distanceSchema = {
-	type: Type.OBJECT,
+	type: "object",
 	properties: {
-		distance: { type: Type.NUMBER },
-		unit: { type: Type.STRING },
-		originAddress: { type: Type.STRING },
-		destinationAddress: { type: Type.STRING },
+		distance: { type: "number" },
+		unit: { type: "string" },
+		originAddress: { type: "string" },
+		destinationAddress: { type: "string" },
 	},
 	required: ["distance", "unit", "originAddress", "destinationAddress"],
 };
 
-const jobListingsSchema = {
-	type: Type.OBJECT,
+const resumeQaSchema = {
+	type: "object",
 	properties: {
-		jobs: {
-			type: Type.ARRAY,
-			items: { type: Type.OBJECT },
-		},
+		answer: { type: "string" },
+		citedLines: { type: "array", items: { type: "integer" } },
 	},
-	required: ["jobs"],
+	required: ["answer", "citedLines"],
+};
+
+// Only the most recent turns are replayed to the model to keep prompts bounded
+const MAX_QA_HISTORY_TURNS = 20;
+
+// Validates an analyze request and resolves the resume text, loading it by
+// resumeId when no text was sent. Responds with the error and resolves to null
+// when the request can't be served.
+const parseAnalyzeRequest = async (req, res) => {
+	const parsedReq = analyzeRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success) {
+		res.status(400).json({ error: "Invalid request", details: parsedReq.error.format() });
+		return null;
+	}
+	const { resumeId, resume } = parsedReq.data;
+	if (!resume && !resumeId) {
+		res.status(400).json({ error: "Either resumeId or resume text must be provided" });
+		return null;
+	}
+	if (resume) return { ...parsedReq.data, resumeText: resume };
+	if (!Resume) {
+		res.status(500).json({ error: "Resume model not initialized or MONGODB_URI missing" });
+		return null;
+	}
+	if (!req.user) {
+		res.status(401).json({ error: "Sign in to analyze a saved resume" });
+		return null;
+	}
+	try {
+		const doc = await Resume.findOne({ _id: resumeId, owner: req.user._id }).lean();
+		if (!doc) {
+			res.status(404).json({ error: "Resume not found" });
+			return null;
+		}
+		return { ...parsedReq.data, resumeText: doc.content };
+	} catch (e) {
+		console.error("Error loading resume by id:", e);
+		res.status(500).json({ error: "Failed to load resume" });
+		return null;
+	}
 };
 
 // POST /api/analyze
 app.post("/api/analyze", async (req, res) => {
-	// validate request
-	const parsedReq = analyzeRequestSchema.safeParse(req.body || {});
+	const request = await parseAnalyzeRequest(req, res);
+	if (!request) return;
+	const { jobId, resumeId, resumeText, jobDescription, refresh } = request;
+
+	try {
+		const analyzed = await analyzer.analyze(resumeText, jobDescription, { refresh });
+		recordAnalysis({ owner: req.user?._id, jobId, resumeId, resumeText, jobDescription, ...analyzed });
+		return res.json(analyzed.result);
+	} catch (error) {
+		if (error instanceof InvalidModelOutputError)
+			return res.status(502).json({ error: error.message, code: error.code, issues: error.issues });
+		console.error("Analyze error:", error);
+		return res.status(500).json({ error: "Failed to analyze job fit" });
+	}
+});
+
+// POST /api/analyze/stream -> text/event-stream. Emits a "section" event
+// ({ section, data }) as each part of the analysis is generated, then a final
+// "result" event with the complete, validated analysis (or an "error" event).
+app.post("/api/analyze/stream", async (req, res) => {
+	const request = await parseAnalyzeRequest(req, res);
+	if (!request) return;
+	const { jobId, resumeId, resumeText, jobDescription, refresh } = request;
+
+	res.set({
+		"Content-Type": "text/event-stream",
+		"Cache-Control": "no-cache",
+		Connection: "keep-alive",
+	});
+	res.flushHeaders();
+	let closed = false;
+	res.on("close", () => {
+		closed = true;
+	});
+	const send = (event, data) => {
+		if (!closed) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+	};
+
+	try {
+		const analyzed = await analyzer.analyzeStream(resumeText, jobDescription, {
+			refresh,
+			onSection: (section, data) => send("section", { section, data }),
+		});
+		recordAnalysis({ owner: req.user?._id, jobId, resumeId, resumeText, jobDescription, ...analyzed });
+		send("result", analyzed.result);
+	} catch (error) {
+		if (error instanceof InvalidModelOutputError)
+			send("error", { error: error.message, code: error.code, issues: error.issues });
+		else {
+			console.error("Analyze stream error:", error);
+			send("error", { error: "Failed to analyze job fit" });
+		}
+	}
+	res.end();
+});
+
+// Batch analysis: jobs run through a shared queue with bounded concurrency.
+// Transient model failures are retried; the final attempt falls back to the
+// offline analyzer like /api/analyze does.
+const analysisQueue = createBatchQueue({
+	concurrency: Number(process.env.ANALYZE_BATCH_CONCURRENCY) || 2,
+	maxAttempts: 3,
+	isRetryable: isTransientError,
+	runItem: async ({ owner, jobId, jobDescription, resumeText }, { isFinalAttempt }) => {
+		const analyzed = await analyzer.analyze(resumeText, jobDescription, {
+			shouldFallBack: (error) => isFinalAttempt || !isTransientError(error),
+		});
+		recordAnalysis({ owner, jobId, resumeText, jobDescription, ...analyzed });
+		return analyzed.result;
+	},
+});
+
+// POST /api/analyze/batch -> 202 with the batch; poll GET for per-job progress
+app.post("/api/analyze/batch", (req, res) => {
+	const parsedReq = analyzeBatchRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success)
+		return res
+			.status(400)
+			.json({ error: "Invalid request", details: parsedReq.error.format() });
+	const { resume, jobs } = parsedReq.data;
+	const owner = req.user?._id;
+	const batch = analysisQueue.start(
+		jobs.map(({ jobId, jobDescription }) => ({
+			key: jobId,
+			owner,
+			jobId,
+			jobDescription,
+			resumeText: resume,
+		})),
+		{ owner: owner?.toString() }
+	);
+	return res.status(202).json(batch);
+});
+
+app.get("/api/analyze/batch/:id", (req, res) => {
+	const batch = analysisQueue.get(req.params.id, req.user?._id.toString());
+	if (!batch) return res.status(404).json({ error: "Batch not found" });
+	return res.json(batch);
+});
+
+// Cancels the jobs that haven't started; running ones still finish
+app.delete("/api/analyze/batch/:id", (req, res) => {
+	const batch = analysisQueue.cancel(req.params.id, req.user?._id.toString());
+	if (!batch) return res.status(404).json({ error: "Batch not found" });
+	return res.json(batch);
+});
+
+// POST /api/resume-qa
+app.post("/api/resume-qa", requireModel(), async (req, res) => {
+	const parsedReq = resumeQaRequestSchema.safeParse(req.body || {});
 	if (!parsedReq.success)
 		return res
 			.status(400)
 			.json({ error: "Invalid request", details: parsedReq.error.format() });
-	const { resumeId, resume, jobDescription } = parsedReq.data;
+	const { resumeId, resume, question, history } = parsedReq.data;
 	if (!resume && !resumeId)
 		return res
 			.status(400)
@@ -217,8 +1320,10 @@ app.post("/api/analyze", async (req, res) => {
 
 	let resumeText = resume || null;
 	if (resumeId && !resumeText && Resume) {
+		if (!req.user)
+			return res.status(401).json({ error: "Sign in to use a saved resume" });
 		try {
-			const doc = await Resume.findById(resumeId).lean();
+			const doc = await Resume.findOne({ _id: resumeId, owner: req.user._id }).lean();
 			if (!doc) return res.status(404).json({ error: "Resume not found" });
 			resumeText = doc.content;
 		} catch (e) {
@@ -226,96 +1331,282 @@ app.post("/api/analyze", async (req, res) => {
 			return res.status(500).json({ error: "Failed to load resume" });
 		}
 	}
+	if (!resumeText)
+		return res.status(404).json({ error: "Resume not found" });
 
-	const prompt = `
-You are an expert career coach and professional resume writer. Your task is to analyze a candidate's resume against a job description and provide a detailed, actionable analysis in JSON.
+	// Number every line so the model can cite exactly what it relied on
+	const resumeLines = resumeText.split(/\r?\n/);
+	const numberedResume = resumeLines
+		.map((line, index) => `${index + 1}: ${line}`)
+		.join("\n");
 
-Candidate Resume:\n---\n${resumeText}\n---\n\nJob Description:\n---\n${jobDescription}\n---\n
-Respond ONLY with valid JSON matching the schema.`;
+	const systemInstruction = `
+You are an expert career coach helping a candidate answer job application screening questions.
+Answer ONLY using facts found in the candidate's resume below. If the resume does not support an answer, say so and suggest what the candidate could add.
+Write in the first person, as the candidate. Keep answers concise unless the question asks for detail.
+In "citedLines", list the line numbers of every resume line your answer relies on.
+
+Candidate Resume (line numbers prefixed):\n---\n${numberedResume}\n---`;
+
+	const messages = [
+		...history.slice(-MAX_QA_HISTORY_TURNS),
+		{ role: "user", content: question },
+	];
 
 	try {
-		const response = await ai.models.generateContent({
-			model: "gemini-2.5-flash",
-			contents: prompt,
-			config: {
-				responseMimeType: "application/json",
-				responseSchema,
-				temperature: 0.5,
-			},
+		const text = await llm.generate({
+			system: systemInstruction,
+			messages,
+			schema: resumeQaSchema,
+			temperature: 0.4,
 		});
-
-		const text = response.text?.trim();
 		if (!text)
 			return res.status(502).json({ error: "Empty response from model" });
 
-		let parsed = null;
+		let parsed;
 		try {
 			parsed = JSON.parse(text);
 		} catch (e) {
-			parsed = { raw: text };
+			return res.status(502).json({ error: "Malformed response from model" });
 		}
 
-		// persist analysis if JobAnalysis model exists
-		if (JobAnalysis) {
-			try {
-				const created = await JobAnalysis.create({
-					resumeId: resumeId || null,
-					jobDescription,
-					result: parsed,
-					rawResponse: parsed,
-				});
-				return res.json({ id: created._id.toString(), ...created.toObject() });
-			} catch (e) {
-				console.error("Failed to persist analysis:", e);
-				// continue and return parsed result
-			}
-		}
+		// Drop citations that point outside the resume or at blank lines
+		const lineNumbers = Array.isArray(parsed.citedLines)
+			? [...new Set(parsed.citedLines)]
+			: [];
+		const citations = lineNumbers
+			.filter(
+				(n) =>
+					Number.isInteger(n) &&
+					n >= 1 &&
+					n <= resumeLines.length &&
+					resumeLines[n - 1].trim()
+			)
+			.sort((a, b) => a - b)
+			.map((n) => ({ line: n, text: resumeLines[n - 1].trim() }));
 
-		return res.json(parsed);
+		return res.json({ answer: parsed.answer || "", citations });
 	} catch (error) {
-		console.error("Analyze error:", error);
-		return res.status(500).json({ error: "Failed to analyze job fit" });
+		console.error("Resume Q&A error:", error);
+		return res.status(500).json({ error: "Failed to answer question" });
+	}
+});
+
+// POST /api/cover-letter
+app.post("/api/cover-letter", requireModel(), async (req, res) => {
+	const parsedReq = coverLetterRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success)
+		return res
+			.status(400)
+			.json({ error: "Invalid request", details: parsedReq.error.format() });
+	const { resume, ...options } = parsedReq.data;
+
+	try {
+		return res.json(await writeCoverLetter(llm, { resumeText: resume, ...options }));
+	} catch (error) {
+		if (error instanceof InvalidCoverLetterError)
+			return res.status(502).json({ error: error.message });
+		console.error("Cover letter error:", error);
+		return res.status(500).json({ error: "Failed to write cover letter" });
+	}
+});
+
+// POST /api/parse-resume
+// Parses resume text without saving it, e.g. for resumes kept in the browser
+app.post("/api/parse-resume", (req, res) => {
+	const parsedReq = parseResumeRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success)
+		return res
+			.status(400)
+			.json({ error: "Invalid request", details: parsedReq.error.format() });
+	return res.json(parseResume(parsedReq.data.content));
+});
+
+// Sends a rendered document as a download named after `title`
+const sendDocument = (res, blocks, format, title, prefix) => {
+	const { data, mimeType, extension } = renderDocument(blocks, format, { title });
+	const safeName = title.replace(/[^a-z0-9]/gi, "_").toLowerCase() || "document";
+	res.set({
+		"Content-Type": mimeType,
+		"Content-Disposition": `attachment; filename="${prefix}_${safeName}.${extension}"`,
+	});
+	return res.send(data);
+};
+
+// POST /api/export/resume
+app.post("/api/export/resume", (req, res) => {
+	const parsedReq = exportResumeRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success)
+		return res
+			.status(400)
+			.json({ error: "Invalid request", details: parsedReq.error.format() });
+	const { name, content, format } = parsedReq.data;
+	try {
+		return sendDocument(res, resumeToBlocks(content), format, name, "resume");
+	} catch (err) {
+		console.error("Resume export error:", err);
+		return res.status(500).json({ error: "Failed to export resume" });
+	}
+});
+
+// POST /api/export/cover-letter
+app.post("/api/export/cover-letter", (req, res) => {
+	const parsedReq = exportCoverLetterRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success)
+		return res
+			.status(400)
+			.json({ error: "Invalid request", details: parsedReq.error.format() });
+	const { coverLetter, resume, title, format } = parsedReq.data;
+	try {
+		const blocks = coverLetterToBlocks(coverLetter, { resumeText: resume });
+		return sendDocument(res, blocks, format, title, "cover_letter");
+	} catch (err) {
+		console.error("Cover letter export error:", err);
+		return res.status(500).json({ error: "Failed to export cover letter" });
+	}
+});
+
+// POST /api/extract-text
+// Extracts resume text from an uploaded PDF or DOCX. Text-based documents are
+// parsed locally; only scanned PDFs are sent to the model for OCR.
+app.post("/api/extract-text", async (req, res) => {
+	const parsedReq = extractTextRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success)
+		return res
+			.status(400)
+			.json({ error: "Invalid request", details: parsedReq.error.format() });
+	const { mimeType, data } = parsedReq.data;
+
+	let local;
+	try {
+		local = extractDocumentTextLocally(mimeType, Buffer.from(data, "base64"));
+	} catch (err) {
+		if (err instanceof DocumentTooLargeError) return res.status(400).json({ error: err.message });
+		console.error("Local text extraction error:", err);
+		return res
+			.status(422)
+			.json({ error: "Could not read this document. Please paste the text instead." });
+	}
+	if (local.text) return res.json({ text: local.text, method: local.method });
+
+	if (!llm?.capabilities.documents)
+		return res.status(422).json({
+			error:
+				"This PDF has no selectable text (it may be scanned). Configure a model provider that can read documents (e.g. GEMINI_API_KEY) to enable OCR, or paste the text instead.",
+		});
+
+	const prompt = `Extract all of the text from this resume document. Return ONLY the raw text.
+Keep each section heading (e.g. EDUCATION, SKILLS, EXPERIENCE) on its own line, keep one line per entry, and write list items as lines starting with "- ".`;
+	try {
+		const text = await llm.generate({ prompt, attachments: [{ mimeType, data }] });
+		if (!text)
+			return res.status(502).json({ error: "Empty response from model" });
+		return res.json({ text, method: "model" });
+	} catch (err) {
+		console.error(`Model text extraction error (${local.reason}):`, err);
+		return res.status(500).json({ error: "Failed to extract text from document" });
 	}
 });
 
 // POST /api/fetch-description
-app.post("/api/fetch-description", async (req, res) => {
-	const { url } = req.body;
-	if (!url) return res.status(400).json({ error: "Missing url" });
+// Reads the posting from the page itself (JSON-LD, then the main content);
+// the model's web search is only asked when the page has nothing readable,
+// e.g. behind a login or rendered by scripts. Only public addresses are
+// fetched, and each client gets a limited number of fetches a minute.
+const fetchDescriptionLimiter = createRateLimiter({ limit: 30, windowMs: 60 * 1000 });
+app.post("/api/fetch-description", fetchDescriptionLimiter, async (req, res) => {
+	const parsedReq = fetchDescriptionRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success) return res.status(400).json({ error: "Invalid request", details: parsedReq.error.format() });
+	const { url } = parsedReq.data;
 
-	const prompt = `You are an expert web scraping assistant. Extract the job description text from the provided URL and return ONLY the raw text. URL: ${url}`;
+	let posting = null;
+	let pageError = null;
 	try {
-		const response = await ai.models.generateContent({
-			model: "gemini-2.5-flash",
-			contents: prompt,
-			config: { tools: [{ googleSearch: {} }] },
+		posting = readJobPosting(await fetchJobPage(url));
+	} catch (err) {
+		if (err instanceof BlockedUrlError) return res.status(400).json({ error: `Failed to fetch job description: ${err.message}` });
+		pageError = err;
+		console.warn(`Fetch description: could not read ${url}:`, err.message);
+	}
+	// The raw JobPosting only feeds the facts; it isn't sent back
+	const respond = ({ jobPosting, ...result }) =>
+		res.json({ ...result, facts: extractPostingFacts({ title: result.title, description: result.text, jobPosting }) });
+
+	// A JobPosting's description is the employer's own, however short
+	if (posting && (posting.source === "jsonLd" || posting.text.length >= MIN_DESCRIPTION_LENGTH)) return respond(posting);
+
+	if (llm?.capabilities.webSearch) {
+		const prompt = `You are an expert web scraping assistant. Extract the job description text from the provided URL and return ONLY the raw text. URL: ${url}`;
+		try {
+			const text = (await llm.generate({ prompt, tool: "webSearch" })).trim();
+			if (text)
+				return respond({
+					title: posting?.title || "",
+					company: posting?.company || "",
+					text,
+					source: "model",
+					jobPosting: posting?.jobPosting || null,
+				});
+		} catch (err) {
+			console.error("Fetch description error", err);
+		}
+	}
+	// A short description beats none
+	if (posting?.text) return respond(posting);
+	return res.status(502).json({
+		error: `Failed to fetch job description: ${
+			pageError instanceof JobPageError
+				? pageError.message
+				: pageError
+					? "the page couldn't be downloaded"
+					: "no posting found on the page"
+		}`,
+	});
+});
+
+// POST /api/posting-facts
+// Salary, location, arrangement, employment type, seniority and deadline read
+// from a pasted description (fetched ones come with their facts)
+app.post("/api/posting-facts", (req, res) => {
+	const parsedReq = postingFactsRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success) return res.status(400).json({ error: "Invalid request", details: parsedReq.error.format() });
+	return res.json(extractPostingFacts(parsedReq.data));
+});
+
+// POST /api/search-jobs
+app.post("/api/search-jobs", async (req, res) => {
+	const parsedReq = searchJobsRequestSchema.safeParse(req.body || {});
+	if (!parsedReq.success)
+		return res
+			.status(400)
+			.json({ error: "Invalid request", details: parsedReq.error.format() });
+	const { query, site, page, pageSize } = parsedReq.data;
+
+	const adapter = jobSearch.getAdapter(site);
+	if (!adapter)
+		return res.status(400).json({ error: `No job source configured for ${site}` });
+	if (adapter.requiresModel && !llm?.capabilities.webSearch)
+		return res.status(503).json({
+			error: `Searching ${site} needs a model provider with web search (e.g. GEMINI_API_KEY).`,
 		});
-		const text = response.text?.trim();
-		return res.json({ text: text || "" });
+
+	try {
+		return res.json(await jobSearch.search(adapter, { query, page, pageSize }));
 	} catch (err) {
-		console.error("Fetch description error", err);
-		return res.status(500).json({ error: "Failed to fetch job description" });
+		console.error(`Job search error (${site}):`, err);
+		return res.status(502).json({ error: `Failed to search ${site}` });
 	}
 });
 
 // POST /api/distance
-app.post("/api/distance", async (req, res) => {
+app.post("/api/distance", requireModel("maps"), async (req, res) => {
 	const { origin, destination } = req.body;
 	if (!origin || !destination)
 		return res.status(400).json({ error: "Missing origin or destination" });
 
 	const prompt = `You are a mapping assistant. Calculate the driving distance (miles) between Origin: ${origin} and Destination: ${destination}. Return JSON.`;
 	try {
-		const response = await ai.models.generateContent({
-			model: "gemini-2.5-flash",
-			contents: prompt,
-			config: {
-				tools: [{ googleMaps: {} }],
-				responseMimeType: "application/json",
-				responseSchema: distanceSchema,
-			},
-		});
-		const text = response.text?.trim();
+		const text = await llm.generate({ prompt, tool: "maps", schema: distanceSchema });
 		const parsed = JSON.parse(text || "{}");
 		return res.json(parsed);
 	} catch (err) {
@@ -325,24 +1616,18 @@ app.post("/api/distance", async (req, res) => {
 });
 
 // POST /api/reverse-geocode
-app.post("/api/reverse-geocode", async (req, res) => {
+app.post("/api/reverse-geocode", requireModel("maps"), async (req, res) => {
 	const { lat, lon } = req.body;
 	if (typeof lat !== "number" || typeof lon !== "number")
 		return res.status(400).json({ error: "Missing lat/lon" });
 
 	const prompt = `What is the full street address for coordinates latitude ${lat}, longitude ${lon}? Return only the address.`;
 	try {
-		const response = await ai.models.generateContent({
-			model: "gemini-2.5-flash",
-			contents: prompt,
-			config: {
-				tools: [{ googleMaps: {} }],
-				toolConfig: {
-					retrievalConfig: { latLng: { latitude: lat, longitude: lon } },
-				},
-			},
+		const text = await llm.generate({
+			prompt,
+			tool: "maps",
+			location: { latitude: lat, longitude: lon },
 		});
-		const text = response.text?.trim() || "";
 		return res.json({ address: text });
 	} catch (err) {
 		console.error("Reverse geocode error", err);
@@ -350,16 +1635,232 @@ app.post("/api/reverse-geocode", async (req, res) => {
 	}
 });
 
-// GET /api/hiring-cafe -> proxy
+// GET /api/hiring-cafe?q=&location=&tags=&postedWithin=&page=&pageSize=&refresh=1
+// Searches the cached, normalized hiring.cafe feed
 app.get("/api/hiring-cafe", async (req, res) => {
+	const parsedReq = hiringCafeQuerySchema.safeParse(req.query);
+	if (!parsedReq.success) return res.status(400).json({ error: "Invalid request", details: parsedReq.error.format() });
+	const { refresh, ...query } = parsedReq.data;
+	try {
+		return res.json(await hiringCafe.search({ ...query, refresh: !!refresh }));
+	} catch (err) {
+		console.error("Hiring.cafe feed error", err);
+		return res.status(502).json({ error: "Failed to fetch hiring.cafe jobs" });
+	}
+});
+
+// Saved searches: each is polled every `intervalMinutes` by a timer that looks
+// for due searches once a minute; "Poll now" runs one straight away. New hits
+// are stored for the owner's inbox. SAVED_SEARCH_POLLING=0 turns the timer off.
+const searchPoller = createSearchPoller({ hiringCafe, jobSearch, analyzer, llm });
+const SAVED_SEARCH_TICK_MS = 60 * 1000;
+// Due searches handled per tick; the rest wait for the next one
+const SAVED_SEARCHES_PER_TICK = 10;
+const savedSearchPolls = new Map();
+
+const runSavedSearchPoll = async (search) => {
+	try {
+		const [defaultResume, dashboardJobs] = await Promise.all([
+			Resume.findOne({ owner: search.owner, isDefault: true }).select("content").lean(),
+			Job.find({ owner: search.owner }).select("url").lean(),
+		]);
+		const excluded = new Set(dashboardJobs.filter((job) => job.url).map((job) => canonicalJobUrl(job.url)));
+		const { hits, seenKeys, errors } = await searchPoller.poll(search, {
+			seen: new Set(search.seenKeys),
+			excluded,
+			resumeText: defaultResume?.content || "",
+		});
+		if (hits.length) await SearchHit.insertMany(hits.map((hit) => ({ ...hit, owner: search.owner, search: search._id })));
+
+		if (!defaultResume && (search.autoAnalyze || search.minMatchScore > 0))
+			errors.push("No default resume is set, so new hits weren't analyzed or held to the minimum score");
+		const polledAt = new Date();
+		await SavedSearch.updateOne(
+			{ _id: search._id },
+			{
+				$set: {
+					lastPolledAt: polledAt,
+					nextPollAt: new Date(polledAt.getTime() + search.intervalMinutes * 60 * 1000),
+					lastError: errors.join("; ") || null,
+					failedPolls: 0,
+				},
+				$push: { seenKeys: { $each: seenKeys, $slice: -MAX_SEEN_KEYS } },
+			}
+		);
+		return hits.length;
+	} catch (err) {
+		// Otherwise the search stays due and is retried on every tick
+		const failedPolls = (search.failedPolls || 0) + 1;
+		const delayMs = nextPollDelayMinutes(search.intervalMinutes, failedPolls) * 60 * 1000;
+		await SavedSearch.updateOne(
+			{ _id: search._id },
+			{ $set: { nextPollAt: new Date(Date.now() + delayMs), lastError: `Poll failed: ${err.message}`, failedPolls } }
+		).catch((updateErr) => console.error(`Error rescheduling saved search ${search._id}:`, updateErr));
+		throw err;
+	}
+};
+
+// Resolves to the number of new hits; a search already being polled isn't polled twice
+const pollSavedSearch = (search) => {
+	const id = search._id.toString();
+	if (!savedSearchPolls.has(id))
+		savedSearchPolls.set(
+			id,
+			runSavedSearchPoll(search).finally(() => savedSearchPolls.delete(id))
+		);
+	return savedSearchPolls.get(id);
+};
+
+let checkingDueSearches = false;
+const pollDueSavedSearches = async () => {
+	if (!SavedSearch || mongoose.connection.readyState !== 1 || checkingDueSearches) return;
+	checkingDueSearches = true;
 	try {
-		const r = await fetch("https://hiring.cafe/api/v1/jobs");
-		const data = await r.json();
-		return res.json(data);
+		const due = await SavedSearch.find({ nextPollAt: { $lte: new Date() } })
+			.sort({ nextPollAt: 1 })
+			.limit(SAVED_SEARCHES_PER_TICK)
+			.lean();
+		// One at a time, so polling never crowds out interactive requests
+		for (const search of due) {
+			try {
+				await pollSavedSearch(search);
+			} catch (err) {
+				console.error(`Error polling saved search ${search._id}:`, err);
+			}
+		}
 	} catch (err) {
-		console.error("Hiring.cafe proxy error", err);
-		return res.status(500).json({ error: "Failed to fetch hiring.cafe jobs" });
+		console.error("Error finding due saved searches:", err);
+	} finally {
+		checkingDueSearches = false;
 	}
+};
+if (process.env.SAVED_SEARCH_POLLING !== "0") setInterval(pollDueSavedSearches, SAVED_SEARCH_TICK_MS).unref();
+
+// Saved search and inbox endpoints (use MongoDB)
+const toSavedSearchResponse = ({ _id, __v, owner, seenKeys, failedPolls, ...rest }) => ({ ...rest, id: _id.toString() });
+const toSearchHitResponse = ({ _id, __v, owner, search, ...rest }) => ({ ...rest, id: _id.toString(), searchId: search.toString() });
+
+app.get('/api/saved-searches', requireUser, async (req, res) => {
+  if (!SavedSearch) return res.status(500).json({ error: 'SavedSearch model not initialized or MONGODB_URI missing' });
+  try {
+    const docs = await SavedSearch.find({ owner: req.user._id }).select('-seenKeys').sort({ createdAt: -1 }).lean();
+    res.json(docs.map(toSavedSearchResponse));
+  } catch (err) {
+    console.error('Error fetching saved searches:', err);
+    res.status(500).json({ error: 'Failed to fetch saved searches' });
+  }
+});
+
+// The first poll starts right away; the response doesn't wait for it
+app.post('/api/saved-searches', requireUser, async (req, res) => {
+  if (!SavedSearch) return res.status(500).json({ error: 'SavedSearch model not initialized or MONGODB_URI missing' });
+  try {
+    const parsed = savedSearchCreateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+    const created = await SavedSearch.create({ ...parsed.data, owner: req.user._id });
+    pollSavedSearch(created.toObject()).catch(err => console.error(`Error polling saved search ${created._id}:`, err));
+    res.status(201).json(toSavedSearchResponse(created.toObject()));
+  } catch (err) {
+    console.error('Error creating saved search:', err);
+    res.status(400).json({ error: 'Failed to create saved search' });
+  }
+});
+
+// A changed query is polled at the next tick; listings already seen stay seen
+app.put('/api/saved-searches/:id', requireUser, async (req, res) => {
+  if (!SavedSearch) return res.status(500).json({ error: 'SavedSearch model not initialized or MONGODB_URI missing' });
+  try {
+    const parsed = savedSearchUpdateSchema.safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+    const changesQuery = ['keywords', 'tags', 'location', 'sources'].some(field => parsed.data[field] !== undefined);
+    const update = changesQuery ? { ...parsed.data, nextPollAt: new Date() } : parsed.data;
+    const updated = await SavedSearch.findOneAndUpdate({ _id: req.params.id, owner: req.user._id }, update, { new: true }).select('-seenKeys').lean();
+    if (!updated) return res.status(404).json({ error: 'Not found' });
+    res.json(toSavedSearchResponse(updated));
+  } catch (err) {
+    console.error('Error updating saved search:', err);
+    res.status(400).json({ error: 'Failed to update saved search' });
+  }
+});
+
+// Its hits go with it
+app.delete('/api/saved-searches/:id', requireUser, async (req, res) => {
+  if (!SavedSearch) return res.status(500).json({ error: 'SavedSearch model not initialized or MONGODB_URI missing' });
+  try {
+    const deleted = await SavedSearch.findOneAndDelete({ _id: req.params.id, owner: req.user._id });
+    if (!deleted) return res.status(404).json({ error: 'Not found' });
+    await SearchHit.deleteMany({ search: deleted._id });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting saved search:', err);
+    res.status(500).json({ error: 'Failed to delete saved search' });
+  }
+});
+
+// Polls now and answers with the updated search and how many new hits it found
+app.post('/api/saved-searches/:id/poll', requireUser, async (req, res) => {
+  if (!SavedSearch) return res.status(500).json({ error: 'SavedSearch model not initialized or MONGODB_URI missing' });
+  try {
+    const search = await SavedSearch.findOne({ _id: req.params.id, owner: req.user._id }).lean();
+    if (!search) return res.status(404).json({ error: 'Not found' });
+    const newHits = await pollSavedSearch(search);
+    const updated = await SavedSearch.findById(search._id).select('-seenKeys').lean();
+    res.json({ search: toSavedSearchResponse(updated), newHits });
+  } catch (err) {
+    console.error('Error polling saved search:', err);
+    res.status(502).json({ error: 'Failed to run saved search' });
+  }
+});
+
+// Newest first; filter by search and/or to unread hits
+app.get('/api/search-hits', requireUser, async (req, res) => {
+  if (!SearchHit) return res.status(500).json({ error: 'SearchHit model not initialized or MONGODB_URI missing' });
+  const parsed = searchHitsQuerySchema.safeParse(req.query);
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+  const { searchId, unread, limit } = parsed.data;
+  if (searchId && !mongoose.isValidObjectId(searchId)) return res.status(400).json({ error: 'Invalid searchId' });
+
+  const filter = { owner: req.user._id };
+  if (searchId) filter.search = searchId;
+  if (unread) filter.readAt = null;
+  try {
+    const docs = await SearchHit.find(filter).sort({ foundAt: -1 }).limit(limit).lean();
+    res.json(docs.map(toSearchHitResponse));
+  } catch (err) {
+    console.error('Error fetching search hits:', err);
+    res.status(500).json({ error: 'Failed to fetch search hits' });
+  }
+});
+
+app.post('/api/search-hits/read', requireUser, async (req, res) => {
+  if (!SearchHit) return res.status(500).json({ error: 'SearchHit model not initialized or MONGODB_URI missing' });
+  const parsed = searchHitsReadSchema.safeParse(req.body || {});
+  if (!parsed.success) return res.status(400).json({ error: 'Invalid request', details: parsed.error.format() });
+  const { ids } = parsed.data;
+  if (ids && !ids.every(id => mongoose.isValidObjectId(id))) return res.status(400).json({ error: 'Invalid id' });
+
+  const filter = { owner: req.user._id, readAt: null };
+  if (ids) filter._id = { $in: ids };
+  try {
+    const { modifiedCount } = await SearchHit.updateMany(filter, { readAt: new Date() });
+    res.json({ updated: modifiedCount });
+  } catch (err) {
+    console.error('Error marking search hits read:', err);
+    res.status(500).json({ error: 'Failed to update search hits' });
+  }
+});
+
+// Dismisses a hit; its listing stays seen, so it doesn't come back
+app.delete('/api/search-hits/:id', requireUser, async (req, res) => {
+  if (!SearchHit) return res.status(500).json({ error: 'SearchHit model not initialized or MONGODB_URI missing' });
+  try {
+    const deleted = await SearchHit.findOneAndDelete({ _id: req.params.id, owner: req.user._id });
+    if (!deleted) return res.status(404).json({ error: 'Not found' });
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Error deleting search hit:', err);
+    res.status(500).json({ error: 'Failed to delete search hit' });
+  }
 });
 
 const port = process.env.PORT || 3001;
@@ -0,0 +1,67 @@
+import { createHash } from "crypto";
+
+// Content-addressed cache of model analyses. The key covers everything that
+// determines the model's answer (normalized resume and job text, model, and a
+// version derived from the prompt template), so an edit to any of them is a
+// miss and stale entries simply stop being looked up.
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+// Whitespace-only differences (re-pasted text, trailing spaces, CRLF) shouldn't miss
+export const normalizeForCache = (text) =>
+	String(text || "")
+		.replace(/\r\n?/g, "\n")
+		.split("\n")
+		.map((line) => line.replace(/\s+/g, " ").trim())
+		.filter(Boolean)
+		.join("\n");
+
+export const analysisCacheKey = ({ resumeText, jobDescription, model, promptVersion }) =>
+	createHash("sha256")
+		.update(
+			JSON.stringify([promptVersion, model, normalizeForCache(resumeText), normalizeForCache(jobDescription)])
+		)
+		.digest("hex");
+
+/**
+ * Least-recently-used map of cache key -> JobAnalysis. `loadPersisted(key)`,
+ * when given, is consulted on a miss (e.g. analyses stored in MongoDB) so the
+ * cache survives restarts. `maxEntries` of 0 disables caching.
+ *
+ * @param {Object} [options]
+ * @param {number} [options.maxEntries]
+ * @param {(key: string) => Promise<{ result: Object, cachedAt: string } | null>} [options.loadPersisted]
+ */
+export const createAnalysisCache = ({ maxEntries = DEFAULT_MAX_ENTRIES, loadPersisted } = {}) => {
+	const entries = new Map();
+
+	const remember = (key, entry) => {
+		if (maxEntries <= 0) return;
+		entries.delete(key);
+		entries.set(key, entry);
+		if (entries.size > maxEntries) entries.delete(entries.keys().next().value);
+	};
+
+	return {
+		/** Resolves to { result, cachedAt } or null. */
+		get: async (key) => {
+			if (maxEntries <= 0) return null;
+			const entry = entries.get(key);
+			if (entry) {
+				remember(key, entry);
+				return entry;
+			}
+			if (!loadPersisted) return null;
+			try {
+				const persisted = await loadPersisted(key);
+				if (persisted) remember(key, persisted);
+				return persisted || null;
+			} catch (e) {
+				console.warn("Analysis cache lookup failed:", e);
+				return null;
+			}
+		},
+
+		set: (key, result) => remember(key, { result, cachedAt: new Date().toISOString() }),
+	};
+};
@@ -0,0 +1,79 @@
+import { z } from "zod";
+import { extractJson } from "./llm/json.js";
+
+// Server-side mirror of the JobAnalysis type in types.ts. The same schema is
+// sent to the model as JSON Schema and used to validate what comes back.
+
+export const keywordSchema = z.object({
+	keyword: z.string().min(1),
+	definition: z.string(),
+});
+
+export const improvementSuggestionSchema = z.object({
+	originalText: z.string().min(1).describe("Exact text copied from the resume"),
+	suggestedRewrite: z.string().min(1),
+	suggestionType: z.string().min(1).describe('e.g. "Add Keyword", "Quantify Impact", "Rephrase"'),
+});
+
+export const jobAnalysisSchema = z.object({
+	matchScore: z.number().int().min(0).max(100),
+	summary: z.string().min(1),
+	strengths: z.array(z.string()),
+	gaps: z.array(z.string()),
+	matchedKeywords: z.array(keywordSchema),
+	missingKeywords: z.array(keywordSchema),
+	improvementSuggestions: z.array(improvementSuggestionSchema),
+	coverLetterDraft: z.string(),
+});
+
+const { $schema, ...jobAnalysisJsonSchema } = z.toJSONSchema(jobAnalysisSchema);
+export { jobAnalysisJsonSchema };
+
+const toStringList = (value) =>
+	(Array.isArray(value) ? value : value == null ? [] : [value])
+		.filter((item) => item != null && typeof item !== "object")
+		.map(String);
+
+const toKeywordList = (value) =>
+	(Array.isArray(value) ? value : []).map((item) =>
+		typeof item === "string"
+			? { keyword: item, definition: "" }
+			: { keyword: item?.keyword ?? item?.term ?? item?.name, definition: item?.definition ?? "" }
+	);
+
+/**
+ * Fixes the mistakes models commonly make without changing meaning: scores as
+ * strings or out of range, keywords given as bare strings, single strings
+ * where a list is expected. Anything it can't fix is left for validation.
+ */
+export const repairJobAnalysis = (value) => {
+	if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+	const score = Number(value.matchScore);
+	return {
+		...value,
+		matchScore: Number.isFinite(score) ? Math.round(Math.min(100, Math.max(0, score))) : value.matchScore,
+		strengths: toStringList(value.strengths),
+		gaps: toStringList(value.gaps),
+		matchedKeywords: toKeywordList(value.matchedKeywords),
+		missingKeywords: toKeywordList(value.missingKeywords),
+		improvementSuggestions: Array.isArray(value.improvementSuggestions)
+			? value.improvementSuggestions.map((item) => ({ suggestionType: "Rephrase", ...item }))
+			: [],
+		coverLetterDraft: value.coverLetterDraft ?? "",
+	};
+};
+
+/**
+ * Parses, repairs and validates a model reply. Returns { success: true, data }
+ * or { success: false, issues } with one readable line per problem.
+ */
+export const checkJobAnalysis = (text) => {
+	const json = extractJson(text || "");
+	if (!json) return { success: false, issues: ["Reply was not a JSON object"] };
+	const parsed = jobAnalysisSchema.safeParse(repairJobAnalysis(json));
+	if (parsed.success) return { success: true, data: parsed.data };
+	return {
+		success: false,
+		issues: parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+	};
+};
@@ -0,0 +1,184 @@
+import { createHash } from "crypto";
+import { analyzeOffline } from "./offlineAnalyzer.js";
+import { analysisCacheKey } from "./analysisCache.js";
+import { checkJobAnalysis, jobAnalysisJsonSchema, repairJobAnalysis } from "./analysisSchema.js";
+import { createJsonFieldReader } from "./llm/json.js";
+
+// Re-prompts allowed when the model's analysis fails schema validation
+const MAX_VALIDATION_ATTEMPTS = 2;
+
+const buildPrompt = (resumeText, jobDescription) => `
+You are an expert career coach and professional resume writer. Your task is to analyze a candidate's resume against a job description and provide a detailed, actionable analysis in JSON.
+
+Candidate Resume:\n---\n${resumeText}\n---\n\nJob Description:\n---\n${jobDescription}\n---\n
+Respond ONLY with valid JSON matching the schema.`;
+
+// Changes whenever the prompt template or response schema does, which retires
+// cached analyses produced by the old prompt
+export const ANALYSIS_PROMPT_VERSION = createHash("sha256")
+	.update(buildPrompt("{resume}", "{jobDescription}") + JSON.stringify(jobAnalysisJsonSchema))
+	.digest("hex")
+	.slice(0, 12);
+
+/**
+ * Groups of JobAnalysis fields that the streaming endpoint emits together, in
+ * the order the model generates them (the schema's property order).
+ */
+export const ANALYSIS_SECTIONS = {
+	overview: ["matchScore", "summary"],
+	fit: ["strengths", "gaps"],
+	keywords: ["matchedKeywords", "missingKeywords"],
+	suggestions: ["improvementSuggestions"],
+	coverLetter: ["coverLetterDraft"],
+};
+
+/** The model kept replying with output that doesn't match the JobAnalysis schema. */
+export class InvalidModelOutputError extends Error {
+	constructor(issues) {
+		super("The AI model returned an analysis in an unexpected format. Please try again.");
+		this.name = "InvalidModelOutputError";
+		this.code = "INVALID_MODEL_OUTPUT";
+		this.issues = issues;
+	}
+}
+
+/** Rate limits, server errors and dropped connections are worth retrying. */
+export const isTransientError = (error) => {
+	const status = Number(error?.status ?? error?.code);
+	if (status === 408 || status === 429 || (status >= 500 && status < 600)) return true;
+	if (["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EAI_AGAIN"].includes(error?.code)) return true;
+	return /\b(429|500|502|503|504)\b|rate limit|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded/i.test(
+		String(error?.message || "")
+	);
+};
+
+/**
+ * Builds the resume-vs-job analysis pipeline shared by /api/analyze and the
+ * batch queue. `analyze` resolves to { result, rawResponse, cacheKey } where
+ * `result` is a validated JobAnalysis tagged with its source. With a `cache`
+ * (see analysisCache.js), model results are reused for identical inputs and
+ * come back marked `cached: true`; pass `refresh` to bypass it.
+ */
+export const createAnalyzer = ({ llm, cache = null }) => {
+	// Replies that fail validation are re-prompted with the problems listed
+	const analyzeWithModel = async (resumeText, jobDescription) => {
+		const messages = [{ role: "user", content: buildPrompt(resumeText, jobDescription) }];
+		let issues = [];
+		for (let attempt = 1; attempt <= MAX_VALIDATION_ATTEMPTS; attempt++) {
+			const rawResponse = await llm.generate({
+				messages,
+				schema: jobAnalysisJsonSchema,
+				temperature: 0.5,
+			});
+			const checked = checkJobAnalysis(rawResponse);
+			if (checked.success) return { result: { ...checked.data, source: "model" }, rawResponse };
+			issues = checked.issues;
+			console.warn(`Analysis attempt ${attempt} failed validation:`, issues);
+			messages.push(
+				{ role: "assistant", content: rawResponse || "(empty reply)" },
+				{
+					role: "user",
+					content: `Your reply does not match the required JSON schema:\n- ${issues.join("\n- ")}\nRespond again with ONLY the corrected JSON.`,
+				}
+			);
+		}
+		throw new InvalidModelOutputError(issues);
+	};
+
+	// Streams the reply, reporting each section once all of its fields are in.
+	// Resolves to the validated analysis, or null when the reply fails validation.
+	const streamFromModel = async (resumeText, jobDescription, onSection) => {
+		const reader = createJsonFieldReader();
+		const fields = {};
+		const pending = new Set(Object.keys(ANALYSIS_SECTIONS));
+		let rawResponse = "";
+		for await (const chunk of llm.stream({
+			prompt: buildPrompt(resumeText, jobDescription),
+			schema: jobAnalysisJsonSchema,
+			temperature: 0.5,
+		})) {
+			rawResponse += chunk;
+			for (const [key, value] of reader.push(chunk)) fields[key] = value;
+			for (const section of pending) {
+				const keys = ANALYSIS_SECTIONS[section];
+				if (!keys.every((key) => key in fields)) continue;
+				pending.delete(section);
+				const repaired = repairJobAnalysis(fields);
+				onSection(section, Object.fromEntries(keys.map((key) => [key, repaired[key]])));
+			}
+		}
+		const checked = checkJobAnalysis(rawResponse);
+		if (checked.success) return { result: { ...checked.data, source: "model" }, rawResponse };
+		console.warn("Streamed analysis failed validation:", checked.issues);
+		return null;
+	};
+
+	const fallBackOffline = (resumeText, jobDescription) => ({
+		result: analyzeOffline(resumeText, jobDescription),
+		rawResponse: null,
+	});
+
+	// Runs `produce` unless the cache already has this analysis; only model
+	// results are stored, so an offline fallback is retried next time
+	const withCache = async (resumeText, jobDescription, refresh, produce) => {
+		if (!llm || !cache) return produce();
+		const cacheKey = analysisCacheKey({
+			resumeText,
+			jobDescription,
+			model: `${llm.name}/${llm.model}`,
+			promptVersion: ANALYSIS_PROMPT_VERSION,
+		});
+		if (!refresh) {
+			const hit = await cache.get(cacheKey);
+			if (hit)
+				return { result: { ...hit.result, cached: true, cachedAt: hit.cachedAt }, rawResponse: null, cacheKey, cached: true };
+		}
+		const produced = await produce();
+		if (produced.result.source === "model") cache.set(cacheKey, produced.result);
+		return { ...produced, cacheKey };
+	};
+
+	return {
+		/**
+		 * Provider failures such as rate limits and outages produce an offline
+		 * analysis instead of an error, unless `shouldFallBack(error)` says
+		 * otherwise (e.g. so a caller can retry). InvalidModelOutputError is
+		 * always thrown.
+		 */
+		analyze: (resumeText, jobDescription, { shouldFallBack = () => true, refresh = false } = {}) =>
+			withCache(resumeText, jobDescription, refresh, async () => {
+				if (llm) {
+					try {
+						return await analyzeWithModel(resumeText, jobDescription);
+					} catch (error) {
+						if (error instanceof InvalidModelOutputError || !shouldFallBack(error)) throw error;
+						console.error("Analyze error, falling back to offline analyzer:", error);
+					}
+				}
+				return fallBackOffline(resumeText, jobDescription);
+			}),
+
+		/**
+		 * Like `analyze`, but calls `onSection(name, fields)` for each of
+		 * ANALYSIS_SECTIONS as the model finishes it. The resolved result is
+		 * authoritative: when the streamed reply fails validation it comes from
+		 * the re-prompting path instead, and offline and cached results arrive
+		 * only there.
+		 */
+		analyzeStream: (resumeText, jobDescription, { onSection, refresh = false }) =>
+			withCache(resumeText, jobDescription, refresh, async () => {
+				if (llm) {
+					try {
+						return (
+							(await streamFromModel(resumeText, jobDescription, onSection)) ||
+							(await analyzeWithModel(resumeText, jobDescription))
+						);
+					} catch (error) {
+						if (error instanceof InvalidModelOutputError) throw error;
+						console.error("Streaming analyze error, falling back to offline analyzer:", error);
+					}
+				}
+				return fallBackOffline(resumeText, jobDescription);
+			}),
+	};
+};
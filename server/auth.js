@@ -0,0 +1,36 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+// Password hashing and session tokens for local accounts. Passwords are
+// stored as salted scrypt hashes; session tokens are random and only their
+// SHA-256 is stored, so a leaked database doesn't hand out live sessions.
+
+const scryptAsync = promisify(scrypt);
+const KEY_LENGTH = 64;
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Resolves to "scrypt:<salt>:<hash>" (hex). */
+export const hashPassword = async (password) => {
+	const salt = randomBytes(16);
+	const key = await scryptAsync(password, salt, KEY_LENGTH);
+	return `scrypt:${salt.toString("hex")}:${key.toString("hex")}`;
+};
+
+export const verifyPassword = async (password, stored) => {
+	const [scheme, saltHex, keyHex] = String(stored || "").split(":");
+	if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+	const expected = Buffer.from(keyHex, "hex");
+	const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+	return timingSafeEqual(actual, expected);
+};
+
+export const createSessionToken = () => randomBytes(32).toString("base64url");
+
+export const hashSessionToken = (token) => createHash("sha256").update(token).digest("hex");
+
+/** The token from an "Authorization: Bearer <token>" header, or null. */
+export const readBearerToken = (req) => {
+	const match = /^Bearer\s+(\S+)$/i.exec(req.get("Authorization") || "");
+	return match ? match[1] : null;
+};
@@ -0,0 +1,153 @@
+import { v4 as uuidv4 } from "uuid";
+
+// In-memory work queue for batch operations such as "Analyze all". Each batch
+// runs its items with bounded concurrency, retries transient failures with
+// exponential backoff, and can be cancelled; finished batches are kept for a
+// while so clients can collect the results.
+
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * @param {Object} options
+ * @param {(input: any, context: { attempt: number, isFinalAttempt: boolean }) => Promise<any>} options.runItem
+ * @param {number} [options.concurrency] - Items run at once across all batches.
+ * @param {number} [options.maxAttempts] - Tries per item, including the first.
+ * @param {(error: any) => boolean} [options.isRetryable]
+ * @param {number} [options.baseDelayMs] - First retry delay; doubles on each retry.
+ * @param {number} [options.retentionMs] - How long finished batches stay readable.
+ */
+export const createBatchQueue = ({
+	runItem,
+	concurrency = 2,
+	maxAttempts = 3,
+	isRetryable = () => false,
+	baseDelayMs = 1000,
+	retentionMs = DEFAULT_RETENTION_MS,
+}) => {
+	const batches = new Map();
+	const pending = [];
+	let running = 0;
+
+	// A signed-in user's batch is only visible to them; an anonymous one to
+	// whoever holds its id, which is a random UUID
+	const find = (id, owner) => {
+		const batch = batches.get(id);
+		if (!batch) return null;
+		return !batch.owner || batch.owner === owner ? batch : null;
+	};
+
+	const counts = (batch) => {
+		const result = { total: batch.items.length, queued: 0, running: 0, done: 0, failed: 0, cancelled: 0 };
+		for (const item of batch.items) result[item.status] += 1;
+		return result;
+	};
+
+	const settleBatch = (batch) => {
+		if (batch.items.some((item) => item.status === "queued" || item.status === "running")) return;
+		batch.status = batch.cancelRequested ? "cancelled" : "completed";
+		batch.finishedAt = new Date().toISOString();
+		setTimeout(() => batches.delete(batch.id), retentionMs).unref?.();
+	};
+
+	const runNext = () => {
+		while (running < concurrency && pending.length) {
+			const { batch, item } = pending.shift();
+			if (item.status !== "queued") continue;
+			running += 1;
+			processItem(batch, item).finally(() => {
+				running -= 1;
+				settleBatch(batch);
+				runNext();
+			});
+		}
+	};
+
+	const processItem = async (batch, item) => {
+		item.status = "running";
+		item.startedAt = new Date().toISOString();
+		for (;;) {
+			item.attempts += 1;
+			try {
+				item.result = await runItem(item.input, {
+					attempt: item.attempts,
+					isFinalAttempt: item.attempts >= maxAttempts,
+				});
+				item.status = "done";
+				item.error = null;
+				break;
+			} catch (error) {
+				item.error = error?.message || String(error);
+				if (item.attempts >= maxAttempts || !isRetryable(error) || batch.cancelRequested) {
+					item.status = "failed";
+					item.errorCode = error?.code;
+					break;
+				}
+				await sleep(baseDelayMs * 2 ** (item.attempts - 1));
+				// A cancel while waiting to retry drops the item
+				if (batch.cancelRequested) {
+					item.status = "cancelled";
+					item.error = null;
+					break;
+				}
+			}
+		}
+		item.finishedAt = new Date().toISOString();
+	};
+
+	/** Client-facing view of a batch; `result` is only set on finished items. */
+	const snapshot = (batch) => ({
+		id: batch.id,
+		status: batch.status,
+		createdAt: batch.createdAt,
+		finishedAt: batch.finishedAt || null,
+		counts: counts(batch),
+		items: batch.items.map(({ key, status, attempts, result, error, errorCode }) => ({
+			key,
+			status,
+			attempts,
+			...(result !== undefined ? { result } : {}),
+			...(error ? { error } : {}),
+			...(errorCode ? { errorCode } : {}),
+		})),
+	});
+
+	return {
+		/** Queues `inputs` (each with a caller-chosen `key`) as a new batch. */
+		start: (inputs, { owner = null } = {}) => {
+			const batch = {
+				id: uuidv4(),
+				owner,
+				status: "running",
+				createdAt: new Date().toISOString(),
+				cancelRequested: false,
+				items: inputs.map((input) => ({ key: input.key, input, status: "queued", attempts: 0 })),
+			};
+			batches.set(batch.id, batch);
+			batch.items.forEach((item) => pending.push({ batch, item }));
+			runNext();
+			settleBatch(batch);
+			return snapshot(batch);
+		},
+
+		get: (id, owner) => {
+			const batch = find(id, owner);
+			return batch ? snapshot(batch) : null;
+		},
+
+		/** Drops queued items; items already running are allowed to finish. */
+		cancel: (id, owner) => {
+			const batch = find(id, owner);
+			if (!batch) return null;
+			if (batch.status === "running") {
+				batch.cancelRequested = true;
+				batch.items.forEach((item) => {
+					if (item.status === "queued") item.status = "cancelled";
+				});
+				settleBatch(batch);
+			}
+			return snapshot(batch);
+		},
+	};
+};
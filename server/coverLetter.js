@@ -0,0 +1,99 @@
+// Cover letter generation for the per-job cover letter workshop. The model
+// writes the letter paragraph by paragraph and says which of the analysis'
+// strengths each paragraph draws on, so the editor can show that side by side.
+
+export const COVER_LETTER_TONES = ["formal", "enthusiastic", "concise"];
+export const COVER_LETTER_LENGTHS = ["short", "medium", "long"];
+
+const TONE_GUIDANCE = {
+	formal: "Use a formal, professional register. Avoid exclamation marks and casual phrasing.",
+	enthusiastic: "Sound warm and genuinely excited about the role and the company, while staying professional.",
+	concise: "Be direct and plain-spoken. Every sentence should carry a concrete fact; cut filler and pleasantries.",
+};
+
+const LENGTH_GUIDANCE = {
+	short: "about 150 words in 3 paragraphs",
+	medium: "about 250 words in 4 paragraphs",
+	long: "about 400 words in 5 paragraphs",
+};
+
+const coverLetterJsonSchema = {
+	type: "object",
+	properties: {
+		paragraphs: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					text: { type: "string" },
+					strengths: { type: "array", items: { type: "integer" } },
+				},
+				required: ["text", "strengths"],
+			},
+		},
+	},
+	required: ["paragraphs"],
+};
+
+const buildPrompt = ({ resumeText, jobDescription, strengths, companyName, hiringManager, tone, length }) => {
+	const numberedStrengths = strengths.length
+		? strengths.map((strength, index) => `${index + 1}. ${strength}`).join("\n")
+		: "(none listed; draw on the resume directly)";
+	const salutation = hiringManager ? `Dear ${hiringManager},` : "Dear Hiring Manager,";
+	return `
+You are an expert career coach writing a cover letter for the candidate below.
+${TONE_GUIDANCE[tone]}
+Aim for ${LENGTH_GUIDANCE[length]}, not counting the salutation and sign-off.
+${companyName ? `The company is ${companyName}; refer to it by name.` : ""}
+Open the first paragraph with the salutation "${salutation}" on its own line, and end the last paragraph with a sign-off.
+Use only facts found in the resume. Do not invent employers, numbers or qualifications.
+
+Return the letter as "paragraphs". For each paragraph, list in "strengths" the numbers of the candidate strengths below that the paragraph relies on (an empty list if none).
+
+Candidate strengths:\n${numberedStrengths}
+
+Candidate Resume:\n---\n${resumeText}\n---\n\nJob Description:\n---\n${jobDescription}\n---\n
+Respond ONLY with valid JSON matching the schema.`;
+};
+
+/** The model's reply wasn't a usable letter. */
+export class InvalidCoverLetterError extends Error {
+	constructor(message) {
+		super(message);
+		this.name = "InvalidCoverLetterError";
+	}
+}
+
+/**
+ * Asks the model for a cover letter. Resolves to { coverLetter, paragraphs },
+ * where each paragraph is { text, strengths } and `strengths` holds the text
+ * of the strengths it uses (strength numbers outside the list are dropped).
+ */
+export const writeCoverLetter = async (llm, request) => {
+	const text = await llm.generate({
+		messages: [{ role: "user", content: buildPrompt(request) }],
+		schema: coverLetterJsonSchema,
+		temperature: 0.7,
+	});
+	if (!text) throw new InvalidCoverLetterError("Empty response from model");
+
+	let parsed;
+	try {
+		parsed = JSON.parse(text);
+	} catch (e) {
+		throw new InvalidCoverLetterError("Malformed response from model");
+	}
+
+	const paragraphs = (Array.isArray(parsed?.paragraphs) ? parsed.paragraphs : [])
+		.filter((p) => typeof p?.text === "string" && p.text.trim())
+		.map((p) => ({
+			text: p.text.trim(),
+			strengths: [...new Set(Array.isArray(p.strengths) ? p.strengths : [])]
+				.filter((n) => Number.isInteger(n) && n >= 1 && n <= request.strengths.length)
+				.sort((a, b) => a - b)
+				.map((n) => request.strengths[n - 1]),
+		}));
+	if (!paragraphs.length) throw new InvalidCoverLetterError("The model returned an empty cover letter");
+
+	return { coverLetter: paragraphs.map((p) => p.text).join("\n\n"), paragraphs };
+};
@@ -0,0 +1,112 @@
+import { renderDocx } from "./docxWriter.js";
+import { renderPdf } from "./pdfWriter.js";
+import { DOCX_MIME_TYPE, PDF_MIME_TYPE } from "./documentText.js";
+import { parseResume } from "./resumeParser.js";
+
+// Turns plain-text resumes and cover letters into formatted DOCX and PDF files.
+// Both are first converted into the same list of typed blocks, so a cover
+// letter comes out with the same header and typography as the resume it was
+// written from:
+//   { type: "name" | "contact" | "heading" | "entry" | "meta" | "bullet" | "paragraph", text, gapBefore? }
+// `gapBefore` marks the first block of a group that was separated by a blank line.
+
+export const EXPORT_FORMATS = ["docx", "pdf"];
+
+const BULLET_PATTERN = /^[-*•●▪◦‣]\s+/;
+
+// Name, then contact details joined on one line. Only resumes with section
+// headings have a header; without one, every line is body text.
+const headerBlocks = (model) => {
+	const lines = model.sections.length ? model.header.map((line) => line.trim()).filter(Boolean) : [];
+	if (!lines.length) return [];
+	return [
+		{ type: "name", text: lines[0] },
+		...(lines.length > 1 ? [{ type: "contact", text: lines.slice(1).join("  |  ") }] : []),
+	];
+};
+
+// Plain lines: "- " lines become bullets and a blank line starts a new group
+const lineBlocks = (lines) => {
+	const blocks = [];
+	let gapBefore = false;
+	for (const line of lines.map((l) => l.trim())) {
+		if (!line) {
+			gapBefore = blocks.length > 0;
+			continue;
+		}
+		const isBullet = BULLET_PATTERN.test(line);
+		blocks.push({ type: isBullet ? "bullet" : "paragraph", text: line.replace(BULLET_PATTERN, ""), gapBefore });
+		gapBefore = false;
+	}
+	return blocks;
+};
+
+const sectionBlocks = (section) => {
+	switch (section.kind) {
+		case "experience":
+			return section.entries.flatMap((entry, i) => [
+				{ type: "entry", text: entry.company ? `${entry.title} | ${entry.company}` : entry.title, gapBefore: i > 0 },
+				...(entry.dates
+					? [{ type: "meta", text: entry.dates.end ? `${entry.dates.start} - ${entry.dates.end}` : entry.dates.start }]
+					: []),
+				...lineBlocks(entry.details),
+				...entry.bullets.map((text) => ({ type: "bullet", text })),
+			]);
+		case "education":
+			return section.entries.flatMap((entry, i) => [
+				{ type: "entry", text: entry.degree, gapBefore: i > 0 },
+				...(entry.school ? [{ type: "paragraph", text: entry.school }] : []),
+				...lineBlocks(entry.details),
+			]);
+		case "skills":
+		case "certificates":
+			return section.items.map((text) => ({ type: "bullet", text }));
+		default:
+			return lineBlocks(section.lines);
+	}
+};
+
+/** Blocks for a resume, laid out from its parsed sections (see resumeParser.js). */
+export const resumeToBlocks = (text) => {
+	const model = parseResume(text);
+	if (!model.sections.length) return lineBlocks(model.header);
+	return [
+		...headerBlocks(model),
+		...model.sections.flatMap((section) => [
+			{ type: "heading", text: section.heading.replace(/:$/, "").trim().toUpperCase() },
+			...sectionBlocks(section),
+		]),
+	];
+};
+
+/**
+ * Blocks for a cover letter, headed with the name and contact lines of
+ * `resumeText` (when it has them) and today's date.
+ */
+export const coverLetterToBlocks = (text, { resumeText = "", date = new Date() } = {}) => {
+	const blocks = [
+		...headerBlocks(parseResume(resumeText)),
+		{
+			type: "meta",
+			text: date.toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }),
+			gapBefore: true,
+		},
+	];
+	let groupStart = true;
+	for (const line of String(text || "").split(/\r?\n/).map((l) => l.trim())) {
+		if (!line) {
+			groupStart = true;
+			continue;
+		}
+		blocks.push({ type: "paragraph", text: line, gapBefore: groupStart });
+		groupStart = false;
+	}
+	return blocks;
+};
+
+/** Returns { data, mimeType, extension } for the requested format. */
+export const renderDocument = (blocks, format, { title = "" } = {}) => {
+	if (format === "docx") return { data: renderDocx(blocks, { title }), mimeType: DOCX_MIME_TYPE, extension: "docx" };
+	if (format === "pdf") return { data: renderPdf(blocks, { title }), mimeType: PDF_MIME_TYPE, extension: "pdf" };
+	throw new Error(`Unsupported export format: ${format}`);
+};
@@ -0,0 +1,899 @@
+import zlib from "zlib";
+import { ZipEntryTooLargeError, readZipEntry } from "./zip.js";
+
+// Local text extraction for uploaded resumes. DOCX files are unzipped and their
+// document XML is walked paragraph by paragraph; text-based PDFs are decoded by
+// interpreting the text operators in each page's content stream. Both keep
+// headings on their own lines and turn list items into "- " bullets, which is
+// the format the rest of the app (and templateResumeContent) uses.
+
+export const DOCX_MIME_TYPE =
+	"application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const PDF_MIME_TYPE = "application/pdf";
+
+// Past these, a PDF is treated as a decompression bomb: bytes inflated from one
+// stream, from all streams together, and content interpreted in total (a form
+// XObject is re-run every time it's drawn, so small files can repeat a lot)
+const MAX_PDF_STREAM_BYTES = 32 * 1024 * 1024;
+const MAX_PDF_TOTAL_BYTES = 64 * 1024 * 1024;
+const MAX_PDF_CONTENT_BYTES = 64 * 1024 * 1024;
+const MAX_XOBJECT_RUNS = 1000;
+
+/** Thrown when a document inflates to more than is reasonable for a resume. */
+export class DocumentTooLargeError extends Error {
+	constructor(message = "The document expands to more data than a resume could hold") {
+		super(message);
+		this.name = "DocumentTooLargeError";
+	}
+}
+
+// Bullet glyphs commonly emitted by Word, Google Docs and PDF generators,
+// including the private-use code points of the Symbol and Wingdings fonts.
+const BULLET_PATTERN = /^\s*[•●▪■◦‣∙·○\uf0b7\uf0a7\uf076\uf0d8\uf0fc]\s*/;
+
+/**
+ * Cleans up extracted lines: normalizes bullets to "- ", trims trailing
+ * whitespace and collapses runs of blank lines into one.
+ */
+const normalizeExtractedLines = (lines) => {
+	const out = [];
+	for (const raw of lines) {
+		let line = raw.replace(/[ \t\u00a0]+/g, " ").trimEnd();
+		if (BULLET_PATTERN.test(line)) line = `- ${line.replace(BULLET_PATTERN, "")}`;
+		if (!line.trim() && (!out.length || !out[out.length - 1].trim())) continue;
+		out.push(line);
+	}
+	return out.join("\n").trim();
+};
+
+// --- DOCX ---
+
+const decodeXmlEntities = (text) =>
+	text.replace(/&(lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);/g, (_, entity) => {
+		switch (entity) {
+			case "lt":
+				return "<";
+			case "gt":
+				return ">";
+			case "amp":
+				return "&";
+			case "quot":
+				return '"';
+			case "apos":
+				return "'";
+			default:
+				return String.fromCodePoint(
+					entity[1] === "x"
+						? parseInt(entity.slice(2), 16)
+						: parseInt(entity.slice(1), 10)
+				);
+		}
+	});
+
+// Maps numId -> (ilvl -> numFmt) so we can tell bulleted lists from numbered ones
+const parseNumberingFormats = (xml) => {
+	const abstractLevels = new Map();
+	for (const m of xml.matchAll(
+		/<w:abstractNum\b[^>]*w:abstractNumId="(\d+)"[^>]*>([\s\S]*?)<\/w:abstractNum>/g
+	)) {
+		const levels = new Map();
+		for (const lvl of m[2].matchAll(
+			/<w:lvl\b[^>]*w:ilvl="(\d+)"[^>]*>([\s\S]*?)<\/w:lvl>/g
+		)) {
+			const fmt = lvl[2].match(/<w:numFmt\b[^>]*w:val="([^"]+)"/);
+			levels.set(lvl[1], fmt ? fmt[1] : "bullet");
+		}
+		abstractLevels.set(m[1], levels);
+	}
+	const formats = new Map();
+	for (const m of xml.matchAll(
+		/<w:num\b[^>]*w:numId="(\d+)"[^>]*>([\s\S]*?)<\/w:num>/g
+	)) {
+		const ref = m[2].match(/<w:abstractNumId\b[^>]*w:val="(\d+)"/);
+		if (ref && abstractLevels.has(ref[1]))
+			formats.set(m[1], abstractLevels.get(ref[1]));
+	}
+	return formats;
+};
+
+/**
+ * Extracts plain text from a .docx buffer, preserving paragraph breaks,
+ * headings and list structure.
+ */
+export const extractDocxText = (buffer) => {
+	let documentXml;
+	let numberingXml;
+	try {
+		documentXml = readZipEntry(buffer, "word/document.xml");
+		numberingXml = readZipEntry(buffer, "word/numbering.xml");
+	} catch (err) {
+		if (err instanceof ZipEntryTooLargeError) throw new DocumentTooLargeError();
+		throw err;
+	}
+	if (!documentXml) throw new Error("DOCX file has no word/document.xml");
+	const numberFormats = numberingXml
+		? parseNumberingFormats(numberingXml.toString("utf8"))
+		: new Map();
+
+	const xml = documentXml.toString("utf8");
+	const counters = new Map();
+	const lines = [];
+
+	for (const p of xml.matchAll(/<w:p\b[^>]*?(?:\/>|>([\s\S]*?)<\/w:p>)/g)) {
+		const body = p[1] || "";
+		const props = body.match(/<w:pPr>([\s\S]*?)<\/w:pPr>/)?.[1] || "";
+		const content = body.replace(/<w:pPr>[\s\S]*?<\/w:pPr>/, "");
+
+		let text = "";
+		for (const run of content.matchAll(
+			/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>|<w:(?:br|cr)(?:\s[^>]*)?\/>/g
+		)) {
+			if (run[1] !== undefined) text += decodeXmlEntities(run[1]);
+			else if (run[0].startsWith("<w:tab")) text += "\t";
+			else text += "\n";
+		}
+
+		const style = props.match(/<w:pStyle\b[^>]*w:val="([^"]+)"/)?.[1] || "";
+		const numId = props.match(/<w:numId\b[^>]*w:val="(\d+)"/)?.[1];
+		const ilvl = props.match(/<w:ilvl\b[^>]*w:val="(\d+)"/)?.[1] || "0";
+		const isHeading = /^(Heading\d|Title)$/i.test(style);
+
+		if (isHeading && lines.length && lines[lines.length - 1].trim())
+			lines.push("");
+
+		if (text.trim() && numId && numId !== "0") {
+			const indent = "  ".repeat(Number(ilvl));
+			const format = numberFormats.get(numId)?.get(ilvl) || "bullet";
+			if (format === "bullet" || format === "none") {
+				lines.push(`${indent}- ${text.trim()}`);
+			} else {
+				const key = `${numId}:${ilvl}`;
+				const next = (counters.get(key) || 0) + 1;
+				counters.set(key, next);
+				lines.push(`${indent}${next}. ${text.trim()}`);
+			}
+		} else if (text.trim() && /^List(Bullet|Paragraph)/i.test(style)) {
+			lines.push(`- ${text.trim()}`);
+		} else {
+			lines.push(...text.split("\n"));
+		}
+	}
+
+	return normalizeExtractedLines(lines);
+};
+
+// --- PDF ---
+
+class PdfName {
+	constructor(name) {
+		this.name = name;
+	}
+}
+
+class PdfRef {
+	constructor(num) {
+		this.num = num;
+	}
+}
+
+const isPdfWhitespace = (c) =>
+	c === " " || c === "\n" || c === "\r" || c === "\t" || c === "\f" || c === "\0";
+const isPdfDelimiter = (c) => "()<>[]{}/%".includes(c);
+
+// Tokenizer over a latin1 ("binary") string so byte offsets equal string offsets
+const createPdfLexer = (src, start = 0) => {
+	let pos = start;
+
+	const skipWhitespace = () => {
+		while (pos < src.length) {
+			const c = src[pos];
+			if (isPdfWhitespace(c)) pos++;
+			else if (c === "%") {
+				while (pos < src.length && src[pos] !== "\n" && src[pos] !== "\r") pos++;
+			} else break;
+		}
+	};
+
+	const readLiteralString = () => {
+		let depth = 1;
+		let out = "";
+		pos++;
+		while (pos < src.length) {
+			const c = src[pos++];
+			if (c === "\\") {
+				const e = src[pos++];
+				if (e === "n") out += "\n";
+				else if (e === "r") out += "\r";
+				else if (e === "t") out += "\t";
+				else if (e === "b") out += "\b";
+				else if (e === "f") out += "\f";
+				else if (e === "\r") {
+					if (src[pos] === "\n") pos++;
+				} else if (e === "\n") {
+					// line continuation
+				} else if (e >= "0" && e <= "7") {
+					let octal = e;
+					while (octal.length < 3 && src[pos] >= "0" && src[pos] <= "7")
+						octal += src[pos++];
+					out += String.fromCharCode(parseInt(octal, 8) & 0xff);
+				} else out += e;
+			} else if (c === "(") {
+				depth++;
+				out += c;
+			} else if (c === ")") {
+				if (--depth === 0) break;
+				out += c;
+			} else out += c;
+		}
+		return out;
+	};
+
+	const readHexString = () => {
+		const end = src.indexOf(">", pos);
+		let hex = src.slice(pos + 1, end === -1 ? src.length : end).replace(/\s+/g, "");
+		pos = end === -1 ? src.length : end + 1;
+		if (hex.length % 2) hex += "0";
+		let out = "";
+		for (let i = 0; i < hex.length; i += 2)
+			out += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+		return out;
+	};
+
+	const next = () => {
+		skipWhitespace();
+		if (pos >= src.length) return null;
+		const c = src[pos];
+		if (c === "(") return { type: "string", value: readLiteralString() };
+		if (c === "<") {
+			if (src[pos + 1] === "<") {
+				pos += 2;
+				return { type: "<<" };
+			}
+			return { type: "string", value: readHexString() };
+		}
+		if (c === ">" && src[pos + 1] === ">") {
+			pos += 2;
+			return { type: ">>" };
+		}
+		if (c === "[" || c === "]" || c === "{" || c === "}") {
+			pos++;
+			return { type: c };
+		}
+		if (c === "/") {
+			pos++;
+			let name = "";
+			while (pos < src.length && !isPdfWhitespace(src[pos]) && !isPdfDelimiter(src[pos]))
+				name += src[pos++];
+			return {
+				type: "name",
+				value: name.replace(/#([0-9a-fA-F]{2})/g, (_, h) =>
+					String.fromCharCode(parseInt(h, 16))
+				),
+			};
+		}
+		let word = "";
+		while (pos < src.length && !isPdfWhitespace(src[pos]) && !isPdfDelimiter(src[pos]))
+			word += src[pos++];
+		if (!word) {
+			// Stray delimiter such as ")" or ">"; skip it
+			pos++;
+			return next();
+		}
+		if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word))
+			return { type: "number", value: parseFloat(word) };
+		return { type: "keyword", value: word };
+	};
+
+	return {
+		next,
+		get pos() {
+			return pos;
+		},
+		set pos(value) {
+			pos = value;
+		},
+	};
+};
+
+// Parses one PDF value starting at `token`; indirect references become PdfRef
+const parsePdfValue = (lexer, token) => {
+	if (!token) return null;
+	switch (token.type) {
+		case "number": {
+			const saved = lexer.pos;
+			const second = lexer.next();
+			if (second?.type === "number") {
+				const third = lexer.next();
+				if (third?.type === "keyword" && third.value === "R")
+					return new PdfRef(token.value);
+			}
+			lexer.pos = saved;
+			return token.value;
+		}
+		case "name":
+			return new PdfName(token.value);
+		case "string":
+			return token.value;
+		case "[": {
+			const items = [];
+			for (let t = lexer.next(); t && t.type !== "]"; t = lexer.next())
+				items.push(parsePdfValue(lexer, t));
+			return items;
+		}
+		case "<<": {
+			const dict = {};
+			for (let t = lexer.next(); t && t.type !== ">>"; t = lexer.next()) {
+				if (t.type !== "name") continue;
+				dict[t.value] = parsePdfValue(lexer, lexer.next());
+			}
+			return dict;
+		}
+		case "keyword":
+			if (token.value === "true") return true;
+			if (token.value === "false") return false;
+			return null;
+		default:
+			return null;
+	}
+};
+
+const nameOf = (value) => (value instanceof PdfName ? value.name : undefined);
+
+const readPdfObjects = (src) => {
+	const objects = new Map();
+	for (const m of src.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+		const lexer = createPdfLexer(src, m.index + m[0].length);
+		const value = parsePdfValue(lexer, lexer.next());
+		let stream = null;
+		const afterValue = lexer.pos;
+		const streamMatch = /^\s*stream\r?\n/.exec(src.slice(afterValue, afterValue + 32));
+		if (streamMatch) {
+			const start = afterValue + streamMatch[0].length;
+			const length = typeof value?.Length === "number" ? value.Length : -1;
+			let data;
+			if (length >= 0 && /^\s*endstream/.test(src.slice(start + length, start + length + 32))) {
+				data = src.slice(start, start + length);
+			} else {
+				// Length is indirect or wrong; fall back to scanning for the keyword
+				const end = src.indexOf("endstream", start);
+				data = src.slice(start, end === -1 ? src.length : end).replace(/\r?\n$/, "");
+			}
+			stream = Buffer.from(data, "latin1");
+		}
+		objects.set(Number(m[1]), { value, stream });
+	}
+	return objects;
+};
+
+const resolvePdfValue = (objects, value) =>
+	value instanceof PdfRef ? objects.get(value.num)?.value ?? null : value;
+
+/**
+ * Returns decodeStream(objectNumber): the object's stream, inflated once and
+ * remembered, or null when it has none or uses a filter we don't read. All
+ * streams of a document share one inflate budget; past it DocumentTooLargeError
+ * is thrown.
+ */
+const createStreamDecoder = (objects) => {
+	const decoded = new Map();
+	let remaining = MAX_PDF_TOTAL_BYTES;
+
+	const inflate = (data, options = {}) => {
+		if (remaining <= 0) throw new DocumentTooLargeError();
+		let output;
+		try {
+			output = zlib.inflateSync(data, { ...options, maxOutputLength: Math.min(MAX_PDF_STREAM_BYTES, remaining) });
+		} catch (e) {
+			if (e.code === "ERR_BUFFER_TOO_LARGE") throw new DocumentTooLargeError();
+			throw e;
+		}
+		remaining -= output.length;
+		return output;
+	};
+
+	const decode = (record) => {
+		if (!record?.stream) return null;
+		const filters = [].concat(record.value?.Filter ?? []).map(nameOf);
+		let data = record.stream;
+		for (const filter of filters) {
+			if (filter !== "FlateDecode" && filter !== "Fl") return null;
+			try {
+				data = inflate(data);
+			} catch (e) {
+				if (e instanceof DocumentTooLargeError) throw e;
+				// Salvage what we can from truncated or slightly corrupt streams
+				data = inflate(data, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+			}
+		}
+		return data;
+	};
+
+	return (num) => {
+		if (!decoded.has(num)) decoded.set(num, decode(objects.get(num)));
+		return decoded.get(num);
+	};
+};
+
+const streamFor = (decodeStream, value) => (value instanceof PdfRef ? decodeStream(value.num) : null);
+
+// PDF 1.5+ files pack most non-stream objects into compressed object streams
+const expandObjectStreams = (objects, decodeStream) => {
+	for (const [num, record] of [...objects]) {
+		if (nameOf(record.value?.Type) !== "ObjStm") continue;
+		let data;
+		try {
+			data = decodeStream(num);
+		} catch (e) {
+			if (e instanceof DocumentTooLargeError) throw e;
+			continue;
+		}
+		if (!data) continue;
+		const src = data.toString("latin1");
+		const header = createPdfLexer(src);
+		const entries = [];
+		for (let i = 0; i < (record.value.N || 0); i++)
+			entries.push([header.next()?.value, header.next()?.value]);
+		for (const [num, offset] of entries) {
+			if (typeof num !== "number" || objects.has(num)) continue;
+			const lexer = createPdfLexer(src, (record.value.First || 0) + offset);
+			objects.set(num, { value: parsePdfValue(lexer, lexer.next()), stream: null });
+		}
+	}
+};
+
+// WinAnsiEncoding differs from latin1 only in the 0x80-0x9F range
+const WIN_ANSI_HIGH = {
+	0x80: "€", 0x82: "‚", 0x83: "ƒ", 0x84: "„", 0x85: "…", 0x86: "†", 0x87: "‡",
+	0x88: "ˆ", 0x89: "‰", 0x8a: "Š", 0x8b: "‹", 0x8c: "Œ", 0x8e: "Ž", 0x91: "‘",
+	0x92: "’", 0x93: "“", 0x94: "”", 0x95: "•", 0x96: "–", 0x97: "—", 0x98: "˜",
+	0x99: "™", 0x9a: "š", 0x9b: "›", 0x9c: "œ", 0x9e: "ž", 0x9f: "Ÿ",
+};
+
+const GLYPH_NAMES = {
+	space: " ", bullet: "•", endash: "–", emdash: "—", hyphen: "-", period: ".",
+	comma: ",", colon: ":", semicolon: ";", quoteright: "’", quoteleft: "‘",
+	quotedblleft: "“", quotedblright: "”", quotesingle: "'", quotedbl: '"',
+	parenleft: "(", parenright: ")", slash: "/", ampersand: "&", at: "@",
+	plus: "+", bar: "|", percent: "%", numbersign: "#", dollar: "$",
+	ellipsis: "…", zero: "0", one: "1", two: "2", three: "3", four: "4",
+	five: "5", six: "6", seven: "7", eight: "8", nine: "9",
+};
+
+const glyphNameToText = (name) => {
+	if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+	const uni = name.match(/^uni([0-9A-Fa-f]{4})/);
+	if (uni) return String.fromCharCode(parseInt(uni[1], 16));
+	return name.length === 1 ? name : "";
+};
+
+const utf16HexToText = (hex) => {
+	if (hex.length <= 2) return String.fromCharCode(parseInt(hex || "0", 16));
+	let out = "";
+	for (let i = 0; i + 4 <= hex.length; i += 4)
+		out += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+	return out;
+};
+
+const parseToUnicodeCMap = (cmap) => {
+	const map = new Map();
+	for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+		for (const m of block[1].matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g))
+			map.set(parseInt(m[1], 16), utf16HexToText(m[2]));
+	}
+	for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+		for (const m of block[1].matchAll(
+			/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g
+		)) {
+			const low = parseInt(m[1], 16);
+			const high = Math.min(parseInt(m[2], 16), low + 0xffff);
+			if (m[3].startsWith("[")) {
+				const targets = [...m[3].matchAll(/<([0-9a-fA-F]*)>/g)];
+				targets.forEach((t, i) => map.set(low + i, utf16HexToText(t[1])));
+			} else {
+				const base = utf16HexToText(m[3].slice(1, -1));
+				const head = base.slice(0, -1);
+				const last = base.charCodeAt(base.length - 1);
+				for (let code = low; code <= high; code++)
+					map.set(code, head + String.fromCharCode(last + code - low));
+			}
+		}
+	}
+	return map;
+};
+
+const loadPdfFont = (objects, decodeStream, font) => {
+	const subtype = nameOf(font.Subtype);
+	const info = { codeLength: subtype === "Type0" ? 2 : 1, toUnicode: null, differences: null };
+
+	const cmap = streamFor(decodeStream, font.ToUnicode);
+	if (cmap) info.toUnicode = parseToUnicodeCMap(cmap.toString("latin1"));
+
+	if (subtype === "Type0") {
+		const descendants = resolvePdfValue(objects, font.DescendantFonts) || [];
+		const cidFont = resolvePdfValue(objects, descendants[0]) || {};
+		const defaultWidth = typeof cidFont.DW === "number" ? cidFont.DW : 1000;
+		const widths = new Map();
+		const w = resolvePdfValue(objects, cidFont.W) || [];
+		for (let i = 0; i < w.length; ) {
+			const first = w[i];
+			const next = resolvePdfValue(objects, w[i + 1]);
+			if (Array.isArray(next)) {
+				next.forEach((width, j) => widths.set(first + j, width));
+				i += 2;
+			} else {
+				for (let code = first; code <= next && code - first <= 0xffff; code++)
+					widths.set(code, w[i + 2]);
+				i += 3;
+			}
+		}
+		info.widthOf = (code) => widths.get(code) ?? defaultWidth;
+	} else {
+		const firstChar = typeof font.FirstChar === "number" ? font.FirstChar : 0;
+		const widths = resolvePdfValue(objects, font.Widths) || [];
+		const missingWidth = resolvePdfValue(objects, font.FontDescriptor)?.MissingWidth;
+		info.widthOf = (code) => {
+			const width = resolvePdfValue(objects, widths[code - firstChar]);
+			if (typeof width === "number") return width;
+			// Standard 14 fonts carry no widths; assume an average glyph
+			return typeof missingWidth === "number" && missingWidth > 0 ? missingWidth : 500;
+		};
+		const encoding = resolvePdfValue(objects, font.Encoding);
+		const differences = encoding && resolvePdfValue(objects, encoding.Differences);
+		if (Array.isArray(differences)) {
+			info.differences = new Map();
+			let code = 0;
+			for (const item of differences) {
+				if (typeof item === "number") code = item;
+				else if (item instanceof PdfName)
+					info.differences.set(code++, glyphNameToText(item.name));
+			}
+		}
+	}
+	return info;
+};
+
+const decodeGlyphs = (font, bytes) => {
+	const glyphs = [];
+	for (let i = 0; i < bytes.length; i += font.codeLength) {
+		let code = bytes.charCodeAt(i);
+		if (font.codeLength === 2) code = (code << 8) | (bytes.charCodeAt(i + 1) || 0);
+		let text;
+		if (font.toUnicode?.has(code)) text = font.toUnicode.get(code);
+		else if (font.differences?.has(code)) text = font.differences.get(code);
+		else if (font.codeLength === 2) text = "";
+		else text = WIN_ANSI_HIGH[code] ?? (code >= 0x20 ? String.fromCharCode(code) : "");
+		glyphs.push({ code, text });
+	}
+	return glyphs;
+};
+
+const IDENTITY_MATRIX = [1, 0, 0, 1, 0, 0];
+
+const multiplyMatrix = (m, n) => [
+	m[0] * n[0] + m[1] * n[2],
+	m[0] * n[1] + m[1] * n[3],
+	m[2] * n[0] + m[3] * n[2],
+	m[2] * n[1] + m[3] * n[3],
+	m[4] * n[0] + m[5] * n[2] + n[4],
+	m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+const translateMatrix = (m, tx, ty) => multiplyMatrix([1, 0, 0, 1, tx, ty], m);
+
+// Turns positioned text runs into lines, inserting spaces for horizontal gaps
+// and a blank line for large vertical gaps (typically before a new section).
+const createLineCollector = () => {
+	const lines = [];
+	let current = "";
+	let lastY = null;
+	let lastEndX = 0;
+	let lastSize = 0;
+
+	const flush = () => {
+		if (current) lines.push(current);
+		current = "";
+	};
+
+	return {
+		show(text, x, y, endX, size) {
+			if (!text) return;
+			if (lastY !== null && Math.abs(y - lastY) > Math.max(size, lastSize) * 0.5) {
+				const gap = Math.abs(y - lastY);
+				flush();
+				if (gap > Math.max(size, lastSize) * 2) lines.push("");
+			} else if (
+				lastY !== null &&
+				x - lastEndX > size * 0.15 &&
+				!current.endsWith(" ") &&
+				!text.startsWith(" ")
+			) {
+				current += " ";
+			}
+			current += text;
+			lastY = y;
+			lastEndX = endX;
+			lastSize = size;
+		},
+		endPage() {
+			flush();
+			lines.push("");
+			lastY = null;
+		},
+		lines: () => {
+			flush();
+			return lines;
+		},
+	};
+};
+
+const MAX_XOBJECT_DEPTH = 8;
+
+const runContentStream = (ctx, data, resources, ctm, depth = 0) => {
+	const { objects, collector } = ctx;
+	ctx.contentBytes += data.length;
+	if (ctx.contentBytes > MAX_PDF_CONTENT_BYTES) throw new DocumentTooLargeError();
+	const src = data.toString("latin1");
+	const lexer = createPdfLexer(src);
+	const fonts = resolvePdfValue(objects, resources?.Font) || {};
+	const xobjects = resolvePdfValue(objects, resources?.XObject) || {};
+
+	let state = { ctm, font: null, fontSize: 0, charSpacing: 0, wordSpacing: 0, hScale: 1, leading: 0 };
+	const savedStates = [];
+	let tm = IDENTITY_MATRIX;
+	let tlm = IDENTITY_MATRIX;
+	let operands = [];
+
+	const fontFor = (name) => {
+		const dict = resolvePdfValue(objects, fonts[name]);
+		if (!dict) return null;
+		if (!ctx.fonts.has(dict)) ctx.fonts.set(dict, loadPdfFont(objects, ctx.decodeStream, dict));
+		return ctx.fonts.get(dict);
+	};
+
+	const moveToNextLine = (tx, ty) => {
+		tlm = translateMatrix(tlm, tx, ty);
+		tm = tlm;
+	};
+
+	const showText = (bytes) => {
+		if (!state.font || typeof bytes !== "string") return;
+		const start = multiplyMatrix(tm, state.ctm);
+		const size = Math.abs(state.fontSize) * Math.hypot(start[2], start[3]) || 1;
+		let text = "";
+		for (const glyph of decodeGlyphs(state.font, bytes)) {
+			text += glyph.text;
+			const wordSpacing =
+				state.font.codeLength === 1 && glyph.code === 32 ? state.wordSpacing : 0;
+			const advance =
+				((state.font.widthOf(glyph.code) / 1000) * state.fontSize +
+					state.charSpacing +
+					wordSpacing) *
+				state.hScale;
+			tm = translateMatrix(tm, advance, 0);
+		}
+		const end = multiplyMatrix(tm, state.ctm);
+		collector.show(text, start[4], start[5], end[4], size);
+	};
+
+	for (let token = lexer.next(); token; token = lexer.next()) {
+		if (token.type !== "keyword" || ["true", "false", "null"].includes(token.value)) {
+			operands.push(parsePdfValue(lexer, token));
+			continue;
+		}
+		const op = token.value;
+		const num = (i) => (typeof operands[i] === "number" ? operands[i] : 0);
+		switch (op) {
+			case "q":
+				savedStates.push({ ...state });
+				break;
+			case "Q":
+				state = savedStates.pop() || state;
+				break;
+			case "cm":
+				if (operands.length >= 6)
+					state.ctm = multiplyMatrix(operands.slice(-6), state.ctm);
+				break;
+			case "BT":
+				tm = tlm = IDENTITY_MATRIX;
+				break;
+			case "Tf":
+				state.font = fontFor(nameOf(operands[0]));
+				state.fontSize = num(1);
+				break;
+			case "Tc":
+				state.charSpacing = num(0);
+				break;
+			case "Tw":
+				state.wordSpacing = num(0);
+				break;
+			case "Tz":
+				state.hScale = num(0) / 100;
+				break;
+			case "TL":
+				state.leading = num(0);
+				break;
+			case "Td":
+				moveToNextLine(num(0), num(1));
+				break;
+			case "TD":
+				state.leading = -num(1);
+				moveToNextLine(num(0), num(1));
+				break;
+			case "Tm":
+				if (operands.length >= 6) tm = tlm = operands.slice(-6);
+				break;
+			case "T*":
+				moveToNextLine(0, -state.leading);
+				break;
+			case "Tj":
+				showText(operands[0]);
+				break;
+			case "'":
+				moveToNextLine(0, -state.leading);
+				showText(operands[0]);
+				break;
+			case '"':
+				state.wordSpacing = num(0);
+				state.charSpacing = num(1);
+				moveToNextLine(0, -state.leading);
+				showText(operands[2]);
+				break;
+			case "TJ":
+				for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+					if (typeof item === "number")
+						tm = translateMatrix(tm, (-item / 1000) * state.fontSize * state.hScale, 0);
+					else showText(item);
+				}
+				break;
+			case "Do": {
+				const xobjectRef = xobjects[nameOf(operands[0])];
+				const record = xobjectRef instanceof PdfRef ? objects.get(xobjectRef.num) : null;
+				const subtype = nameOf(record?.value?.Subtype);
+				if (subtype === "Image") ctx.imageCount++;
+				if (subtype === "Form" && depth < MAX_XOBJECT_DEPTH) {
+					ctx.xobjectRuns++;
+					if (ctx.xobjectRuns > MAX_XOBJECT_RUNS) throw new DocumentTooLargeError();
+					const formData = ctx.decodeStream(xobjectRef.num);
+					const matrix = Array.isArray(record.value.Matrix)
+						? record.value.Matrix
+						: IDENTITY_MATRIX;
+					if (formData)
+						runContentStream(
+							ctx,
+							formData,
+							resolvePdfValue(objects, record.value.Resources) || resources,
+							multiplyMatrix(matrix, state.ctm),
+							depth + 1
+						);
+				}
+				break;
+			}
+			case "ID": {
+				// Inline image data is binary; skip to the matching EI
+				ctx.imageCount++;
+				const endMarker = /\sEI(?=\s|$)/g;
+				endMarker.lastIndex = lexer.pos;
+				const match = endMarker.exec(src);
+				lexer.pos = match ? match.index + match[0].length : src.length;
+				break;
+			}
+			default:
+				break;
+		}
+		operands = [];
+	}
+};
+
+const collectPdfPages = (objects) => {
+	const pages = [];
+	const visit = (node, inheritedResources, depth) => {
+		if (!node || depth > 32) return;
+		const resources = node.Resources ?? inheritedResources;
+		const kids = resolvePdfValue(objects, node.Kids);
+		if (Array.isArray(kids)) {
+			for (const kid of kids) visit(resolvePdfValue(objects, kid), resources, depth + 1);
+		} else if (nameOf(node.Type) === "Page") {
+			pages.push({ page: node, resources: resolvePdfValue(objects, resources) });
+		}
+	};
+
+	const catalogs = [...objects.values()].filter((r) => nameOf(r.value?.Type) === "Catalog");
+	const catalog = catalogs[catalogs.length - 1]?.value;
+	if (catalog) visit(resolvePdfValue(objects, catalog.Pages), null, 0);
+	if (!pages.length) {
+		for (const record of objects.values()) {
+			if (nameOf(record.value?.Type) === "Page")
+				pages.push({ page: record.value, resources: resolvePdfValue(objects, record.value.Resources) });
+		}
+	}
+	return pages;
+};
+
+/**
+ * Extracts text from a PDF buffer by interpreting its page content streams.
+ * Returns the text along with page and image counts so callers can tell a
+ * text-based PDF from a scanned one.
+ */
+export const extractPdfText = (buffer) => {
+	const src = buffer.toString("latin1");
+	if (!src.slice(0, 1024).includes("%PDF-")) throw new Error("Not a PDF file");
+
+	const objects = readPdfObjects(src);
+	const decodeStream = createStreamDecoder(objects);
+	expandObjectStreams(objects, decodeStream);
+	const encrypted = /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(src);
+	const pages = collectPdfPages(objects);
+	const ctx = {
+		objects,
+		decodeStream,
+		collector: createLineCollector(),
+		fonts: new Map(),
+		imageCount: 0,
+		contentBytes: 0,
+		xobjectRuns: 0,
+	};
+
+	if (!encrypted) {
+		for (const { page, resources } of pages) {
+			const contents = [].concat(page.Contents ?? []);
+			const data = contents
+				.flatMap((ref) => {
+					const resolved = resolvePdfValue(objects, ref);
+					// Contents may point at an array of stream references
+					return Array.isArray(resolved) ? resolved : [ref];
+				})
+				.map((ref) => streamFor(decodeStream, ref))
+				.filter(Boolean);
+			if (data.length)
+				runContentStream(ctx, Buffer.concat(data.flatMap((d) => [d, Buffer.from("\n")])), resources, IDENTITY_MATRIX);
+			ctx.collector.endPage();
+		}
+	}
+
+	return {
+		text: normalizeExtractedLines(ctx.collector.lines()),
+		pageCount: pages.length,
+		imageCount: ctx.imageCount,
+		encrypted,
+	};
+};
+
+// Below this many visible characters per page a PDF is treated as scanned
+const MIN_CHARS_PER_PAGE = 40;
+
+const looksScanned = ({ text, pageCount, encrypted }) => {
+	if (encrypted) return true;
+	const visible = text.replace(/\s/g, "");
+	if (visible.length < Math.max(1, pageCount) * MIN_CHARS_PER_PAGE) return true;
+	// Fonts without a usable encoding decode to symbol soup rather than words
+	const readable = visible.match(/[\p{L}\p{N}\p{P}\p{S}]/gu)?.length || 0;
+	return readable / visible.length < 0.8;
+};
+
+/**
+ * Extracts text from an uploaded resume without calling the model.
+ * Returns { text, method } or, when the document needs OCR (a scanned or
+ * unreadable PDF), { text: null, reason }. Throws DocumentTooLargeError for
+ * documents that inflate past the size limits (ZIP or PDF stream bombs).
+ */
+export const extractDocumentTextLocally = (mimeType, buffer) => {
+	if (mimeType === DOCX_MIME_TYPE) {
+		return { text: extractDocxText(buffer), method: "docx" };
+	}
+	if (mimeType === PDF_MIME_TYPE) {
+		let result;
+		try {
+			result = extractPdfText(buffer);
+		} catch (e) {
+			if (e instanceof DocumentTooLargeError) throw e;
+			return { text: null, reason: `Unreadable PDF: ${e.message}` };
+		}
+		if (looksScanned(result))
+			return {
+				text: null,
+				reason: result.encrypted ? "PDF is encrypted" : "PDF appears to be scanned",
+			};
+		return { text: result.text, method: "pdf" };
+	}
+	throw new Error(`Unsupported document type: ${mimeType}`);
+};
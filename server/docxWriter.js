@@ -0,0 +1,120 @@
+import { createZip } from "./zip.js";
+
+// Minimal DOCX writer for exported resumes and cover letters (see
+// documentExport.js for the block format). Each block type maps to a named
+// paragraph style, so the document stays easy to restyle in Word.
+
+const escapeXml = (text) =>
+	String(text)
+		// Control characters other than tab and newline aren't allowed in XML
+		.replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+
+const STYLE_IDS = {
+	name: "Name",
+	contact: "Contact",
+	heading: "SectionHeading",
+	entry: "Entry",
+	meta: "Meta",
+	bullet: "Bullet",
+	paragraph: "Normal",
+};
+
+// Extra space (in twentieths of a point) before a block that starts a new group
+const GROUP_SPACING = 160;
+
+const BULLET_NUM_ID = 1;
+
+const paragraphXml = (block) => {
+	const styleId = STYLE_IDS[block.type] || STYLE_IDS.paragraph;
+	const properties = [
+		`<w:pStyle w:val="${styleId}"/>`,
+		block.type === "bullet" ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_NUM_ID}"/></w:numPr>` : "",
+		block.gapBefore ? `<w:spacing w:before="${GROUP_SPACING}"/>` : "",
+	].join("");
+	return `<w:p><w:pPr>${properties}</w:pPr><w:r><w:t xml:space="preserve">${escapeXml(block.text)}</w:t></w:r></w:p>`;
+};
+
+const documentXml = (blocks) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>
+${blocks.map(paragraphXml).join("\n")}
+<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1080" w:right="1080" w:bottom="1080" w:left="1080" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+
+// Sizes are in half-points, spacing in twentieths of a point
+const paragraphStyle = (id, name, { size, bold, italic, color, before = 0, after = 0, extra = "" }) =>
+	`<w:style w:type="paragraph" w:styleId="${id}"${id === "Normal" ? ' w:default="1"' : ""}>` +
+	`<w:name w:val="${name}"/>${id === "Normal" ? "" : '<w:basedOn w:val="Normal"/>'}<w:qFormat/>` +
+	`<w:pPr><w:spacing w:before="${before}" w:after="${after}"/>${extra}</w:pPr>` +
+	`<w:rPr>${bold ? "<w:b/>" : ""}${italic ? "<w:i/>" : ""}${color ? `<w:color w:val="${color}"/>` : ""}` +
+	`<w:sz w:val="${size}"/></w:rPr></w:style>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault></w:docDefaults>
+${[
+	paragraphStyle("Normal", "Normal", { size: 22, after: 40 }),
+	paragraphStyle("Name", "Name", { size: 40, bold: true, after: 40 }),
+	paragraphStyle("Contact", "Contact", { size: 20, color: "595959", after: 80 }),
+	paragraphStyle("SectionHeading", "Section Heading", {
+		size: 24,
+		bold: true,
+		before: 280,
+		after: 80,
+		extra: '<w:keepNext/><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="999999"/></w:pBdr>',
+	}),
+	paragraphStyle("Entry", "Entry", { size: 22, bold: true, before: 40, extra: "<w:keepNext/>" }),
+	paragraphStyle("Meta", "Meta", { size: 20, italic: true, color: "595959", after: 40 }),
+	paragraphStyle("Bullet", "Bullet", { size: 22, after: 20, extra: '<w:ind w:left="360" w:hanging="360"/>' }),
+].join("\n")}
+</w:styles>`;
+
+const NUMBERING_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:abstractNum w:abstractNumId="0"><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`;
+
+const coreXml = (title) => `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:title>${escapeXml(title)}</dc:title>
+</cp:coreProperties>`;
+
+/** Renders document blocks as a .docx file; returns a Buffer. */
+export const renderDocx = (blocks, { title = "" } = {}) =>
+	createZip([
+		{ name: "[Content_Types].xml", data: CONTENT_TYPES_XML },
+		{ name: "_rels/.rels", data: ROOT_RELS_XML },
+		{ name: "docProps/core.xml", data: coreXml(title) },
+		{ name: "word/_rels/document.xml.rels", data: DOCUMENT_RELS_XML },
+		{ name: "word/document.xml", data: documentXml(blocks) },
+		{ name: "word/styles.xml", data: STYLES_XML },
+		{ name: "word/numbering.xml", data: NUMBERING_XML },
+	]);
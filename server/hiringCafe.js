@@ -0,0 +1,166 @@
+import fetch from "node-fetch";
+import { readFileSync } from "fs";
+import { createHash } from "crypto";
+import { z } from "zod";
+import { htmlToText } from "./html.js";
+import { escapeRegExp } from "./text.js";
+
+// hiring.cafe's feed, fetched at most once per TTL and normalized into the
+// client's HiringCafeJob shape; searching, filtering, tag facets and paging
+// all run on the cached copy. With fixtures (JOB_SEARCH_FIXTURES=1) the feed
+// is read from jobSources/fixtures/hiringCafe.json instead.
+
+const FEED_URL = "https://hiring.cafe/api/v1/jobs";
+const FIXTURE_PATH = new URL("./jobSources/fixtures/hiringCafe.json", import.meta.url);
+const DEFAULT_TTL_MS = 10 * 60 * 1000;
+const MAX_FACETS = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Every search waits on the same refresh, so a hung upstream mustn't hold it forever
+const FETCH_TIMEOUT_MS = 20000;
+
+export const POSTED_WITHIN_DAYS = [1, 7, 30];
+
+export const hiringCafeJobSchema = z.object({
+	id: z.string().min(1),
+	company_name: z.string(),
+	title: z.string().min(1),
+	description: z.string(),
+	location: z.string(),
+	url: z.string().url(),
+	tags: z.array(z.string()),
+	company_logo_url: z.string(),
+	// null when the feed gave no usable date; such jobs are listed last
+	posted_at: z
+		.string()
+		.refine((value) => !Number.isNaN(Date.parse(value)), "Invalid date")
+		.nullable(),
+});
+
+const text = (value) => (typeof value === "string" || typeof value === "number" ? String(value).trim() : "");
+
+const tagsOf = (value) => {
+	const tags = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+	return [...new Set(tags.map((tag) => text(typeof tag === "object" && tag ? tag.name : tag)).filter(Boolean))];
+};
+
+// Upstream field names have varied; anything that can't be made valid is dropped
+const normalizeJob = (raw) => {
+	if (!raw || typeof raw !== "object") return null;
+	const url = text(raw.url || raw.apply_url);
+	const postedAt = text(raw.posted_at || raw.postedAt || raw.created_at);
+	const candidate = {
+		id: text(raw.id) || (url && createHash("sha1").update(url).digest("hex").slice(0, 16)),
+		company_name: text(raw.company_name || raw.company?.name || raw.company),
+		title: text(raw.title),
+		// Descriptions sometimes arrive as HTML
+		description: /<\/?[a-z][^>]*>/i.test(text(raw.description)) ? htmlToText(raw.description) : text(raw.description),
+		location: text(raw.location),
+		url,
+		tags: tagsOf(raw.tags),
+		company_logo_url: text(raw.company_logo_url || raw.logo_url),
+		posted_at: postedAt && !Number.isNaN(Date.parse(postedAt)) ? new Date(postedAt).toISOString() : null,
+	};
+	const parsed = hiringCafeJobSchema.safeParse(candidate);
+	return parsed.success ? parsed.data : null;
+};
+
+const feedItems = (data) => {
+	if (Array.isArray(data)) return data;
+	for (const key of ["jobs", "results", "data"]) if (Array.isArray(data?.[key])) return data[key];
+	return [];
+};
+
+const fetchFeed = async () => {
+	try {
+		// The timeout covers reading the body too
+		const resp = await fetch(FEED_URL, { headers: { Accept: "application/json" }, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+		if (!resp.ok) throw new Error(`hiring.cafe answered with status ${resp.status}`);
+		return await resp.json();
+	} catch (err) {
+		if (err.name === "AbortError" || err.name === "TimeoutError") throw new Error("hiring.cafe timed out");
+		throw err;
+	}
+};
+
+const readFixture = async () => JSON.parse(readFileSync(FIXTURE_PATH, "utf8"));
+
+/**
+ * Returns { load({ refresh }), search(query) }. `search` resolves to
+ * { jobs, total, page, pageSize, hasMore, facets: { tags }, fetchedAt, stale };
+ * `stale` is set when a refresh failed and the last good copy was served.
+ */
+export const createHiringCafeFeed = ({ useFixtures = false, ttlMs = DEFAULT_TTL_MS } = {}) => {
+	let cached = null;
+	let inFlight = null;
+
+	const refreshFeed = async () => {
+		const items = feedItems(await (useFixtures ? readFixture() : fetchFeed()));
+		const jobs = items.map(normalizeJob).filter(Boolean);
+		if (jobs.length < items.length)
+			console.warn(`hiring.cafe: dropped ${items.length - jobs.length} of ${items.length} jobs that didn't validate`);
+		// Newest first, undated last; duplicate ids keep their first copy
+		const unique = [...new Map(jobs.map((job) => [job.id, job])).values()];
+		const postedTime = (job) => (job.posted_at ? Date.parse(job.posted_at) : 0);
+		unique.sort((a, b) => postedTime(b) - postedTime(a));
+		cached = { jobs: unique, fetchedAt: new Date() };
+		return { ...cached, stale: false };
+	};
+
+	const load = async ({ refresh = false } = {}) => {
+		if (cached && !refresh && Date.now() - cached.fetchedAt.getTime() < ttlMs) return { ...cached, stale: false };
+		// Concurrent requests share one upstream fetch
+		if (!inFlight) inFlight = refreshFeed().finally(() => (inFlight = null));
+		try {
+			return await inFlight;
+		} catch (err) {
+			if (!cached) throw err;
+			console.warn("hiring.cafe refresh failed; serving the cached feed:", err.message);
+			return { ...cached, stale: true };
+		}
+	};
+
+	const search = async ({ q = "", location = "", tags = [], postedWithin = null, page = 1, pageSize = 24, refresh = false }) => {
+		const feed = await load({ refresh });
+		// Every keyword must start a word in the title, company, description or tags
+		const terms = q
+			.toLowerCase()
+			.split(/\s+/)
+			.filter(Boolean)
+			.map((term) => new RegExp(`\\b${escapeRegExp(term)}`));
+		const place = location.trim().toLowerCase();
+		const wanted = tags.map((tag) => tag.toLowerCase());
+		const since = postedWithin ? Date.now() - postedWithin * DAY_MS : null;
+
+		const matches = feed.jobs.filter((job) => {
+			// Undated jobs can't be shown to fall inside the window
+			if (since !== null && !(job.posted_at && Date.parse(job.posted_at) >= since)) return false;
+			if (place && !job.location.toLowerCase().includes(place)) return false;
+			const jobTags = job.tags.map((tag) => tag.toLowerCase());
+			if (!wanted.every((tag) => jobTags.includes(tag))) return false;
+			const haystack = `${job.title} ${job.company_name} ${job.description} ${job.tags.join(" ")}`.toLowerCase();
+			return terms.every((term) => term.test(haystack));
+		});
+
+		// Tag counts within the matches, so picking one narrows to its count; selected tags always listed
+		const counts = new Map();
+		for (const job of matches) for (const tag of job.tags) counts.set(tag, (counts.get(tag) || 0) + 1);
+		const facets = [...counts]
+			.map(([tag, count]) => ({ tag, count }))
+			.sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag))
+			.filter((facet, index) => index < MAX_FACETS || wanted.includes(facet.tag.toLowerCase()));
+
+		const start = (page - 1) * pageSize;
+		return {
+			jobs: matches.slice(start, start + pageSize),
+			total: matches.length,
+			page,
+			pageSize,
+			hasMore: start + pageSize < matches.length,
+			facets: { tags: facets },
+			fetchedAt: feed.fetchedAt.toISOString(),
+			stale: feed.stale,
+		};
+	};
+
+	return { load, search };
+};
@@ -0,0 +1,123 @@
+// Small helpers for pulling text out of HTML without a DOM
+
+const NAMED_ENTITIES = {
+	amp: "&",
+	lt: "<",
+	gt: ">",
+	quot: '"',
+	apos: "'",
+	nbsp: " ",
+	ndash: "–",
+	mdash: "—",
+	hellip: "…",
+	rsquo: "’",
+	lsquo: "‘",
+	rdquo: "”",
+	ldquo: "“",
+	bull: "•",
+};
+
+export const decodeHtmlEntities = (text) =>
+	text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity) => {
+		if (entity[0] === "#") {
+			const code =
+				entity[1] === "x" || entity[1] === "X"
+					? parseInt(entity.slice(2), 16)
+					: parseInt(entity.slice(1), 10);
+			return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+		}
+		return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+	});
+
+/** Strips tags from an HTML fragment and collapses whitespace. */
+export const htmlToInlineText = (html) =>
+	decodeHtmlEntities(html.replace(/<[^>]*>/g, " "))
+		.replace(/\s+/g, " ")
+		.trim();
+
+const VOID_TAGS = new Set([
+	"area", "base", "br", "col", "embed", "hr", "img", "input", "link", "meta", "param", "source", "track", "wbr",
+]);
+// Their content isn't text a reader would see
+const HIDDEN_CONTENT = /<(script|style|noscript|template|svg|iframe)\b[\s\S]*?<\/\1\s*>/gi;
+// An unclosed <p> or <li> ends where the next one starts
+const IMPLICITLY_CLOSED = new Set(["p", "li", "dt", "dd", "option", "tr", "td", "th"]);
+
+const ATTRIBUTE = /([^\s=/]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+const parseAttributes = (source) => {
+	const attrs = {};
+	for (const [, name, double, single, bare] of source.matchAll(ATTRIBUTE)) {
+		attrs[name.toLowerCase()] = decodeHtmlEntities(double ?? single ?? bare ?? "");
+	}
+	return attrs;
+};
+
+/**
+ * Parses HTML into a loose element tree, { tag, attrs, children }, with text
+ * nodes as strings. Forgiving like a browser: stray closing tags are ignored
+ * and unclosed elements end with their parent.
+ */
+export const parseHtml = (html) => {
+	const root = { tag: "#root", attrs: {}, children: [] };
+	const stack = [root];
+	const source = String(html).replace(/<!--[\s\S]*?-->/g, "").replace(HIDDEN_CONTENT, " ");
+	const token = /<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|[^<]+|</g;
+	for (const [text, closing, name, rawAttrs] of source.matchAll(token)) {
+		if (!name) {
+			stack[stack.length - 1].children.push(decodeHtmlEntities(text));
+			continue;
+		}
+		const tag = name.toLowerCase();
+		if (closing) {
+			const open = stack.findLastIndex((element) => element.tag === tag);
+			if (open > 0) stack.length = open;
+			continue;
+		}
+		if (IMPLICITLY_CLOSED.has(tag) && stack[stack.length - 1].tag === tag) stack.pop();
+		const element = { tag, attrs: parseAttributes(rawAttrs), children: [] };
+		stack[stack.length - 1].children.push(element);
+		if (!VOID_TAGS.has(tag) && !rawAttrs.trim().endsWith("/")) stack.push(element);
+	}
+	return root;
+};
+
+const LINE_TAGS = new Set([
+	"div", "section", "article", "main", "header", "footer", "aside", "nav", "tr", "dt", "dd", "figure", "form",
+]);
+const PARAGRAPH_TAGS = new Set(["p", "h1", "h2", "h3", "h4", "h5", "h6", "ul", "ol", "dl", "table", "blockquote", "pre"]);
+
+/**
+ * Renders an element from parseHtml as plain text: paragraphs separated by a
+ * blank line, list items as "- " lines. `skip(element)` leaves elements out.
+ */
+export const elementToText = (element, { skip } = {}) => {
+	// Text, plus the number of line breaks wanted between blocks; adjacent breaks merge
+	const out = [];
+	const lineBreak = (count) => {
+		if (typeof out[out.length - 1] === "number") out[out.length - 1] = Math.max(out[out.length - 1], count);
+		else out.push(count);
+	};
+	const walk = (node) => {
+		if (typeof node === "string") return out.push(node);
+		if (skip?.(node)) return;
+		if (node.tag === "br") return out.push("\n");
+		const breaks = PARAGRAPH_TAGS.has(node.tag) ? 2 : LINE_TAGS.has(node.tag) || node.tag === "li" ? 1 : 0;
+		if (breaks) lineBreak(breaks);
+		if (node.tag === "li") out.push("- ");
+		node.children.forEach(walk);
+		if (breaks) lineBreak(breaks);
+	};
+	walk(element);
+	return out
+		.map((part) => (typeof part === "number" ? "\n".repeat(part) : part))
+		.join("")
+		.split("\n")
+		.map((line) => line.replace(/\s+/g, " ").trim())
+		.join("\n")
+		.replace(/\n{3,}/g, "\n\n")
+		.trim();
+};
+
+/** Converts an HTML fragment to plain text that keeps its paragraphs and lists. */
+export const htmlToText = (html) => elementToText(parseHtml(html));
@@ -0,0 +1,302 @@
+import fetch from "node-fetch";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { decodeHtmlEntities, elementToText, htmlToInlineText, htmlToText, parseHtml } from "./html.js";
+
+// Reads a job posting from its page. Most applicant tracking systems and job
+// boards embed a schema.org JobPosting as JSON-LD, which is used when present;
+// otherwise the page's main content is found by scoring text blocks the way
+// readability tools do (long, comma-rich paragraphs, few links, hints like
+// "job-description" in class names).
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const USER_AGENT = "Mozilla/5.0 (compatible; JobApplicationCoPilot/1.0)";
+
+// Less than this is most likely a login wall or a page rendered by scripts
+export const MIN_DESCRIPTION_LENGTH = 200;
+
+export class JobPageError extends Error {
+	constructor(message) {
+		super(message);
+		this.name = "JobPageError";
+	}
+}
+
+/** The URL points at this server's own network (loopback, private or link-local addresses). */
+export class BlockedUrlError extends JobPageError {
+	constructor(message = "Only public web pages can be fetched") {
+		super(message);
+		this.name = "BlockedUrlError";
+	}
+}
+
+const MAX_REDIRECTS = 5;
+
+// Addresses a fetched URL must never reach: the server itself, cloud metadata
+// endpoints and anything else on its own network
+const NON_PUBLIC = new net.BlockList();
+for (const [address, prefix] of [
+	["0.0.0.0", 8],
+	["10.0.0.0", 8],
+	["100.64.0.0", 10],
+	["127.0.0.0", 8],
+	["169.254.0.0", 16],
+	["172.16.0.0", 12],
+	["192.0.0.0", 24],
+	["192.168.0.0", 16],
+	["198.18.0.0", 15],
+	["224.0.0.0", 4],
+	["240.0.0.0", 4],
+])
+	NON_PUBLIC.addSubnet(address, prefix, "ipv4");
+for (const [address, prefix] of [
+	["::", 128],
+	["::1", 128],
+	["64:ff9b::", 96],
+	["fc00::", 7],
+	["fe80::", 10],
+	["ff00::", 8],
+])
+	NON_PUBLIC.addSubnet(address, prefix, "ipv6");
+
+/** True for addresses on the public internet; IPv4-mapped IPv6 addresses are judged by their IPv4 part. */
+export const isPublicAddress = (address) => {
+	const family = net.isIP(address);
+	return family !== 0 && !NON_PUBLIC.check(address, family === 6 ? "ipv6" : "ipv4");
+};
+
+// Resolves like dns.lookup but fails for non-public addresses. Used by the
+// agents below, so the address checked is the one connected to (a hostname
+// can't resolve to a public address for the check and a private one after).
+const publicLookup = (hostname, options, callback) => {
+	dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+		if (err) return callback(err);
+		if (!addresses.length || !addresses.every(({ address }) => isPublicAddress(address)))
+			return callback(Object.assign(new Error(`${hostname} is not a public address`), { code: "ENOTPUBLIC" }));
+		if (options.all) return callback(null, addresses);
+		return callback(null, addresses[0].address, addresses[0].family);
+	});
+};
+const httpAgent = new http.Agent({ lookup: publicLookup });
+const httpsAgent = new https.Agent({ lookup: publicLookup });
+
+// IP literals are connected to without a lookup, so they are checked here
+const assertPublicUrl = (url) => {
+	let parsed;
+	try {
+		parsed = new URL(url);
+	} catch (e) {
+		throw new JobPageError("The link isn't a valid URL");
+	}
+	if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new BlockedUrlError("Only http and https links can be fetched");
+	const host = parsed.hostname.replace(/^\[|\]$/g, "");
+	if (/^localhost$|\.localhost$/i.test(host) || (net.isIP(host) && !isPublicAddress(host))) throw new BlockedUrlError();
+	return parsed;
+};
+
+/**
+ * Downloads a page's HTML; throws JobPageError for error statuses and non-HTML
+ * responses, and BlockedUrlError when the URL, or any redirect it leads
+ * through, points at a non-public address.
+ */
+export const fetchJobPage = async (url) => {
+	const controller = new AbortController();
+	const timer = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+	try {
+		let current = assertPublicUrl(url);
+		let resp;
+		for (let redirects = 0; ; redirects++) {
+			resp = await fetch(current, {
+				headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml" },
+				signal: controller.signal,
+				size: MAX_PAGE_BYTES,
+				redirect: "manual",
+				agent: (target) => (target.protocol === "http:" ? httpAgent : httpsAgent),
+			});
+			const location = resp.status >= 300 && resp.status < 400 ? resp.headers.get("location") : null;
+			if (!location) break;
+			if (redirects >= MAX_REDIRECTS) throw new JobPageError("The page redirected too many times");
+			resp.body?.resume();
+			current = assertPublicUrl(new URL(location, current).toString());
+		}
+		if (!resp.ok) throw new JobPageError(`The page answered with status ${resp.status}`);
+		const contentType = resp.headers.get("content-type") || "";
+		if (contentType && !/html|xml/i.test(contentType))
+			throw new JobPageError(`The page isn't HTML (${contentType.split(";")[0]})`);
+		return await resp.text();
+	} catch (err) {
+		if (err.name === "AbortError") throw new JobPageError("The page took too long to respond");
+		if (err.code === "ENOTPUBLIC") throw new BlockedUrlError();
+		throw err;
+	} finally {
+		clearTimeout(timer);
+	}
+};
+
+// ---- JSON-LD ----
+
+const jsonLdDocuments = (html) =>
+	[...html.matchAll(/<script\b[^>]*type=["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi)].flatMap(
+		([, body]) => {
+			// Raw newlines inside strings are common and not valid JSON
+			for (const source of [body, body.replace(/[\u0000-\u001f]+/g, " ")]) {
+				try {
+					return [JSON.parse(source.trim())];
+				} catch {
+					// try the next form
+				}
+			}
+			return [];
+		}
+	);
+
+const findJobPosting = (node) => {
+	if (Array.isArray(node)) {
+		for (const item of node) {
+			const found = findJobPosting(item);
+			if (found) return found;
+		}
+		return null;
+	}
+	if (!node || typeof node !== "object") return null;
+	if ([].concat(node["@type"]).includes("JobPosting")) return node;
+	return findJobPosting(node["@graph"] || null);
+};
+
+const jsonLdText = (value) => (typeof value === "string" ? htmlToInlineText(value) : "");
+
+// Descriptions are usually HTML, sometimes entity-escaped HTML, sometimes plain text
+const descriptionText = (description) => {
+	if (typeof description !== "string") return "";
+	const html =
+		/&lt;\/?[a-z]/i.test(description) && !/<\/?[a-z]/i.test(description) ? decodeHtmlEntities(description) : description;
+	if (!/<\/?[a-z][^>]*>/i.test(html)) return html.replace(/\r\n?/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+	return htmlToText(html);
+};
+
+const readJsonLd = (html) => {
+	const posting = jsonLdDocuments(html).map(findJobPosting).find(Boolean);
+	if (!posting) return null;
+	const organization = posting.hiringOrganization;
+	return {
+		title: jsonLdText(posting.title),
+		company: jsonLdText(typeof organization === "string" ? organization : organization?.name),
+		text: descriptionText(posting.description),
+		jobPosting: posting,
+	};
+};
+
+// ---- Main content ----
+
+const UNLIKELY_TAGS = new Set(["nav", "header", "footer", "aside", "form", "button", "select", "dialog"]);
+const UNLIKELY_HINTS =
+	/comment|cookie|consent|banner|share|social|related|similar|sidebar|menu|footer|header|nav|breadcrumb|modal|popup|subscribe|newsletter|sponsor|promo/i;
+const LIKELY_HINTS = /job|description|posting|vacanc|career|content|article|main|detail|body/i;
+// Blocks whose text is scored, crediting their parent and grandparent
+const SCORED_TAGS = new Set(["p", "li", "td", "pre", "dd", "div", "section"]);
+const MIN_BLOCK_LENGTH = 25;
+
+const hintsOf = (element) => `${element.attrs.class || ""} ${element.attrs.id || ""}`;
+
+const isUnlikely = (element) =>
+	UNLIKELY_TAGS.has(element.tag) || (UNLIKELY_HINTS.test(hintsOf(element)) && !LIKELY_HINTS.test(hintsOf(element)));
+
+const hintWeight = (element) =>
+	(LIKELY_HINTS.test(hintsOf(element)) ? 25 : 0) - (UNLIKELY_HINTS.test(hintsOf(element)) ? 25 : 0);
+
+const textOf = (element) => elementToText(element, { skip: isUnlikely });
+
+// Containers only count their own text, so a wrapper isn't scored for its children's
+const ownText = (element) =>
+	element.children
+		.filter((child) => typeof child === "string")
+		.join(" ")
+		.replace(/\s+/g, " ")
+		.trim();
+
+const linkDensity = (element, textLength) => {
+	let linked = 0;
+	const walk = (node) => {
+		if (typeof node === "string") return;
+		if (node.tag === "a") linked += textOf(node).length;
+		else node.children.forEach(walk);
+	};
+	walk(element);
+	return textLength ? linked / textLength : 1;
+};
+
+const findMainContent = (root) => {
+	const scores = new Map();
+	const visit = (element, parent, grandparent) => {
+		if (typeof element === "string" || isUnlikely(element)) return;
+		element.children.forEach((child) => visit(child, element, parent));
+		if (!SCORED_TAGS.has(element.tag)) return;
+		const text = element.tag === "div" || element.tag === "section" ? ownText(element) : textOf(element);
+		if (text.length < MIN_BLOCK_LENGTH) return;
+		const score = 1 + (text.match(/,/g) || []).length + Math.min(Math.floor(text.length / 100), 3);
+		for (const [ancestor, share] of [[parent, 1], [grandparent, 0.5]]) {
+			if (!ancestor || ancestor.tag === "#root") continue;
+			scores.set(ancestor, (scores.get(ancestor) ?? hintWeight(ancestor)) + score * share);
+		}
+	};
+	visit(root, null, null);
+
+	let best = null;
+	let bestScore = 0;
+	for (const [element, score] of scores) {
+		const text = textOf(element);
+		const adjusted = score * (1 - linkDensity(element, text.length));
+		if (adjusted > bestScore) {
+			best = text;
+			bestScore = adjusted;
+		}
+	}
+	return best || "";
+};
+
+const findFirst = (node, predicate) => {
+	if (typeof node === "string") return null;
+	if (predicate(node)) return node;
+	for (const child of node.children) {
+		const found = findFirst(child, predicate);
+		if (found) return found;
+	}
+	return null;
+};
+
+const metaContent = (root, name) =>
+	findFirst(root, (el) => el.tag === "meta" && (el.attrs.property === name || el.attrs.name === name))?.attrs
+		.content?.trim() || "";
+
+const readMainContent = (html) => {
+	const root = parseHtml(html);
+	const heading = findFirst(root, (el) => el.tag === "h1");
+	const pageTitle = findFirst(root, (el) => el.tag === "title");
+	return {
+		title: metaContent(root, "og:title") || (heading && textOf(heading)) || (pageTitle && textOf(pageTitle)) || "",
+		company: metaContent(root, "og:site_name"),
+		text: findMainContent(root),
+	};
+};
+
+/**
+ * Reads { title, company, text, source, jobPosting } from a job page's HTML.
+ * `source` is "jsonLd" when a JobPosting with a description was found and
+ * "html" otherwise; `jobPosting` is the raw JSON-LD object, or null. `text`
+ * may be short or empty when the page has no readable posting.
+ */
+export const readJobPosting = (html) => {
+	const posting = readJsonLd(html);
+	if (posting?.text) return { ...posting, source: "jsonLd" };
+	const content = readMainContent(html);
+	return {
+		title: posting?.title || content.title,
+		company: posting?.company || content.company,
+		text: content.text,
+		source: "html",
+		jobPosting: posting?.jobPosting || null,
+	};
+};
@@ -0,0 +1,35 @@
+import { readFileSync } from "fs";
+
+// Deterministic adapter backed by fixtures/jobs.json, used for tests and
+// offline development (JOB_SEARCH_FIXTURES=1).
+const FIXTURE_PATH = new URL("./fixtures/jobs.json", import.meta.url);
+
+let cachedFixtures = null;
+const loadFixtures = () => {
+	if (!cachedFixtures) cachedFixtures = JSON.parse(readFileSync(FIXTURE_PATH, "utf8"));
+	return cachedFixtures;
+};
+
+export const createFixtureAdapter = ({ site }) => ({
+	site,
+	requiresModel: false,
+
+	search: async ({ query, page, pageSize }) => {
+		// Every query word must start a word somewhere in the listing
+		const terms = query
+			.toLowerCase()
+			.split(/\s+/)
+			.filter(Boolean)
+			.map((term) => new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}`));
+		const matches = loadFixtures().filter((job) => {
+			if (job.site !== site) return false;
+			const haystack = `${job.title} ${job.company} ${job.location || ""} ${job.snippet}`.toLowerCase();
+			return terms.every((term) => term.test(haystack));
+		});
+		const start = (page - 1) * pageSize;
+		return {
+			jobs: matches.slice(start, start + pageSize),
+			hasMore: start + pageSize < matches.length,
+		};
+	},
+});
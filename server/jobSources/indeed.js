@@ -0,0 +1,9 @@
+import { createSearchGroundedAdapter } from "./searchGrounded.js";
+
+export const createIndeedAdapter = ({ llm }) =>
+	createSearchGroundedAdapter({
+		llm,
+		site: "indeed.com",
+		domain: "indeed.com",
+		siteName: "Indeed",
+	});
@@ -0,0 +1,78 @@
+import { createLinkedInAdapter } from "./linkedin.js";
+import { createIndeedAdapter } from "./indeed.js";
+import { createWorkdayAdapter } from "./workday.js";
+import { createFixtureAdapter } from "./fixture.js";
+
+/**
+ * A job source adapter knows how to search one job site and return listings
+ * in the client's `JobListing` shape.
+ *
+ * @typedef {Object} JobSourceAdapter
+ * @property {string} site - The `JobSite` value this adapter serves.
+ * @property {boolean} requiresModel - True when the adapter needs a model with web search.
+ * @property {(params: { query: string, page: number, pageSize: number }) =>
+ *   Promise<{ jobs: Array<Record<string, string>>, hasMore: boolean }>} search
+ */
+
+export const JOB_SITES = ["linkedin.com/jobs", "indeed.com", "myworkdayjobs.com"];
+
+const MAX_SNIPPET_LENGTH = 300;
+
+// Coerces whatever an adapter returned into a clean JobListing
+const normalizeListing = (raw, site) => {
+	const url = String(raw.url || "").trim();
+	let absoluteUrl = null;
+	try {
+		absoluteUrl = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).toString();
+	} catch (e) {
+		return null;
+	}
+	const title = String(raw.title || "").replace(/\s+/g, " ").trim();
+	if (!title) return null;
+	const snippet = String(raw.snippet || "").replace(/\s+/g, " ").trim();
+	const listing = {
+		title,
+		company: String(raw.company || "").replace(/\s+/g, " ").trim(),
+		url: absoluteUrl,
+		snippet:
+			snippet.length > MAX_SNIPPET_LENGTH
+				? `${snippet.slice(0, MAX_SNIPPET_LENGTH - 1)}…`
+				: snippet,
+		source: site,
+	};
+	if (raw.location) listing.location = String(raw.location).trim();
+	if (raw.postedAt) listing.postedAt = String(raw.postedAt).trim();
+	return listing;
+};
+
+/**
+ * Builds the adapter registry. With `useFixtures` every site is served by the
+ * fixture adapter, so the app and its tests can run without network access.
+ */
+export const createJobSearch = ({ llm, useFixtures = false }) => {
+	const list = useFixtures
+		? JOB_SITES.map((site) => createFixtureAdapter({ site }))
+		: [
+				createLinkedInAdapter(),
+				createIndeedAdapter({ llm }),
+				createWorkdayAdapter({ llm }),
+		  ];
+	const adapters = new Map(list.map((adapter) => [adapter.site, adapter]));
+
+	return {
+		getAdapter: (site) => adapters.get(site) || null,
+
+		search: async (adapter, { query, page, pageSize }) => {
+			const result = await adapter.search({ query, page, pageSize });
+			const seen = new Set();
+			const jobs = [];
+			for (const raw of result.jobs || []) {
+				const listing = normalizeListing(raw, adapter.site);
+				if (!listing || seen.has(listing.url)) continue;
+				seen.add(listing.url);
+				jobs.push(listing);
+			}
+			return { jobs, page, pageSize, hasMore: Boolean(result.hasMore) };
+		},
+	};
+};
@@ -0,0 +1,73 @@
+import fetch from "node-fetch";
+import { htmlToInlineText } from "../html.js";
+
+// LinkedIn's logged-out "see more jobs" endpoint returns server-rendered job
+// cards in pages of ten, addressed by a `start` offset.
+const LINKEDIN_SEARCH_URL =
+	"https://www.linkedin.com/jobs-guest/jobs/api/seeMoreJobPostings/search";
+const LINKEDIN_PAGE_SIZE = 10;
+// Per page request, so a hung upstream can't hold /api/search-jobs open
+const FETCH_TIMEOUT_MS = 15000;
+
+const matchText = (html, pattern) => {
+	const m = html.match(pattern);
+	return m ? htmlToInlineText(m[1]) : "";
+};
+
+export const parseLinkedInCards = (html) =>
+	html
+		.split(/<li\b/)
+		.slice(1)
+		.map((card) => {
+			const url = card.match(/class="base-card__full-link[^"]*"[^>]*href="([^"]+)"/)?.[1]
+				|| card.match(/href="(https:\/\/[^"]*linkedin\.com\/jobs\/view\/[^"]+)"/)?.[1];
+			return {
+				title: matchText(card, /<h3 class="base-search-card__title">([\s\S]*?)<\/h3>/),
+				company: matchText(card, /<h4 class="base-search-card__subtitle">([\s\S]*?)<\/h4>/),
+				// Tracking parameters make every URL unique; keep the canonical path
+				url: url ? url.replace(/&amp;/g, "&").split("?")[0] : "",
+				location: matchText(card, /<span class="job-search-card__location">([\s\S]*?)<\/span>/),
+				postedAt: card.match(/<time[^>]*datetime="([^"]+)"/)?.[1] || "",
+				// Search cards carry no description text
+				snippet: "",
+			};
+		})
+		.filter((job) => job.title && job.url);
+
+export const createLinkedInAdapter = () => ({
+	site: "linkedin.com/jobs",
+	requiresModel: false,
+
+	search: async ({ query, page, pageSize }) => {
+		// LinkedIn pages are fixed at ten cards, so fetch as many as the caller asked for
+		const start = (page - 1) * pageSize;
+		const jobs = [];
+		let exhausted = false;
+		for (let offset = start; offset < start + pageSize; offset += LINKEDIN_PAGE_SIZE) {
+			const params = new URLSearchParams({ keywords: query, start: String(offset) });
+			let resp;
+			try {
+				resp = await fetch(`${LINKEDIN_SEARCH_URL}?${params}`, {
+					headers: { "User-Agent": "Mozilla/5.0 (compatible; JobApplicationCoPilot/1.0)" },
+					signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+				});
+			} catch (err) {
+				if (err.name === "AbortError" || err.name === "TimeoutError") throw new Error("LinkedIn search timed out");
+				throw err;
+			}
+			// LinkedIn answers 400 once the offset runs past the last result
+			if (resp.status === 400 || resp.status === 404) {
+				exhausted = true;
+				break;
+			}
+			if (!resp.ok) throw new Error(`LinkedIn search failed with status ${resp.status}`);
+			const cards = parseLinkedInCards(await resp.text());
+			jobs.push(...cards);
+			if (cards.length < LINKEDIN_PAGE_SIZE) {
+				exhausted = true;
+				break;
+			}
+		}
+		return { jobs: jobs.slice(0, pageSize), hasMore: !exhausted };
+	},
+});
@@ -0,0 +1,36 @@
+import { extractJson } from "../llm/json.js";
+
+// Shared implementation for sites without a public search endpoint: ask the
+// model to run a Google Search restricted to the site and return listings.
+
+const hostMatches = (url, domain) => {
+	try {
+		const host = new URL(url).hostname.toLowerCase();
+		return host === domain || host.endsWith(`.${domain}`);
+	} catch (e) {
+		return false;
+	}
+};
+
+export const createSearchGroundedAdapter = ({ llm, site, domain, siteName }) => ({
+	site,
+	requiresModel: true,
+
+	search: async ({ query, page, pageSize }) => {
+		const first = (page - 1) * pageSize + 1;
+		const last = first + pageSize - 1;
+		const prompt = `Use Google Search to find current job postings on ${siteName} (site:${domain}) matching "${query}".
+Return results ${first} to ${last} of the most relevant postings, skipping expired or duplicate ones.
+Only include direct links to individual postings on ${domain}.
+Respond ONLY with JSON of the form {"jobs":[{"title":"","company":"","url":"","location":"","snippet":""}]} where snippet is a one-sentence summary of the role.`;
+
+		// Structured output cannot be combined with the search tool, so parse the text
+		const text = await llm.generate({ prompt, tool: "webSearch" });
+		const parsed = extractJson(text);
+		const jobs = Array.isArray(parsed?.jobs)
+			? parsed.jobs.filter((job) => job && hostMatches(String(job.url || ""), domain))
+			: [];
+		// The model only reports what it found, so assume more exist while pages come back full
+		return { jobs, hasMore: jobs.length >= pageSize };
+	},
+});
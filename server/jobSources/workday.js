@@ -0,0 +1,11 @@
+import { createSearchGroundedAdapter } from "./searchGrounded.js";
+
+// Workday has no cross-employer search; each company hosts its own tenant
+// under myworkdayjobs.com, which a site-restricted web search covers.
+export const createWorkdayAdapter = ({ llm }) =>
+	createSearchGroundedAdapter({
+		llm,
+		site: "myworkdayjobs.com",
+		domain: "myworkdayjobs.com",
+		siteName: "Workday career sites",
+	});
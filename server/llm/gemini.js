@@ -0,0 +1,55 @@
+import { GoogleGenAI } from "@google/genai";
+import { toMessages } from "./messages.js";
+
+const TOOLS = {
+	webSearch: { googleSearch: {} },
+	maps: { googleMaps: {} },
+};
+
+export const createGeminiProvider = ({ apiKey, model }) => {
+	const ai = new GoogleGenAI({ apiKey });
+
+	const toParams = (request) => {
+		const { system, schema, temperature, attachments = [], tool, location } = request;
+		const contents = toMessages(request).map((message, index, all) => ({
+			role: message.role === "assistant" ? "model" : "user",
+			parts: [
+				...(index === all.length - 1
+					? attachments.map(({ mimeType, data }) => ({ inlineData: { mimeType, data } }))
+					: []),
+				{ text: message.content },
+			],
+		}));
+
+		const config = {};
+		if (system) config.systemInstruction = system;
+		if (temperature !== undefined) config.temperature = temperature;
+		if (schema) {
+			config.responseMimeType = "application/json";
+			config.responseJsonSchema = schema;
+		}
+		if (tool) config.tools = [TOOLS[tool]];
+		if (tool === "maps" && location)
+			config.toolConfig = { retrievalConfig: { latLng: location } };
+
+		return { model, contents, config };
+	};
+
+	return {
+		name: "gemini",
+		model,
+		capabilities: { webSearch: true, maps: true, documents: true },
+
+		generate: async (request) => {
+			const response = await ai.models.generateContent(toParams(request));
+			return response.text?.trim() || "";
+		},
+
+		stream: async function* (request) {
+			const chunks = await ai.models.generateContentStream(toParams(request));
+			for await (const chunk of chunks) {
+				if (chunk.text) yield chunk.text;
+			}
+		},
+	};
+};
@@ -0,0 +1,62 @@
+import { createGeminiProvider } from "./gemini.js";
+import { createOpenAiCompatibleProvider } from "./openaiCompatible.js";
+import { createMockProvider } from "./mock.js";
+
+/**
+ * A request to a language model. Exactly one of `prompt` or `messages` is set.
+ *
+ * @typedef {Object} GenerateRequest
+ * @property {string} [system] - System instruction.
+ * @property {string} [prompt] - Shorthand for a single user message.
+ * @property {Array<{ role: "user" | "assistant", content: string }>} [messages]
+ * @property {Object} [schema] - JSON Schema the response must follow; the reply is JSON text.
+ * @property {number} [temperature]
+ * @property {Array<{ mimeType: string, data: string }>} [attachments] - Base64 files sent with the last user message.
+ * @property {"webSearch" | "maps"} [tool] - Grounding tool the model may use.
+ * @property {{ latitude: number, longitude: number }} [location] - Hint for the maps tool.
+ */
+
+/**
+ * @typedef {Object} LlmProvider
+ * @property {string} name - "gemini", "openai" or "mock".
+ * @property {string} model
+ * @property {{ webSearch: boolean, maps: boolean, documents: boolean }} capabilities
+ * @property {(request: GenerateRequest) => Promise<string>} generate - Resolves to the trimmed reply text.
+ * @property {(request: GenerateRequest) => AsyncIterable<string>} stream - Yields the reply text in pieces as it is generated.
+ */
+
+export const LLM_PROVIDERS = ["gemini", "openai", "mock"];
+
+const DEFAULT_MODELS = {
+	gemini: "gemini-2.5-flash",
+	openai: "gpt-4o-mini",
+	mock: "mock-1",
+};
+
+/**
+ * Builds the provider selected by LLM_PROVIDER / LLM_MODEL. When LLM_PROVIDER
+ * is unset, Gemini is used if a Gemini key is present; otherwise returns null
+ * and model-backed features degrade (offline analysis, 503s).
+ */
+export const createLlmProvider = (env = process.env) => {
+	const geminiKey = env.GEMINI_API_KEY || env.API_KEY;
+	const name = (env.LLM_PROVIDER || (geminiKey ? "gemini" : "")).toLowerCase();
+	if (!name) return null;
+	if (!LLM_PROVIDERS.includes(name))
+		throw new Error(`Unknown LLM_PROVIDER "${name}". Use one of: ${LLM_PROVIDERS.join(", ")}`);
+
+	const model = env.LLM_MODEL || DEFAULT_MODELS[name];
+	switch (name) {
+		case "gemini":
+			if (!geminiKey) throw new Error("LLM_PROVIDER=gemini requires GEMINI_API_KEY");
+			return createGeminiProvider({ apiKey: geminiKey, model });
+		case "openai":
+			return createOpenAiCompatibleProvider({
+				baseUrl: env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+				apiKey: env.OPENAI_API_KEY,
+				model,
+			});
+		default:
+			return createMockProvider({ model });
+	}
+};
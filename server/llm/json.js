@@ -0,0 +1,70 @@
+/**
+ * Pulls the JSON object out of a model reply, tolerating markdown code fences
+ * and prose around it. Returns null when no object can be parsed.
+ */
+export const extractJson = (text) => {
+	const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+	const body = fenced ? fenced[1] : text;
+	const start = body.indexOf("{");
+	const end = body.lastIndexOf("}");
+	if (start === -1 || end <= start) return null;
+	try {
+		return JSON.parse(body.slice(start, end + 1));
+	} catch (e) {
+		return null;
+	}
+};
+
+/**
+ * Reads a JSON object as it streams in and reports each top-level property as
+ * soon as its value is complete. `push(chunk)` returns the newly completed
+ * [key, value] pairs. Text before the opening brace (e.g. a code fence) is
+ * skipped.
+ */
+export const createJsonFieldReader = () => {
+	let buffer = "";
+	let position = 0;
+	let depth = 0;
+	let inString = false;
+	let escaped = false;
+	let fieldStart = -1;
+
+	const takeField = (end) => {
+		const source = buffer.slice(fieldStart, end).trim();
+		fieldStart = end + 1;
+		if (!source) return [];
+		try {
+			return Object.entries(JSON.parse(`{${source}}`));
+		} catch (e) {
+			return [];
+		}
+	};
+
+	return {
+		push: (chunk) => {
+			buffer += chunk;
+			const completed = [];
+			for (; position < buffer.length; position++) {
+				const char = buffer[position];
+				if (inString) {
+					if (escaped) escaped = false;
+					else if (char === "\\") escaped = true;
+					else if (char === '"') inString = false;
+					continue;
+				}
+				if (char === '"') {
+					if (depth > 0) inString = true;
+				} else if (char === "{" || char === "[") {
+					depth += 1;
+					if (depth === 1) fieldStart = position + 1;
+				} else if (char === "}" || char === "]") {
+					if (depth === 1) completed.push(...takeField(position));
+					depth = Math.max(0, depth - 1);
+				} else if (char === "," && depth === 1) {
+					completed.push(...takeField(position));
+				}
+			}
+			return completed;
+		},
+	};
+};
@@ -0,0 +1,3 @@
+/** Normalizes a request's `prompt` / `messages` into a message list. */
+export const toMessages = ({ prompt, messages }) =>
+	messages && messages.length ? messages : [{ role: "user", content: prompt || "" }];
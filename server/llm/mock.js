@@ -0,0 +1,80 @@
+import { createHash } from "crypto";
+import { toMessages } from "./messages.js";
+
+// Deterministic stand-in for a real model so the app and its tests run with
+// no cloud key. Structured requests get a value built from the JSON Schema;
+// the same request always produces the same reply.
+
+const seedFor = (request) =>
+	createHash("sha256")
+		.update(JSON.stringify([request.system || "", toMessages(request)]))
+		.digest()
+		.readUInt32BE(0);
+
+const humanize = (key) =>
+	key
+		.replace(/([a-z])([A-Z])/g, "$1 $2")
+		.replace(/[_-]+/g, " ")
+		.toLowerCase();
+
+// `suffix` numbers array items so sibling values stay distinct
+const valueFromSchema = (schema, key, seed, suffix = "") => {
+	if (!schema || typeof schema !== "object") return null;
+	if (Array.isArray(schema.enum)) return schema.enum[seed % schema.enum.length];
+	const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+	switch (type) {
+		case "object":
+			return Object.fromEntries(
+				Object.entries(schema.properties || {}).map(([name, child], index) => [
+					name,
+					valueFromSchema(child, name, seed + index, suffix),
+				])
+			);
+		case "array": {
+			const count = Math.max(schema.minItems || 0, Math.min(schema.maxItems ?? 2, 2));
+			return Array.from({ length: count }, (_, index) =>
+				valueFromSchema(schema.items, key, seed + index, `${suffix} ${index + 1}`)
+			);
+		}
+		case "integer":
+		case "number": {
+			const min = schema.minimum ?? 0;
+			const max = schema.maximum ?? 100;
+			return min + (seed % (Math.floor(max - min) + 1));
+		}
+		case "boolean":
+			return seed % 2 === 0;
+		case "string":
+			return `Mock ${humanize(key || "text")}${suffix}`;
+		default:
+			return null;
+	}
+};
+
+// Size of the pieces `stream` splits a reply into
+const STREAM_CHUNK_CHARS = 40;
+
+export const createMockProvider = ({ model }) => {
+	const generate = async (request) => {
+		const seed = seedFor(request);
+		if (request.schema) return JSON.stringify(valueFromSchema(request.schema, "", seed));
+		const messages = toMessages(request);
+		const last = messages[messages.length - 1].content.replace(/\s+/g, " ").trim();
+		return `Mock response (${model}) to: ${last.slice(0, 200)}`;
+	};
+
+	return {
+		name: "mock",
+		model,
+		capabilities: { webSearch: true, maps: true, documents: true },
+		generate,
+
+		stream: async function* (request) {
+			const text = await generate(request);
+			for (let i = 0; i < text.length; i += STREAM_CHUNK_CHARS) {
+				await new Promise((resolve) => setImmediate(resolve));
+				yield text.slice(i, i + STREAM_CHUNK_CHARS);
+			}
+		},
+	};
+};
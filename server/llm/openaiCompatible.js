@@ -0,0 +1,89 @@
+import fetch from "node-fetch";
+import { toMessages } from "./messages.js";
+
+// Talks to any server implementing the OpenAI chat completions API, e.g.
+// OpenAI itself, Azure OpenAI, vLLM or a local Ollama (OPENAI_BASE_URL=http://localhost:11434/v1).
+// These endpoints have no built-in grounding tools, so web search and maps are unavailable.
+
+export const createOpenAiCompatibleProvider = ({ baseUrl, apiKey, model }) => {
+	const toBody = (request) => {
+		const { system, schema, temperature, attachments = [], tool } = request;
+		if (tool) throw new Error(`The openai provider does not support the ${tool} tool`);
+
+		const messages = toMessages(request).map((message, index, all) => {
+			const images = index === all.length - 1 ? attachments : [];
+			if (images.some(({ mimeType }) => !mimeType.startsWith("image/")))
+				throw new Error("The openai provider only accepts image attachments");
+			return {
+				role: message.role,
+				content: images.length
+					? [
+							...images.map(({ mimeType, data }) => ({
+								type: "image_url",
+								image_url: { url: `data:${mimeType};base64,${data}` },
+							})),
+							{ type: "text", text: message.content },
+					  ]
+					: message.content,
+			};
+		});
+		if (system) messages.unshift({ role: "system", content: system });
+
+		const body = { model, messages };
+		if (temperature !== undefined) body.temperature = temperature;
+		if (schema)
+			body.response_format = {
+				type: "json_schema",
+				json_schema: { name: "response", schema },
+			};
+
+		return body;
+	};
+
+	const complete = async (body) => {
+		const resp = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+			},
+			body: JSON.stringify(body),
+		});
+		if (!resp.ok) {
+			const detail = await resp.text();
+			const error = new Error(`Chat completion failed (${resp.status}): ${detail.slice(0, 500)}`);
+			error.status = resp.status;
+			throw error;
+		}
+		return resp;
+	};
+
+	return {
+		name: "openai",
+		model,
+		capabilities: { webSearch: false, maps: false, documents: false },
+
+		generate: async (request) => {
+			const data = await (await complete(toBody(request))).json();
+			return String(data.choices?.[0]?.message?.content || "").trim();
+		},
+
+		// The reply arrives as server-sent events, one content delta per "data:" line
+		stream: async function* (request) {
+			const resp = await complete({ ...toBody(request), stream: true });
+			const decoder = new TextDecoder();
+			let buffer = "";
+			for await (const chunk of resp.body) {
+				buffer += decoder.decode(chunk, { stream: true });
+				const lines = buffer.split("\n");
+				buffer = lines.pop();
+				for (const line of lines) {
+					const data = line.replace(/^data:\s*/, "").trim();
+					if (!line.startsWith("data:") || !data || data === "[DONE]") continue;
+					const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+					if (delta) yield delta;
+				}
+			}
+		},
+	};
+};
@@ -0,0 +1,274 @@
+import { SKILLS } from "./skills.js";
+import { contentTokens, escapeRegExp, stem, stemmedTokenSet } from "./text.js";
+
+// Rule-based stand-in for the model analysis, used when Gemini is not
+// configured or the call fails. It produces the same JobAnalysis shape so the
+// UI renders it unchanged; results are tagged with source: "offline".
+
+const REQUIREMENT_HEADING =
+	/\b(requirements?|qualifications?|what you('|’)ll need|what we('|’)re looking for|must[- ]haves?|skills|you have|about you)\b/i;
+const OTHER_HEADING =
+	/\b(responsibilities|what you('|’)ll do|duties|benefits|perks|about (us|the company|the role)|compensation|why join)\b/i;
+
+// Extra JD terms (beyond the skills dictionary) considered for matching
+const MAX_EXTRA_TERMS = 8;
+const MAX_SUGGESTIONS = 3;
+// Words a resume bullet must share with the posting's mention of a keyword before we suggest adding it there
+const MIN_SUGGESTION_OVERLAP = 2;
+
+// Capitalized words that describe the job rather than a skill it needs
+const NOT_A_TERM = /^(remote|hybrid|onsite|contract|temporary)$/i;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+const aliasPattern = (alias) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(alias)}(?![a-z0-9])`, "i");
+
+const mentions = (skill, text) => skill.aliases.some((alias) => aliasPattern(alias).test(text));
+
+const isHeading = (line) => line.length <= 60 && (/:$/.test(line) || !/[.,;]/.test(line));
+
+/** Splits a job description into lines tagged with whether they sit under a requirements-style heading. */
+const tagRequirementLines = (jobDescription) => {
+	let inRequirements = false;
+	return jobDescription
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter(Boolean)
+		.map((line) => {
+			if (isHeading(line)) {
+				if (REQUIREMENT_HEADING.test(line)) inRequirements = true;
+				else if (OTHER_HEADING.test(line)) inRequirements = false;
+			}
+			return { line, isRequirement: inRequirements };
+		});
+};
+
+/**
+ * Picks capitalized terms and acronyms the dictionary doesn't know about, e.g.
+ * "Kubernetes" or "SAP". Sentence-initial words and words from the title line
+ * are ignored, and a term must be an acronym, sit under a requirements heading
+ * or appear more than once.
+ */
+const extractExtraTerms = (jobLines, knownText) => {
+	const titleWords = new Set(contentTokens(jobLines[0]?.line || ""));
+	const counts = new Map();
+	for (const { line, isRequirement } of jobLines.slice(1)) {
+		for (const sentence of line.replace(/^[-*•\d.)\s]+/, "").split(/(?<=[.!?;:])\s+/)) {
+			const words = sentence.match(/\b[A-Z][A-Za-z0-9+#.]*[A-Za-z0-9+#]\b/g) || [];
+			words.forEach((word, index) => {
+				const isAcronym = /^[A-Z0-9+#.]{2,}$/.test(word);
+				if (!isAcronym && index === 0 && sentence.startsWith(word)) return;
+				if (NOT_A_TERM.test(word)) return;
+				const [token] = contentTokens(word);
+				if (!token || titleWords.has(token) || aliasPattern(word).test(knownText)) return;
+				const entry = counts.get(token) || { term: word, isAcronym, isRequirement: false, count: 0 };
+				entry.count += 1;
+				entry.isRequirement ||= isRequirement;
+				counts.set(token, entry);
+			});
+		}
+	}
+	return [...counts.values()]
+		.filter((entry) => entry.isAcronym || entry.isRequirement || entry.count > 1)
+		.sort((a, b) => Number(b.isRequirement) - Number(a.isRequirement) || b.count - a.count)
+		.slice(0, MAX_EXTRA_TERMS);
+};
+
+const monthIndex = (name) => (name ? MONTHS.indexOf(name.slice(0, 3).toLowerCase()) : -1);
+
+/** Sums the months covered by date ranges like "March 2023 - Present", merging overlaps. */
+export const estimateYearsOfExperience = (resumeText, now = new Date()) => {
+	const range =
+		/\b(?:([A-Za-z]{3,9})\.?\s+)?((?:19|20)\d{2})\s*(?:-|–|—|to)\s*(?:(?:([A-Za-z]{3,9})\.?\s+)?((?:19|20)\d{2})|(present|current|now))\b/gi;
+	const intervals = [];
+	for (const match of resumeText.matchAll(range)) {
+		const [, startMonth, startYear, endMonth, endYear, ongoing] = match;
+		const start = Number(startYear) * 12 + Math.max(0, monthIndex(startMonth));
+		const end = ongoing
+			? now.getFullYear() * 12 + now.getMonth()
+			: Number(endYear) * 12 + (monthIndex(endMonth) >= 0 ? monthIndex(endMonth) : 11);
+		if (end >= start) intervals.push([start, end]);
+	}
+	intervals.sort((a, b) => a[0] - b[0]);
+	let months = 0;
+	let coveredUntil = -Infinity;
+	for (const [start, end] of intervals) {
+		const from = Math.max(start, coveredUntil);
+		if (end > from) months += end - from;
+		coveredUntil = Math.max(coveredUntil, end);
+	}
+	return Math.round((months / 12) * 10) / 10;
+};
+
+/** Highest "N+ years" figure the posting asks for, or null. */
+export const requiredYearsOfExperience = (jobDescription) => {
+	const figures = [...jobDescription.matchAll(/\b(\d{1,2})\s*\+?\s*(?:-\s*\d{1,2}\s*)?years?\b/gi)].map((m) =>
+		Number(m[1])
+	);
+	return figures.length ? Math.max(...figures) : null;
+};
+
+const resumeBullets = (resumeText) =>
+	resumeText
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => /^[-*•]\s+/.test(line))
+		.map((line) => line.replace(/^[-*•]\s+/, ""));
+
+/** Suggests weaving a missing keyword into the resume bullet most related to where the posting mentions it. */
+const buildSuggestions = (missing, jobLines, resumeText) => {
+	const bullets = resumeBullets(resumeText);
+	const used = new Set();
+	const suggestions = [];
+	for (const keyword of missing) {
+		if (suggestions.length >= MAX_SUGGESTIONS) break;
+		const context = jobLines
+			.filter(({ line }) => keyword.matches(line))
+			.map(({ line }) => line)
+			.join(" ");
+		const contextStems = stemmedTokenSet(context);
+		let best = null;
+		let bestOverlap = MIN_SUGGESTION_OVERLAP - 1;
+		for (const bullet of bullets) {
+			if (used.has(bullet)) continue;
+			const overlap = [...stemmedTokenSet(bullet)].filter((token) => contextStems.has(token)).length;
+			if (overlap > bestOverlap) {
+				best = bullet;
+				bestOverlap = overlap;
+			}
+		}
+		if (!best) continue;
+		used.add(best);
+		suggestions.push({
+			originalText: best,
+			suggestedRewrite: `${best.replace(/\.\s*$/, "")}, using ${keyword.keyword}.`,
+			suggestionType: "Add Keyword",
+		});
+	}
+	return suggestions;
+};
+
+const listPhrase = (items) =>
+	items.length <= 1 ? items.join("") : `${items.slice(0, -1).join(", ")} and ${items[items.length - 1]}`;
+
+const guessJobTitle = (jobDescription) => {
+	const firstLine = jobDescription.split(/\r?\n/).map((line) => line.trim()).find(Boolean) || "";
+	return firstLine.length <= 80 && !/[.!?]$/.test(firstLine) ? firstLine : "this role";
+};
+
+/**
+ * Scores a resume against a job description without calling a model.
+ * Returns a JobAnalysis-shaped object with source: "offline".
+ */
+export const analyzeOffline = (resumeText, jobDescription) => {
+	const jobLines = tagRequirementLines(jobDescription);
+
+	// Dictionary skills the posting mentions, weighted up when listed under requirements
+	const keywords = SKILLS.map((skill) => {
+		const hits = jobLines.filter(({ line }) => mentions(skill, line));
+		if (!hits.length) return null;
+		return {
+			keyword: skill.keyword,
+			definition: skill.definition,
+			category: skill.category,
+			weight: hits.some((hit) => hit.isRequirement) ? 2 : 1,
+			matches: (text) => mentions(skill, text),
+		};
+	}).filter(Boolean);
+
+	const knownText = SKILLS.flatMap((skill) => skill.aliases).join(" | ");
+	for (const term of extractExtraTerms(jobLines, knownText)) {
+		const termStems = contentTokens(term.term).map(stem);
+		keywords.push({
+			keyword: term.term,
+			definition: `Mentioned ${term.count} time${term.count === 1 ? "" : "s"} in the job description.`,
+			category: null,
+			weight: term.isRequirement ? 2 : 1,
+			matches: (text) => termStems.every((token) => stemmedTokenSet(text).has(token)),
+		});
+	}
+
+	const matched = [];
+	const missing = [];
+	for (const keyword of keywords) {
+		(keyword.matches(resumeText) ? matched : missing).push(keyword);
+	}
+	missing.sort((a, b) => b.weight - a.weight);
+
+	const totalWeight = keywords.reduce((sum, k) => sum + k.weight, 0);
+	const matchedWeight = matched.reduce((sum, k) => sum + k.weight, 0);
+	let score = totalWeight ? (matchedWeight / totalWeight) * 100 : 0;
+
+	const strengths = [];
+	const gaps = [];
+
+	const requiredYears = requiredYearsOfExperience(jobDescription);
+	const resumeYears = estimateYearsOfExperience(resumeText);
+	if (requiredYears !== null) {
+		if (resumeYears >= requiredYears) {
+			strengths.push(`About ${resumeYears} years of dated experience meets the ${requiredYears}+ years the posting asks for.`);
+		} else {
+			gaps.push(`The posting asks for ${requiredYears}+ years of experience; the resume's dated roles cover about ${resumeYears}.`);
+			score *= 0.85;
+		}
+	}
+
+	const byCategory = new Map();
+	for (const keyword of matched.filter((k) => k.category)) {
+		byCategory.set(keyword.category, [...(byCategory.get(keyword.category) || []), keyword.keyword]);
+	}
+	for (const [category, names] of [...byCategory].sort((a, b) => b[1].length - a[1].length).slice(0, 3)) {
+		strengths.push(`Covers the ${category} skills the posting mentions: ${listPhrase(names)}.`);
+	}
+	const matchedTerms = matched.filter((k) => !k.category).map((k) => k.keyword);
+	if (matchedTerms.length) strengths.push(`Uses the posting's own terms: ${listPhrase(matchedTerms)}.`);
+
+	const requiredMissing = missing.filter((k) => k.weight >= 2).map((k) => k.keyword);
+	const otherMissing = missing.filter((k) => k.weight < 2).map((k) => k.keyword);
+	if (requiredMissing.length)
+		gaps.push(`Listed as requirements but not found in the resume: ${listPhrase(requiredMissing)}.`);
+	if (otherMissing.length) gaps.push(`Also mentioned in the posting but missing from the resume: ${listPhrase(otherMissing)}.`);
+	if (!keywords.length) gaps.push("No recognizable skills were found in the job description to compare against.");
+
+	const matchScore = Math.round(Math.max(0, Math.min(100, score)));
+	const jobTitle = guessJobTitle(jobDescription);
+	const topMatched = matched.slice(0, 3).map((k) => k.keyword);
+
+	const summary = keywords.length
+		? `Keyword-based estimate: the resume mentions ${matched.length} of ${keywords.length} skills and terms from the posting${
+				requiredMissing.length ? `, with ${requiredMissing.length} listed requirement${requiredMissing.length === 1 ? "" : "s"} missing` : ""
+		  }.`
+		: "Keyword-based estimate: the job description did not contain enough recognizable skills for a meaningful comparison.";
+
+	const coverLetterDraft = [
+		"Dear Hiring Manager,",
+		"",
+		`I am excited to apply for ${jobTitle === "this role" ? "this role" : `the ${jobTitle} position`}.${
+			topMatched.length ? ` My background in ${listPhrase(topMatched)} lines up closely with what you are looking for.` : ""
+		}`,
+		"",
+		"[Add a specific accomplishment from your resume that shows the impact you made in a similar role.]",
+		"",
+		missing.length
+			? `I am also eager to deepen my experience with ${listPhrase(missing.slice(0, 2).map((k) => k.keyword))} and would bring the same focus and reliability to your team.`
+			: "I would bring the same focus and reliability to your team.",
+		"",
+		"Thank you for your time and consideration. I look forward to discussing how I can contribute.",
+		"",
+		"Sincerely,",
+		"[Your Name]",
+	].join("\n");
+
+	const toKeyword = ({ keyword, definition }) => ({ keyword, definition });
+	return {
+		matchScore,
+		summary,
+		strengths,
+		gaps,
+		matchedKeywords: matched.map(toKeyword),
+		missingKeywords: missing.map(toKeyword),
+		improvementSuggestions: buildSuggestions(missing, jobLines, resumeText),
+		coverLetterDraft,
+		source: "offline",
+	};
+};
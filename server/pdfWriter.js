@@ -0,0 +1,211 @@
+// Minimal PDF writer for exported resumes and cover letters (see
+// documentExport.js for the block format). It uses the standard Helvetica
+// fonts, which every PDF reader has built in, so nothing is embedded; text is
+// WinAnsi-encoded and wrapped using the fonts' published glyph widths.
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const BULLET_INDENT = 14;
+
+// Advance widths (per 1000 units of font size) of ASCII 32-126
+const HELVETICA_WIDTHS = [
+	278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+	556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+	556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+	556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+	500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+	278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+	556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+	611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+	611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+	556, 556, 500, 389, 280, 389, 584,
+];
+
+const FONTS = {
+	regular: { resource: "F1", baseFont: "Helvetica", widths: HELVETICA_WIDTHS },
+	bold: { resource: "F2", baseFont: "Helvetica-Bold", widths: HELVETICA_BOLD_WIDTHS },
+	// Oblique glyphs are as wide as the upright ones
+	italic: { resource: "F3", baseFont: "Helvetica-Oblique", widths: HELVETICA_WIDTHS },
+};
+
+const STYLES = {
+	name: { font: "bold", size: 20, gap: 0, gray: 0 },
+	contact: { font: "regular", size: 10, gap: 2, gray: 0.35 },
+	heading: { font: "bold", size: 12, gap: 14, gray: 0 },
+	entry: { font: "bold", size: 11, gap: 2, gray: 0 },
+	meta: { font: "italic", size: 10, gap: 0, gray: 0.35 },
+	bullet: { font: "regular", size: 11, gap: 1, gray: 0 },
+	paragraph: { font: "regular", size: 11, gap: 1, gray: 0 },
+};
+const GROUP_GAP = 8;
+const LINE_HEIGHT = 1.3;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS = {
+	"€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92, "“": 0x93, "”": 0x94, "•": 0x95,
+	"–": 0x96, "—": 0x97, "™": 0x99,
+};
+const WIN_ANSI_WIDTHS = { 0x85: 1000, 0x91: 222, 0x92: 222, 0x93: 333, 0x94: 333, 0x95: 350, 0x97: 1000 };
+
+// Maps text to single-byte WinAnsi codes; anything unrepresentable becomes "?"
+const toWinAnsi = (text) =>
+	Array.from(text.normalize("NFC"), (ch) => {
+		const code = ch.codePointAt(0);
+		if ((code >= 32 && code < 127) || (code >= 0xa0 && code <= 0xff)) return code;
+		if (ch === "\t") return 32;
+		return WIN_ANSI_EXTRAS[ch] ?? 63;
+	});
+
+const glyphWidth = (code, font, size) => ((code < 127 ? font.widths[code - 32] : WIN_ANSI_WIDTHS[code] ?? 556) * size) / 1000;
+
+const textWidth = (codes, font, size) => codes.reduce((sum, code) => sum + glyphWidth(code, font, size), 0);
+
+// Greedy word wrap; a word longer than the line is split where it overflows.
+// Widths are added up as lines grow, so each character is measured once.
+const wrapLine = (codes, font, size, maxWidth) => {
+	const words = [];
+	let word = [];
+	for (const code of codes) {
+		if (code === 32) {
+			if (word.length) words.push(word);
+			word = [];
+		} else word.push(code);
+	}
+	if (word.length) words.push(word);
+
+	const space = glyphWidth(32, font, size);
+	const lines = [];
+	let line = [];
+	let lineWidth = 0;
+	for (const current of words) {
+		const width = textWidth(current, font, size);
+		if (line.length && lineWidth + space + width <= maxWidth) {
+			line.push(32, ...current);
+			lineWidth += space + width;
+			continue;
+		}
+		if (line.length) lines.push(line);
+		if (width <= maxWidth) {
+			line = [...current];
+			lineWidth = width;
+			continue;
+		}
+		line = [];
+		lineWidth = 0;
+		for (const code of current) {
+			const advance = glyphWidth(code, font, size);
+			if (line.length && lineWidth + advance > maxWidth) {
+				lines.push(line);
+				line = [];
+				lineWidth = 0;
+			}
+			line.push(code);
+			lineWidth += advance;
+		}
+	}
+	if (line.length) lines.push(line);
+	return lines;
+};
+
+const pdfString = (codes) =>
+	"(" +
+	codes
+		.map((code) =>
+			code === 0x28 || code === 0x29 || code === 0x5c
+				? `\\${String.fromCharCode(code)}`
+				: code < 127
+				? String.fromCharCode(code)
+				: `\\${code.toString(8).padStart(3, "0")}`
+		)
+		.join("") +
+	")";
+
+const pdfTextString = (text) => pdfString(toWinAnsi(text));
+
+/** Lays `blocks` out on as many pages as needed; returns a content stream per page. */
+const layOut = (blocks) => {
+	const pages = [];
+	let ops = [];
+	let y = PAGE_HEIGHT - MARGIN;
+	const newPage = () => {
+		pages.push(ops.join("\n"));
+		ops = [];
+		y = PAGE_HEIGHT - MARGIN;
+	};
+
+	blocks.forEach((block, index) => {
+		const style = STYLES[block.type] || STYLES.paragraph;
+		const font = FONTS[style.font];
+		const lineHeight = style.size * LINE_HEIGHT;
+		const indent = block.type === "bullet" ? BULLET_INDENT : 0;
+		const lines = wrapLine(toWinAnsi(block.text), font, style.size, PAGE_WIDTH - 2 * MARGIN - indent);
+		if (!lines.length) return;
+
+		if (index > 0) y -= style.gap + (block.gapBefore ? GROUP_GAP : 0);
+		// Keep a heading with at least one line of what follows it
+		const needed = lineHeight * (block.type === "heading" ? 3 : 1);
+		if (y - needed < MARGIN && ops.length) newPage();
+
+		const setFont = `/${font.resource} ${style.size} Tf ${style.gray} g`;
+		lines.forEach((line, lineIndex) => {
+			if (y - lineHeight < MARGIN) newPage();
+			y -= lineHeight;
+			const baseline = (y + (lineHeight - style.size) / 2 + style.size * 0.22).toFixed(2);
+			if (block.type === "bullet" && lineIndex === 0)
+				ops.push(`BT ${setFont} ${MARGIN + 3} ${baseline} Td ${pdfString([0x95])} Tj ET`);
+			ops.push(`BT ${setFont} ${MARGIN + indent} ${baseline} Td ${pdfString(line)} Tj ET`);
+		});
+		if (block.type === "heading") {
+			const ruleY = (y - 2).toFixed(2);
+			ops.push(`0.6 G 0.75 w ${MARGIN} ${ruleY} m ${PAGE_WIDTH - MARGIN} ${ruleY} l S`);
+			y -= 4;
+		}
+	});
+	pages.push(ops.join("\n"));
+	return pages;
+};
+
+/** Renders document blocks as a PDF; returns a Buffer. */
+export const renderPdf = (blocks, { title = "" } = {}) => {
+	const pageStreams = layOut(blocks);
+	const fontIds = { F1: 3, F2: 4, F3: 5 };
+	const infoId = 6;
+	const firstPageId = 7;
+	const pageIds = pageStreams.map((_, i) => firstPageId + 2 * i);
+
+	const objects = {
+		1: "<< /Type /Catalog /Pages 2 0 R >>",
+		2: `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`,
+		[infoId]: `<< /Title ${pdfTextString(title)} /Producer (Job Application Co-Pilot) >>`,
+	};
+	for (const { resource, baseFont } of Object.values(FONTS))
+		objects[fontIds[resource]] =
+			`<< /Type /Font /Subtype /Type1 /BaseFont /${baseFont} /Encoding /WinAnsiEncoding >>`;
+	const fontResources = Object.entries(fontIds)
+		.map(([name, id]) => `/${name} ${id} 0 R`)
+		.join(" ");
+	pageStreams.forEach((stream, i) => {
+		const pageId = pageIds[i];
+		objects[pageId] =
+			`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+			`/Resources << /Font << ${fontResources} >> >> /Contents ${pageId + 1} 0 R >>`;
+		objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+	});
+
+	// Everything is ASCII or escaped, so string lengths are byte offsets
+	const count = firstPageId + 2 * pageStreams.length;
+	let out = "%PDF-1.4\n";
+	const offsets = [];
+	for (let id = 1; id < count; id++) {
+		offsets[id] = out.length;
+		out += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+	}
+	const xrefOffset = out.length;
+	out += `xref\n0 ${count}\n0000000000 65535 f \n`;
+	for (let id = 1; id < count; id++) out += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+	out += `trailer\n<< /Size ${count} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+	return Buffer.from(out, "latin1");
+};
@@ -0,0 +1,284 @@
+// Rule-based extraction of the facts job seekers filter on: salary, location,
+// remote/hybrid/onsite, employment type, seniority and application deadline.
+// A schema.org JobPosting (see jobPage.js) states most of them outright and is
+// preferred field by field; the rest are read from the title and description.
+//
+//   { salary: { min, max, currency, period } | null, locations: string[],
+//     workArrangement, employmentType, seniority, deadline: "YYYY-MM-DD" | null }
+//
+// Salary amounts are annualized; `period` is how the posting quoted them.
+
+export const WORK_ARRANGEMENTS = ["remote", "hybrid", "onsite"];
+export const EMPLOYMENT_TYPES = ["full-time", "part-time", "contract", "temporary", "internship"];
+export const SENIORITY_LEVELS = ["intern", "entry", "mid", "senior", "lead", "manager", "director", "executive"];
+
+// ---- Salary ----
+
+const PERIODS_PER_YEAR = { hour: 2080, day: 260, week: 52, month: 12, year: 1 };
+
+const PERIOD_WORDS = [
+	["hour", /^(hour|hr|hourly)/i],
+	["day", /^(day|daily)/i],
+	["week", /^(week|weekly)/i],
+	["month", /^(month|monthly)/i],
+	["year", /^(year|yr|annum|annually|annual)/i],
+];
+
+const CURRENCIES = [
+	["CAD", /^(CA\$|C\$|CAD)$/i],
+	["AUD", /^(AU\$|A\$|AUD)$/i],
+	["GBP", /^(£|GBP)$/i],
+	["EUR", /^(€|EUR)$/i],
+	["USD", /^(US\$|\$|USD)$/i],
+];
+
+const CURRENCY = String.raw`(US\$|CA\$|C\$|AU\$|A\$|\$|£|€|USD|CAD|AUD|GBP|EUR)`;
+// "120,000", "45.50", "85k". The figure must end where the number does, or
+// "$50 million" backtracks to "$5" and slips past the lookahead; "$5 million"
+// is company news, not pay.
+const AMOUNT = String.raw`(\d{1,3}(?:,\d{3})+|\d+(?:\.\d+)?)(?!\d|[,.]\d)\s*(k\b)?(?!\s*(?:m\b|mm\b|million|billion|bn\b))`;
+// A bare figure counts only when a currency code follows it: "90,000 - 110,000 USD"
+const SALARY_PATTERN = new RegExp(
+	String.raw`(?:${CURRENCY}\s?|(?<![\w.,]))${AMOUNT}(?:\s*(?:-|–|—|to)\s*${CURRENCY}?\s?${AMOUNT})?` +
+		String.raw`(?:\s*(USD|CAD|AUD|GBP|EUR)\b)?(?:\s*(?:per|an|a|\/)?\s*(hours?|hr|hourly|days?|daily|weeks?|weekly|months?|monthly|years?|yr|annum|annually|annual)\b)?`,
+	"gi"
+);
+
+// Amounts that are perks or company news, judged from the words around them
+const NOT_PAY = /\b(stipends?|bonus(?:es)?|allowances?|reimburse\w*|budgets?|credits?|funding|raised|valuation|revenue|relocation|referral|equity|grants?)\b/i;
+const CONTEXT_CHARS = 40;
+
+// The clause an amount sits in, so "Salary $90,000. $2,000 bonus" judges each figure alone
+const surroundingClause = (text, start, end) => {
+	const before = text.slice(Math.max(0, start - CONTEXT_CHARS), start).split(/[.!?;]\s|\n/).pop();
+	const after = text.slice(end, end + CONTEXT_CHARS).split(/[.!?;](?:\s|$)|\n/)[0];
+	return `${before} ${after}`;
+};
+
+// Anything outside this once annualized is not a salary (or was misread)
+const MIN_ANNUAL_SALARY = 5000;
+const MAX_ANNUAL_SALARY = 2000000;
+
+const toAmount = (digits, thousands) => parseFloat(digits.replace(/,/g, "")) * (thousands ? 1000 : 1);
+
+// Bare figures are told apart by size: "$45" is hourly, "$4,500" monthly, "$90,000" yearly
+const inferPeriod = (amount) => (amount <= 300 ? "hour" : amount < 15000 ? "month" : "year");
+
+const currencyCode = (symbol) => CURRENCIES.find(([, pattern]) => pattern.test(symbol))?.[0] || "USD";
+
+const salaryFromText = (text) => {
+	for (const match of text.matchAll(SALARY_PATTERN)) {
+		const [, symbol, lowDigits, lowK, , highDigits, highK, code, periodWord] = match;
+		if (!symbol && !code) continue;
+		if (NOT_PAY.test(surroundingClause(text, match.index, match.index + match[0].length))) continue;
+		let low = toAmount(lowDigits, lowK);
+		let high = highDigits ? toAmount(highDigits, highK) : low;
+		// "$80-100k" puts the k on the upper figure only
+		if (highK && !lowK && low < 1000 && high >= 1000) low *= 1000;
+		if (high < low) [low, high] = [high, low];
+		const period = (periodWord && PERIOD_WORDS.find(([, pattern]) => pattern.test(periodWord))?.[0]) || inferPeriod(high);
+		const min = Math.round(low * PERIODS_PER_YEAR[period]);
+		const max = Math.round(high * PERIODS_PER_YEAR[period]);
+		if (min < MIN_ANNUAL_SALARY || max > MAX_ANNUAL_SALARY) continue;
+		return { min, max, currency: currencyCode(code || symbol), period };
+	}
+	return null;
+};
+
+// ---- Location and arrangement ----
+
+const LOCATION_LINE = /^[ \t]*(?:job[ \t]+|work[ \t]+|office[ \t]+)?locations?[ \t]*[:\-–][ \t]*(.+)$/gim;
+const MAX_LOCATIONS = 5;
+
+const locationsFromText = (text) => {
+	const locations = [];
+	for (const [, value] of text.matchAll(LOCATION_LINE)) {
+		for (const part of value.split(/;|\s\|\s|\s\/\s|\bor\b/)) {
+			const location = part.replace(/[.\s]+$/, "").trim();
+			// "Remote" and "Hybrid" are arrangements, not places
+			if (location && location.length <= 80 && !/^(remote|hybrid|on-?site|anywhere)$/i.test(location))
+				locations.push(location);
+		}
+	}
+	return [...new Set(locations)].slice(0, MAX_LOCATIONS);
+};
+
+const ON_SITE = String.raw`(?:on[- ]?site|in[- ]office|in[- ]person)`;
+
+// "Not a remote role" and "must work onsite" outrank a bare "remote" elsewhere,
+// while "remote with onsite visits" stays remote
+const ARRANGEMENT_RULES = [
+	["hybrid", /\bhybrid\b/i],
+	[
+		"onsite",
+		new RegExp(
+			String.raw`\b(?:not|isn't|no|non-)\s*(?:an?\s+)?(?:fully\s+|100%\s+)?remote\b` +
+				String.raw`|\b(?:fully|100%|entirely|strictly|only)\s+${ON_SITE}\b|\b${ON_SITE}\s+(?:only|role|position|job)\b` +
+				String.raw`|\b(?:must|required to|expected to)\s+(?:be|work)\s+${ON_SITE}\b`,
+			"i"
+		),
+	],
+	["remote", /\b(?<!not |non-|no )remote\b|\bwork(?:ing)? from home\b|\bwfh\b|\btelecommut/i],
+	["onsite", new RegExp(String.raw`\b${ON_SITE}\b`, "i")],
+];
+
+// The title is checked first: "Support Engineer (Remote)" settles it
+const workArrangementFrom = (title, text) => {
+	for (const source of [title, text]) {
+		const rule = ARRANGEMENT_RULES.find(([, pattern]) => pattern.test(source));
+		if (rule) return rule[0];
+	}
+	return null;
+};
+
+// ---- Employment type and seniority ----
+
+const EMPLOYMENT_RULES = [
+	["internship", /\binternships?\b|\bintern\b/i],
+	["part-time", /\bpart[- ]?time\b/i],
+	["contract", /\bcontract(?:or)?\b|\bfreelance\b|\bfixed[- ]term\b/i],
+	["temporary", /\btemporary\b|\btemp\b|\bseasonal\b/i],
+	["full-time", /\bfull[- ]?time\b|\bpermanent\b/i],
+];
+
+// The type mentioned first wins; postings state it up front and mention others later
+const employmentTypeFrom = (title, text) => {
+	const source = `${title}\n${text}`;
+	let best = null;
+	for (const [type, pattern] of EMPLOYMENT_RULES) {
+		const at = source.search(pattern);
+		if (at !== -1 && (!best || at < best.at)) best = { type, at };
+	}
+	return best?.type || null;
+};
+
+// Checked in order, so "Senior Manager" is a manager and "Senior Lead" a lead
+const TITLE_SENIORITY_RULES = [
+	["intern", /\bintern(ship)?\b/i],
+	["executive", /\b(chief|ceo|cto|cfo|coo|cio|vp|svp|evp|vice president)\b/i],
+	["director", /\b(director|head of)\b/i],
+	["manager", /\bmanager\b/i],
+	["lead", /\b(lead|principal|staff|architect)\b/i],
+	["senior", /\b(senior|sr\.?)(?=\s|$)/i],
+	["entry", /\b(junior|jr\.?|entry[- ]level|graduate|trainee|apprentice)(?=\s|$)/i],
+];
+
+const YEARS_OF_EXPERIENCE = /(\d{1,2})\+?\s*(?:(?:-|–|to)\s*\d{1,2}\s*)?years?(?:\s+of)?(?:\s+(?:relevant|professional|industry|related|hands-on|work))?\s+experience/i;
+
+const seniorityFrom = (title, text) => {
+	const rule = TITLE_SENIORITY_RULES.find(([, pattern]) => pattern.test(title));
+	if (rule) return rule[0];
+	if (/\bentry[- ]level\b|\bno experience (?:is )?(?:required|needed)\b/i.test(text)) return "entry";
+	const years = YEARS_OF_EXPERIENCE.exec(text);
+	if (!years) return null;
+	const minimum = Number(years[1]);
+	return minimum < 2 ? "entry" : minimum < 5 ? "mid" : minimum < 8 ? "senior" : "lead";
+};
+
+// ---- Deadline ----
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?`;
+const DEADLINE_CUE = String.raw`(?:apply (?:by|before)|application deadline|deadline(?: to apply)?|closing date|applications? (?:close[sd]?|due)(?: on| by)?|closes? on|accepting applications (?:until|through)|open until)\s*[:\-–]?\s*(?:on\s+)?(?:[a-z]+day,?\s+)?`;
+const DEADLINE_PATTERNS = [
+	// 2026-03-05
+	[new RegExp(`${DEADLINE_CUE}(\\d{4})-(\\d{2})-(\\d{2})`, "i"), (m) => [m[1], m[2], m[3]]],
+	// March 5, 2026
+	[new RegExp(`${DEADLINE_CUE}${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})`, "i"), (m) => [m[3], monthNumber(m[1]), m[2]]],
+	// 5 March 2026
+	[new RegExp(`${DEADLINE_CUE}(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH},?\\s+(\\d{4})`, "i"), (m) => [m[3], monthNumber(m[2]), m[1]]],
+];
+
+const monthNumber = (name) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+const isoDate = (year, month, day) => {
+	const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+	// Rejects impossible dates such as February 30
+	if (Number.isNaN(date.getTime()) || date.getUTCDate() !== Number(day)) return null;
+	return date.toISOString().slice(0, 10);
+};
+
+const deadlineFromText = (text) => {
+	for (const [pattern, parts] of DEADLINE_PATTERNS) {
+		const match = pattern.exec(text);
+		if (match) return isoDate(...parts(match));
+	}
+	return null;
+};
+
+// ---- schema.org JobPosting ----
+
+const SCHEMA_EMPLOYMENT_TYPES = {
+	FULL_TIME: "full-time",
+	PART_TIME: "part-time",
+	CONTRACTOR: "contract",
+	TEMPORARY: "temporary",
+	PER_DIEM: "temporary",
+	INTERN: "internship",
+};
+
+const numberOrNull = (value) => (Number.isFinite(Number(value)) && value !== "" && value !== null ? Number(value) : null);
+
+const salaryFromJobPosting = (posting) => {
+	const amount = posting.baseSalary || posting.estimatedSalary;
+	if (!amount || typeof amount !== "object") return null;
+	const value = typeof amount.value === "object" && amount.value ? amount.value : { value: amount.value };
+	const low = numberOrNull(value.minValue) ?? numberOrNull(value.value);
+	const high = numberOrNull(value.maxValue) ?? low;
+	if (low === null || high === null) return null;
+	const unit = String(value.unitText || amount.unitText || "").toLowerCase();
+	const period = PERIODS_PER_YEAR[unit] ? unit : inferPeriod(high);
+	const min = Math.round(Math.min(low, high) * PERIODS_PER_YEAR[period]);
+	const max = Math.round(Math.max(low, high) * PERIODS_PER_YEAR[period]);
+	if (min < MIN_ANNUAL_SALARY || max > MAX_ANNUAL_SALARY) return null;
+	return { min, max, currency: String(amount.currency || value.currency || "USD").toUpperCase(), period };
+};
+
+const placeName = (place) => {
+	const address = place?.address ?? place;
+	if (typeof address === "string") return address.trim();
+	if (!address || typeof address !== "object") return "";
+	const country = typeof address.addressCountry === "object" ? address.addressCountry?.name : address.addressCountry;
+	return [address.addressLocality, address.addressRegion, country]
+		.filter((part) => typeof part === "string" && part.trim())
+		.map((part) => part.trim())
+		.join(", ");
+};
+
+const factsFromJobPosting = (posting) => {
+	const types = [].concat(posting.employmentType || []).map((type) => SCHEMA_EMPLOYMENT_TYPES[String(type).toUpperCase()]);
+	const validThrough = posting.validThrough ? new Date(posting.validThrough) : null;
+	return {
+		salary: salaryFromJobPosting(posting),
+		locations: [...new Set([].concat(posting.jobLocation || []).map(placeName).filter(Boolean))].slice(0, MAX_LOCATIONS),
+		workArrangement: [].concat(posting.jobLocationType || []).includes("TELECOMMUTE") ? "remote" : null,
+		employmentType: types.find(Boolean) || null,
+		seniority: null,
+		deadline: validThrough && !Number.isNaN(validThrough.getTime()) ? validThrough.toISOString().slice(0, 10) : null,
+	};
+};
+
+/**
+ * Extracts the facts described above from a posting's title and description,
+ * preferring what a schema.org JobPosting (when given) says for each field.
+ */
+export const extractPostingFacts = ({ title = "", description = "", jobPosting = null }) => {
+	const fromText = {
+		salary: salaryFromText(description),
+		locations: locationsFromText(description),
+		workArrangement: workArrangementFrom(title, description),
+		employmentType: employmentTypeFrom(title, description),
+		seniority: seniorityFrom(title, description),
+		deadline: deadlineFromText(description),
+	};
+	if (!jobPosting) return fromText;
+	const fromPosting = factsFromJobPosting(jobPosting);
+	return {
+		salary: fromPosting.salary || fromText.salary,
+		locations: fromPosting.locations.length ? fromPosting.locations : fromText.locations,
+		workArrangement: fromPosting.workArrangement || fromText.workArrangement,
+		employmentType: fromPosting.employmentType || fromText.employmentType,
+		seniority: fromText.seniority,
+		deadline: fromPosting.deadline || fromText.deadline,
+	};
+};
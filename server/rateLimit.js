@@ -0,0 +1,29 @@
+// Per-client request limits for endpoints that make the server do outbound
+// work on a caller's behalf, such as fetching a posting's page. Counts are
+// kept in memory over fixed windows, which is enough for a single process.
+
+/**
+ * Express middleware allowing each client address `limit` requests per
+ * `windowMs`; beyond that it answers 429 with a Retry-After header.
+ * @param {Object} options
+ * @param {number} options.limit
+ * @param {number} options.windowMs
+ * @param {() => number} [options.now]
+ */
+export const createRateLimiter = ({ limit, windowMs, now = Date.now }) => {
+	const windows = new Map();
+
+	return (req, res, next) => {
+		const time = now();
+		// Expired windows are dropped as they're passed, so the map only holds active clients
+		for (const [key, window] of windows) if (window.resetAt <= time) windows.delete(key);
+
+		const key = req.ip || req.socket?.remoteAddress || "unknown";
+		const window = windows.get(key) || { count: 0, resetAt: time + windowMs };
+		window.count += 1;
+		windows.set(key, window);
+		if (window.count <= limit) return next();
+		res.set("Retry-After", String(Math.ceil((window.resetAt - time) / 1000)));
+		return res.status(429).json({ error: "Too many requests; try again shortly" });
+	};
+};
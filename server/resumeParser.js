@@ -0,0 +1,165 @@
+// Parses the app's plain-text resume format (see templateResumeContent) into a
+// typed model, and renders the model back to text. Rendering is lossless:
+// renderResume(parseResume(text)) === text for any input. Sections laid out the
+// way the template does it are rebuilt from their fields; any other section
+// also keeps its original lines in `raw`, which rendering then uses verbatim.
+//
+//   { version, lineEnding, header: string[], sections: ResumeSection[] }
+//
+// `header` holds the lines above the first heading (name, contact details).
+// Every section has { kind, heading, raw? } plus, by kind:
+//   experience:             entries: [{ title, company, dates: { start, end } | null, details, bullets }]
+//   education:              entries: [{ degree, school, details }]
+//   skills / certificates:  items: string[]
+//   other:                  lines: string[]
+
+// Bump when the model's shape or the parsing rules change, so stored parses are redone
+export const RESUME_MODEL_VERSION = 2;
+
+const KNOWN_HEADINGS =
+	/^(EDUCATION|SKILLS|TECHNICAL SKILLS|(WORK |PROFESSIONAL )?EXPERIENCE|EMPLOYMENT( HISTORY)?|CERTIFICATES|CERTIFICATIONS|LICENSES( (AND|&) CERTIFICATIONS)?|SUMMARY|PROFILE|OBJECTIVE|PROJECTS|LANGUAGES|AWARDS|VOLUNTEER(ING| EXPERIENCE)?)$/;
+
+const SECTION_KINDS = [
+	["experience", /EXPERIENCE|EMPLOYMENT|VOLUNTEER/],
+	["education", /EDUCATION/],
+	["skills", /SKILLS|LANGUAGES/],
+	["certificates", /CERTIFICAT|LICENSES|AWARDS/],
+];
+
+const BULLET_PATTERN = /^[-*•●▪◦‣]\s+/;
+// "Title | Company", also accepting dashes as the separator
+const TITLE_SEPARATOR = /\s+[|–—]\s+/;
+// "March 2023 - Present", "2019 – 2021", "Jun 2020 to Aug 2022"
+const DATE_RANGE =
+	/^((?:[A-Za-z]{3,9}\.?\s+)?(?:19|20)\d{2})(?:\s*(?:-|–|—|to)\s*((?:[A-Za-z]{3,9}\.?\s+)?(?:19|20)\d{2}|present|current|now))?$/i;
+
+const normalizeHeading = (line) => line.replace(/:$/, "").trim().toUpperCase();
+
+const isKnownHeading = (line) => KNOWN_HEADINGS.test(normalizeHeading(line));
+
+// Past the header, other short all-caps lines after a blank line are headings
+// too (an all-caps name at the top shouldn't be, nor "SQL" in a skills list)
+const isHeading = (line, previous) =>
+	isKnownHeading(line) ||
+	(!previous?.trim() && line === line.toUpperCase() && /^[A-Z][A-Z &/]{2,39}$/.test(line.trim()));
+
+const sectionKind = (heading) =>
+	SECTION_KINDS.find(([, pattern]) => pattern.test(normalizeHeading(heading)))?.[0] || "other";
+
+const stripBullet = (line) => line.trim().replace(BULLET_PATTERN, "");
+
+// Runs of non-blank lines
+const groupsOf = (lines) => {
+	const groups = [];
+	let current = [];
+	for (const line of lines) {
+		if (line.trim()) current.push(line);
+		else if (current.length) {
+			groups.push(current);
+			current = [];
+		}
+	}
+	if (current.length) groups.push(current);
+	return groups;
+};
+
+const parseExperienceEntry = ([first, ...rest]) => {
+	const [title, ...company] = first.trim().split(TITLE_SEPARATOR);
+	const dateMatch = rest.length ? DATE_RANGE.exec(rest[0].trim()) : null;
+	const body = dateMatch ? rest.slice(1) : rest;
+	return {
+		title,
+		company: company.join(" | "),
+		dates: dateMatch ? { start: dateMatch[1], end: dateMatch[2] || "" } : null,
+		details: body.filter((line) => !BULLET_PATTERN.test(line.trim())).map((line) => line.trim()),
+		bullets: body.filter((line) => BULLET_PATTERN.test(line.trim())).map(stripBullet),
+	};
+};
+
+const parseEducationEntry = ([degree, school = "", ...details]) => ({
+	degree: degree.trim(),
+	school: school.trim(),
+	details: details.map((line) => line.trim()),
+});
+
+const withoutTrailingBlankLines = (lines) => {
+	let end = lines.length;
+	while (end > 0 && !lines[end - 1].trim()) end--;
+	return lines.slice(0, end);
+};
+
+const parseSection = (heading, body) => {
+	const kind = sectionKind(heading);
+	switch (kind) {
+		case "experience":
+			return { kind, heading, entries: groupsOf(body).map(parseExperienceEntry) };
+		case "education":
+			return { kind, heading, entries: groupsOf(body).map(parseEducationEntry) };
+		case "skills":
+		case "certificates":
+			return { kind, heading, items: body.filter((line) => line.trim()).map(stripBullet) };
+		default:
+			return { kind, heading, lines: withoutTrailingBlankLines(body) };
+	}
+};
+
+// The section's body laid out the way templateResumeContent does it
+const canonicalBody = (section) => {
+	switch (section.kind) {
+		case "experience":
+			return section.entries.flatMap((entry, i) => [
+				...(i ? [""] : []),
+				entry.company ? `${entry.title} | ${entry.company}` : entry.title,
+				...(entry.dates ? [entry.dates.end ? `${entry.dates.start} - ${entry.dates.end}` : entry.dates.start] : []),
+				...entry.details,
+				...entry.bullets.map((bullet) => `- ${bullet}`),
+			]);
+		case "education":
+			return section.entries.flatMap((entry, i) => [
+				...(i ? [""] : []),
+				entry.degree,
+				...(entry.school ? [entry.school] : []),
+				...entry.details,
+			]);
+		case "skills":
+		case "certificates":
+			return section.items;
+		default:
+			return section.lines;
+	}
+};
+
+// Sections other than the last end with one blank line before the next heading
+const sectionLines = (section, isLast) =>
+	section.raw || [section.heading, ...canonicalBody(section), ...(isLast ? [] : [""])];
+
+/** Parses resume text into the structured model described above. */
+export const parseResume = (text) => {
+	const source = String(text ?? "");
+	// Text pasted from Windows uses CRLF throughout; mixed endings stay in the lines
+	const lineEnding = source.includes("\r\n") && !/(^|[^\r])\n/.test(source) ? "\r\n" : "\n";
+	const lines = source.split(lineEnding);
+	const first = lines.findIndex(isKnownHeading);
+	if (first === -1) return { version: RESUME_MODEL_VERSION, lineEnding, header: lines, sections: [] };
+
+	const starts = [first];
+	for (let i = first + 1; i < lines.length; i++) if (isHeading(lines[i], lines[i - 1])) starts.push(i);
+
+	const sections = starts.map((start, index) => {
+		const end = starts[index + 1] ?? lines.length;
+		const sectionSource = lines.slice(start, end);
+		const section = parseSection(sectionSource[0], sectionSource.slice(1));
+		const isLast = index === starts.length - 1;
+		const rendered = sectionLines(section, isLast);
+		const isCanonical =
+			rendered.length === sectionSource.length && rendered.every((line, i) => line === sectionSource[i]);
+		return isCanonical ? section : { ...section, raw: sectionSource };
+	});
+	return { version: RESUME_MODEL_VERSION, lineEnding, header: lines.slice(0, first), sections };
+};
+
+/** Renders the model back to text; the exact input for a model from parseResume. */
+export const renderResume = (model) =>
+	[...model.header, ...model.sections.flatMap((section, i) => sectionLines(section, i === model.sections.length - 1))].join(
+		model.lineEnding || "\n"
+	);
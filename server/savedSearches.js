@@ -0,0 +1,151 @@
+import { analyzeOffline } from "./offlineAnalyzer.js";
+import { MIN_DESCRIPTION_LENGTH, fetchJobPage, readJobPosting } from "./jobPage.js";
+import { escapeRegExp } from "./text.js";
+import { canonicalJobUrl } from "../services/jobUrl.js";
+
+// Saved searches are run against their sources on a schedule; listings a
+// search hasn't returned before become hits in its owner's inbox. Storing the
+// searches and hits is left to server.js: this module runs one poll.
+
+export const HIRING_CAFE_SOURCE = "hiring.cafe";
+export const POLL_INTERVALS_MINUTES = [60, 360, 1440];
+// Listing keys remembered per search; ones forgotten beyond this may come back as new
+export const MAX_SEEN_KEYS = 2000;
+// New hits kept per poll; the rest are picked up by the next one
+export const MAX_HITS_PER_POLL = 25;
+// Longest wait between polls of a search that keeps failing
+export const MAX_RETRY_DELAY_MINUTES = 24 * 60;
+
+/** Minutes until a search is polled again: its interval, doubled for each poll in a row that failed. */
+export const nextPollDelayMinutes = (intervalMinutes, failedPolls = 0) =>
+	Math.min(intervalMinutes * 2 ** Math.max(0, failedPolls - 1), Math.max(intervalMinutes, MAX_RETRY_DELAY_MINUTES));
+
+const HIRING_CAFE_RESULTS = 100;
+// The most a job-site adapter returns per page
+const JOB_SITE_RESULTS = 25;
+const MAX_SNIPPET_LENGTH = 300;
+
+const snippetOf = (text) => {
+	const flat = text.replace(/\s+/g, " ").trim();
+	return flat.length > MAX_SNIPPET_LENGTH ? `${flat.slice(0, MAX_SNIPPET_LENGTH - 1)}…` : flat;
+};
+
+// Job-site listings have no tags, so a tag must appear in the listing's text
+const mentionsAllTags = (listing, tags) => {
+	const text = `${listing.title} ${listing.company} ${listing.snippet}`;
+	return tags.every((tag) => new RegExp(`(^|[^a-z0-9])${escapeRegExp(tag)}(?![a-z0-9])`, "i").test(text));
+};
+
+// The posting's text, for scoring listings that only came with a snippet
+const readDescription = async (url) => {
+	try {
+		const posting = readJobPosting(await fetchJobPage(url));
+		return posting && (posting.source === "jsonLd" || posting.text.length >= MIN_DESCRIPTION_LENGTH) ? posting.text : "";
+	} catch (e) {
+		return "";
+	}
+};
+
+/**
+ * @param {Object} options
+ * @param {{ search: Function }} options.hiringCafe - See hiringCafe.js.
+ * @param {{ getAdapter: Function, search: Function }} options.jobSearch - See jobSources/index.js.
+ * @param {{ analyze: Function }} options.analyzer - See analyzer.js.
+ * @param {Object|null} options.llm - Job sites that need web search are skipped without one that has it.
+ */
+export const createSearchPoller = ({ hiringCafe, jobSearch, analyzer, llm }) => {
+	// Resolves to listings as { title, company, url, location, snippet, description, postedAt, source }
+	const runSource = async (source, { keywords, tags, location }) => {
+		if (source === HIRING_CAFE_SOURCE) {
+			const { jobs } = await hiringCafe.search({ q: keywords, location, tags, page: 1, pageSize: HIRING_CAFE_RESULTS });
+			return jobs.map((job) => ({
+				title: job.title,
+				company: job.company_name,
+				url: job.url,
+				location: job.location,
+				snippet: snippetOf(job.description),
+				description: job.description,
+				postedAt: job.posted_at || "",
+				source,
+			}));
+		}
+		const adapter = jobSearch.getAdapter(source);
+		if (!adapter) throw new Error("no job source is configured for it");
+		if (!keywords) throw new Error("it can only be searched by keywords");
+		if (adapter.requiresModel && !llm?.capabilities.webSearch) throw new Error("it needs a model provider with web search");
+		const query = [keywords, location].filter(Boolean).join(" ");
+		const { jobs } = await jobSearch.search(adapter, { query, page: 1, pageSize: JOB_SITE_RESULTS });
+		return jobs
+			.filter((listing) => mentionsAllTags(listing, tags))
+			.map((listing) => ({
+				title: listing.title,
+				company: listing.company,
+				url: listing.url,
+				location: listing.location || "",
+				snippet: listing.snippet,
+				description: "",
+				postedAt: listing.postedAt || "",
+				source,
+			}));
+	};
+
+	// Sets `matchScore` (and `analysis` when auto-analyzing) on a hit
+	const scoreHit = async (hit, { resumeText, autoAnalyze }) => {
+		const description = hit.description || (await readDescription(hit.url));
+		if (description) hit.description = description;
+		const jobDescription = description || [hit.title, hit.company, hit.snippet].filter(Boolean).join("\n");
+		if (autoAnalyze) {
+			const { result } = await analyzer.analyze(resumeText, jobDescription);
+			hit.analysis = result;
+			hit.matchScore = result.matchScore;
+		} else {
+			// The minimum score alone is checked locally rather than spending model calls
+			hit.matchScore = analyzeOffline(resumeText, jobDescription).matchScore;
+		}
+	};
+
+	return {
+		/**
+		 * Runs `search` ({ keywords, tags, location, sources, minMatchScore,
+		 * autoAnalyze }) once. Listings whose keys are in `seen` or `excluded`
+		 * (e.g. jobs already on the dashboard) are skipped. Without `resumeText`,
+		 * hits are neither analyzed nor held to the minimum score.
+		 *
+		 * Resolves to { hits, seenKeys, errors }: `seenKeys` are the keys this
+		 * poll dealt with, including hits that fell below the minimum score;
+		 * `errors` has one message per source that failed.
+		 */
+		poll: async (search, { seen = new Set(), excluded = new Set(), resumeText = "" } = {}) => {
+			const errors = [];
+			const fresh = new Map();
+			for (const source of search.sources) {
+				try {
+					for (const listing of await runSource(source, search)) {
+						const key = canonicalJobUrl(listing.url);
+						if (!seen.has(key) && !excluded.has(key) && !fresh.has(key)) fresh.set(key, { key, ...listing });
+					}
+				} catch (err) {
+					console.warn(`Saved search "${search.name}": ${source} failed:`, err.message);
+					errors.push(`${source}: ${err.message}`);
+				}
+			}
+
+			const candidates = [...fresh.values()].slice(0, MAX_HITS_PER_POLL);
+			const shouldScore = Boolean(resumeText) && (search.autoAnalyze || search.minMatchScore > 0);
+			const hits = [];
+			for (const hit of candidates) {
+				if (shouldScore) {
+					try {
+						await scoreHit(hit, { resumeText, autoAnalyze: search.autoAnalyze });
+					} catch (err) {
+						// Kept unscored rather than lost
+						console.warn(`Saved search "${search.name}": couldn't analyze ${hit.url}:`, err.message);
+					}
+				}
+				if (typeof hit.matchScore === "number" && hit.matchScore < search.minMatchScore) continue;
+				hits.push(hit);
+			}
+			return { hits, seenKeys: candidates.map((hit) => hit.key), errors };
+		},
+	};
+};
@@ -0,0 +1,65 @@
+// Curated skill vocabulary for the offline analyzer. Each entry lists the
+// phrasings that count as a mention and a short definition that is shown as
+// the keyword tooltip in MatchResult. Work arrangements (remote, hybrid,
+// on-site) are facts about the posting, not skills, and are left out.
+
+export const SKILLS = [
+	// IT support & infrastructure
+	{ keyword: "IT Support", aliases: ["it support", "technical support", "tech support", "desktop support"], category: "IT support", definition: "Helping users resolve hardware, software and account problems." },
+	{ keyword: "Help Desk", aliases: ["help desk", "helpdesk", "service desk"], category: "IT support", definition: "A first point of contact that logs and resolves user support requests." },
+	{ keyword: "Troubleshooting", aliases: ["troubleshoot", "troubleshooting", "diagnose", "diagnosing"], category: "IT support", definition: "Systematically finding and fixing the cause of a technical problem." },
+	{ keyword: "Ticketing Systems", aliases: ["ticketing", "ticket", "tickets", "servicenow", "jira service", "zendesk"], category: "IT support", definition: "Tools for tracking support requests from intake to resolution." },
+	{ keyword: "Networking", aliases: ["network", "networking", "tcp/ip", "dns", "dhcp", "lan", "wan", "vpn"], category: "IT support", definition: "Configuring and troubleshooting how devices connect and communicate." },
+	{ keyword: "Cybersecurity", aliases: ["cybersecurity", "security protocols", "information security", "data protection", "security best practices"], category: "IT support", definition: "Protecting systems and data from unauthorized access and attacks." },
+	{ keyword: "Active Directory", aliases: ["active directory", "azure ad", "entra id"], category: "IT support", definition: "Microsoft's directory service for managing users, groups and permissions." },
+	{ keyword: "Microsoft 365", aliases: ["microsoft 365", "office 365", "o365", "microsoft office", "ms office", "outlook"], category: "IT support", definition: "Microsoft's productivity suite, including Outlook, Excel and Teams." },
+	{ keyword: "Windows", aliases: ["windows", "windows 10", "windows 11"], category: "IT support", definition: "Microsoft's desktop operating system." },
+	{ keyword: "macOS", aliases: ["macos", "mac os", "apple devices"], category: "IT support", definition: "Apple's desktop operating system." },
+	{ keyword: "Mobile Devices", aliases: ["mobile", "ipad", "iphone", "android", "mobile devices"], category: "IT support", definition: "Phones and tablets, including setup, management and troubleshooting." },
+	{ keyword: "Hardware", aliases: ["hardware", "laptop", "laptops", "printer", "printers", "peripherals"], category: "IT support", definition: "Physical computing equipment such as laptops, printers and peripherals." },
+	{ keyword: "Cloud Platforms", aliases: ["cloud", "cloud-based", "aws", "azure", "google cloud", "gcp"], category: "IT support", definition: "Hosted computing services such as AWS, Azure or Google Cloud." },
+	{ keyword: "Data Backup", aliases: ["backup", "backups", "data backup", "disaster recovery"], category: "IT support", definition: "Copying data so it can be restored after loss or failure." },
+
+	// Sales & customer
+	{ keyword: "CRM", aliases: ["crm", "customer relationship management", "customer relation management", "hubspot"], category: "sales", definition: "Customer Relationship Management software for tracking leads, customers and deals." },
+	{ keyword: "Salesforce", aliases: ["salesforce"], category: "sales", definition: "A widely used cloud CRM platform." },
+	{ keyword: "Lead Qualification", aliases: ["lead qualification", "qualify leads", "qualifying leads", "qualified leads", "qualify customer needs", "qualifying new leads"], category: "sales", definition: "Assessing whether a prospect is a good fit before investing sales effort." },
+	{ keyword: "Prospecting", aliases: ["prospecting", "outbound", "cold calling", "cold call", "door-to-door", "lead generation"], category: "sales", definition: "Proactively finding and contacting potential customers." },
+	{ keyword: "Inbound Sales", aliases: ["inbound"], category: "sales", definition: "Handling customers who reach out to the company first." },
+	{ keyword: "Consultative Selling", aliases: ["consultative", "solution selling", "discovery", "needs analysis", "pain points"], category: "sales", definition: "Selling by understanding customer needs and recommending tailored solutions." },
+	{ keyword: "Sales Proposals", aliases: ["proposal", "proposals", "quotes", "quoting"], category: "sales", definition: "Written offers that match a product or service to a customer's needs." },
+	{ keyword: "Sales Targets", aliases: ["quota", "quotas", "sales targets", "sales goals", "revenue targets"], category: "sales", definition: "Measurable revenue or volume goals a salesperson is accountable for." },
+	{ keyword: "Account Management", aliases: ["account management", "account manager", "client relationships", "customer relationships"], category: "sales", definition: "Maintaining and growing relationships with existing customers." },
+	{ keyword: "Customer Service", aliases: ["customer service", "customer support", "customer experience", "customer satisfaction", "client service"], category: "customer", definition: "Helping customers before, during and after a purchase." },
+	{ keyword: "Retail", aliases: ["retail", "store", "in-store"], category: "customer", definition: "Selling products or services directly to consumers." },
+
+	// Data & analytics
+	{ keyword: "Data Analysis", aliases: ["data analysis", "analyze data", "analyzed", "analyzing", "data analytics", "analytics"], category: "data", definition: "Inspecting and modeling data to find useful information." },
+	{ keyword: "SQL", aliases: ["sql", "mysql", "postgresql", "postgres", "t-sql"], category: "data", definition: "The standard language for querying relational databases." },
+	{ keyword: "Python", aliases: ["python", "pandas"], category: "data", definition: "A general-purpose programming language popular for data work and automation." },
+	{ keyword: "Excel", aliases: ["excel", "spreadsheets", "pivot tables", "vlookup"], category: "data", definition: "Spreadsheet software for organizing and analyzing data." },
+	{ keyword: "Dashboards & Reporting", aliases: ["dashboard", "dashboards", "reporting", "reports", "tableau", "power bi", "looker"], category: "data", definition: "Presenting metrics visually so teams can track performance." },
+	{ keyword: "Data Management", aliases: ["data management", "data storage", "data integrity", "data quality", "large data sets", "data sets", "datasets"], category: "data", definition: "Organizing, storing and maintaining the quality of data." },
+
+	// Software development
+	{ keyword: "JavaScript", aliases: ["javascript", "js"], category: "software", definition: "The programming language of the web." },
+	{ keyword: "TypeScript", aliases: ["typescript"], category: "software", definition: "JavaScript with static types, compiled to plain JavaScript." },
+	{ keyword: "HTML & CSS", aliases: ["html", "css"], category: "software", definition: "The languages used to structure and style web pages." },
+	{ keyword: "Node.js", aliases: ["node.js", "nodejs", "node"], category: "software", definition: "A runtime for running JavaScript on servers." },
+	{ keyword: "Git", aliases: ["git", "github", "gitlab", "version control"], category: "software", definition: "Version control for tracking and collaborating on code changes." },
+	{ keyword: "Testing", aliases: ["jest", "unit testing", "test automation", "qa"], category: "software", definition: "Verifying software behaves as intended." },
+	{ keyword: "Agile/Scrum", aliases: ["agile", "scrum", "scrummaster", "sprint", "sprints", "kanban"], category: "software", definition: "Iterative ways of planning and delivering work in short cycles." },
+
+	// Operations & logistics
+	{ keyword: "Logistics", aliases: ["logistics", "supply chain", "inventory", "shipping", "warehouse"], category: "operations", definition: "Planning and managing the movement and storage of goods." },
+	{ keyword: "Process Improvement", aliases: ["process improvement", "streamline", "streamlined", "workflow efficiency", "continuous improvement", "lean", "six sigma"], category: "operations", definition: "Making recurring work faster, cheaper or more reliable." },
+	{ keyword: "Project Management", aliases: ["project management", "project manager", "pmp", "stakeholders"], category: "operations", definition: "Planning, coordinating and delivering work to a goal and deadline." },
+
+	// Professional skills
+	{ keyword: "Communication", aliases: ["communication", "communicate", "communicating", "interpersonal"], category: "professional", definition: "Conveying information clearly in writing and conversation." },
+	{ keyword: "Bilingual (Spanish)", aliases: ["bilingual", "spanish"], category: "professional", definition: "Fluency in both English and Spanish." },
+	{ keyword: "Problem Solving", aliases: ["problem-solving", "problem solving", "critical thinking", "analytical"], category: "professional", definition: "Breaking down issues and working out effective solutions." },
+	{ keyword: "Collaboration", aliases: ["collaborate", "collaborated", "collaboration", "cross-functional", "teamwork"], category: "professional", definition: "Working effectively with others toward a shared goal." },
+	{ keyword: "Training & Education", aliases: ["training", "educating", "educate", "onboarding", "coaching"], category: "professional", definition: "Teaching customers or colleagues how to use products and processes." },
+	{ keyword: "Documentation", aliases: ["documentation", "document", "knowledge base", "records"], category: "professional", definition: "Writing down procedures, fixes and records so others can rely on them." },
+];
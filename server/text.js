@@ -0,0 +1,40 @@
+// Text helpers shared by the offline analyzer and other rule-based features
+
+export const STOPWORDS = new Set(
+	`a about above across after again against all also am an and any are as at be
+	because been before being below between both but by can could did do does doing
+	down during each etc few for from further had has have having he her here hers
+	him his how i if in into is it its itself just like may me more most must my
+	no nor not now of off on once only or other our ours out over own per plus
+	same she should so some such than that the their them then there these they
+	this those through to too under until up upon us very via was we well were
+	what when where which while who whom why will with within without would you
+	your yours able ability across using use used work working works job role
+	position team teams candidate candidates company including include includes
+	new strong excellent great good ideal preferred required requirements
+	responsibilities qualifications experience years year day days time
+	looking seeking join help helping ensure ensuring provide providing support
+	supporting related relevant other others every etc various multiple`.split(/\s+/)
+);
+
+/** Lowercases and splits text into word tokens, keeping tech symbols like c++ and c#. */
+export const tokenize = (text) =>
+	(text.toLowerCase().match(/[a-z0-9][a-z0-9+#.\-/]*[a-z0-9+#]|[a-z0-9]/g) || []).map(
+		(token) => token.replace(/[.\-/]+$/, "")
+	);
+
+/** Very light suffix stripping so "troubleshooting" matches "troubleshoot". */
+export const stem = (token) => {
+	if (token.length <= 4 || /[^a-z]/.test(token)) return token;
+	return token
+		.replace(/(ies)$/, "y")
+		.replace(/(ing|ed|es|s)$/, "")
+		.replace(/(ment|ness)$/, "");
+};
+
+export const contentTokens = (text) =>
+	tokenize(text).filter((token) => token.length > 1 && !STOPWORDS.has(token));
+
+export const stemmedTokenSet = (text) => new Set(contentTokens(text).map(stem));
+
+export const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
@@ -0,0 +1,156 @@
+import zlib from "zlib";
+
+// Minimal ZIP reader and writer used for Office Open XML documents (.docx).
+// Only the "stored" and "deflate" compression methods are supported, which
+// covers every file Word and Google Docs produce.
+
+const END_OF_CENTRAL_DIR_SIGNATURE = 0x06054b50;
+const CENTRAL_DIR_ENTRY_SIGNATURE = 0x02014b50;
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+
+// A Word document's XML is rarely more than a few MB; past this an entry is
+// treated as a ZIP bomb rather than inflated
+export const MAX_ENTRY_BYTES = 32 * 1024 * 1024;
+
+export class ZipEntryTooLargeError extends Error {
+	constructor(name) {
+		super(`ZIP entry ${name} is too large to read`);
+		this.name = "ZipEntryTooLargeError";
+	}
+}
+
+const findEndOfCentralDirectory = (buffer) => {
+	// The record is at least 22 bytes and may be followed by a comment of up to 64KB
+	const minOffset = Math.max(0, buffer.length - 22 - 0xffff);
+	for (let i = buffer.length - 22; i >= minOffset; i--) {
+		if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIR_SIGNATURE) return i;
+	}
+	return -1;
+};
+
+/**
+ * Lists the entries of a ZIP archive without decompressing them.
+ * Returns an array of { name, method, compressedSize, uncompressedSize, localHeaderOffset }.
+ */
+export const listZipEntries = (buffer) => {
+	const eocd = findEndOfCentralDirectory(buffer);
+	if (eocd === -1) throw new Error("Not a ZIP archive");
+
+	const entryCount = buffer.readUInt16LE(eocd + 10);
+	let offset = buffer.readUInt32LE(eocd + 16);
+	const entries = [];
+	for (let i = 0; i < entryCount; i++) {
+		if (buffer.readUInt32LE(offset) !== CENTRAL_DIR_ENTRY_SIGNATURE)
+			throw new Error("Corrupt ZIP central directory");
+		const method = buffer.readUInt16LE(offset + 10);
+		const compressedSize = buffer.readUInt32LE(offset + 20);
+		const uncompressedSize = buffer.readUInt32LE(offset + 24);
+		const nameLength = buffer.readUInt16LE(offset + 28);
+		const extraLength = buffer.readUInt16LE(offset + 30);
+		const commentLength = buffer.readUInt16LE(offset + 32);
+		const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+		const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+		entries.push({ name, method, compressedSize, uncompressedSize, localHeaderOffset });
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+	return entries;
+};
+
+/**
+ * Returns the decompressed contents of the named entry, or null if the
+ * archive does not contain it. Throws ZipEntryTooLargeError when the entry
+ * declares, or inflates to, more than its declared size or `maxSize` bytes.
+ */
+export const readZipEntry = (buffer, name, { maxSize = MAX_ENTRY_BYTES } = {}) => {
+	const entry = listZipEntries(buffer).find((e) => e.name === name);
+	if (!entry) return null;
+	if (entry.uncompressedSize > maxSize) throw new ZipEntryTooLargeError(name);
+
+	const header = entry.localHeaderOffset;
+	if (buffer.readUInt32LE(header) !== LOCAL_FILE_HEADER_SIGNATURE)
+		throw new Error(`Corrupt ZIP entry: ${name}`);
+	const nameLength = buffer.readUInt16LE(header + 26);
+	const extraLength = buffer.readUInt16LE(header + 28);
+	const start = header + 30 + nameLength + extraLength;
+	const data = buffer.subarray(start, start + entry.compressedSize);
+
+	if (entry.method === 0) return Buffer.from(data);
+	if (entry.method === 8) {
+		try {
+			// The declared size can't be trusted, so inflating stops once it is passed
+			return zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, entry.uncompressedSize) });
+		} catch (err) {
+			if (err.code === "ERR_BUFFER_TOO_LARGE") throw new ZipEntryTooLargeError(name);
+			throw err;
+		}
+	}
+	throw new Error(`Unsupported ZIP compression method ${entry.method}`);
+};
+
+// --- Writing ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	return c >>> 0;
+});
+
+const crc32 = (buffer) => {
+	let crc = 0xffffffff;
+	for (const byte of buffer) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Builds a ZIP archive from [{ name, data }] (data is a string or Buffer).
+ * Entries are deflated; timestamps are left at the DOS epoch so the same
+ * input always produces the same bytes.
+ */
+export const createZip = (files) => {
+	const localParts = [];
+	const centralParts = [];
+	let offset = 0;
+	for (const { name, data } of files) {
+		const nameBytes = Buffer.from(name, "utf8");
+		const content = Buffer.isBuffer(data) ? data : Buffer.from(data, "utf8");
+		const compressed = zlib.deflateRawSync(content);
+		const crc = crc32(content);
+
+		const local = Buffer.alloc(30);
+		local.writeUInt32LE(LOCAL_FILE_HEADER_SIGNATURE, 0);
+		local.writeUInt16LE(20, 4); // version needed to extract
+		local.writeUInt16LE(0x0800, 6); // UTF-8 names
+		local.writeUInt16LE(8, 8); // deflate
+		local.writeUInt16LE(0x21, 12); // 1980-01-01
+		local.writeUInt32LE(crc, 14);
+		local.writeUInt32LE(compressed.length, 18);
+		local.writeUInt32LE(content.length, 22);
+		local.writeUInt16LE(nameBytes.length, 26);
+		localParts.push(local, nameBytes, compressed);
+
+		const central = Buffer.alloc(46);
+		central.writeUInt32LE(CENTRAL_DIR_ENTRY_SIGNATURE, 0);
+		central.writeUInt16LE(20, 4); // version made by
+		central.writeUInt16LE(20, 6);
+		central.writeUInt16LE(0x0800, 8);
+		central.writeUInt16LE(8, 10);
+		central.writeUInt16LE(0x21, 14);
+		central.writeUInt32LE(crc, 16);
+		central.writeUInt32LE(compressed.length, 20);
+		central.writeUInt32LE(content.length, 24);
+		central.writeUInt16LE(nameBytes.length, 28);
+		central.writeUInt32LE(offset, 42);
+		centralParts.push(central, nameBytes);
+
+		offset += local.length + nameBytes.length + compressed.length;
+	}
+
+	const centralDirectory = Buffer.concat(centralParts);
+	const end = Buffer.alloc(22);
+	end.writeUInt32LE(END_OF_CENTRAL_DIR_SIGNATURE, 0);
+	end.writeUInt16LE(files.length, 8);
+	end.writeUInt16LE(files.length, 10);
+	end.writeUInt32LE(centralDirectory.length, 12);
+	end.writeUInt32LE(offset, 16);
+	return Buffer.concat([...localParts, centralDirectory, end]);
+};
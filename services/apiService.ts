@@ -1,8 +1,14 @@
 import { v4 as uuidv4 } from 'uuid';
-import { SavedResume } from '../types';
+import { SavedResume, ResumeRevision, StoredJob, ApplicationStatus, AnalysisRecord, JobAnalysis, StructuredResume, Agency, AgencyInput, NewAgencyInteraction } from '../types';
 import { templateResumeContent } from '../data/defaultData';
+import { authHeaders } from './authService';
 
 const STORAGE_KEY = 'savedResumes_db_mock';
+const REVISIONS_STORAGE_KEY = 'resumeRevisions_db_mock';
+const JOBS_STORAGE_KEY = 'savedJobs_db_mock';
+const ANALYSES_STORAGE_KEY = 'analysisHistory_db_mock';
+const AGENCIES_STORAGE_KEY = 'agencies_db_mock';
+const MAX_LOCAL_ANALYSES = 200;
 const API_BASE = '/api';
 
 // --- LOCAL MOCK HELPERS (used as fallback when server is unavailable) ---
@@ -30,10 +36,75 @@ const writeLocalResumes = (resumes: SavedResume[]) => {
     localStorage.setItem(STORAGE_KEY, JSON.stringify(resumes));
 };
 
+// Revisions are kept apart from the resumes, keyed by resume id, oldest first
+const readLocalRevisions = (resume: SavedResume): ResumeRevision[] => {
+    const all = JSON.parse(localStorage.getItem(REVISIONS_STORAGE_KEY) || '{}') as Record<string, ResumeRevision[]>;
+    // Resumes saved before revisions existed start with their current content
+    return all[resume._id] || [{ revision: resume.revision || 1, content: resume.content, savedAt: resume.savedAt }];
+};
+
+const writeLocalRevisions = (id: string, revisions: ResumeRevision[] | null) => {
+    const all = JSON.parse(localStorage.getItem(REVISIONS_STORAGE_KEY) || '{}') as Record<string, ResumeRevision[]>;
+    if (revisions) all[id] = revisions;
+    else delete all[id];
+    localStorage.setItem(REVISIONS_STORAGE_KEY, JSON.stringify(all));
+};
+
+// Mirrors the server: new content becomes the next revision
+const addLocalRevision = (resume: SavedResume, content: string, restoredFrom?: number): SavedResume => {
+    const revisions = readLocalRevisions(resume);
+    const revision = Math.max(...revisions.map(r => r.revision)) + 1;
+    const savedAt = new Date().toISOString();
+    writeLocalRevisions(resume._id, [...revisions, { revision, content, savedAt, ...(restoredFrom ? { restoredFrom } : {}) }]);
+    return { ...resume, content, revision, savedAt };
+};
+
+const readLocalJobs = (): StoredJob[] => {
+    return JSON.parse(localStorage.getItem(JOBS_STORAGE_KEY) || '[]') as StoredJob[];
+};
+
+const writeLocalJobs = (jobs: StoredJob[]) => {
+    localStorage.setItem(JOBS_STORAGE_KEY, JSON.stringify(jobs));
+};
+
+const readLocalAgencies = (): Agency[] => {
+    return JSON.parse(localStorage.getItem(AGENCIES_STORAGE_KEY) || '[]') as Agency[];
+};
+
+const writeLocalAgencies = (agencies: Agency[]) => {
+    localStorage.setItem(AGENCIES_STORAGE_KEY, JSON.stringify(agencies));
+};
+
+const readLocalAnalyses = (): AnalysisRecord[] => {
+    return JSON.parse(localStorage.getItem(ANALYSES_STORAGE_KEY) || '[]') as AnalysisRecord[];
+};
+
+// Local stand-in for the server's resume hash: only needs to tell revisions apart
+const hashText = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (const char of text.replace(/[ \t]+$/gm, '').trim()) {
+        hash ^= char.codePointAt(0)!;
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
 // --- API functions (primary) ---
+// The server answered with an error status; `message` is its `error` when it sent one
+export class ApiError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// Signed-out requests get a 401 and fall back to localStorage like any other failure
 async function tryFetchJson<T>(input: RequestInfo, init?: RequestInit): Promise<T> {
-    const resp = await fetch(input, init);
-    if (!resp.ok) throw new Error(`HTTP ${resp.status} ${resp.statusText}`);
+    const resp = await fetch(input, { ...init, headers: { ...authHeaders(), ...init?.headers } });
+    if (!resp.ok) {
+        const data = await resp.json().catch(() => null);
+        throw new ApiError(data?.error || `HTTP ${resp.status} ${resp.statusText}`, resp.status);
+    }
     return (await resp.json()) as T;
 }
 
@@ -48,6 +119,22 @@ export const getResumes = async (): Promise<SavedResume[]> => {
     }
 };
 
+// The parser lives on the server; when it can't be reached, a local resume is
+// kept without a parsed form rather than with one for older content
+const withStructure = async ({ structured, ...resume }: SavedResume): Promise<SavedResume> => {
+    try {
+        const parsed = await tryFetchJson<StructuredResume>(`${API_BASE}/parse-resume`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ content: resume.content }),
+        });
+        return { ...resume, structured: parsed };
+    } catch (err) {
+        console.warn('withStructure: could not parse resume on the server', err);
+        return resume;
+    }
+};
+
 export const saveResume = async (resumeData: Omit<SavedResume, '_id' | 'savedAt'>): Promise<SavedResume> => {
     try {
         const created = await tryFetchJson<SavedResume>(`${API_BASE}/resumes`, {
@@ -59,17 +146,17 @@ export const saveResume = async (resumeData: Omit<SavedResume, '_id' | 'savedAt'
     } catch (err) {
         console.warn('saveResume: server call failed, using localStorage fallback', err);
         const existing = readLocalResumes();
-        const newResume: SavedResume = { ...resumeData, _id: uuidv4(), savedAt: new Date().toISOString() } as SavedResume;
+        const newResume = await withStructure({ ...resumeData, _id: uuidv4(), savedAt: new Date().toISOString(), revision: 1 } as SavedResume);
         const updated = [newResume, ...existing];
         writeLocalResumes(updated);
+        writeLocalRevisions(newResume._id, [{ revision: 1, content: newResume.content, savedAt: newResume.savedAt }]);
         return newResume;
     }
 };
 
 export const deleteResume = async (id: string): Promise<{ success: boolean }> => {
     try {
-        await fetch(`${API_BASE}/resumes/${encodeURIComponent(id)}`, { method: 'DELETE' });
-        return { success: true };
+        return await tryFetchJson<{ success: boolean }>(`${API_BASE}/resumes/${encodeURIComponent(id)}`, { method: 'DELETE' });
     } catch (err) {
         console.warn('deleteResume: server call failed, using localStorage fallback', err);
         const existing = readLocalResumes();
@@ -78,6 +165,7 @@ export const deleteResume = async (id: string): Promise<{ success: boolean }> =>
             throw new Error(`Resume with ID ${id} not found`);
         }
         writeLocalResumes(updated);
+        writeLocalRevisions(id, null);
         return { success: true };
     }
 };
@@ -95,17 +183,335 @@ export const updateResume = async (id: string, patch: Partial<Omit<SavedResume,
         const existing = readLocalResumes();
         const idx = existing.findIndex(r => r._id === id);
         if (idx === -1) throw new Error(`Resume with ID ${id} not found`);
-        const updated = { ...existing[idx], ...patch } as SavedResume;
+        const { content, ...fields } = patch;
+        let updated = { ...existing[idx], ...fields } as SavedResume;
+        if (content !== undefined && content !== updated.content) updated = await withStructure(addLocalRevision(updated, content));
         existing[idx] = updated;
         writeLocalResumes(existing);
         return updated;
     }
 };
 
+// Saved searches analyze their new hits against the default resume; there is at most one
+export const setDefaultResume = async (id: string): Promise<SavedResume> => {
+    try {
+        return await tryFetchJson<SavedResume>(`${API_BASE}/resumes/${encodeURIComponent(id)}/default`, { method: 'POST' });
+    } catch (err) {
+        console.warn('setDefaultResume: server call failed, using localStorage fallback', err);
+        const existing = readLocalResumes();
+        if (!existing.some(r => r._id === id)) throw new Error(`Resume with ID ${id} not found`);
+        const updated = existing.map(r => ({ ...r, isDefault: r._id === id }));
+        writeLocalResumes(updated);
+        return updated.find(r => r._id === id)!;
+    }
+};
+
+// Newest first
+export const getResumeRevisions = async (id: string): Promise<ResumeRevision[]> => {
+    try {
+        return await tryFetchJson<ResumeRevision[]>(`${API_BASE}/resumes/${encodeURIComponent(id)}/revisions`);
+    } catch (err) {
+        console.warn('getResumeRevisions: server call failed, falling back to localStorage', err);
+        const resume = readLocalResumes().find(r => r._id === id);
+        if (!resume) throw new Error(`Resume with ID ${id} not found`);
+        return [...readLocalRevisions(resume)].sort((a, b) => b.revision - a.revision);
+    }
+};
+
+// Makes an old revision current again by saving its content as a new revision
+export const restoreResumeRevision = async (id: string, revision: number): Promise<SavedResume> => {
+    try {
+        return await tryFetchJson<SavedResume>(`${API_BASE}/resumes/${encodeURIComponent(id)}/revisions/${revision}/restore`, {
+            method: 'POST',
+        });
+    } catch (err) {
+        console.warn('restoreResumeRevision: server call failed, using localStorage fallback', err);
+        const existing = readLocalResumes();
+        const idx = existing.findIndex(r => r._id === id);
+        if (idx === -1) throw new Error(`Resume with ID ${id} not found`);
+        const target = readLocalRevisions(existing[idx]).find(r => r.revision === revision);
+        if (!target) throw new Error(`Revision ${revision} not found`);
+        if (target.content !== existing[idx].content) {
+            existing[idx] = await withStructure(addLocalRevision(existing[idx], target.content, revision));
+            writeLocalResumes(existing);
+        }
+        return existing[idx];
+    }
+};
+
+export const getJobs = async (): Promise<StoredJob[]> => {
+    try {
+        return await tryFetchJson<StoredJob[]>(`${API_BASE}/jobs`);
+    } catch (err) {
+        console.warn('getJobs: server call failed, falling back to localStorage', err);
+        const jobs = readLocalJobs();
+        // sort by createdAt desc, matching the server
+        return jobs.sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+    }
+};
+
+export const saveJob = async (jobData: Omit<StoredJob, 'createdAt' | 'updatedAt'>): Promise<StoredJob> => {
+    try {
+        return await tryFetchJson<StoredJob>(`${API_BASE}/jobs`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(jobData),
+        });
+    } catch (err) {
+        console.warn('saveJob: server call failed, using localStorage fallback', err);
+        const now = new Date().toISOString();
+        const newJob: StoredJob = { ...jobData, createdAt: now, updatedAt: now };
+        writeLocalJobs([newJob, ...readLocalJobs().filter(j => j.id !== jobData.id)]);
+        return newJob;
+    }
+};
+
+export const updateJob = async (id: string, patch: Partial<Omit<StoredJob, 'id' | 'createdAt' | 'updatedAt'>>): Promise<StoredJob> => {
+    try {
+        return await tryFetchJson<StoredJob>(`${API_BASE}/jobs/${encodeURIComponent(id)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(patch),
+        });
+    } catch (err) {
+        console.warn('updateJob: server call failed, using localStorage fallback', err);
+        const existing = readLocalJobs();
+        const idx = existing.findIndex(j => j.id === id);
+        if (idx === -1) throw new Error(`Job with ID ${id} not found`);
+        const updated: StoredJob = { ...existing[idx], ...patch, updatedAt: new Date().toISOString() };
+        existing[idx] = updated;
+        writeLocalJobs(existing);
+        return updated;
+    }
+};
+
+export const updateJobStatus = async (id: string, status: ApplicationStatus): Promise<StoredJob> => {
+    try {
+        return await tryFetchJson<StoredJob>(`${API_BASE}/jobs/${encodeURIComponent(id)}/status`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ status }),
+        });
+    } catch (err) {
+        console.warn('updateJobStatus: server call failed, using localStorage fallback', err);
+        const existing = readLocalJobs();
+        const idx = existing.findIndex(j => j.id === id);
+        if (idx === -1) throw new Error(`Job with ID ${id} not found`);
+        const job = existing[idx];
+        if (job.status === status) return job;
+        const now = new Date().toISOString();
+        const updated: StoredJob = {
+            ...job,
+            status,
+            statusHistory: [...(job.statusHistory || []), { status, from: job.status, changedAt: now }],
+            updatedAt: now,
+        };
+        existing[idx] = updated;
+        writeLocalJobs(existing);
+        return updated;
+    }
+};
+
+export const deleteJob = async (id: string): Promise<{ success: boolean }> => {
+    try {
+        return await tryFetchJson<{ success: boolean }>(`${API_BASE}/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    } catch (err) {
+        console.warn('deleteJob: server call failed, using localStorage fallback', err);
+        const existing = readLocalJobs();
+        const updated = existing.filter(j => j.id !== id);
+        if (updated.length === existing.length) {
+            throw new Error(`Job with ID ${id} not found`);
+        }
+        writeLocalJobs(updated);
+        return { success: true };
+    }
+};
+
+// Sorted by name, like the server
+export const getAgencies = async (): Promise<Agency[]> => {
+    try {
+        return await tryFetchJson<Agency[]>(`${API_BASE}/agencies`);
+    } catch (err) {
+        console.warn('getAgencies: server call failed, falling back to localStorage', err);
+        return readLocalAgencies().sort((a, b) => a.name.localeCompare(b.name));
+    }
+};
+
+export const saveAgency = async (agencyData: AgencyInput): Promise<Agency> => {
+    try {
+        return await tryFetchJson<Agency>(`${API_BASE}/agencies`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(agencyData),
+        });
+    } catch (err) {
+        console.warn('saveAgency: server call failed, using localStorage fallback', err);
+        const now = new Date().toISOString();
+        const newAgency: Agency = { ...agencyData, id: uuidv4(), interactions: [], createdAt: now, updatedAt: now };
+        writeLocalAgencies([...readLocalAgencies(), newAgency]);
+        return newAgency;
+    }
+};
+
+export const updateAgency = async (id: string, patch: Partial<AgencyInput>): Promise<Agency> => {
+    try {
+        return await tryFetchJson<Agency>(`${API_BASE}/agencies/${encodeURIComponent(id)}`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(patch),
+        });
+    } catch (err) {
+        console.warn('updateAgency: server call failed, using localStorage fallback', err);
+        const existing = readLocalAgencies();
+        const idx = existing.findIndex(a => a.id === id);
+        if (idx === -1) throw new Error(`Agency with ID ${id} not found`);
+        existing[idx] = { ...existing[idx], ...patch, updatedAt: new Date().toISOString() };
+        writeLocalAgencies(existing);
+        return existing[idx];
+    }
+};
+
+export const deleteAgency = async (id: string): Promise<{ success: boolean }> => {
+    try {
+        return await tryFetchJson<{ success: boolean }>(`${API_BASE}/agencies/${encodeURIComponent(id)}`, { method: 'DELETE' });
+    } catch (err) {
+        console.warn('deleteAgency: server call failed, using localStorage fallback', err);
+        const existing = readLocalAgencies();
+        const updated = existing.filter(a => a.id !== id);
+        if (updated.length === existing.length) {
+            throw new Error(`Agency with ID ${id} not found`);
+        }
+        writeLocalAgencies(updated);
+        return { success: true };
+    }
+};
+
+// A job can only be submitted by one agency; the server refuses a second
+// submission (409), and so does the local fallback
+export const addAgencyInteraction = async (id: string, interaction: NewAgencyInteraction): Promise<Agency> => {
+    try {
+        return await tryFetchJson<Agency>(`${API_BASE}/agencies/${encodeURIComponent(id)}/interactions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(interaction),
+        });
+    } catch (err) {
+        if (err instanceof ApiError && (err.status === 400 || err.status === 409)) throw err;
+        console.warn('addAgencyInteraction: server call failed, using localStorage fallback', err);
+        const existing = readLocalAgencies();
+        const idx = existing.findIndex(a => a.id === id);
+        if (idx === -1) throw new Error(`Agency with ID ${id} not found`);
+        const { followUpAt, followUpNote, ...fields } = interaction;
+        if (fields.type === 'submission') {
+            const submitted = existing.find(a => a.interactions.some(i => i.type === 'submission' && i.jobId === fields.jobId));
+            if (submitted) throw new ApiError(`Already submitted to this job by ${submitted.name}`, 409);
+        }
+        const now = new Date().toISOString();
+        const updated: Agency = {
+            ...existing[idx],
+            interactions: [...existing[idx].interactions, { ...fields, id: uuidv4(), createdAt: now }],
+            ...(followUpAt !== undefined ? { followUpAt, followUpNote: followUpNote ?? '' } : {}),
+            updatedAt: now,
+        };
+        existing[idx] = updated;
+        writeLocalAgencies(existing);
+        return updated;
+    }
+};
+
+export const deleteAgencyInteraction = async (id: string, interactionId: string): Promise<Agency> => {
+    try {
+        return await tryFetchJson<Agency>(
+            `${API_BASE}/agencies/${encodeURIComponent(id)}/interactions/${encodeURIComponent(interactionId)}`,
+            { method: 'DELETE' }
+        );
+    } catch (err) {
+        console.warn('deleteAgencyInteraction: server call failed, using localStorage fallback', err);
+        const existing = readLocalAgencies();
+        const idx = existing.findIndex(a => a.id === id);
+        if (idx === -1 || !existing[idx].interactions.some(i => i.id === interactionId)) {
+            throw new Error(`Interaction with ID ${interactionId} not found`);
+        }
+        existing[idx] = {
+            ...existing[idx],
+            interactions: existing[idx].interactions.filter(i => i.id !== interactionId),
+            updatedAt: new Date().toISOString(),
+        };
+        writeLocalAgencies(existing);
+        return existing[idx];
+    }
+};
+
+export interface AnalysisFilters {
+    jobId?: string;
+    resumeId?: string;
+    resumeHash?: string;
+    from?: string;
+    to?: string;
+    limit?: number;
+}
+
+// Newest first, like the server
+export const getAnalyses = async (filters: AnalysisFilters = {}): Promise<AnalysisRecord[]> => {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+        if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    try {
+        return await tryFetchJson<AnalysisRecord[]>(`${API_BASE}/analyses?${params.toString()}`);
+    } catch (err) {
+        console.warn('getAnalyses: server call failed, falling back to localStorage', err);
+        const { jobId, resumeId, resumeHash, from, to, limit = 50 } = filters;
+        return readLocalAnalyses()
+            .filter(r => (!jobId || r.jobId === jobId)
+                && (!resumeId || r.resumeId === resumeId)
+                && (!resumeHash || r.resumeHash === resumeHash)
+                && (!from || new Date(r.createdAt) >= new Date(from))
+                && (!to || new Date(r.createdAt) <= new Date(to)))
+            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+            .slice(0, limit);
+    }
+};
+
+// The server records every analysis itself; this keeps a local copy so the
+// history still works when it is unavailable.
+export const recordLocalAnalysis = (
+    entry: { jobId: string | null; resumeId?: string | null; resume: string; jobDescription: string; analysis: JobAnalysis }
+): AnalysisRecord => {
+    const record: AnalysisRecord = {
+        id: uuidv4(),
+        jobId: entry.jobId,
+        resumeId: entry.resumeId ?? null,
+        resumeHash: hashText(entry.resume),
+        jobDescription: entry.jobDescription,
+        analysis: entry.analysis,
+        createdAt: new Date().toISOString(),
+    };
+    const updated = [record, ...readLocalAnalyses()].slice(0, MAX_LOCAL_ANALYSES);
+    localStorage.setItem(ANALYSES_STORAGE_KEY, JSON.stringify(updated));
+    return record;
+};
+
 // Exported for compatibility with other modules that may still import these names
 export default {
     getResumes,
     saveResume,
     deleteResume,
     updateResume,
+    setDefaultResume,
+    getResumeRevisions,
+    restoreResumeRevision,
+    getJobs,
+    saveJob,
+    updateJob,
+    updateJobStatus,
+    deleteJob,
+    getAnalyses,
+    recordLocalAnalysis,
+    getAgencies,
+    saveAgency,
+    updateAgency,
+    deleteAgency,
+    addAgencyInteraction,
+    deleteAgencyInteraction,
 };
\ No newline at end of file
@@ -0,0 +1,74 @@
+import { User } from '../types';
+
+const AUTH_TOKEN_KEY = 'authToken';
+const API_BASE = '/api/auth';
+
+interface Session {
+    token: string;
+    user: User;
+}
+
+export const getAuthToken = (): string | null => localStorage.getItem(AUTH_TOKEN_KEY);
+
+// Added to every request for data the server keeps per user
+export const authHeaders = (): Record<string, string> => {
+    const token = getAuthToken();
+    return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+const startSession = async (path: 'login' | 'register', username: string, password: string): Promise<User> => {
+    const resp = await fetch(`${API_BASE}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+    });
+    const data = await resp.json().catch(() => ({}));
+    if (!resp.ok) {
+        // Validation failures carry zod's formatted details; surface the first message
+        const detail = data?.details?.username?._errors?.[0] || data?.details?.password?._errors?.[0];
+        throw new Error(detail ? `${data.error}: ${detail}` : data?.error || resp.statusText);
+    }
+    const session = data as Session;
+    localStorage.setItem(AUTH_TOKEN_KEY, session.token);
+    return session.user;
+};
+
+export const login = (username: string, password: string): Promise<User> => startSession('login', username, password);
+
+export const register = (username: string, password: string): Promise<User> => startSession('register', username, password);
+
+export const logout = async (): Promise<void> => {
+    try {
+        await fetch(`${API_BASE}/logout`, { method: 'POST', headers: authHeaders() });
+    } catch (err) {
+        console.warn('logout: server call failed, discarding the local session anyway', err);
+    }
+    localStorage.removeItem(AUTH_TOKEN_KEY);
+};
+
+// Waits between tries while the server can't check sessions yet (503), e.g. just after a restart
+const SESSION_CHECK_RETRY_MS = [1000, 2000, 4000];
+
+// The signed-in user, or null when there is no valid session. The token is only
+// discarded when the server says it's invalid (401), never because it was unreachable.
+export const getCurrentUser = async (): Promise<User | null> => {
+    if (!getAuthToken()) return null;
+    try {
+        for (let attempt = 0; ; attempt++) {
+            const resp = await fetch(`${API_BASE}/me`, { headers: authHeaders() });
+            if (resp.status === 401) {
+                localStorage.removeItem(AUTH_TOKEN_KEY);
+                return null;
+            }
+            if (resp.status === 503 && attempt < SESSION_CHECK_RETRY_MS.length) {
+                await new Promise(resolve => setTimeout(resolve, SESSION_CHECK_RETRY_MS[attempt]));
+                continue;
+            }
+            if (!resp.ok) return null;
+            return (await resp.json()) as User;
+        }
+    } catch (err) {
+        console.warn('getCurrentUser: server call failed', err);
+        return null;
+    }
+};
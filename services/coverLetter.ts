@@ -0,0 +1,51 @@
+import { CoverLetterParagraph } from '../types';
+
+// Words too common to say anything about which strength a paragraph uses
+const STOP_WORDS = new Set([
+    'about', 'across', 'also', 'and', 'based', 'been', 'both', 'candidate', 'experience', 'for', 'from', 'has',
+    'have', 'into', 'its', 'more', 'over', 'skills', 'strong', 'that', 'the', 'their', 'them', 'this', 'with',
+    'work', 'worked', 'working', 'years',
+]);
+
+const significantWords = (text: string): string[] =>
+    (text.toLowerCase().match(/[a-z0-9+#.]+/g) || [])
+        .map(word => word.replace(/\.+$/, ''))
+        .filter(word => word.length > 2 && !STOP_WORDS.has(word));
+
+export const splitParagraphs = (text: string): string[] =>
+    text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// A strength counts as used when at least half of its distinctive words appear
+// in the paragraph. Only used for text the model didn't annotate (manual edits).
+export const strengthsUsedBy = (paragraph: string, strengths: string[]): string[] => {
+    const words = new Set(significantWords(paragraph));
+    return strengths.filter(strength => {
+        const wanted = [...new Set(significantWords(strength))];
+        if (!wanted.length) return false;
+        const found = wanted.filter(word => words.has(word)).length;
+        return found >= Math.min(2, wanted.length) && found / wanted.length >= 0.5;
+    });
+};
+
+export interface MappedParagraph extends CoverLetterParagraph {
+    // True when the strengths were guessed from the wording rather than reported by the model
+    isEstimated: boolean;
+}
+
+// Pairs each paragraph of the draft with the strengths it uses. Paragraphs the
+// model wrote keep the model's answer; edited or new ones fall back to word overlap.
+export const mapParagraphsToStrengths = (
+    draft: string,
+    strengths: string[],
+    generated: CoverLetterParagraph[] = []
+): MappedParagraph[] => {
+    const known = new Map(generated.map(p => [normalize(p.text), p.strengths]));
+    return splitParagraphs(draft).map(text => {
+        const reported = known.get(normalize(text));
+        return reported
+            ? { text, strengths: reported, isEstimated: false }
+            : { text, strengths: strengthsUsedBy(text, strengths), isEstimated: true };
+    });
+};
@@ -0,0 +1,41 @@
+// Formatted DOCX/PDF exports are rendered by the server; plain text is built in the browser
+
+export type ExportFormat = 'docx' | 'pdf';
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
+const safeFileName = (name: string) => name.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+
+const downloadExport = async (path: string, body: object, fallbackName: string) => {
+    const resp = await fetch(`/api/export/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+    });
+    if (!resp.ok) {
+        const text = await resp.text();
+        throw new Error(`Export failed: ${text || resp.statusText}`);
+    }
+    const disposition = resp.headers.get('Content-Disposition') || '';
+    const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] || fallbackName;
+    downloadBlob(await resp.blob(), fileName);
+};
+
+export const downloadResumeText = (resume: { name: string; content: string }) =>
+    downloadBlob(new Blob([resume.content], { type: 'text/plain' }), `resume_${safeFileName(resume.name)}.txt`);
+
+export const downloadResume = (resume: { name: string; content: string }, format: ExportFormat) =>
+    downloadExport('resume', { name: resume.name, content: resume.content, format }, `resume_${safeFileName(resume.name)}.${format}`);
+
+// `resume` provides the letterhead, so the letter matches the exported resume
+export const downloadCoverLetter = (coverLetter: string, resume: string, title: string, format: ExportFormat) =>
+    downloadExport('cover-letter', { coverLetter, resume, title, format }, `cover_letter_${safeFileName(title)}.${format}`);
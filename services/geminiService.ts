@@ -1,4 +1,5 @@
-import { JobAnalysis, JobListing, DistanceResult } from '../types';
+import { JobAnalysis, AnalysisSectionName, BatchAnalysis, CoverLetterParagraph, CoverLetterSettings, FetchedJobPosting, PostingFacts, JobSite, JobSearchResult, DistanceResult, ResumeQATurn, ResumeQAAnswer } from '../types';
+import { authHeaders } from './authService';
 
 // Client-side service: call the backend proxy endpoints instead of using the Gemini SDK in-browser.
 
@@ -12,21 +13,134 @@ const handleResponse = async (resp: Response) => {
   }
 };
 
-export const analyzeJobFit = async (resume: string, jobDescription: string): Promise<JobAnalysis> => {
+// Raised by analyzeJobFit so callers can tell a malformed model reply
+// (code 'INVALID_MODEL_OUTPUT', worth retrying) from other failures
+export class AnalysisError extends Error {
+  code: string;
+  issues: string[];
+
+  constructor(message: string, code = 'ANALYSIS_FAILED', issues: string[] = []) {
+    super(message);
+    this.name = 'AnalysisError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+// Pass the dashboard job's id so the run shows up in its analysis history, and
+// the saved resume's id when analyzing one so history can be filtered by resume
+export const analyzeJobFit = async (
+  resume: string,
+  jobDescription: string,
+  jobId?: string,
+  resumeId?: string
+): Promise<JobAnalysis> => {
   const resp = await fetch('/api/analyze', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ resume, jobDescription }),
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ resume, jobDescription, jobId, resumeId }),
   });
+  return readAnalysisResponse(resp);
+};
+
+const readAnalysisResponse = async (resp: Response): Promise<JobAnalysis> => {
+  const data = await handleResponse(resp);
   if (!resp.ok) {
-    const body = await resp.text();
-    throw new Error(`Failed to analyze job fit: ${body || resp.statusText}`);
+    const message = typeof data?.error === 'string' ? data.error : (typeof data === 'string' && data) || resp.statusText;
+    throw new AnalysisError(`Failed to analyze job fit: ${message}`, data?.code, data?.issues);
+  }
+  return checkAnalysis(data);
+};
+
+const checkAnalysis = (data: any): JobAnalysis => {
+  if (typeof data !== 'object' || typeof data?.matchScore !== 'number') {
+    throw new AnalysisError('Failed to analyze job fit: the server returned an incomplete analysis', 'INVALID_MODEL_OUTPUT');
   }
-  const data = await handleResponse(resp);
   return data as JobAnalysis;
 };
 
-export const fetchJobDescriptionFromUrl = async (url: string): Promise<string> => {
+// Splits a server-sent event stream into { event, data } messages
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const messages = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? '' : messages.pop() || '';
+    for (const message of messages) {
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of message.split(/\r?\n/)) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) data.push(line.slice(5).trimStart());
+      }
+      if (data.length) yield { event, data: JSON.parse(data.join('\n')) };
+    }
+    if (done) return;
+  }
+}
+
+// Streaming variant of analyzeJobFit: onSection receives each part of the
+// analysis as the model finishes it, and the promise resolves to the full,
+// validated analysis (which may differ from the streamed parts). Cached
+// analyses arrive as the result alone; `refresh` bypasses the cache.
+export const streamJobAnalysis = async (
+  resume: string,
+  jobDescription: string,
+  jobId: string | undefined,
+  onSection: (section: AnalysisSectionName, data: Partial<JobAnalysis>) => void,
+  refresh = false
+): Promise<JobAnalysis> => {
+  const resp = await fetch('/api/analyze/stream', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ resume, jobDescription, jobId, refresh }),
+  });
+  // Servers without the streaming route still answer the blocking one
+  if (resp.status === 404) return analyzeJobFit(resume, jobDescription, jobId);
+  // Errors raised before streaming starts come back as plain JSON
+  if (!resp.body || !resp.headers.get('Content-Type')?.includes('text/event-stream')) {
+    return readAnalysisResponse(resp);
+  }
+  for await (const { event, data } of readServerSentEvents(resp.body)) {
+    if (event === 'section') onSection(data.section, data.data);
+    else if (event === 'error') throw new AnalysisError(`Failed to analyze job fit: ${data.error}`, data.code, data.issues);
+    else if (event === 'result') return checkAnalysis(data);
+  }
+  throw new AnalysisError('Failed to analyze job fit: the connection closed before the analysis finished');
+};
+
+const batchRequest = async (url: string, init?: RequestInit): Promise<BatchAnalysis> => {
+  const resp = await fetch(url, { ...init, headers: { ...authHeaders(), ...init?.headers } });
+  const data = await handleResponse(resp);
+  if (!resp.ok) {
+    const message = typeof data?.error === 'string' ? data.error : (typeof data === 'string' && data) || resp.statusText;
+    throw new Error(`Batch analysis failed: ${message}`);
+  }
+  return data as BatchAnalysis;
+};
+
+// Queues one analysis per job on the server; poll getBatchAnalysis for results
+export const startBatchAnalysis = (
+  resume: string,
+  jobs: { jobId: string; jobDescription: string }[]
+): Promise<BatchAnalysis> =>
+  batchRequest('/api/analyze/batch', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ resume, jobs }),
+  });
+
+export const getBatchAnalysis = (id: string): Promise<BatchAnalysis> =>
+  batchRequest(`/api/analyze/batch/${encodeURIComponent(id)}`);
+
+// Jobs that already started still finish and are reported by the next poll
+export const cancelBatchAnalysis = (id: string): Promise<BatchAnalysis> =>
+  batchRequest(`/api/analyze/batch/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export const fetchJobDescriptionFromUrl = async (url: string): Promise<FetchedJobPosting> => {
   const resp = await fetch('/api/fetch-description', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -37,7 +151,26 @@ export const fetchJobDescriptionFromUrl = async (url: string): Promise<string> =
     throw new Error(`Failed to fetch job description: ${body || resp.statusText}`);
   }
   const data = await resp.json();
-  return (data.text || '').trim();
+  return {
+    title: (data.title || '').trim(),
+    company: (data.company || '').trim(),
+    text: (data.text || '').trim(),
+    source: data.source,
+    facts: data.facts,
+  };
+};
+
+export const extractPostingFacts = async (title: string, description: string): Promise<PostingFacts> => {
+  const resp = await fetch('/api/posting-facts', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ title, description }),
+  });
+  if (!resp.ok) {
+    const body = await resp.text();
+    throw new Error(`Failed to extract posting facts: ${body || resp.statusText}`);
+  }
+  return resp.json();
 };
 
 export const calculateDistance = async (origin: string, destination: string): Promise<DistanceResult> => {
@@ -68,15 +201,68 @@ export const getAddressFromCoordinates = async (lat: number, lon: number): Promi
   return data.address || '';
 };
 
-// The following functions require server-side implementation. Keep stubs that instruct developers to add server endpoints if needed.
-export const answerQuestionAboutResume = async (_resume: string, _question: string): Promise<string> => {
-  throw new Error('answerQuestionAboutResume is not implemented in the client. Call the backend proxy to use the Gemini API.');
+export const answerQuestionAboutResume = async (
+  resume: string,
+  question: string,
+  history: ResumeQATurn[] = []
+): Promise<ResumeQAAnswer> => {
+  const resp = await fetch('/api/resume-qa', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    // Citations are display-only; the server just needs the prior turns' text
+    body: JSON.stringify({ resume, question, history: history.map(({ role, content }) => ({ role, content })) }),
+  });
+  if (!resp.ok) {
+    const body = await resp.text();
+    throw new Error(`Failed to answer question: ${body || resp.statusText}`);
+  }
+  const data = await resp.json();
+  return { answer: (data.answer || '').trim(), citations: data.citations || [] };
+};
+
+export const generateCoverLetter = async (
+  request: CoverLetterSettings & { resume: string; jobDescription: string; strengths: string[] }
+): Promise<{ coverLetter: string; paragraphs: CoverLetterParagraph[] }> => {
+  const resp = await fetch('/api/cover-letter', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+  if (!resp.ok) {
+    const body = await resp.text();
+    throw new Error(`Failed to write cover letter: ${body || resp.statusText}`);
+  }
+  const data = await resp.json();
+  return { coverLetter: data.coverLetter || '', paragraphs: data.paragraphs || [] };
 };
 
-export const extractTextFromFile = async (_file: { mimeType: string; data: string }): Promise<string> => {
-  throw new Error('extractTextFromFile is not implemented in the client. Call the backend proxy to use the Gemini API for file extraction.');
+export const extractTextFromFile = async (file: { mimeType: string; data: string }): Promise<string> => {
+  const resp = await fetch('/api/extract-text', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(file),
+  });
+  if (!resp.ok) {
+    // Surface the server's explanation (e.g. scanned PDF without OCR available) as-is
+    const data = await handleResponse(resp);
+    const message = typeof data === 'object' && data.error ? data.error : data || resp.statusText;
+    throw new Error(`Failed to extract text from document: ${message}`);
+  }
+  const data = await resp.json();
+  return (data.text || '').trim();
 };
 
-export const searchForJobs = async (_query: string, _site: string): Promise<JobListing[]> => {
-  throw new Error('searchForJobs is not implemented in the client. Implement a backend endpoint to perform job site searches.');
+export const searchForJobs = async (query: string, site: JobSite, page = 1, pageSize = 10): Promise<JobSearchResult> => {
+  const resp = await fetch('/api/search-jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ query, site, page, pageSize }),
+  });
+  if (!resp.ok) {
+    const data = await handleResponse(resp);
+    const message = typeof data === 'object' && data.error ? data.error : data || resp.statusText;
+    throw new Error(`Failed to search for jobs: ${message}`);
+  }
+  const data = await resp.json();
+  return data as JobSearchResult;
 };
\ No newline at end of file
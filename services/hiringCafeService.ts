@@ -1,20 +1,30 @@
-import { HiringCafeJob } from '../types';
+import { HiringCafeQuery, HiringCafeSearchResult } from '../types';
 
 const API_PROXY = '/api/hiring-cafe';
 
 /**
- * Fetches the latest job listings via the local API proxy which forwards the request to hiring.cafe.
+ * Searches hiring.cafe listings via the local API proxy, which caches the feed
+ * and does the filtering, faceting and paging.
  */
-export const fetchHiringCafeJobs = async (): Promise<HiringCafeJob[]> => {
+export const searchHiringCafeJobs = async (query: HiringCafeQuery = {}): Promise<HiringCafeSearchResult> => {
+    const params = new URLSearchParams();
+    if (query.q?.trim()) params.set('q', query.q.trim());
+    if (query.location?.trim()) params.set('location', query.location.trim());
+    query.tags?.forEach(tag => params.append('tags', tag));
+    if (query.postedWithin) params.set('postedWithin', String(query.postedWithin));
+    if (query.page) params.set('page', String(query.page));
+    if (query.pageSize) params.set('pageSize', String(query.pageSize));
+    if (query.refresh) params.set('refresh', '1');
+    const search = params.toString();
+
     try {
-        const response = await fetch(API_PROXY);
+        const response = await fetch(search ? `${API_PROXY}?${search}` : API_PROXY);
         if (!response.ok) {
             throw new Error(`API request failed with status ${response.status}`);
         }
-        const data = await response.json();
-        return data as HiringCafeJob[];
+        return (await response.json()) as HiringCafeSearchResult;
     } catch (error) {
         console.error("Error fetching jobs from hiring.cafe proxy:", error);
         throw new Error("Failed to load job listings from hiring.cafe. Please try again later.");
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,99 @@
+import { Job } from '../types';
+import { NEW_JOB_COMPANY, NEW_JOB_TITLE } from '../data/defaultData';
+import { canonicalJobUrl } from './jobUrl.js';
+
+// Spots a job that is already on the dashboard: the same posting under a
+// differently written URL, or the same role found on another board (similar
+// title at the same company, with a similar description when both have one).
+
+export interface DuplicateMatch {
+    job: Job;
+    // 'url': the same posting; 'similar': title, company and description look alike
+    reason: 'url' | 'similar';
+    // 1 for a URL match; otherwise how alike the two postings read
+    similarity: number;
+}
+
+type JobFields = Pick<Job, 'id' | 'url' | 'title' | 'company' | 'description'>;
+
+// "Senior Support Engineer" and "Support Engineer" (0.8) are different roles
+const MIN_TITLE_SIMILARITY = 0.85;
+const MIN_COMPANY_SIMILARITY = 0.8;
+const MIN_DESCRIPTION_SIMILARITY = 0.7;
+
+// Saved-search polling compares URLs the same way, so dashboard jobs aren't offered again as new hits
+export { canonicalJobUrl };
+
+const COMPANY_SUFFIXES = new Set(['inc', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company', 'plc', 'gmbh', 'group']);
+const TITLE_ABBREVIATIONS: Record<string, string> = { sr: 'senior', jr: 'junior', mgr: 'manager', eng: 'engineer', dev: 'developer' };
+// Titles differing only in one of these are different roles however alike the rest reads
+const LEVEL_WORDS = new Set(['senior', 'junior', 'lead', 'principal', 'staff', 'intern', 'associate', 'i', 'ii', 'iii', 'iv']);
+
+const words = (text: string): string[] => text.toLowerCase().match(/[a-z0-9+#]+/g) || [];
+
+const titleWords = (title: string) => words(title).map(word => TITLE_ABBREVIATIONS[word] || word);
+const companyWords = (company: string) => words(company).filter(word => !COMPANY_SUFFIXES.has(word));
+
+// Dice coefficient over the two word sets
+const similarity = (a: string[], b: string[]): number => {
+    const setA = new Set(a);
+    const setB = new Set(b);
+    if (!setA.size || !setB.size) return 0;
+    let shared = 0;
+    setA.forEach(word => {
+        if (setB.has(word)) shared++;
+    });
+    return (2 * shared) / (setA.size + setB.size);
+};
+
+const hasRealTitle = (job: JobFields) => !!job.title.trim() && job.title !== NEW_JOB_TITLE;
+const hasRealCompany = (job: JobFields) => !!job.company.trim() && job.company !== NEW_JOB_COMPANY;
+
+const titleLevel = (words: string[]) => words.filter(word => LEVEL_WORDS.has(word)).sort().join(' ');
+
+// How alike two postings read, or 0 when they're clearly different roles
+const postingSimilarity = (a: JobFields, b: JobFields): number => {
+    if (!hasRealTitle(a) || !hasRealTitle(b) || !hasRealCompany(a) || !hasRealCompany(b)) return 0;
+    const titleA = titleWords(a.title);
+    const titleB = titleWords(b.title);
+    if (titleLevel(titleA) !== titleLevel(titleB)) return 0;
+    const title = similarity(titleA, titleB);
+    const company = similarity(companyWords(a.company), companyWords(b.company));
+    if (title < MIN_TITLE_SIMILARITY || company < MIN_COMPANY_SIMILARITY) return 0;
+    // Two openings with the same title at one company differ in their descriptions
+    if (!a.description.trim() || !b.description.trim()) return (title + company) / 2;
+    const description = similarity(words(a.description), words(b.description));
+    return description < MIN_DESCRIPTION_SIMILARITY ? 0 : (title + company + description) / 3;
+};
+
+/** The job in `jobs` that `candidate` most likely duplicates, if any (never `candidate` itself). */
+export const findDuplicateJob = (candidate: JobFields, jobs: Job[]): DuplicateMatch | null => {
+    const others = jobs.filter(job => job.id !== candidate.id);
+    const url = canonicalJobUrl(candidate.url);
+    const sameUrl = url && others.find(job => canonicalJobUrl(job.url) === url);
+    if (sameUrl) return { job: sameUrl, reason: 'url', similarity: 1 };
+
+    let best: DuplicateMatch | null = null;
+    for (const job of others) {
+        const score = postingSimilarity(candidate, job);
+        if (score > 0 && (!best || score > best.similarity)) best = { job, reason: 'similar', similarity: score };
+    }
+    return best;
+};
+
+/**
+ * What `existing` takes over from its duplicate: the URL, title, company and
+ * description it's missing. Its own analysis, status and cover letter stay.
+ */
+export const mergeDuplicateJob = (existing: Job, duplicate: Job): Partial<Job> => {
+    const updates: Partial<Job> = {};
+    if (!existing.url.trim() && duplicate.url.trim()) updates.url = duplicate.url;
+    if (!hasRealTitle(existing) && hasRealTitle(duplicate)) updates.title = duplicate.title;
+    if (!hasRealCompany(existing) && hasRealCompany(duplicate)) updates.company = duplicate.company;
+    if (!existing.description.trim() && duplicate.description.trim()) {
+        updates.description = duplicate.description;
+        // Without facts of its own, the description's are extracted again
+        if (duplicate.facts) updates.facts = duplicate.facts;
+    }
+    return updates;
+};
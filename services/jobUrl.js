@@ -0,0 +1,46 @@
+// One posting can be linked many ways: with or without "www.", tracking
+// parameters from share buttons and job-board referrals, or (on LinkedIn and
+// Indeed) a search page that merely has it selected. Duplicate detection on
+// the dashboard and saved-search polling on the server both compare postings
+// by the canonical form below. It's plain JavaScript with no imports so the
+// server can load it as is.
+
+// Added by share buttons, ads and job-board referrals; never part of what identifies a posting
+const TRACKING_PARAM = /^(utm_.+|gclid|fbclid|msclkid|mc_[ce]id|ref|refid|referrer|src|source|trk|trackingid|lipi|from|gh_src|lever-.+|cmp|campaign|sid)$/i;
+
+/**
+ * A form of the URL that is the same for every link to one posting: no
+ * protocol, "www.", fragment, tracking parameters or trailing slash, and
+ * LinkedIn and Indeed links reduced to the posting's id.
+ * @param {string} url
+ * @returns {string}
+ */
+export const canonicalJobUrl = (url) => {
+    const trimmed = String(url ?? '').trim();
+    if (!trimmed) return '';
+    let parsed;
+    try {
+        parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    } catch (e) {
+        return trimmed.toLowerCase();
+    }
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    const params = parsed.searchParams;
+
+    if (/(^|\.)linkedin\.com$/.test(host)) {
+        const id = /\/jobs\/view\/(?:[^/]*?-)?(\d+)/.exec(parsed.pathname)?.[1] || params.get('currentJobId');
+        if (id) return `linkedin.com/jobs/view/${id}`;
+    }
+    if (/(^|\.)indeed\.[a-z.]+$/.test(host)) {
+        const id = params.get('jk') || params.get('vjk');
+        if (id) return `${host}/viewjob?jk=${id}`;
+    }
+
+    const query = [...params.entries()]
+        .filter(([name]) => !TRACKING_PARAM.test(name))
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, value]) => `${name}=${value}`)
+        .join('&');
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${host}${path}${query ? `?${query}` : ''}`;
+};
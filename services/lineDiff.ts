@@ -0,0 +1,83 @@
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+    type: DiffLineType;
+    text: string;
+    // 1-based line numbers in the old/new text; absent on the side a line doesn't exist in
+    oldLine?: number;
+    newLine?: number;
+}
+
+// Line-level diff based on the longest common subsequence. Resumes are a few
+// hundred lines at most, so the quadratic table is fine.
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+    const a = oldText.split(/\r?\n/);
+    const b = newText.split(/\r?\n/);
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const result: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            result.push({ type: 'same', text: a[i], oldLine: i + 1, newLine: j + 1 });
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            result.push({ type: 'removed', text: a[i], oldLine: i + 1 });
+            i++;
+        } else {
+            result.push({ type: 'added', text: b[j], newLine: j + 1 });
+            j++;
+        }
+    }
+    for (; i < a.length; i++) result.push({ type: 'removed', text: a[i], oldLine: i + 1 });
+    for (; j < b.length; j++) result.push({ type: 'added', text: b[j], newLine: j + 1 });
+    return result;
+};
+
+export interface WordDiffPart {
+    type: DiffLineType;
+    text: string;
+}
+
+// Word-level diff for short passages, e.g. one suggestion's before/after.
+// Whitespace runs are tokens too, so joining the parts of one side restores it.
+export const diffWords = (oldText: string, newText: string): WordDiffPart[] => {
+    const a = oldText.split(/(\s+)/).filter(Boolean);
+    const b = newText.split(/(\s+)/).filter(Boolean);
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const parts: WordDiffPart[] = [];
+    const push = (type: DiffLineType, text: string) => {
+        const last = parts[parts.length - 1];
+        if (last && last.type === type) last.text += text;
+        else parts.push({ type, text });
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            push('same', a[i]);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            push('removed', a[i++]);
+        } else {
+            push('added', b[j++]);
+        }
+    }
+    for (; i < a.length; i++) push('removed', a[i]);
+    for (; j < b.length; j++) push('added', b[j]);
+    return parts;
+};
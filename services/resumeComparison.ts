@@ -0,0 +1,79 @@
+import { JobAnalysis, SavedResume } from '../types';
+
+export interface ResumeComparisonEntry {
+    resume: SavedResume;
+    analysis: JobAnalysis;
+}
+
+export interface RankedResume extends ResumeComparisonEntry {
+    rank: number;
+    // Points behind the top-ranked resume (0 for the top one)
+    scoreGap: number;
+    // Keywords this resume matches that the top-ranked one doesn't, and vice versa
+    extraMatched: string[];
+    lackingMatched: string[];
+}
+
+export interface ResumeRecommendation {
+    resume: SavedResume;
+    reason: string;
+}
+
+// Scores this close are treated as a tie when explaining the recommendation
+const CLOSE_SCORE_GAP = 5;
+
+const missingCount = (analysis: JobAnalysis) => (analysis.missingKeywords || []).length;
+
+const keywordNames = (analysis: JobAnalysis) =>
+    new Map((analysis.matchedKeywords || []).map(k => [k.keyword.trim().toLowerCase(), k.keyword]));
+
+// Highest score first; ties go to the resume missing fewer keywords
+export const rankResumes = (entries: ResumeComparisonEntry[]): RankedResume[] => {
+    const sorted = [...entries].sort(
+        (a, b) =>
+            b.analysis.matchScore - a.analysis.matchScore ||
+            missingCount(a.analysis) - missingCount(b.analysis)
+    );
+    const top = sorted[0];
+    if (!top) return [];
+    const topNames = keywordNames(top.analysis);
+
+    return sorted.map((entry, index) => {
+        const names = keywordNames(entry.analysis);
+        return {
+            ...entry,
+            rank: index + 1,
+            scoreGap: top.analysis.matchScore - entry.analysis.matchScore,
+            extraMatched: [...names].filter(([k]) => !topNames.has(k)).map(([, name]) => name),
+            lackingMatched: [...topNames].filter(([k]) => !names.has(k)).map(([, name]) => name),
+        };
+    });
+};
+
+export const recommendResume = (ranked: RankedResume[]): ResumeRecommendation | null => {
+    const [best, runnerUp] = ranked;
+    if (!best) return null;
+    if (!runnerUp) {
+        return { resume: best.resume, reason: `It scores ${best.analysis.matchScore}% for this job.` };
+    }
+    const gap = runnerUp.scoreGap;
+    const covered = runnerUp.lackingMatched.length > 0
+        ? ` and covers ${runnerUp.lackingMatched.length} keyword${runnerUp.lackingMatched.length === 1 ? '' : 's'} "${runnerUp.resume.name}" misses`
+        : '';
+    if (gap === 0) {
+        return {
+            resume: best.resume,
+            reason: `It ties with "${runnerUp.resume.name}" on score but misses no more keywords${covered}.`,
+        };
+    }
+    if (gap < CLOSE_SCORE_GAP) {
+        return {
+            resume: best.resume,
+            reason: `It edges out "${runnerUp.resume.name}" by ${gap} point${gap === 1 ? '' : 's'}${covered}; either would work, so compare the keyword differences.`,
+        };
+    }
+    return {
+        resume: best.resume,
+        reason: `It scores ${gap} points higher than the next best, "${runnerUp.resume.name}"${covered}.`,
+    };
+};
@@ -0,0 +1,54 @@
+import { SavedSearch, SavedSearchInput, SearchHit } from '../types';
+import { authHeaders } from './authService';
+
+const API_BASE = '/api';
+
+// Saved searches are polled by the server, so unlike resumes and jobs they
+// have no localStorage fallback: they need a signed-in account.
+async function requestJson<T>(path: string, init?: RequestInit): Promise<T> {
+    const resp = await fetch(`${API_BASE}${path}`, {
+        ...init,
+        headers: { ...authHeaders(), ...(init?.body ? { 'Content-Type': 'application/json' } : {}), ...init?.headers },
+    });
+    const data = await resp.json().catch(() => ({}));
+    if (resp.status === 401) throw new Error('Sign in to save searches and get new-job alerts.');
+    if (!resp.ok) {
+        // Validation failures carry zod's formatted details; surface the first message
+        const detail = Object.values(data?.details || {}).find((field: any) => field?._errors?.length) as { _errors: string[] } | undefined;
+        throw new Error(detail ? `${data.error}: ${detail._errors[0]}` : data?.error || resp.statusText);
+    }
+    return data as T;
+}
+
+export const getSavedSearches = (): Promise<SavedSearch[]> => requestJson<SavedSearch[]>('/saved-searches');
+
+// The server runs the new search once straight away
+export const createSavedSearch = (search: SavedSearchInput): Promise<SavedSearch> =>
+    requestJson<SavedSearch>('/saved-searches', { method: 'POST', body: JSON.stringify(search) });
+
+export const updateSavedSearch = (id: string, patch: Partial<SavedSearchInput>): Promise<SavedSearch> =>
+    requestJson<SavedSearch>(`/saved-searches/${encodeURIComponent(id)}`, { method: 'PUT', body: JSON.stringify(patch) });
+
+// Also removes the search's hits
+export const deleteSavedSearch = (id: string): Promise<{ success: boolean }> =>
+    requestJson<{ success: boolean }>(`/saved-searches/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+export const pollSavedSearch = (id: string): Promise<{ search: SavedSearch; newHits: number }> =>
+    requestJson<{ search: SavedSearch; newHits: number }>(`/saved-searches/${encodeURIComponent(id)}/poll`, { method: 'POST' });
+
+// Newest first
+export const getSearchHits = (filters: { searchId?: string; unread?: boolean } = {}): Promise<SearchHit[]> => {
+    const params = new URLSearchParams();
+    if (filters.searchId) params.set('searchId', filters.searchId);
+    if (filters.unread) params.set('unread', '1');
+    const query = params.toString();
+    return requestJson<SearchHit[]>(`/search-hits${query ? `?${query}` : ''}`);
+};
+
+// Every unread hit when `ids` is left out
+export const markSearchHitsRead = (ids?: string[]): Promise<{ updated: number }> =>
+    requestJson<{ updated: number }>('/search-hits/read', { method: 'POST', body: JSON.stringify(ids ? { ids } : {}) });
+
+// A dismissed hit's listing stays seen, so it won't be found again
+export const dismissSearchHit = (id: string): Promise<{ success: boolean }> =>
+    requestJson<{ success: boolean }>(`/search-hits/${encodeURIComponent(id)}`, { method: 'DELETE' });
@@ -0,0 +1,148 @@
+import { ImprovementSuggestion } from '../types';
+
+// Finds where a suggestion's `originalText` sits in the resume. The model
+// often quotes a line slightly differently (dropped bullet marker, changed
+// punctuation, a paraphrased word), so when there's no exact match the closest
+// line, run of lines or sentence is used if it is similar enough.
+
+export interface PassageMatch {
+    start: number;
+    end: number;
+    // 1 for an exact match; otherwise the word overlap with the quoted text
+    similarity: number;
+}
+
+// A replacement of `removed` by `inserted` at `start`; kept for undo/redo
+export interface ResumeEdit {
+    label: string;
+    start: number;
+    removed: string;
+    inserted: string;
+}
+
+export type SuggestionPlan =
+    | { status: 'found'; match: PassageMatch; edit: ResumeEdit; updated: string }
+    | { status: 'notFound' };
+
+// Below this, the closest passage is too different to be the one the model meant
+const MIN_SIMILARITY = 0.6;
+
+const LEADING_MARKER = /^\s*(?:[-*•●▪◦‣]\s+)?/;
+
+const words = (text: string): string[] => text.toLowerCase().match(/[a-z0-9+#]+/g) || [];
+
+// Dice coefficient over the longest common word subsequence
+const similarity = (a: string[], b: string[]): number => {
+    if (!a.length || !b.length) return 0;
+    let prev = new Array(b.length + 1).fill(0);
+    for (let i = 1; i <= a.length; i++) {
+        const row = new Array(b.length + 1).fill(0);
+        for (let j = 1; j <= b.length; j++) {
+            row[j] = a[i - 1] === b[j - 1] ? prev[j - 1] + 1 : Math.max(prev[j], row[j - 1]);
+        }
+        prev = row;
+    }
+    return (2 * prev[b.length]) / (a.length + b.length);
+};
+
+interface Line {
+    // Offsets of the line's text, leaving out indentation, bullet marker and trailing spaces
+    start: number;
+    end: number;
+}
+
+const linesOf = (text: string): Line[] => {
+    const lines: Line[] = [];
+    let offset = 0;
+    for (const raw of text.split('\n')) {
+        const marker = LEADING_MARKER.exec(raw)![0].length;
+        lines.push({ start: offset + marker, end: offset + Math.max(marker, raw.trimEnd().length) });
+        offset += raw.length + 1;
+    }
+    return lines;
+};
+
+// Runs of non-empty lines about as long as the passage, plus single sentences
+const candidateSpans = (text: string, passageLineCount: number): Line[] => {
+    const lines = linesOf(text);
+    const spans: Line[] = [];
+    for (let i = 0; i < lines.length; i++) {
+        for (let n = Math.max(1, passageLineCount - 1); n <= passageLineCount + 1 && i + n <= lines.length; n++) {
+            const run = lines.slice(i, i + n);
+            if (run.some(line => line.end === line.start)) break;
+            spans.push({ start: run[0].start, end: run[n - 1].end });
+        }
+        const content = text.slice(lines[i].start, lines[i].end);
+        const sentences = [...content.matchAll(/[^.!?;]+[.!?;]*/g)];
+        if (sentences.length > 1) {
+            for (const sentence of sentences) {
+                const lead = sentence[0].length - sentence[0].trimStart().length;
+                const start = lines[i].start + sentence.index! + lead;
+                spans.push({ start, end: start + sentence[0].trim().length });
+            }
+        }
+    }
+    return spans;
+};
+
+export const locatePassage = (text: string, passage: string): PassageMatch | null => {
+    const quoted = passage.trim();
+    if (!quoted) return null;
+    // Exact, then without the bullet marker the resume line may not have
+    for (const candidate of [quoted, quoted.replace(LEADING_MARKER, '')]) {
+        const start = text.indexOf(candidate);
+        if (candidate && start !== -1) return { start, end: start + candidate.length, similarity: 1 };
+    }
+
+    const target = words(quoted);
+    let best: PassageMatch | null = null;
+    for (const span of candidateSpans(text, quoted.split('\n').length)) {
+        const score = similarity(target, words(text.slice(span.start, span.end)));
+        if (score >= MIN_SIMILARITY && (!best || score > best.similarity)) best = { ...span, similarity: score };
+    }
+    return best;
+};
+
+// Works out what accepting the suggestion would change, without changing anything
+export const planSuggestion = (resume: string, suggestion: ImprovementSuggestion): SuggestionPlan => {
+    const match = locatePassage(resume, suggestion.originalText);
+    if (!match) return { status: 'notFound' };
+    let inserted = suggestion.suggestedRewrite.trim();
+    // Keep the resume's own bullet marker rather than adding a second one
+    const lineStart = resume.lastIndexOf('\n', match.start - 1) + 1;
+    if (LEADING_MARKER.exec(resume.slice(lineStart, match.start))![0].length === match.start - lineStart) {
+        inserted = inserted.replace(LEADING_MARKER, '');
+    }
+    const edit: ResumeEdit = {
+        label: suggestion.suggestionType,
+        start: match.start,
+        removed: resume.slice(match.start, match.end),
+        inserted,
+    };
+    return { status: 'found', match, edit, updated: replaceAt(resume, edit.start, edit.removed, edit.inserted) };
+};
+
+const replaceAt = (text: string, start: number, removed: string, inserted: string) =>
+    text.slice(0, start) + inserted + text.slice(start + removed.length);
+
+// The occurrence of `needle` closest to where it was expected; the resume may
+// have been edited above it since
+const nearestOccurrence = (text: string, needle: string, expected: number): number => {
+    if (!needle) return Math.min(expected, text.length);
+    let best = -1;
+    for (let at = text.indexOf(needle); at !== -1; at = text.indexOf(needle, at + 1)) {
+        if (best === -1 || Math.abs(at - expected) < Math.abs(best - expected)) best = at;
+    }
+    return best;
+};
+
+// Both return null when the text to swap back is no longer in the resume
+export const undoEdit = (text: string, edit: ResumeEdit): string | null => {
+    const at = nearestOccurrence(text, edit.inserted, edit.start);
+    return at === -1 ? null : replaceAt(text, at, edit.inserted, edit.removed);
+};
+
+export const redoEdit = (text: string, edit: ResumeEdit): string | null => {
+    const at = nearestOccurrence(text, edit.removed, edit.start);
+    return at === -1 ? null : replaceAt(text, at, edit.removed, edit.inserted);
+};
@@ -0,0 +1,63 @@
+import { test, expect } from '@playwright/test';
+import { analysisCacheKey, createAnalysisCache } from '../server/analysisCache.js';
+import { createAnalyzer } from '../server/analyzer.js';
+import { createMockProvider } from '../server/llm/mock.js';
+
+const INPUT = { resumeText: 'Help Desk Technician\n- Reset passwords', jobDescription: 'IT Support Specialist', model: 'mock/test', promptVersion: 'v1' };
+
+test.describe('Analysis cache', () => {
+
+  test('keys ignore whitespace-only differences', () => {
+    expect(analysisCacheKey({ ...INPUT, resumeText: '  Help Desk   Technician \r\n\r\n- Reset passwords  ' })).toBe(analysisCacheKey(INPUT));
+  });
+
+  test('keys change with the texts, the model and the prompt version', () => {
+    const key = analysisCacheKey(INPUT);
+    expect(analysisCacheKey({ ...INPUT, resumeText: 'Help Desk Technician\n- Reset passwords daily' })).not.toBe(key);
+    expect(analysisCacheKey({ ...INPUT, jobDescription: 'IT Support Analyst' })).not.toBe(key);
+    expect(analysisCacheKey({ ...INPUT, model: 'mock/other' })).not.toBe(key);
+    expect(analysisCacheKey({ ...INPUT, promptVersion: 'v2' })).not.toBe(key);
+    // Moving text between the resume and the job is a different input, not the same concatenation
+    expect(analysisCacheKey({ ...INPUT, resumeText: 'a\nb', jobDescription: 'c' })).not.toBe(analysisCacheKey({ ...INPUT, resumeText: 'a', jobDescription: 'b\nc' }));
+  });
+
+  test('evicts the least recently used entry', async () => {
+    const cache = createAnalysisCache({ maxEntries: 2 });
+    cache.set('a', { matchScore: 1 });
+    cache.set('b', { matchScore: 2 });
+    await cache.get('a');
+    cache.set('c', { matchScore: 3 });
+    expect(await cache.get('b')).toBeNull();
+    expect((await cache.get('a'))!.result).toEqual({ matchScore: 1 });
+  });
+
+  test('falls back to persisted entries on a miss and can be turned off', async () => {
+    const looked: string[] = [];
+    const cache = createAnalysisCache({
+      loadPersisted: async (key: string) => {
+        looked.push(key);
+        return key === 'stored' ? { result: { matchScore: 70 }, cachedAt: '2025-01-01T00:00:00.000Z' } : null;
+      },
+    });
+    expect(await cache.get('stored')).toEqual({ result: { matchScore: 70 }, cachedAt: '2025-01-01T00:00:00.000Z' });
+    await cache.get('stored');
+    expect(await cache.get('missing')).toBeNull();
+    expect(looked).toEqual(['stored', 'missing']);
+
+    const disabled = createAnalysisCache({ maxEntries: 0 });
+    disabled.set('a', { matchScore: 1 });
+    expect(await disabled.get('a')).toBeNull();
+  });
+
+  test('marks repeat analyses as cached and keeps their key', async () => {
+    const analyzer = createAnalyzer({ llm: createMockProvider({ model: 'test' }), cache: createAnalysisCache() });
+    const first = await analyzer.analyze(INPUT.resumeText, INPUT.jobDescription);
+    const again = await analyzer.analyze(`${INPUT.resumeText}\n`, INPUT.jobDescription);
+    expect(first.cached).toBeUndefined();
+    expect(again).toMatchObject({ cached: true, cacheKey: first.cacheKey, result: { cached: true, matchScore: first.result.matchScore } });
+
+    const refreshed = await analyzer.analyze(INPUT.resumeText, INPUT.jobDescription, { refresh: true });
+    expect(refreshed.cached).toBeUndefined();
+  });
+
+});
@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test';
+import { checkJobAnalysis } from '../server/analysisSchema.js';
+
+const VALID_ANALYSIS = {
+  matchScore: 82,
+  summary: 'Strong support background.',
+  strengths: ['Help desk experience'],
+  gaps: [],
+  matchedKeywords: [{ keyword: 'Help Desk', definition: 'First-line support.' }],
+  missingKeywords: [],
+  improvementSuggestions: [],
+  coverLetterDraft: 'Dear Hiring Manager,',
+};
+
+test.describe('Model output validation', () => {
+
+  test('accepts a valid analysis wrapped in a code fence and prose', () => {
+    const reply = 'Here is the analysis:\n```json\n' + JSON.stringify(VALID_ANALYSIS) + '\n```';
+    expect(checkJobAnalysis(reply)).toEqual({ success: true, data: VALID_ANALYSIS });
+  });
+
+  test('repairs common model mistakes', () => {
+    const reply = JSON.stringify({
+      ...VALID_ANALYSIS,
+      matchScore: '104.6',
+      strengths: 'Help desk experience',
+      missingKeywords: ['Salesforce'],
+      improvementSuggestions: [{ originalText: 'Answered calls.', suggestedRewrite: 'Answered 60 calls a day.' }],
+      coverLetterDraft: null,
+    });
+    const result = checkJobAnalysis(reply);
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      matchScore: 100,
+      strengths: ['Help desk experience'],
+      missingKeywords: [{ keyword: 'Salesforce', definition: '' }],
+      improvementSuggestions: [{ originalText: 'Answered calls.', suggestedRewrite: 'Answered 60 calls a day.', suggestionType: 'Rephrase' }],
+      coverLetterDraft: '',
+    });
+  });
+
+  test('reports what cannot be repaired', () => {
+    expect(checkJobAnalysis('I could not analyze this resume.')).toEqual({ success: false, issues: ['Reply was not a JSON object'] });
+    const result = checkJobAnalysis(JSON.stringify({ ...VALID_ANALYSIS, matchScore: 'high', summary: '' }));
+    expect(result.success).toBe(false);
+    expect(result.issues).toHaveLength(2);
+    expect(result.issues!.map(issue => issue.split(':')[0])).toEqual(['matchScore', 'summary']);
+  });
+
+});
@@ -1,7 +1,12 @@
-import { test, expect } from '@playwright/test';
+import { test, expect, Page } from '@playwright/test';
 
-// The URL for the app's backend analyze endpoint
-const API_URL_REGEX = /\/api\/analyze/;
+// The URLs for the app's backend analyze endpoints: blocking and streamed
+const API_URL_REGEX = /\/api\/analyze$/;
+const STREAM_URL_REGEX = /\/api\/analyze\/stream$/;
+
+// Without the streaming route the client falls back to the blocking one
+const disableStreaming = (page: Page) =>
+  page.route(STREAM_URL_REGEX, route => route.fulfill({ status: 404, body: 'Not Found' }));
 
 const MOCK_SUCCESS_RESPONSE = {
     matchScore: 95,
@@ -21,6 +26,8 @@ const MOCK_SUCCESS_RESPONSE = {
 test.describe('API Integration Tests', () => {
 
   test('should display analysis results on successful API call', async ({ page }) => {
+    await disableStreaming(page);
+
     // 1. Mock the API call to return a successful response
     await page.route(API_URL_REGEX, async route => {
       await route.fulfill({
@@ -53,6 +60,8 @@ test.describe('API Integration Tests', () => {
   });
 
   test('should display an error message on failed API call', async ({ page }) => {
+    await disableStreaming(page);
+
     // 1. Mock the API call to return a 500 server error
     await page.route(API_URL_REGEX, async route => {
       await route.fulfill({
@@ -84,4 +93,66 @@ test.describe('API Integration Tests', () => {
     await expect(page.locator('button:has-text("Analyze Match")')).toBeEnabled();
   });
 
+  test('should fill in analysis sections streamed from the server', async ({ page }) => {
+    const { matchScore, summary, matchedKeywords, missingKeywords } = MOCK_SUCCESS_RESPONSE;
+    const events = [
+      ['section', { section: 'overview', data: { matchScore, summary } }],
+      ['section', { section: 'keywords', data: { matchedKeywords, missingKeywords } }],
+      ['result', MOCK_SUCCESS_RESPONSE],
+    ];
+    await page.route(STREAM_URL_REGEX, async route => {
+      await route.fulfill({
+        status: 200,
+        contentType: 'text/event-stream',
+        body: events.map(([event, data]) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`).join(''),
+      });
+    });
+
+    await page.goto('/');
+    await page.getByRole('button', { name: 'Or paste resume as text' }).click();
+    await page.locator('#resume-input').fill('My test resume content.');
+    await page.getByRole('button', { name: '+ Add New Job' }).click();
+    await page.locator('[id^=job-desc-]').first().fill('My test job description.');
+    await page.getByRole('button', { name: 'Analyze Match' }).first().click();
+
+    await expect(page.locator('text=Analysis Complete')).toBeVisible();
+    await expect(page.locator('text=95%')).toBeVisible();
+    await expect(page.locator('text=Salesforce')).toBeVisible();
+  });
+
+  test('should keep a resume Q&A thread and send prior turns with follow-ups', async ({ page }) => {
+    const requests: any[] = [];
+    await page.route(/\/api\/resume-qa$/, async route => {
+      const body = route.request().postDataJSON();
+      requests.push(body);
+      await route.fulfill({
+        status: 200,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          answer: requests.length === 1 ? 'I handled high-volume inbound interactions at Verizon.' : 'I also ran outbound prospecting at Spectrum.',
+          citations: [{ line: 3, text: 'Engage inbound customers and manage high-volume interactions.' }],
+        }),
+      });
+    });
+
+    await page.goto('/');
+    await page.getByRole('button', { name: 'Or paste resume as text' }).click();
+    await page.locator('#resume-input').fill('Retail Specialist | Verizon\nMarch 2023 - Present\n- Engage inbound customers and manage high-volume interactions.');
+
+    await page.locator('#qa-question').fill('Describe your inbound experience.');
+    await page.getByRole('button', { name: 'Get Answer' }).click();
+    await expect(page.locator('text=I handled high-volume inbound interactions at Verizon.')).toBeVisible();
+    await expect(page.locator('text=L3')).toBeVisible();
+
+    await page.locator('#qa-question').fill('What about outbound?');
+    await page.getByRole('button', { name: 'Ask' }).click();
+    await expect(page.locator('text=I also ran outbound prospecting at Spectrum.')).toBeVisible();
+
+    // The follow-up must carry the first exchange so the model sees prior turns
+    expect(requests[1].history).toEqual([
+      { role: 'user', content: 'Describe your inbound experience.' },
+      { role: 'assistant', content: 'I handled high-volume inbound interactions at Verizon.' },
+    ]);
+  });
+
 });
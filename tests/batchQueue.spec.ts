@@ -0,0 +1,86 @@
+import { test, expect } from '@playwright/test';
+import { createBatchQueue } from '../server/batchQueue.js';
+
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 200 && !check(); i++) await new Promise(resolve => setTimeout(resolve, 5));
+};
+
+test.describe('Batch queue', () => {
+
+  test('runs items with bounded concurrency and reports their results', async () => {
+    let running = 0;
+    let peak = 0;
+    const queue = createBatchQueue({
+      concurrency: 2,
+      runItem: async ({ key }: { key: string }) => {
+        running += 1;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running -= 1;
+        return key.toUpperCase();
+      },
+    });
+    const { id } = queue.start(['a', 'b', 'c', 'd'].map(key => ({ key })), { owner: 'u1' });
+    await waitFor(() => queue.get(id, 'u1')!.status === 'completed');
+
+    const batch = queue.get(id, 'u1')!;
+    expect(batch.counts).toMatchObject({ total: 4, done: 4 });
+    expect(batch.items.map(item => item.result)).toEqual(['A', 'B', 'C', 'D']);
+    expect(peak).toBe(2);
+  });
+
+  test('retries retryable failures with backoff and gives up on the rest', async () => {
+    const attempts = new Map<string, number>();
+    const queue = createBatchQueue({
+      baseDelayMs: 1,
+      maxAttempts: 3,
+      isRetryable: (error: any) => error.code === 'RATE_LIMITED',
+      runItem: async ({ key }: { key: string }, { isFinalAttempt }: { isFinalAttempt: boolean }) => {
+        attempts.set(key, (attempts.get(key) || 0) + 1);
+        if (key === 'flaky' && !isFinalAttempt) throw Object.assign(new Error('Slow down'), { code: 'RATE_LIMITED' });
+        if (key === 'broken') throw Object.assign(new Error('Bad input'), { code: 'INVALID' });
+        return 'ok';
+      },
+    });
+    const { id } = queue.start([{ key: 'flaky' }, { key: 'broken' }], { owner: 'u1' });
+    await waitFor(() => queue.get(id, 'u1')!.status === 'completed');
+
+    const [flaky, broken] = queue.get(id, 'u1')!.items;
+    expect(flaky).toMatchObject({ status: 'done', attempts: 3, result: 'ok' });
+    expect(broken).toMatchObject({ status: 'failed', attempts: 1, error: 'Bad input', errorCode: 'INVALID' });
+  });
+
+  test('cancels queued items and lets running ones finish', async () => {
+    let release = () => {};
+    const queue = createBatchQueue({
+      concurrency: 1,
+      runItem: () => new Promise(resolve => { release = () => resolve('ok'); }),
+    });
+    const { id } = queue.start([{ key: 'first' }, { key: 'second' }], { owner: 'u1' });
+    expect(queue.cancel(id, 'u1')!.items.map(item => item.status)).toEqual(['running', 'cancelled']);
+    release();
+    await waitFor(() => queue.get(id, 'u1')!.status !== 'running');
+
+    const batch = queue.get(id, 'u1')!;
+    expect(batch.status).toBe('cancelled');
+    expect(batch.counts).toMatchObject({ done: 1, cancelled: 1 });
+  });
+
+  test('only shows a signed-in user\'s batch to them', () => {
+    const queue = createBatchQueue({ runItem: () => new Promise(() => {}) });
+    const { id } = queue.start([{ key: 'a' }], { owner: 'u1' });
+    expect(queue.get(id, 'u1')).not.toBeNull();
+    expect(queue.get(id, 'u2')).toBeNull();
+    expect(queue.get(id, undefined)).toBeNull();
+    expect(queue.cancel(id, 'u2')).toBeNull();
+    expect(queue.get('not-a-batch', 'u1')).toBeNull();
+  });
+
+  test('lets anyone holding an anonymous batch\'s id read or cancel it', () => {
+    const queue = createBatchQueue({ runItem: () => new Promise(() => {}) });
+    const { id } = queue.start([{ key: 'a' }]);
+    expect(queue.get(id, undefined)).not.toBeNull();
+    expect(queue.cancel(id, undefined)!.status).toBe('running');
+  });
+
+});
@@ -0,0 +1,77 @@
+import { test, expect } from '@playwright/test';
+import { coverLetterToBlocks, renderDocument, resumeToBlocks } from '../server/documentExport.js';
+import { extractDocumentTextLocally } from '../server/documentText.js';
+
+const RESUME = [
+  'JANE DOE',
+  'Omaha, NE | jane@example.com',
+  '',
+  'EXPERIENCE',
+  'Retail Specialist | Verizon',
+  'March 2023 - Present',
+  '- Engage inbound customers (50+ a day) & upsell plans.',
+  '',
+  'SKILLS',
+  'Troubleshooting',
+  'Bilingual (Spanish)',
+].join('\n');
+
+const nonBlankLines = (text: string) => text.split('\n').filter(line => line.trim());
+
+test.describe('Document export', () => {
+
+  test('lays a resume out as typed blocks from its sections', () => {
+    expect(resumeToBlocks(RESUME).map(block => `${block.type}: ${block.text}`)).toEqual([
+      'name: JANE DOE',
+      'contact: Omaha, NE | jane@example.com',
+      'heading: EXPERIENCE',
+      'entry: Retail Specialist | Verizon',
+      'meta: March 2023 - Present',
+      'bullet: Engage inbound customers (50+ a day) & upsell plans.',
+      'heading: SKILLS',
+      'bullet: Troubleshooting',
+      'bullet: Bilingual (Spanish)',
+    ]);
+  });
+
+  test('heads a cover letter with the resume\'s name, contact line and the date', () => {
+    const blocks = coverLetterToBlocks('Dear Hiring Manager,\n\nI am excited.', { resumeText: RESUME, date: new Date(2025, 0, 15) });
+    expect(blocks.map(block => `${block.type}: ${block.text}`)).toEqual([
+      'name: JANE DOE',
+      'contact: Omaha, NE | jane@example.com',
+      'meta: January 15, 2025',
+      'paragraph: Dear Hiring Manager,',
+      'paragraph: I am excited.',
+    ]);
+  });
+
+  for (const format of ['docx', 'pdf']) {
+    test(`writes a ${format.toUpperCase()} that reads back as the same resume`, () => {
+      const document = renderDocument(resumeToBlocks(RESUME), format, { title: 'Jane Doe' });
+      expect(document.extension).toBe(format);
+      const extracted = extractDocumentTextLocally(document.mimeType, document.data);
+      // Skills come back as bullets, the way the blocks render them
+      expect(nonBlankLines(extracted.text!)).toEqual(
+        nonBlankLines(RESUME).map(line => (line === 'Troubleshooting' || line === 'Bilingual (Spanish)' ? `- ${line}` : line))
+      );
+    });
+  }
+
+  test('splits a word too long for one line across lines without losing characters', () => {
+    const word = 'x'.repeat(20000);
+    const document = renderDocument([{ type: 'paragraph', text: `${word} end` }], 'pdf');
+    const lines = nonBlankLines(extractDocumentTextLocally(document.mimeType, document.data).text!);
+    expect(lines.length).toBeGreaterThan(10);
+    expect(lines.join('')).toBe(`${word} end`);
+  });
+
+  test('writes the same DOCX bytes for the same resume', () => {
+    const render = () => renderDocument(resumeToBlocks(RESUME), 'docx').data;
+    expect(render().equals(render())).toBe(true);
+  });
+
+  test('rejects unknown formats', () => {
+    expect(() => renderDocument([], 'rtf')).toThrow('Unsupported export format: rtf');
+  });
+
+});
@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+import zlib from 'zlib';
+import { createZip, readZipEntry, ZipEntryTooLargeError } from '../server/zip.js';
+import { DOCX_MIME_TYPE, DocumentTooLargeError, extractDocumentTextLocally } from '../server/documentText.js';
+
+const paragraph = (text: string) => `<w:p><w:r><w:t>${text}</w:t></w:r></w:p>`;
+const documentXml = (body: string) =>
+  `<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`;
+
+// A minimal PDF: one page drawing `content`, plus the given objects (numbered from 3)
+const pdfWith = (content: string, objects: (string | Buffer)[] = [], resources = '') => {
+  const parts: (string | Buffer)[] = [
+    `%PDF-1.4\n1 0 obj\n<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`,
+    `2 0 obj\n<< /Type /Page /Contents 1 0 R /Resources << ${resources} >> >>\nendobj\n`,
+  ];
+  objects.forEach((object, index) => parts.push(`${index + 3} 0 obj\n`, object, '\nendobj\n'));
+  parts.push('trailer\n<< >>\n%%EOF\n');
+  return Buffer.concat(parts.map(part => (typeof part === 'string' ? Buffer.from(part, 'latin1') : part)));
+};
+
+const flateStream = (data: Buffer, dict = '') => {
+  const stream = zlib.deflateSync(data);
+  return Buffer.concat([Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode ${dict} >>\nstream\n`, 'latin1'), stream, Buffer.from('\nendstream', 'latin1')]);
+};
+
+const FONT = '/Font << /F1 << /Type /Font /Subtype /Type1 /BaseFont /Helvetica >> >>';
+
+// Rewrites an entry's declared uncompressed size in both the local header and the central directory
+const withDeclaredSize = (zip: Buffer, size: number) => {
+  const out = Buffer.from(zip);
+  out.writeUInt32LE(size, 22);
+  out.writeUInt32LE(size, out.indexOf(Buffer.from([0x50, 0x4b, 0x01, 0x02])) + 24);
+  return out;
+};
+
+test.describe('Local document text extraction', () => {
+
+  test('reads the paragraphs of a DOCX', () => {
+    const docx = createZip([{ name: 'word/document.xml', data: documentXml(paragraph('EXPERIENCE') + paragraph('Retail Specialist | Verizon')) }]);
+    expect(extractDocumentTextLocally(DOCX_MIME_TYPE, docx)).toEqual({ text: 'EXPERIENCE\nRetail Specialist | Verizon', method: 'docx' });
+  });
+
+  test('refuses ZIP entries that inflate past their declared size', () => {
+    // 8MB of zeros deflates to a few KB, then claims to be 1KB
+    const bomb = withDeclaredSize(createZip([{ name: 'word/document.xml', data: Buffer.alloc(8 * 1024 * 1024) }]), 1024);
+    expect(bomb.length).toBeLessThan(64 * 1024);
+    expect(() => readZipEntry(bomb, 'word/document.xml')).toThrow(ZipEntryTooLargeError);
+    expect(() => extractDocumentTextLocally(DOCX_MIME_TYPE, bomb)).toThrow(DocumentTooLargeError);
+  });
+
+  test('refuses ZIP entries that declare more than the limit', () => {
+    const zip = createZip([{ name: 'word/document.xml', data: documentXml(paragraph('Hello')) }]);
+    expect(() => readZipEntry(zip, 'word/document.xml', { maxSize: 16 })).toThrow(ZipEntryTooLargeError);
+  });
+
+  test('refuses PDF streams that inflate past the limit', () => {
+    const stream = zlib.deflateSync(Buffer.alloc(40 * 1024 * 1024));
+    const pdf = Buffer.concat([
+      Buffer.from(`%PDF-1.4\n1 0 obj\n<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      stream,
+      Buffer.from('\nendstream\nendobj\n2 0 obj\n<< /Type /Page /Contents 1 0 R >>\nendobj\ntrailer\n<< >>\n%%EOF\n', 'latin1'),
+    ]);
+    expect(() => extractDocumentTextLocally('application/pdf', pdf)).toThrow(DocumentTooLargeError);
+  });
+
+  test('limits what all of a PDF\'s streams inflate to together', () => {
+    const stream = flateStream(Buffer.alloc(30 * 1024 * 1024), '/Type /XObject /Subtype /Form');
+    const pdf = pdfWith('/A Do /B Do /C Do', [stream, stream, stream], '/XObject << /A 3 0 R /B 4 0 R /C 5 0 R >>');
+    expect(() => extractDocumentTextLocally('application/pdf', pdf)).toThrow(DocumentTooLargeError);
+  });
+
+  test('runs a form XObject drawn on every page but refuses one drawn thousands of times', () => {
+    const form = flateStream(Buffer.from('BT /F1 12 Tf 72 700 Td (Retail Specialist at Verizon, engaging inbound customers in Omaha) Tj ET'), `/Type /XObject /Subtype /Form /Resources << ${FONT} >>`);
+    const resources = '/XObject << /X 3 0 R >>';
+    expect(extractDocumentTextLocally('application/pdf', pdfWith('/X Do', [form], resources)).text).toContain('Retail Specialist at Verizon');
+    expect(() => extractDocumentTextLocally('application/pdf', pdfWith('/X Do\n'.repeat(5000), [form], resources))).toThrow(DocumentTooLargeError);
+  });
+
+  test('limits the content a PDF runs in total, counting each time a form is drawn', () => {
+    const form = flateStream(Buffer.alloc(1024 * 1024, ' '), '/Type /XObject /Subtype /Form');
+    expect(() => extractDocumentTextLocally('application/pdf', pdfWith('/X Do\n'.repeat(100), [form], '/XObject << /X 3 0 R >>'))).toThrow(DocumentTooLargeError);
+  });
+
+});
@@ -0,0 +1,26 @@
+import { test, expect } from '@playwright/test';
+import { createHiringCafeFeed } from '../server/hiringCafe.js';
+
+test.describe('hiring.cafe feed', () => {
+
+  test('keeps undated jobs and lists them after the dated ones', async () => {
+    const feed = createHiringCafeFeed({ useFixtures: true });
+    const { jobs, total } = await feed.search({ pageSize: 50 });
+    expect(total).toBe(9);
+    expect(jobs.at(-1)).toMatchObject({ id: 'hc-1009', posted_at: null });
+    const dated = jobs.slice(0, -1).map(job => Date.parse(job.posted_at!));
+    expect(dated).toEqual([...dated].sort((a, b) => b - a));
+  });
+
+  test('counts undated jobs in the tag facets', async () => {
+    const { facets } = await createHiringCafeFeed({ useFixtures: true }).search({ tags: ['IT Support'] });
+    expect(facets.tags.find(facet => facet.tag === 'IT Support')).toEqual({ tag: 'IT Support', count: 5 });
+  });
+
+  test('leaves undated jobs out of a posted-within window', async () => {
+    const { jobs } = await createHiringCafeFeed({ useFixtures: true }).search({ postedWithin: 36500 });
+    expect(jobs.map(job => job.id)).not.toContain('hc-1009');
+    expect(jobs).toHaveLength(8);
+  });
+
+});
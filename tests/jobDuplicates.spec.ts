@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test';
+import { canonicalJobUrl, findDuplicateJob, mergeDuplicateJob } from '../services/jobDuplicates';
+import { NEW_JOB_COMPANY, NEW_JOB_TITLE } from '../data/defaultData';
+import { Job } from '../types';
+
+const DESCRIPTION = 'Provide tier 1 help desk support, reset passwords, image laptops and document fixes in the ticketing system.';
+
+const job = (fields: Partial<Job>): Job => ({
+  id: 'job',
+  url: '',
+  title: 'IT Support Specialist',
+  company: 'Northwind Health',
+  description: DESCRIPTION,
+  isFetching: false,
+  isLoading: false,
+  error: null,
+  analysis: null,
+  status: 'saved',
+  statusHistory: [],
+  ...fields,
+});
+
+test.describe('Duplicate jobs', () => {
+
+  test('gives every link to one posting the same canonical URL', () => {
+    expect(canonicalJobUrl('https://www.example.com/careers/123/?utm_source=x&b=2&a=1#apply')).toBe('example.com/careers/123?a=1&b=2');
+    expect(canonicalJobUrl('example.com/careers/123')).toBe('example.com/careers/123');
+    expect(canonicalJobUrl('https://www.linkedin.com/jobs/view/it-support-specialist-at-northwind-4012345678/?trk=public_jobs'))
+      .toBe('linkedin.com/jobs/view/4012345678');
+    expect(canonicalJobUrl('https://www.linkedin.com/jobs/search/?currentJobId=4012345678&keywords=support')).toBe('linkedin.com/jobs/view/4012345678');
+    expect(canonicalJobUrl('https://ca.indeed.com/viewjob?jk=abc123&from=serp')).toBe('ca.indeed.com/viewjob?jk=abc123');
+    expect(canonicalJobUrl('  ')).toBe('');
+  });
+
+  test('matches the same posting under a different URL', () => {
+    const saved = job({ id: 'a', url: 'https://www.linkedin.com/jobs/view/4012345678/', title: 'Something Else' });
+    const match = findDuplicateJob(job({ id: 'b', url: 'linkedin.com/jobs/view/support-4012345678?trk=x' }), [saved]);
+    expect(match).toMatchObject({ job: { id: 'a' }, reason: 'url', similarity: 1 });
+  });
+
+  test('matches the same role posted on another board', () => {
+    const saved = job({ id: 'a', url: 'https://boards.example.com/1', company: 'Northwind Health, Inc.' });
+    const candidate = job({ id: 'b', url: 'https://jobs.example.org/2', title: 'IT Support Specialist (Remote)', description: `${DESCRIPTION} Apply today.` });
+    const match = findDuplicateJob(candidate, [saved]);
+    expect(match).toMatchObject({ job: { id: 'a' }, reason: 'similar' });
+    expect(match!.similarity).toBeGreaterThan(0.9);
+    expect(match!.similarity).toBeLessThan(1);
+  });
+
+  test('keeps different roles, openings and placeholders apart', () => {
+    const saved = job({ id: 'a' });
+    expect(findDuplicateJob(job({ id: 'b', title: 'Senior IT Support Specialist' }), [saved])).toBeNull();
+    expect(findDuplicateJob(job({ id: 'b', title: 'IT Support Specialist II' }), [job({ id: 'a', title: 'IT Support Specialist I' })])).toBeNull();
+    expect(findDuplicateJob(job({ id: 'b', company: 'Contoso' }), [saved])).toBeNull();
+    expect(findDuplicateJob(job({ id: 'b', description: 'Manage the warehouse forklift fleet and shipping schedules.' }), [saved])).toBeNull();
+    expect(findDuplicateJob(job({ id: 'b', title: NEW_JOB_TITLE, company: NEW_JOB_COMPANY }), [job({ id: 'a', title: NEW_JOB_TITLE, company: NEW_JOB_COMPANY })])).toBeNull();
+    expect(findDuplicateJob(saved, [saved])).toBeNull();
+  });
+
+  test('prefers the closest of several similar jobs', () => {
+    const close = job({ id: 'close' });
+    const looser = job({ id: 'looser', company: 'Northwind Health Partners' });
+    expect(findDuplicateJob(job({ id: 'b' }), [looser, close])!.job.id).toBe('close');
+  });
+
+  test('merges only the fields the kept job is missing', () => {
+    const existing = job({ id: 'a', url: '', title: NEW_JOB_TITLE, description: '' });
+    const duplicate = job({ id: 'b', url: 'https://example.com/1', title: 'Help Desk Analyst', company: 'Contoso' });
+    expect(mergeDuplicateJob(existing, duplicate)).toEqual({ url: 'https://example.com/1', title: 'Help Desk Analyst', description: DESCRIPTION });
+  });
+
+});
@@ -0,0 +1,43 @@
+import { test, expect } from '@playwright/test';
+import { BlockedUrlError, fetchJobPage, isPublicAddress, readJobPosting } from '../server/jobPage.js';
+
+test.describe('Job page reader', () => {
+
+  for (const url of [
+    'http://localhost:3000/',
+    'http://127.0.0.1/admin',
+    'http://2130706433/',
+    'http://10.0.0.5/',
+    'http://192.168.1.1/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://[::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[fd00::1]/',
+    'file:///etc/passwd',
+  ]) {
+    test(`refuses to fetch ${url}`, async () => {
+      await expect(fetchJobPage(url)).rejects.toBeInstanceOf(BlockedUrlError);
+    });
+  }
+
+  test('tells public addresses from private ones', () => {
+    expect(['8.8.8.8', '104.16.0.1', '2606:4700::1'].every(isPublicAddress)).toBe(true);
+    expect(['172.16.4.2', '100.64.0.1', '0.0.0.0', 'fe80::1', '::ffff:10.0.0.1', 'not-an-ip'].some(isPublicAddress)).toBe(false);
+  });
+
+  test('prefers the page\'s JSON-LD JobPosting', () => {
+    const html = `<html><head><title>Careers</title><script type="application/ld+json">
+      {"@context": "https://schema.org", "@type": "JobPosting", "title": "IT Support Specialist",
+       "hiringOrganization": {"@type": "Organization", "name": "Northwind Health"},
+       "description": "<p>Provide help desk support.</p><ul><li>Reset passwords</li></ul>"}
+    </script></head><body><p>Unrelated page text.</p></body></html>`;
+    expect(readJobPosting(html)).toMatchObject({
+      title: 'IT Support Specialist',
+      company: 'Northwind Health',
+      source: 'jsonLd',
+    });
+    expect(readJobPosting(html).text).toContain('Provide help desk support.');
+    expect(readJobPosting(html).text).not.toContain('Unrelated page text.');
+  });
+
+});
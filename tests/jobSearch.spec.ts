@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test';
+import { createJobSearch } from '../server/jobSources/index.js';
+import { parseLinkedInCards } from '../server/jobSources/linkedin.js';
+
+// Every site is served from jobSources/fixtures/jobs.json, so nothing here touches the network
+const jobSearch = createJobSearch({ llm: null, useFixtures: true });
+
+test.describe('Job search adapters', () => {
+
+  test('matches every query word against the chosen site only', async () => {
+    const adapter = jobSearch.getAdapter('linkedin.com/jobs')!;
+    const { jobs, hasMore } = await jobSearch.search(adapter, { query: 'data analyst', page: 1, pageSize: 10 });
+    expect(jobs.map(job => job.title)).toEqual(['Data Analyst', 'Junior Data Analyst']);
+    expect(jobs.every(job => job.source === 'linkedin.com/jobs')).toBe(true);
+    expect(hasMore).toBe(false);
+  });
+
+  test('pages through results', async () => {
+    const adapter = jobSearch.getAdapter('linkedin.com/jobs')!;
+    const first = await jobSearch.search(adapter, { query: 'data analyst', page: 1, pageSize: 1 });
+    const second = await jobSearch.search(adapter, { query: 'data analyst', page: 2, pageSize: 1 });
+    expect(first).toMatchObject({ page: 1, pageSize: 1, hasMore: true });
+    expect(second.hasMore).toBe(false);
+    expect(second.jobs[0].title).toBe('Junior Data Analyst');
+  });
+
+  test('has no adapter for unknown sites', () => {
+    expect(jobSearch.getAdapter('example.com')).toBeNull();
+  });
+
+  test('reads LinkedIn job cards and drops their tracking parameters', () => {
+    const html = `<ul><li><div class="base-card">
+      <a class="base-card__full-link absolute" href="https://www.linkedin.com/jobs/view/help-desk-4001?refId=abc&amp;trackingId=xyz">x</a>
+      <h3 class="base-search-card__title">Help Desk &amp; IT Support</h3>
+      <h4 class="base-search-card__subtitle"><a href="#">Proseware</a></h4>
+      <span class="job-search-card__location">Omaha, NE</span>
+      <time class="job-search-card__listdate" datetime="2025-10-01">2 weeks ago</time>
+    </div></li><li><div>No title or link here</div></li></ul>`;
+    expect(parseLinkedInCards(html)).toEqual([{
+      title: 'Help Desk & IT Support',
+      company: 'Proseware',
+      url: 'https://www.linkedin.com/jobs/view/help-desk-4001',
+      location: 'Omaha, NE',
+      postedAt: '2025-10-01',
+      snippet: '',
+    }]);
+  });
+
+});
@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test';
+import { analyzeOffline, estimateYearsOfExperience, requiredYearsOfExperience } from '../server/offlineAnalyzer.js';
+import { SKILLS } from '../server/skills.js';
+
+const keywordsOf = (list: { keyword: string }[]) => list.map(k => k.keyword);
+
+test.describe('Offline analyzer', () => {
+
+  test('does not count JavaScript experience as TypeScript', () => {
+    const result = analyzeOffline(
+      'Frontend Developer\n- Built React apps in JavaScript.',
+      'Frontend Engineer\nRequirements:\n- TypeScript and JavaScript'
+    );
+    expect(keywordsOf(result.matchedKeywords)).toContain('JavaScript');
+    expect(keywordsOf(result.missingKeywords)).toContain('TypeScript');
+  });
+
+  test('does not treat a remote posting as asking for a skill', () => {
+    const result = analyzeOffline(
+      'Help Desk Technician\n- Resolved help desk tickets and troubleshooting requests.',
+      'Help Desk Technician\nThis is a Remote role.\nRequirements:\n- Help desk troubleshooting, fully Remote'
+    );
+    const all = [...keywordsOf(result.matchedKeywords), ...keywordsOf(result.missingKeywords)];
+    expect(all.some(keyword => /remote/i.test(keyword))).toBe(false);
+    expect(result.missingKeywords).toEqual([]);
+    expect(result.matchScore).toBe(100);
+  });
+
+  test('gives every alias to exactly one skill', () => {
+    const aliases = SKILLS.flatMap(skill => skill.aliases);
+    expect(aliases.filter((alias, i) => aliases.indexOf(alias) !== i)).toEqual([]);
+  });
+
+  test('counts one word in a posting as one keyword', () => {
+    const result = analyzeOffline('- Built reports in Excel and Salesforce', 'Requirements:\n- Excel\n- Salesforce');
+    expect(keywordsOf(result.matchedKeywords).sort()).toEqual(['Excel', 'Salesforce']);
+    expect(result.missingKeywords).toEqual([]);
+  });
+
+  test('weights requirements above other mentions', () => {
+    const job = 'Sales Associate\nResponsibilities:\n- Keep the CRM current\nRequirements:\n- Bilingual in Spanish';
+    expect(analyzeOffline('- Bilingual English and Spanish speaker', job).matchScore).toBe(67);
+    expect(analyzeOffline('- Updated the CRM daily', job).matchScore).toBe(33);
+  });
+
+  test('uses a short first line as the job title and ignores sentences', () => {
+    expect(analyzeOffline('', 'IT Support Specialist\nTroubleshoot laptops.').coverLetterDraft)
+      .toContain('I am excited to apply for the IT Support Specialist position.');
+    expect(analyzeOffline('', 'We are hiring someone great.\nTroubleshoot laptops.').coverLetterDraft)
+      .toContain('I am excited to apply for this role.');
+  });
+
+  test('compares dated experience with the years asked for', () => {
+    const resume = 'Analyst | Contoso\nJan 2018 - Dec 2019\nLead | Fabrikam\nJune 2019 - Dec 2021';
+    expect(estimateYearsOfExperience(resume)).toBe(3.9);
+    expect(requiredYearsOfExperience('2+ years of support, ideally 3-5 years in retail')).toBe(3);
+    expect(requiredYearsOfExperience('No experience required')).toBeNull();
+  });
+
+});
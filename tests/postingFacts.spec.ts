@@ -0,0 +1,68 @@
+import { test, expect } from '@playwright/test';
+import { extractPostingFacts } from '../server/postingFacts.js';
+
+const facts = (description: string, title = 'IT Support Specialist') => extractPostingFacts({ title, description });
+
+test.describe('Posting facts', () => {
+
+  for (const [description, salary] of [
+    ['Salary: $95,000 - $120,000 per year.', { min: 95000, max: 120000, currency: 'USD', period: 'year' }],
+    ['Pay is $80-100k depending on experience', { min: 80000, max: 100000, currency: 'USD', period: 'year' }],
+    ['Pay: $25/hour', { min: 52000, max: 52000, currency: 'USD', period: 'hour' }],
+    ['Salary range 90,000 - 110,000 USD', { min: 90000, max: 110000, currency: 'USD', period: 'year' }],
+    ['Salary £40,000. We also offer a $2,000 signing bonus.', { min: 40000, max: 40000, currency: 'GBP', period: 'year' }],
+  ] as const) {
+    test(`reads the salary in "${description}"`, () => {
+      expect(facts(description).salary).toEqual(salary);
+    });
+  }
+
+  for (const description of [
+    'We raised $50 million in our Series B.',
+    'Backed by $120M from leading investors.',
+    'A $1,500 learning stipend every year.',
+    'Up to $5,000 annual bonus.',
+    'We have 401k matching and 2 years of runway.',
+  ]) {
+    test(`finds no salary in "${description}"`, () => {
+      expect(facts(description).salary).toBeNull();
+    });
+  }
+
+  for (const [description, arrangement] of [
+    ['This is not a remote role; onsite in Austin.', 'onsite'],
+    ['You must work on-site; our other teams are remote.', 'onsite'],
+    ['Fully remote, with occasional onsite visits.', 'remote'],
+    ['Hybrid: three days in office.', 'hybrid'],
+    ['Work from home anywhere in Canada.', 'remote'],
+  ] as const) {
+    test(`reads "${description}" as ${arrangement}`, () => {
+      expect(facts(description).workArrangement).toBe(arrangement);
+    });
+  }
+
+  test('settles the arrangement from the title first', () => {
+    expect(facts('Our office is onsite in Austin.', 'Support Engineer (Remote)').workArrangement).toBe('remote');
+  });
+
+  test('prefers what a JSON-LD JobPosting states', () => {
+    const result = extractPostingFacts({
+      title: 'Senior Support Engineer',
+      description: 'Salary: $60,000\nLocation: Austin, TX\nApply by March 5, 2026.',
+      jobPosting: {
+        baseSalary: { currency: 'USD', value: { minValue: 90000, maxValue: 110000, unitText: 'YEAR' } },
+        jobLocationType: 'TELECOMMUTE',
+        employmentType: 'FULL_TIME',
+      },
+    });
+    expect(result).toEqual({
+      salary: { min: 90000, max: 110000, currency: 'USD', period: 'year' },
+      locations: ['Austin, TX'],
+      workArrangement: 'remote',
+      employmentType: 'full-time',
+      seniority: 'senior',
+      deadline: '2026-03-05',
+    });
+  });
+
+});
@@ -0,0 +1,32 @@
+import { test, expect } from '@playwright/test';
+import { createRateLimiter } from '../server/rateLimit.js';
+
+const call = (limiter: ReturnType<typeof createRateLimiter>, ip: string) => {
+  const response = { status: 200, headers: {} as Record<string, string>, body: null as unknown };
+  const res = {
+    set: (name: string, value: string) => { response.headers[name] = value; return res; },
+    status: (code: number) => { response.status = code; return res; },
+    json: (body: unknown) => { response.body = body; return res; },
+  };
+  let passed = false;
+  limiter({ ip }, res, () => { passed = true; });
+  return { passed, ...response };
+};
+
+test.describe('Rate limiter', () => {
+
+  test('allows each address its limit per window, then answers 429', () => {
+    let time = 0;
+    const limiter = createRateLimiter({ limit: 2, windowMs: 60000, now: () => time });
+    expect([call(limiter, 'a'), call(limiter, 'a')].every(result => result.passed)).toBe(true);
+
+    time = 15000;
+    const blocked = call(limiter, 'a');
+    expect(blocked).toMatchObject({ passed: false, status: 429, headers: { 'Retry-After': '45' } });
+    expect(call(limiter, 'b').passed).toBe(true);
+
+    time = 60000;
+    expect(call(limiter, 'a').passed).toBe(true);
+  });
+
+});
@@ -0,0 +1,93 @@
+import { test, expect } from '@playwright/test';
+import { parseResume, renderResume } from '../server/resumeParser.js';
+
+const RESUME = [
+  'JANE DOE',
+  'Omaha, NE | jane@example.com',
+  '',
+  'EXPERIENCE',
+  'Retail Specialist | Verizon',
+  'March 2023 - Present',
+  '- Engage inbound customers and manage high-volume interactions.',
+  '- Troubleshoot devices and accounts.',
+  '',
+  'Help Desk Technician | Northwind Health',
+  '2019 - 2021',
+  '- Resolved 40 tickets a day.',
+  '',
+  'EDUCATION',
+  'B.S. Information Technology',
+  'University of Nebraska',
+  '',
+  'SKILLS',
+  'Troubleshooting',
+  'Bilingual (Spanish)',
+].join('\n');
+
+test.describe('Resume parser', () => {
+
+  test('parses template sections into fields', () => {
+    const model = parseResume(RESUME);
+    expect(model.header).toEqual(['JANE DOE', 'Omaha, NE | jane@example.com', '']);
+    expect(model.sections.map(section => section.kind)).toEqual(['experience', 'education', 'skills']);
+
+    const [experience, education, skills] = model.sections;
+    expect(experience.raw).toBeUndefined();
+    expect(experience.entries).toEqual([
+      {
+        title: 'Retail Specialist',
+        company: 'Verizon',
+        dates: { start: 'March 2023', end: 'Present' },
+        details: [],
+        bullets: ['Engage inbound customers and manage high-volume interactions.', 'Troubleshoot devices and accounts.'],
+      },
+      { title: 'Help Desk Technician', company: 'Northwind Health', dates: { start: '2019', end: '2021' }, details: [], bullets: ['Resolved 40 tickets a day.'] },
+    ]);
+    expect(education.entries).toEqual([{ degree: 'B.S. Information Technology', school: 'University of Nebraska', details: [] }]);
+    expect(skills.items).toEqual(['Troubleshooting', 'Bilingual (Spanish)']);
+  });
+
+  test('renders edited fields back in the template layout', () => {
+    const model = parseResume(RESUME);
+    model.sections[0].entries[1].bullets.push('Imaged 200 laptops.');
+    expect(renderResume(model)).toBe(RESUME.replace('- Resolved 40 tickets a day.', '- Resolved 40 tickets a day.\n- Imaged 200 laptops.'));
+  });
+
+  for (const [name, text] of [
+    ['the template', RESUME],
+    ['Windows line endings', RESUME.replace(/\n/g, '\r\n')],
+    ['mixed line endings', 'SKILLS\r\nSQL\nExcel'],
+    ['sections laid out differently', 'SUMMARY\n\n\nSeasoned tech.\nEXPERIENCE\n  * Fixed printers  \nWORK EXPERIENCE:\nTitle — Co\n2020 to now\n\n'],
+    ['no headings at all', 'Just a paragraph about me.\n'],
+    ['an empty resume', ''],
+  ]) {
+    test(`round-trips ${name} exactly`, () => {
+      expect(renderResume(parseResume(text))).toBe(text);
+    });
+  }
+
+  test('keeps the original lines of sections it cannot rebuild', () => {
+    const text = 'EXPERIENCE\nCashier | Target\n  * Fixed printers  \n\nSKILLS\nSQL';
+    const [experience, skills] = parseResume(text).sections;
+    expect(experience.raw).toEqual(['EXPERIENCE', 'Cashier | Target', '  * Fixed printers  ', '']);
+    expect(experience.entries[0]).toMatchObject({ title: 'Cashier', company: 'Target', bullets: ['Fixed printers'] });
+    expect(skills).toMatchObject({ kind: 'skills', items: ['SQL'] });
+    expect(skills.raw).toBeUndefined();
+  });
+
+  test('drops trailing blank lines from free-form sections in linear time', () => {
+    const text = `SUMMARY\nSeasoned tech.\n\nLoves printers.${'\n'.repeat(40000)}`;
+    const started = Date.now();
+    const model = parseResume(text);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(model.sections[0].lines).toEqual(['Seasoned tech.', '', 'Loves printers.']);
+    expect(renderResume(model)).toBe(text);
+  });
+
+  test('takes other all-caps lines after a blank line as headings', () => {
+    const model = parseResume('SKILLS\nSQL\nAWS\n\nRESEARCH INTERESTS\nSupport automation');
+    expect(model.sections.map(section => section.heading)).toEqual(['SKILLS', 'RESEARCH INTERESTS']);
+    expect(model.sections[0].items).toEqual(['SQL', 'AWS']);
+  });
+
+});
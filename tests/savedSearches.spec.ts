@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test';
+import { MAX_RETRY_DELAY_MINUTES, createSearchPoller, nextPollDelayMinutes } from '../server/savedSearches.js';
+import { canonicalJobUrl } from '../services/jobUrl.js';
+
+const listing = (id: string, url: string) => ({
+  id, url, title: 'IT Support Specialist', company_name: 'Northwind Health', description: 'Reset passwords.', location: 'Remote', tags: [], company_logo_url: '', posted_at: null,
+});
+
+const SEARCH = { name: 'Support', keywords: 'support', tags: [], location: '', sources: ['hiring.cafe'], minMatchScore: 0, autoAnalyze: false };
+
+test.describe('Saved search polling', () => {
+
+  test('skips listings already on the dashboard however their URL is written', async () => {
+    const hiringCafe = {
+      search: async () => ({
+        jobs: [
+          listing('a', 'https://www.linkedin.com/jobs/view/it-support-specialist-4012345678/?trk=public_jobs&refId=x'),
+          listing('b', 'https://ca.indeed.com/viewjob?jk=abc123&from=serp'),
+          listing('c', 'https://careers.example.com/jobs/7?utm_source=hc'),
+        ],
+      }),
+    };
+    const poller = createSearchPoller({ hiringCafe, jobSearch: null, analyzer: null, llm: null });
+    const dashboard = ['https://linkedin.com/jobs/search/?currentJobId=4012345678', 'ca.indeed.com/viewjob?vjk=abc123'];
+    const { hits, seenKeys } = await poller.poll(SEARCH, { excluded: new Set(dashboard.map(canonicalJobUrl)) });
+    expect(hits.map(hit => hit.url)).toEqual(['https://careers.example.com/jobs/7?utm_source=hc']);
+    expect(seenKeys).toEqual(['careers.example.com/jobs/7']);
+  });
+
+  test('reports a failing source without losing the others', async () => {
+    const hiringCafe = { search: async () => ({ jobs: [listing('a', 'https://careers.example.com/jobs/7')] }) };
+    const jobSearch = { getAdapter: () => null, search: async () => ({ jobs: [] }) };
+    const poller = createSearchPoller({ hiringCafe, jobSearch, analyzer: null, llm: null });
+    const { hits, errors } = await poller.poll({ ...SEARCH, sources: ['hiring.cafe', 'nowhere'] });
+    expect(hits).toHaveLength(1);
+    expect(errors).toEqual(['nowhere: no job source is configured for it']);
+  });
+
+  test('backs off a search that keeps failing, up to a day', () => {
+    expect(nextPollDelayMinutes(60)).toBe(60);
+    expect([1, 2, 3, 4].map(failed => nextPollDelayMinutes(60, failed))).toEqual([60, 120, 240, 480]);
+    expect(nextPollDelayMinutes(360, 10)).toBe(MAX_RETRY_DELAY_MINUTES);
+  });
+
+});
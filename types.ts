@@ -7,6 +7,47 @@ export interface JobAnalysis {
   missingKeywords: Keyword[];
   improvementSuggestions: ImprovementSuggestion[];
   coverLetterDraft: string;
+  // 'offline' when the rule-based fallback produced the analysis instead of the model
+  source?: 'model' | 'offline';
+  // Served from the server's analysis cache instead of a new model call
+  cached?: boolean;
+  cachedAt?: string;
+}
+
+// Parts of a JobAnalysis that /api/analyze/stream delivers together
+export type AnalysisSectionName = 'overview' | 'fit' | 'keywords' | 'suggestions' | 'coverLetter';
+
+// One stored run of /api/analyze, as returned by GET /api/analyses
+export interface AnalysisRecord {
+  id: string;
+  jobId: string | null;
+  resumeId: string | null;
+  // Hash of the analyzed resume text; equal hashes mean the same resume revision
+  resumeHash: string | null;
+  jobDescription: string;
+  analysis: JobAnalysis;
+  createdAt: string;
+}
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Progress of one job inside an "Analyze all" batch; `key` is the job id
+export interface BatchAnalysisItem {
+  key: string;
+  status: BatchItemStatus;
+  attempts: number;
+  result?: JobAnalysis;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface BatchAnalysis {
+  id: string;
+  status: 'running' | 'completed' | 'cancelled';
+  createdAt: string;
+  finishedAt: string | null;
+  counts: Record<BatchItemStatus, number> & { total: number };
+  items: BatchAnalysisItem[];
 }
 
 export interface Keyword {
@@ -20,6 +61,80 @@ export interface ImprovementSuggestion {
   suggestionType: string;
 }
 
+export type ApplicationStatus =
+  | 'saved'
+  | 'applied'
+  | 'screening'
+  | 'interviewing'
+  | 'offer'
+  | 'rejected'
+  | 'withdrawn';
+
+export interface StatusChange {
+  status: ApplicationStatus;
+  from?: ApplicationStatus;
+  changedAt: string;
+}
+
+export type CoverLetterTone = 'formal' | 'enthusiastic' | 'concise';
+export type CoverLetterLength = 'short' | 'medium' | 'long';
+
+export interface CoverLetterParagraph {
+  text: string;
+  // The analysis strengths this paragraph draws on
+  strengths: string[];
+}
+
+export interface CoverLetterSettings {
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+  companyName: string;
+  hiringManager: string;
+}
+
+export interface CoverLetterVersion extends CoverLetterSettings {
+  id: string;
+  content: string;
+  // As generated; absent for versions saved from manual edits
+  paragraphs?: CoverLetterParagraph[];
+  // Whether the model wrote it or it was saved from the editor
+  origin: 'generated' | 'edited';
+  savedAt: string;
+}
+
+// Per-job cover letter editor state, persisted with the job
+export interface CoverLetterWorkspace extends CoverLetterSettings {
+  draft: string;
+  // The model's paragraph breakdown of the last generated or loaded letter
+  paragraphs?: CoverLetterParagraph[];
+  versions: CoverLetterVersion[];
+}
+
+export type WorkArrangement = 'remote' | 'hybrid' | 'onsite';
+export type EmploymentType = 'full-time' | 'part-time' | 'contract' | 'temporary' | 'internship';
+export type Seniority = 'intern' | 'entry' | 'mid' | 'senior' | 'lead' | 'manager' | 'director' | 'executive';
+export type SalaryPeriod = 'hour' | 'day' | 'week' | 'month' | 'year';
+
+export interface SalaryRange {
+  // Annual amounts; equal when the posting gives a single figure
+  min: number;
+  max: number;
+  currency: string;
+  // How the posting quoted it, before annualizing
+  period: SalaryPeriod;
+}
+
+// Facts extracted from a job's description (and its page's JSON-LD, when fetched)
+export interface PostingFacts {
+  salary: SalaryRange | null;
+  locations: string[];
+  workArrangement: WorkArrangement | null;
+  employmentType: EmploymentType | null;
+  seniority: Seniority | null;
+  // YYYY-MM-DD
+  deadline: string | null;
+}
+
 export interface Job {
   id: string;
   url: string;
@@ -30,7 +145,66 @@ export interface Job {
   isLoading: boolean;
   error: string | null;
   analysis: JobAnalysis | null;
+  // Sections received so far while an analysis streams in
+  partialAnalysis?: Partial<JobAnalysis> | null;
   analyzedAt?: string;
+  status: ApplicationStatus;
+  statusHistory: StatusChange[];
+  coverLetter?: CoverLetterWorkspace | null;
+  facts?: PostingFacts | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// The persisted part of a Job; fetch/analysis progress flags only live in the UI
+export type StoredJob = Omit<Job, 'isFetching' | 'isLoading' | 'error' | 'partialAnalysis'>;
+
+export interface User {
+  id: string;
+  username: string;
+}
+
+export type ResumeSectionKind = 'experience' | 'education' | 'skills' | 'certificates' | 'other';
+
+export interface ResumeDateRange {
+  start: string;
+  // "Present" for a current role; empty when only one date was given
+  end: string;
+}
+
+export interface ResumeExperienceEntry {
+  title: string;
+  company: string;
+  dates: ResumeDateRange | null;
+  // Lines of the entry that aren't bullets
+  details: string[];
+  bullets: string[];
+}
+
+export interface ResumeEducationEntry {
+  degree: string;
+  school: string;
+  details: string[];
+}
+
+export type ResumeSection = {
+  heading: string;
+  // The section's original lines, kept when it isn't laid out like the template
+  raw?: string[];
+} & (
+  | { kind: 'experience'; entries: ResumeExperienceEntry[] }
+  | { kind: 'education'; entries: ResumeEducationEntry[] }
+  | { kind: 'skills' | 'certificates'; items: string[] }
+  | { kind: 'other'; lines: string[] }
+);
+
+// Resume text parsed into sections (server/resumeParser.js); renders back to the exact text
+export interface StructuredResume {
+  version: number;
+  lineEnding: '\n' | '\r\n';
+  // Lines above the first section heading: name and contact details
+  header: string[];
+  sections: ResumeSection[];
 }
 
 export interface SavedResume {
@@ -39,13 +213,49 @@ export interface SavedResume {
   content: string;
   jobDescription: string;
   savedAt: string;
+  // Number of the revision `content` currently holds
+  revision?: number;
+  // Parsed form of `content`; missing when it was saved while the server was unreachable
+  structured?: StructuredResume;
+  // Saved searches analyze their new hits against the default resume
+  isDefault?: boolean;
 }
 
+export interface ResumeRevision {
+  revision: number;
+  content: string;
+  savedAt: string;
+  // Set when this revision was created by restoring an older one
+  restoredFrom?: number;
+}
+
+export type JobSite = 'linkedin.com/jobs' | 'indeed.com' | 'myworkdayjobs.com';
+
 export interface JobListing {
   title: string;
   company: string;
   url: string;
   snippet: string;
+  location?: string;
+  postedAt?: string;
+  source?: JobSite;
+}
+
+// What /api/fetch-description read from a job's page
+export interface FetchedJobPosting {
+  title: string;
+  company: string;
+  text: string;
+  // 'jsonLd': the page's schema.org JobPosting; 'html': its main content; 'model': web search
+  source: 'jsonLd' | 'html' | 'model';
+  facts: PostingFacts;
+}
+
+export interface JobSearchResult {
+  jobs: JobListing[];
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
 }
 
 export interface HiringCafeJob {
@@ -57,7 +267,41 @@ export interface HiringCafeJob {
   url: string;
   tags: string[];
   company_logo_url: string;
-  posted_at: string;
+  // null when hiring.cafe gave no date
+  posted_at: string | null;
+}
+
+// Days back from now; the server accepts only these windows
+export type HiringCafePostedWithin = 1 | 7 | 30;
+
+export interface HiringCafeQuery {
+  q?: string;
+  location?: string;
+  // A job must carry every selected tag
+  tags?: string[];
+  postedWithin?: HiringCafePostedWithin;
+  page?: number;
+  pageSize?: number;
+  // Fetch the feed again instead of using the server's cached copy
+  refresh?: boolean;
+}
+
+export interface HiringCafeTagFacet {
+  tag: string;
+  // Jobs among the current results carrying the tag
+  count: number;
+}
+
+export interface HiringCafeSearchResult {
+  jobs: HiringCafeJob[];
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+  facets: { tags: HiringCafeTagFacet[] };
+  fetchedAt: string;
+  // The feed couldn't be refreshed, so these come from an older copy
+  stale: boolean;
 }
 
 export interface DistanceResult {
@@ -65,4 +309,119 @@ export interface DistanceResult {
     unit: string;
     originAddress: string;
     destinationAddress: string;
-}
\ No newline at end of file
+}
+
+export interface ResumeCitation {
+    line: number;
+    text: string;
+}
+
+export interface ResumeQATurn {
+    role: 'user' | 'assistant';
+    content: string;
+    citations?: ResumeCitation[];
+}
+
+export interface ResumeQAAnswer {
+    answer: string;
+    citations: ResumeCitation[];
+}
+
+// Where a saved search looks: hiring.cafe's feed or one of the search page's sites
+export type SavedSearchSource = 'hiring.cafe' | JobSite;
+
+// How often the server polls a saved search, in minutes
+export type SavedSearchInterval = 60 | 360 | 1440;
+
+export interface SavedSearchInput {
+  name: string;
+  keywords: string;
+  tags: string[];
+  location: string;
+  sources: SavedSearchSource[];
+  // Hits scoring lower against the default resume are left out of the inbox (0 keeps them all)
+  minMatchScore: number;
+  // Run the full analysis on every new hit rather than only scoring it
+  autoAnalyze: boolean;
+  intervalMinutes: SavedSearchInterval;
+}
+
+export interface SavedSearch extends SavedSearchInput {
+  id: string;
+  lastPolledAt: string | null;
+  nextPollAt: string;
+  // Sources that failed on the last poll, or why its hits couldn't be scored
+  lastError: string | null;
+  createdAt: string;
+}
+
+// A listing a saved search found that wasn't seen before
+export interface SearchHit {
+  id: string;
+  searchId: string;
+  source: SavedSearchSource;
+  title: string;
+  company: string;
+  url: string;
+  location: string;
+  snippet: string;
+  // Empty when only a snippet was available
+  description: string;
+  postedAt: string;
+  // Against the default resume; null when there was none to score against
+  matchScore: number | null;
+  // Set when the search auto-analyzes its hits
+  analysis: JobAnalysis | null;
+  foundAt: string;
+  readAt: string | null;
+}
+
+export type AgencyInteractionType = 'call' | 'email' | 'meeting' | 'submission' | 'note';
+
+// A recruiter at an agency
+export interface AgencyContact {
+  id: string;
+  name: string;
+  title: string;
+  email: string;
+  phone: string;
+}
+
+export interface AgencyInteraction {
+  id: string;
+  type: AgencyInteractionType;
+  date: string;
+  // The recruiter it was with, if any
+  contactId: string | null;
+  summary: string;
+  // Submissions name the job; title and company are kept in case the job is deleted
+  jobId: string | null;
+  jobTitle: string;
+  company: string;
+  createdAt: string;
+}
+
+export interface Agency {
+  id: string;
+  name: string;
+  website: string;
+  email: string;
+  phone: string;
+  specialties: string[];
+  notes: string;
+  contacts: AgencyContact[];
+  // Oldest first
+  interactions: AgencyInteraction[];
+  followUpAt: string | null;
+  followUpNote: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export type AgencyInput = Omit<Agency, 'id' | 'interactions' | 'createdAt' | 'updatedAt'>;
+
+export type NewAgencyInteraction = Omit<AgencyInteraction, 'id' | 'createdAt'> & {
+  // Replaces the agency's next follow-up when given (null clears it)
+  followUpAt?: string | null;
+  followUpNote?: string;
+};